@@ -18,7 +18,9 @@ import { PricesModule } from './modules/prices/prices.module';
 import { SnapshotsModule } from './modules/snapshots/snapshots.module';
 import { SettingsModule } from './modules/settings/settings.module';
 import { PnlModule } from './modules/pnl/pnl.module';
+import { IncomeModule } from './modules/income/income.module';
 import { HealthModule } from './modules/health/health.module';
+import { QueueModule } from './modules/queue/queue.module';
 import { JobsModule } from './jobs/jobs.module';
 import { NotificationsModule } from './modules/notifications/notifications.module';
 
@@ -56,8 +58,10 @@ import { NotificationsModule } from './modules/notifications/notifications.modul
     SnapshotsModule,
     SettingsModule,
     PnlModule,
+    IncomeModule,
     HealthModule,
     NotificationsModule,
+    QueueModule,
 
     // Jobs
     JobsModule,
@@ -0,0 +1,6 @@
+export enum CostBasisMethod {
+  FIFO = 'fifo',
+  LIFO = 'lifo',
+  HIFO = 'hifo',
+  AVERAGE = 'average',
+}
@@ -0,0 +1,6 @@
+export enum ReportingCurrency {
+  USD = 'USD',
+  EUR = 'EUR',
+  ARS = 'ARS',
+  BRL = 'BRL',
+}
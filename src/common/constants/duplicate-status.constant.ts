@@ -0,0 +1,6 @@
+export enum DuplicateStatus {
+  PENDING = 'pending',
+  MERGED = 'merged',
+  SUPPRESSED = 'suppressed',
+  DISMISSED = 'dismissed',
+}
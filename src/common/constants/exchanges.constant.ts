@@ -4,6 +4,14 @@ export enum ExchangeType {
   BINANCE_MANUAL = 'binance-manual',
   NEXO_PRO = 'nexo-pro',
   NEXO_MANUAL = 'nexo-manual',
+  MANUAL = 'manual',
 }
 
 export const SUPPORTED_EXCHANGES = Object.values(ExchangeType);
+
+// No API to sync from: transactions come from file imports or manual entry
+export const OFFLINE_EXCHANGES: string[] = [
+  ExchangeType.NEXO_MANUAL,
+  ExchangeType.BINANCE_MANUAL,
+  ExchangeType.MANUAL,
+];
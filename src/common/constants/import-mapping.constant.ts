@@ -0,0 +1,11 @@
+export enum AmountSign {
+  // Negative amounts leave the account: withdrawals and sells
+  SIGNED = 'signed',
+  // Amounts are always positive; the type column gives the direction
+  ABSOLUTE = 'absolute',
+}
+
+// Date formats besides token patterns such as `DD.MM.YYYY HH:mm`
+export const SPECIAL_DATE_FORMATS = ['iso', 'unix', 'unix-ms'];
+
+export const DATE_FORMAT_TOKENS = ['YYYY', 'MM', 'DD', 'HH', 'mm', 'ss'];
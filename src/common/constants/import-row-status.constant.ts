@@ -0,0 +1,7 @@
+export enum ImportRowStatus {
+  NEW = 'new',
+  DUPLICATE = 'duplicate',
+  INTERNAL_TRANSFER = 'internal-transfer',
+  UNSUPPORTED = 'unsupported',
+  ERROR = 'error',
+}
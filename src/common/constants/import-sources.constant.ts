@@ -0,0 +1,11 @@
+export enum ImportSource {
+  NEXO_CSV = 'nexo-csv',
+  BINANCE_DEPOSITS = 'binance-deposits',
+  BINANCE_WITHDRAWALS = 'binance-withdrawals',
+  BINANCE_TRANSACTIONS = 'binance-transactions',
+  KRAKEN_LEDGER = 'kraken-ledger',
+  KRAKEN_TRADES = 'kraken-trades',
+  MAPPED = 'mapped',
+  KOINLY_CSV = 'koinly-csv',
+  COINTRACKING_CSV = 'cointracking-csv',
+}
@@ -0,0 +1,19 @@
+export enum JobType {
+  SYNC = 'sync',
+  PNL_RECALCULATION = 'pnl-recalculation',
+  REBUILD_HISTORY = 'rebuild-history',
+}
+
+export enum JobStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+export const FINISHED_JOB_STATUSES = [
+  JobStatus.COMPLETED,
+  JobStatus.FAILED,
+  JobStatus.CANCELLED,
+];
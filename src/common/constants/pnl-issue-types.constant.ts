@@ -0,0 +1,7 @@
+export enum PnlIssueType {
+  UNCOVERED_DISPOSAL = 'uncovered_disposal',
+  ZERO_PRICE = 'zero_price',
+  NEGATIVE_BALANCE = 'negative_balance',
+  MISSING_GIFT_BASIS = 'missing_gift_basis',
+  PROCESSING_FAILED = 'processing_failed',
+}
@@ -0,0 +1,17 @@
+export enum SyncRunStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+export enum SyncRunStage {
+  FETCHING = 'fetching',
+  SAVING = 'saving',
+  PROCESSING = 'processing', // P&L and duplicate detection
+  DONE = 'done',
+}
+
+export enum SyncTrigger {
+  SCHEDULED = 'scheduled',
+  MANUAL = 'manual',
+}
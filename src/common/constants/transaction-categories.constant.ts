@@ -0,0 +1,40 @@
+import { TransactionType } from './transaction-types.constant';
+
+/**
+ * User override of what a deposit or withdrawal is for tax purposes
+ */
+export enum TransactionCategory {
+  GIFT = 'gift', // Received with the donor's cost basis; given away without a sale
+  AIRDROP = 'airdrop', // Income at market value on receipt
+  LOST = 'lost', // Lost or stolen coins, removed without a sale
+  PAYMENT = 'payment', // Payment for services: income when received, a sale when paid
+}
+
+// Transaction types each category can be set on
+export const CATEGORY_TRANSACTION_TYPES: Record<
+  TransactionCategory,
+  TransactionType[]
+> = {
+  [TransactionCategory.GIFT]: [
+    TransactionType.DEPOSIT,
+    TransactionType.WITHDRAWAL,
+  ],
+  [TransactionCategory.AIRDROP]: [TransactionType.DEPOSIT],
+  [TransactionCategory.LOST]: [TransactionType.WITHDRAWAL],
+  [TransactionCategory.PAYMENT]: [
+    TransactionType.DEPOSIT,
+    TransactionType.WITHDRAWAL,
+  ],
+};
+
+// Acquisitions reported as income
+export const INCOME_CATEGORIES: string[] = [
+  TransactionCategory.AIRDROP,
+  TransactionCategory.PAYMENT,
+];
+
+// Disposals that remove lots without proceeds or a gain
+export const NON_SALE_CATEGORIES: string[] = [
+  TransactionCategory.GIFT,
+  TransactionCategory.LOST,
+];
@@ -0,0 +1,5 @@
+export enum TransferMatchStatus {
+  AUTO = 'auto',
+  MANUAL = 'manual',
+  REJECTED = 'rejected',
+}
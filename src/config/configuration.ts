@@ -25,4 +25,14 @@ export default () => ({
     widgetRefresh: process.env.CRON_WIDGET_REFRESH !== 'false',
     priceHistory: process.env.CRON_PRICE_HISTORY !== 'false',
   },
+  queue: {
+    // Run queued jobs in this process (default: true)
+    workerEnabled: process.env.QUEUE_WORKER_ENABLED !== 'false',
+    // Jobs running at once in this process
+    concurrency: parseInt(process.env.QUEUE_CONCURRENCY, 10) || 3,
+    // Syncs running at once against the same exchange, across processes
+    syncConcurrencyPerExchange:
+      parseInt(process.env.QUEUE_SYNC_CONCURRENCY_PER_EXCHANGE, 10) || 2,
+    pollIntervalMs: parseInt(process.env.QUEUE_POLL_INTERVAL_MS, 10) || 2000,
+  },
 });
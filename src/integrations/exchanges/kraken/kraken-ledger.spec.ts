@@ -0,0 +1,98 @@
+import {
+  groupKrakenLedger,
+  krakenSwapTrade,
+  normalizeKrakenAsset,
+  splitKrakenPair,
+} from './kraken-ledger';
+
+describe('kraken-ledger', () => {
+  describe('normalizeKrakenAsset', () => {
+    it('maps legacy codes and staked balances to tickers', () => {
+      expect(normalizeKrakenAsset('XXBT')).toBe('BTC');
+      expect(normalizeKrakenAsset('ZEUR')).toBe('EUR');
+      expect(normalizeKrakenAsset('ETH2.S')).toBe('ETH');
+      expect(normalizeKrakenAsset('DOT.S')).toBe('DOT');
+      expect(normalizeKrakenAsset('SOL')).toBe('SOL');
+    });
+  });
+
+  describe('groupKrakenLedger', () => {
+    it('groups entries by refid in order of appearance', () => {
+      const entries = [
+        { refid: 'A', asset: 'ZEUR' },
+        { refid: 'B', asset: 'XXBT' },
+        { refid: 'A', asset: 'XXBT' },
+      ];
+
+      const grouped = groupKrakenLedger(entries, (e) => e.refid);
+
+      expect([...grouped.keys()]).toEqual(['A', 'B']);
+      expect(grouped.get('A')).toEqual([entries[0], entries[2]]);
+      expect(grouped.get('B')).toEqual([entries[1]]);
+    });
+
+    it('returns an empty map for no entries', () => {
+      expect(groupKrakenLedger([], () => '').size).toBe(0);
+    });
+  });
+
+  describe('splitKrakenPair', () => {
+    it.each([
+      ['XXBTZEUR', ['BTC', 'EUR']],
+      ['XETHXXBT', ['ETH', 'BTC']],
+      ['DOTEUR', ['DOT', 'EUR']],
+      ['ETHUSDT', ['ETH', 'USDT']],
+      ['SOLUSD', ['SOL', 'USD']],
+      ['BTC/EUR', ['BTC', 'EUR']],
+      ['XBT/USDC', ['BTC', 'USDC']],
+    ])('splits %s', (pair, expected) => {
+      expect(splitKrakenPair(pair)).toEqual(expected);
+    });
+
+    it('rejects pairs without a known quote', () => {
+      expect(() => splitKrakenPair('FOOBAR')).toThrow(
+        'Unknown Kraken pair: FOOBAR',
+      );
+      expect(() => splitKrakenPair('EUR')).toThrow();
+    });
+  });
+
+  describe('krakenSwapTrade', () => {
+    const timestamp = new Date('2024-01-15T14:30:00Z');
+
+    it('books spending fiat as a buy of the received asset', () => {
+      const trade = krakenSwapTrade(
+        'REF1',
+        { asset: 'ZEUR', amount: -200, timestamp, raw: {} },
+        { asset: 'XXBT', amount: 0.005, timestamp, raw: {} },
+      );
+
+      expect(trade).toMatchObject({
+        externalId: 'ledger-REF1',
+        type: 'trade',
+        asset: 'BTC',
+        amount: 0.005,
+        price: 40000,
+        priceAsset: 'EUR',
+        pair: 'BTC/EUR',
+        side: 'buy',
+      });
+    });
+
+    it('books spending crypto as a sell of the spent asset', () => {
+      const trade = krakenSwapTrade(
+        'REF2',
+        { asset: 'XETH', amount: -2, timestamp, raw: {} },
+        { asset: 'XXBT', amount: 0.1, timestamp, raw: {} },
+      );
+
+      expect(trade).toMatchObject({
+        asset: 'ETH',
+        amount: 2,
+        price: 0.05,
+        priceAsset: 'BTC',
+        side: 'sell',
+      });
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { ITransaction } from '../../../common/interfaces/exchange-adapter.interface';
+
+// Kraken's legacy asset codes and the tickers everyone else uses
+const KRAKEN_ASSETS: Record<string, string> = {
+  XBT: 'BTC',
+  XXBT: 'BTC',
+  XDG: 'DOGE',
+  XXDG: 'DOGE',
+  XETH: 'ETH',
+  ETH2: 'ETH',
+  XETC: 'ETC',
+  XLTC: 'LTC',
+  XXRP: 'XRP',
+  XXLM: 'XLM',
+  XXMR: 'XMR',
+  XZEC: 'ZEC',
+  XREP: 'REP',
+  XMLN: 'MLN',
+  ZUSD: 'USD',
+  ZEUR: 'EUR',
+  ZGBP: 'GBP',
+  ZCAD: 'CAD',
+  ZJPY: 'JPY',
+  ZAUD: 'AUD',
+};
+
+// Spending one of these buys the other asset of a swap
+const KRAKEN_QUOTE_ASSETS = ['USD', 'USDT', 'USDC', 'EUR', 'GBP'];
+
+/**
+ * One side of a ledger movement, from the API or from ledgers.csv
+ */
+export interface KrakenLedgerLeg {
+  asset: string;
+  amount: number;
+  timestamp: Date;
+  raw: Record<string, unknown>;
+}
+
+/**
+ * Map a Kraken asset code to its ticker. Staked and earn balances
+ * (`DOT.S`, `ETH2.S`, `USDC.M`...) count as the asset itself.
+ */
+export function normalizeKrakenAsset(asset: string): string {
+  const code = asset.split('.')[0];
+  return KRAKEN_ASSETS[code] || code;
+}
+
+/**
+ * Ledger entries sharing a refid belong to the same operation, e.g. the
+ * spend and receive side of an instant buy
+ */
+export function groupKrakenLedger<T>(
+  entries: T[],
+  refIdOf: (entry: T) => string,
+): Map<string, T[]> {
+  const grouped = new Map<string, T[]>();
+  for (const entry of entries) {
+    const refId = refIdOf(entry);
+    if (!grouped.has(refId)) {
+      grouped.set(refId, []);
+    }
+    grouped.get(refId)!.push(entry);
+  }
+  return grouped;
+}
+
+/**
+ * Trade made of a spend and a receive entry (buy, sell or convert).
+ * Spending a fiat or stablecoin is a buy of the other asset, anything else
+ * a sell of the spent one.
+ */
+export function krakenSwapTrade(
+  refId: string,
+  spend: KrakenLedgerLeg,
+  receive: KrakenLedgerLeg,
+): ITransaction {
+  const spentAsset = normalizeKrakenAsset(spend.asset);
+  const receivedAsset = normalizeKrakenAsset(receive.asset);
+  const spentAmount = Math.abs(spend.amount);
+  const receivedAmount = Math.abs(receive.amount);
+  const isBuy = KRAKEN_QUOTE_ASSETS.includes(spentAsset);
+
+  const baseAsset = isBuy ? receivedAsset : spentAsset;
+  const quoteAsset = isBuy ? spentAsset : receivedAsset;
+  const amount = isBuy ? receivedAmount : spentAmount;
+  const price = isBuy
+    ? spentAmount / receivedAmount
+    : receivedAmount / spentAmount;
+
+  return {
+    externalId: `ledger-${refId}`,
+    type: 'trade',
+    asset: baseAsset,
+    amount,
+    price,
+    priceAsset: quoteAsset,
+    pair: `${baseAsset}/${quoteAsset}`,
+    side: isBuy ? 'buy' : 'sell',
+    timestamp: spend.timestamp || receive.timestamp,
+    rawData: {
+      spendEntry: spend.raw,
+      receiveEntry: receive.raw,
+      refId,
+    },
+  };
+}
+
+// Quote assets of Kraken pair names, longest first so USDT wins over USD
+const KRAKEN_PAIR_QUOTES = [
+  'ZEUR',
+  'ZUSD',
+  'ZGBP',
+  'ZCAD',
+  'ZJPY',
+  'ZAUD',
+  'XXBT',
+  'XETH',
+  'USDT',
+  'USDC',
+  'EUR',
+  'USD',
+  'GBP',
+  'CAD',
+  'JPY',
+  'AUD',
+  'CHF',
+  'XBT',
+  'BTC',
+  'ETH',
+  'DAI',
+];
+
+/**
+ * Split a pair as written in trades.csv (`XXBTZEUR`, `DOTEUR`, `BTC/EUR`)
+ * into base and quote tickers
+ */
+export function splitKrakenPair(pair: string): [string, string] {
+  if (pair.includes('/')) {
+    const [base, quote] = pair.split('/');
+    return [normalizeKrakenAsset(base), normalizeKrakenAsset(quote)];
+  }
+  for (const quote of KRAKEN_PAIR_QUOTES) {
+    if (pair.length > quote.length && pair.endsWith(quote)) {
+      return [
+        normalizeKrakenAsset(pair.slice(0, -quote.length)),
+        normalizeKrakenAsset(quote),
+      ];
+    }
+  }
+  throw new Error(`Unknown Kraken pair: ${pair}`);
+}
@@ -5,6 +5,12 @@ import {
   ITransaction,
   IPrice,
 } from '../../../common/interfaces/exchange-adapter.interface';
+import {
+  KrakenLedgerLeg,
+  groupKrakenLedger,
+  krakenSwapTrade,
+  normalizeKrakenAsset,
+} from './kraken-ledger';
 
 export class KrakenAdapter extends BaseExchangeAdapter {
   readonly exchangeName = 'kraken';
@@ -22,6 +28,13 @@ export class KrakenAdapter extends BaseExchangeAdapter {
     });
   }
 
+  /**
+   * Same mapping as the ledger CSV import, so both paths book the same assets
+   */
+  protected normalizeAsset(asset: string): string {
+    return normalizeKrakenAsset(asset);
+  }
+
   async testConnection(): Promise<boolean> {
     try {
       await this.client.fetchBalance();
@@ -261,22 +274,15 @@ export class KrakenAdapter extends BaseExchangeAdapter {
 
       this.logger.log(`Fetched ${ledgerEntries.length} ledger entries from Kraken`);
 
-      // Group ledger entries by refid to pair spend/receive operations
-      const groupedByRef = new Map<string, ccxt.LedgerEntry[]>();
-
-      for (const entry of ledgerEntries) {
-        // Skip entries that are already covered by deposits/withdrawals/trades
-        const entryType = entry.info?.type as string;
-        if (['deposit', 'withdrawal'].includes(entryType)) {
-          continue;
-        }
-
-        const refId = entry.referenceId || entry.id;
-        if (!groupedByRef.has(refId)) {
-          groupedByRef.set(refId, []);
-        }
-        groupedByRef.get(refId)!.push(entry);
-      }
+      // Group ledger entries by refid to pair spend/receive operations.
+      // Deposits and withdrawals are already covered by their own endpoints.
+      const groupedByRef = groupKrakenLedger(
+        ledgerEntries.filter(
+          (entry) =>
+            !['deposit', 'withdrawal'].includes(entry.info?.type as string),
+        ),
+        (entry) => entry.referenceId || entry.id,
+      );
 
       const transactions: ITransaction[] = [];
 
@@ -287,45 +293,21 @@ export class KrakenAdapter extends BaseExchangeAdapter {
 
         if (spendEntry && receiveEntry) {
           // This is a buy/sell/convert operation
-          const spentAsset = this.normalizeAsset(spendEntry.currency);
-          const receivedAsset = this.normalizeAsset(receiveEntry.currency);
-          const spentAmount = Math.abs(spendEntry.amount);
-          const receivedAmount = Math.abs(receiveEntry.amount);
-
-          // Determine if it's a buy or sell based on which asset is the quote currency
-          const stablecoins = ['USD', 'USDT', 'USDC', 'EUR', 'GBP'];
-          const isBuy = stablecoins.includes(spentAsset);
-
-          const baseAsset = isBuy ? receivedAsset : spentAsset;
-          const quoteAsset = isBuy ? spentAsset : receivedAsset;
+          const trade = krakenSwapTrade(
+            refId,
+            this.toLedgerLeg(spendEntry),
+            this.toLedgerLeg(receiveEntry),
+          );
 
           // Filter by configured base assets if provided
-          if (configuredBaseAssets.size > 0 && !configuredBaseAssets.has(baseAsset)) {
+          if (configuredBaseAssets.size > 0 && !configuredBaseAssets.has(trade.asset)) {
             continue;
           }
 
-          const amount = isBuy ? receivedAmount : spentAmount;
-          const price = isBuy ? spentAmount / receivedAmount : receivedAmount / spentAmount;
-
-          transactions.push({
-            externalId: `ledger-${refId}`,
-            type: 'trade' as const,
-            asset: baseAsset,
-            amount,
-            price,
-            priceAsset: quoteAsset,
-            pair: `${baseAsset}/${quoteAsset}`,
-            side: isBuy ? 'buy' : 'sell',
-            timestamp: new Date(spendEntry.timestamp || receiveEntry.timestamp),
-            rawData: {
-              spendEntry: spendEntry.info,
-              receiveEntry: receiveEntry.info,
-              refId,
-            } as Record<string, unknown>,
-          });
+          transactions.push(trade);
 
           this.logger.debug(
-            `Ledger ${isBuy ? 'BUY' : 'SELL'}: ${amount} ${baseAsset} @ ${price} ${quoteAsset}`,
+            `Ledger ${trade.side.toUpperCase()}: ${trade.amount} ${trade.asset} @ ${trade.price} ${trade.priceAsset}`,
           );
         }
       }
@@ -336,4 +318,13 @@ export class KrakenAdapter extends BaseExchangeAdapter {
       this.handleError(error as Error, 'fetchLedger');
     }
   }
+
+  private toLedgerLeg(entry: ccxt.LedgerEntry): KrakenLedgerLeg {
+    return {
+      asset: entry.currency,
+      amount: entry.amount,
+      timestamp: new Date(entry.timestamp),
+      raw: entry.info as Record<string, unknown>,
+    };
+  }
 }
@@ -3,6 +3,7 @@ import { ConfigService } from '@nestjs/config';
 import { Cron } from '@nestjs/schedule';
 import { TransactionsService } from '../modules/transactions/transactions.service';
 import { ExchangeCredentialsService } from '../modules/exchange-credentials/exchange-credentials.service';
+import { SyncTrigger } from '../common/constants/sync-run.constant';
 
 @Injectable()
 export class SyncTransactionsJob {
@@ -39,9 +40,12 @@ export class SyncTransactionsJob {
 
       for (const credential of credentials) {
         try {
-          const newTransactions = await this.transactionsService.syncFromExchange(
-            credential._id,
-          );
+          const newTransactions =
+            await this.transactionsService.syncFromExchange(
+              credential._id,
+              false,
+              SyncTrigger.SCHEDULED,
+            );
           syncedCount += newTransactions;
 
           await this.credentialsService.updateLastSync(credential._id);
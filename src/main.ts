@@ -18,6 +18,9 @@ async function bootstrap() {
     credentials: true,
   });
 
+  // Lets the job queue hand running jobs back on SIGTERM
+  app.enableShutdownHooks();
+
   // WebSocket adapter for Socket.io
   app.useWebSocketAdapter(new IoAdapter(app));
 
@@ -6,6 +6,7 @@ import {
   ApiBearerAuth,
 } from '@nestjs/swagger';
 import { BalancesService } from './balances.service';
+import { SettingsService } from '../settings/settings.service';
 import {
   AssetBalanceDto,
   ExchangeBalanceDto,
@@ -19,7 +20,10 @@ import { CurrentUser } from '../../common/decorators/current-user.decorator';
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class BalancesController {
-  constructor(private readonly balancesService: BalancesService) {}
+  constructor(
+    private readonly balancesService: BalancesService,
+    private readonly settingsService: SettingsService,
+  ) {}
 
   @Get()
   @ApiOperation({ summary: 'Get consolidated balances from all exchanges' })
@@ -27,7 +31,8 @@ export class BalancesController {
   async getConsolidatedBalances(
     @CurrentUser('userId') userId: string,
   ): Promise<ConsolidatedBalanceDto> {
-    return this.balancesService.getConsolidatedBalances(userId);
+    const currency = await this.settingsService.getReportingCurrency(userId);
+    return this.balancesService.getConsolidatedBalances(userId, currency);
   }
 
   @Get('by-exchange')
@@ -36,7 +41,8 @@ export class BalancesController {
   async getBalancesByExchange(
     @CurrentUser('userId') userId: string,
   ): Promise<ExchangeBalanceDto[]> {
-    return this.balancesService.getBalancesByExchange(userId);
+    const currency = await this.settingsService.getReportingCurrency(userId);
+    return this.balancesService.getBalancesByExchange(userId, currency);
   }
 
   @Get('by-asset')
@@ -45,7 +51,8 @@ export class BalancesController {
   async getBalancesByAsset(
     @CurrentUser('userId') userId: string,
   ): Promise<AssetBalanceDto[]> {
-    return this.balancesService.getBalancesByAsset(userId);
+    const currency = await this.settingsService.getReportingCurrency(userId);
+    return this.balancesService.getBalancesByAsset(userId, currency);
   }
 
   @Get('credential/:credentialId')
@@ -64,6 +71,7 @@ export class BalancesController {
   async refreshBalances(
     @CurrentUser('userId') userId: string,
   ): Promise<ConsolidatedBalanceDto> {
-    return this.balancesService.getConsolidatedBalances(userId);
+    const currency = await this.settingsService.getReportingCurrency(userId);
+    return this.balancesService.getConsolidatedBalances(userId, currency);
   }
 }
@@ -12,12 +12,18 @@ import { Server, Socket } from 'socket.io';
 import { Logger } from '@nestjs/common';
 import { OnEvent } from '@nestjs/event-emitter';
 import { ConsolidatedBalanceDto } from './dto/balance-response.dto';
+import { SyncRunDto } from '../transactions/dto/sync-run.dto';
 
 interface BalanceUpdatedPayload {
   userId: string;
   data: ConsolidatedBalanceDto;
 }
 
+interface SyncProgressPayload {
+  userId: string;
+  data: SyncRunDto;
+}
+
 @WebSocketGateway({
   cors: {
     origin: true,
@@ -74,4 +80,11 @@ export class BalancesGateway
     this.logger.log(`Emitting balance update for user: ${payload.userId}`);
     this.server.to(`user:${payload.userId}`).emit('balance:updated', payload.data);
   }
+
+  @OnEvent('sync.progress')
+  handleSyncProgress(payload: SyncProgressPayload): void {
+    this.server
+      .to(`user:${payload.userId}`)
+      .emit('sync:progress', payload.data);
+  }
 }
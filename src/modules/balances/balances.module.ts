@@ -6,6 +6,7 @@ import { BalancesGateway } from './balances.gateway';
 import { ExchangeCredentialsModule } from '../exchange-credentials/exchange-credentials.module';
 import { ExchangesModule } from '../../integrations/exchanges/exchanges.module';
 import { PricesModule } from '../prices/prices.module';
+import { SettingsModule } from '../settings/settings.module';
 import { TransactionsModule } from '../transactions/transactions.module';
 import {
   CachedBalance,
@@ -20,6 +21,7 @@ import {
     ExchangeCredentialsModule,
     ExchangesModule,
     PricesModule,
+    SettingsModule,
     forwardRef(() => TransactionsModule),
   ],
   controllers: [BalancesController],
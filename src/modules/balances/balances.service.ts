@@ -5,9 +5,12 @@ import { EventEmitter2 } from '@nestjs/event-emitter';
 import { ExchangeCredentialsService } from '../exchange-credentials/exchange-credentials.service';
 import { ExchangeFactoryService } from '../../integrations/exchanges/exchange-factory.service';
 import { PricesService } from '../prices/prices.service';
+import { FxRatesService } from '../prices/fx-rates.service';
 import { TransactionsService } from '../transactions/transactions.service';
 import { IBalance, IExchangeAdapter } from '../../common/interfaces/exchange-adapter.interface';
 import { ExchangeType } from '../../common/constants/exchanges.constant';
+import { TransactionType } from '../../common/constants/transaction-types.constant';
+import { ReportingCurrency } from '../../common/constants/currencies.constant';
 import { NexoManualTransaction } from '../../integrations/exchanges/nexo-manual/nexo-manual.adapter';
 import { BinanceManualTransaction } from '../../integrations/exchanges/binance-manual/binance-manual.adapter';
 import {
@@ -32,6 +35,7 @@ export class BalancesService {
     private readonly credentialsService: ExchangeCredentialsService,
     private readonly exchangeFactory: ExchangeFactoryService,
     private readonly pricesService: PricesService,
+    private readonly fxRatesService: FxRatesService,
     @Inject(forwardRef(() => TransactionsService))
     private readonly transactionsService: TransactionsService,
     private readonly eventEmitter: EventEmitter2,
@@ -43,7 +47,7 @@ export class BalancesService {
    * - LDETH -> ETH
    * etc.
    */
-  private normalizeAsset(asset: string): string {
+  normalizeAsset(asset: string): string {
     // Binance Locked Defi products have "LD" prefix
     if (asset.startsWith('LD') && asset.length > 2) {
       return asset.substring(2);
@@ -60,6 +64,52 @@ export class BalancesService {
     });
   }
 
+  /**
+   * Balances of a manual wallet are the sum of its transactions. Trades are
+   * split into signed legs so the quote asset is debited or credited too.
+   */
+  private createManualWalletAdapter(
+    credentialId: string,
+    userId: string,
+  ): IExchangeAdapter {
+    const fetchTransactions = async (): Promise<BinanceManualTransaction[]> => {
+      const transactions = await this.transactionsService.findByCredential(
+        credentialId,
+        userId,
+      );
+      return transactions.flatMap((tx) => {
+        const legs: BinanceManualTransaction[] = [];
+        if (tx.type === TransactionType.TRADE) {
+          const sign = tx.side === 'sell' ? -1 : 1;
+          legs.push({
+            type: tx.type,
+            asset: tx.asset,
+            amount: sign * tx.amount,
+          });
+          const quoteAmount = tx.total || tx.amount * (tx.price || 0);
+          if (tx.priceAsset && quoteAmount > 0) {
+            legs.push({
+              type: tx.type,
+              asset: tx.priceAsset,
+              amount: -sign * quoteAmount,
+            });
+          }
+        } else {
+          legs.push({ type: tx.type, asset: tx.asset, amount: tx.amount });
+        }
+        if (tx.fee) {
+          legs.push({
+            type: TransactionType.FEE,
+            asset: tx.feeAsset || tx.asset,
+            amount: tx.fee,
+          });
+        }
+        return legs;
+      });
+    };
+    return this.exchangeFactory.createBinanceManualAdapter(fetchTransactions);
+  }
+
   /**
    * Save balance to cache
    */
@@ -130,9 +180,21 @@ export class BalancesService {
   }
 
   /**
-   * Get consolidated balances (returns cache if available, syncs in background)
+   * Get consolidated balances (returns cache if available, syncs in background).
+   * Values are converted from USD at the current rate when another
+   * reporting currency is given.
    */
-  async getConsolidatedBalances(userId: string): Promise<ConsolidatedBalanceDto> {
+  async getConsolidatedBalances(
+    userId: string,
+    currency: ReportingCurrency = ReportingCurrency.USD,
+  ): Promise<ConsolidatedBalanceDto> {
+    const balances = await this.loadConsolidatedBalances(userId);
+    return this.toReportingCurrency(balances, currency);
+  }
+
+  private async loadConsolidatedBalances(
+    userId: string,
+  ): Promise<ConsolidatedBalanceDto> {
     // 1. Check for cached balance
     const cached = await this.getCachedBalance(userId);
 
@@ -218,6 +280,11 @@ export class BalancesService {
             }));
           };
           adapter = this.exchangeFactory.createBinanceManualAdapter(fetchTransactions);
+        } else if (credential.exchange === ExchangeType.MANUAL) {
+          adapter = this.createManualWalletAdapter(
+            credential._id.toString(),
+            credential.userId.toString(),
+          );
         } else {
           const decrypted = this.credentialsService.getDecryptedCredentials(credential);
           adapter = this.exchangeFactory.createAdapter(
@@ -358,16 +425,53 @@ export class BalancesService {
     };
   }
 
-  async getBalancesByExchange(userId: string): Promise<ExchangeBalanceDto[]> {
-    const consolidated = await this.getConsolidatedBalances(userId);
+  async getBalancesByExchange(
+    userId: string,
+    currency: ReportingCurrency = ReportingCurrency.USD,
+  ): Promise<ExchangeBalanceDto[]> {
+    const consolidated = await this.getConsolidatedBalances(userId, currency);
     return consolidated.byExchange;
   }
 
-  async getBalancesByAsset(userId: string): Promise<AssetBalanceDto[]> {
-    const consolidated = await this.getConsolidatedBalances(userId);
+  async getBalancesByAsset(
+    userId: string,
+    currency: ReportingCurrency = ReportingCurrency.USD,
+  ): Promise<AssetBalanceDto[]> {
+    const consolidated = await this.getConsolidatedBalances(userId, currency);
     return consolidated.byAsset;
   }
 
+  /**
+   * Balances are current, so they are converted at today's rate
+   */
+  private async toReportingCurrency(
+    balances: ConsolidatedBalanceDto,
+    currency: ReportingCurrency,
+  ): Promise<ConsolidatedBalanceDto> {
+    if (currency === ReportingCurrency.USD) {
+      return { ...balances, currency };
+    }
+
+    const rate = await this.fxRatesService.getCurrentRate(currency);
+    const convertAsset = (b: AssetBalanceDto): AssetBalanceDto => ({
+      ...b,
+      priceUsd: b.priceUsd !== undefined ? b.priceUsd * rate : undefined,
+      valueUsd: b.valueUsd !== undefined ? b.valueUsd * rate : undefined,
+    });
+
+    return {
+      ...balances,
+      byAsset: balances.byAsset.map(convertAsset),
+      byExchange: balances.byExchange.map((eb) => ({
+        ...eb,
+        balances: eb.balances.map(convertAsset),
+        totalValueUsd: eb.totalValueUsd * rate,
+      })),
+      totalValueUsd: balances.totalValueUsd * rate,
+      currency,
+    };
+  }
+
   async getBalancesForCredential(
     credentialId: string,
     userId: string,
@@ -411,6 +515,11 @@ export class BalancesService {
         }));
       };
       adapter = this.exchangeFactory.createBinanceManualAdapter(fetchTransactions);
+    } else if (credential.exchange === ExchangeType.MANUAL) {
+      adapter = this.createManualWalletAdapter(
+        credential._id.toString(),
+        userId,
+      );
     } else {
       const decrypted = this.credentialsService.getDecryptedCredentials(credential);
       adapter = this.exchangeFactory.createAdapter(
@@ -59,6 +59,13 @@ export class ConsolidatedBalanceDto {
   @ApiProperty()
   lastUpdated: Date;
 
+  @ApiProperty({
+    example: 'USD',
+    required: false,
+    description: 'Reporting currency of the *Usd fields',
+  })
+  currency?: string;
+
   @ApiProperty({ example: true, required: false })
   isCached?: boolean;
 
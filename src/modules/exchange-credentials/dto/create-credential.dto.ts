@@ -14,18 +14,26 @@ export class CreateCredentialDto {
   @ApiProperty({
     example: 'your-api-key',
     required: false,
-    description: 'Required for all exchanges except nexo-manual',
+    description: 'Required for all exchanges except nexo-manual and manual',
   })
-  @ValidateIf((o) => o.exchange !== ExchangeType.NEXO_MANUAL)
+  @ValidateIf(
+    (o) =>
+      o.exchange !== ExchangeType.NEXO_MANUAL &&
+      o.exchange !== ExchangeType.MANUAL,
+  )
   @IsString()
   apiKey?: string;
 
   @ApiProperty({
     example: 'your-api-secret',
     required: false,
-    description: 'Required for all exchanges except nexo-manual',
+    description: 'Required for all exchanges except nexo-manual and manual',
   })
-  @ValidateIf((o) => o.exchange !== ExchangeType.NEXO_MANUAL)
+  @ValidateIf(
+    (o) =>
+      o.exchange !== ExchangeType.NEXO_MANUAL &&
+      o.exchange !== ExchangeType.MANUAL,
+  )
   @IsString()
   apiSecret?: string;
 
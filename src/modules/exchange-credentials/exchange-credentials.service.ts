@@ -28,8 +28,10 @@ export class ExchangeCredentialsService {
     userId: string,
     dto: CreateCredentialDto,
   ): Promise<ExchangeCredentialDocument> {
-    // For NEXO_MANUAL, API keys are not required
-    const isNexoManual = dto.exchange === ExchangeType.NEXO_MANUAL;
+    // For NEXO_MANUAL and MANUAL wallets, API keys are not required
+    const isKeyless =
+      dto.exchange === ExchangeType.NEXO_MANUAL ||
+      dto.exchange === ExchangeType.MANUAL;
 
     const credential = new this.credentialModel({
       userId: new Types.ObjectId(userId),
@@ -37,13 +39,13 @@ export class ExchangeCredentialsService {
       label: dto.label,
       apiKeyEncrypted: dto.apiKey
         ? this.encryptionService.encrypt(dto.apiKey)
-        : isNexoManual
-          ? this.encryptionService.encrypt('nexo-manual-no-key')
+        : isKeyless
+          ? this.encryptionService.encrypt(`${dto.exchange}-no-key`)
           : undefined,
       apiSecretEncrypted: dto.apiSecret
         ? this.encryptionService.encrypt(dto.apiSecret)
-        : isNexoManual
-          ? this.encryptionService.encrypt('nexo-manual-no-secret')
+        : isKeyless
+          ? this.encryptionService.encrypt(`${dto.exchange}-no-secret`)
           : undefined,
       passphraseEncrypted: dto.passphrase
         ? this.encryptionService.encrypt(dto.passphrase)
@@ -53,6 +55,27 @@ export class ExchangeCredentialsService {
     return credential.save();
   }
 
+  /**
+   * The user's default manual wallet, created on first use
+   */
+  async findOrCreateManualWallet(
+    userId: string,
+  ): Promise<ExchangeCredentialDocument> {
+    const existing = await this.credentialModel
+      .findOne({
+        userId: new Types.ObjectId(userId),
+        exchange: ExchangeType.MANUAL,
+      })
+      .sort({ createdAt: 1 });
+    if (existing) {
+      return existing;
+    }
+    return this.create(userId, {
+      exchange: ExchangeType.MANUAL,
+      label: 'Manual',
+    });
+  }
+
   async findAllByUser(userId: string): Promise<ExchangeCredentialDocument[]> {
     return this.credentialModel.find({ userId: new Types.ObjectId(userId) });
   }
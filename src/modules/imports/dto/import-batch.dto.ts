@@ -0,0 +1,48 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ImportSource } from '../../../common/constants/import-sources.constant';
+
+export class ImportBatchDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiPropertyOptional({
+    description: 'Unset when the rows went to several accounts',
+  })
+  credentialId?: string;
+
+  @ApiProperty({ enum: ImportSource })
+  source: ImportSource;
+
+  @ApiProperty()
+  fileName: string;
+
+  @ApiProperty({ description: 'SHA-256 of the file contents' })
+  fileHash: string;
+
+  @ApiProperty()
+  imported: number;
+
+  @ApiProperty()
+  skipped: number;
+
+  @ApiProperty()
+  errors: number;
+
+  @ApiPropertyOptional()
+  firstTransactionAt?: Date;
+
+  @ApiPropertyOptional()
+  lastTransactionAt?: Date;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiPropertyOptional({ description: 'Unset while the import is running' })
+  finishedAt?: Date;
+
+  @ApiPropertyOptional({ description: 'When its transactions were deleted' })
+  undoneAt?: Date;
+
+  @ApiPropertyOptional({ description: 'Transactions deleted by the undo' })
+  removed?: number;
+}
@@ -0,0 +1,270 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { TransactionType } from '../../../common/constants/transaction-types.constant';
+import { AmountSign } from '../../../common/constants/import-mapping.constant';
+
+export class ColumnMappingDto {
+  @ApiProperty({ example: 'Timestamp' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  timestamp: string;
+
+  @ApiPropertyOptional({ example: 'Transaction Type' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  type?: string;
+
+  @ApiProperty({ example: 'Asset' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  asset: string;
+
+  @ApiProperty({ example: 'Quantity Transacted' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  amount: string;
+
+  @ApiPropertyOptional({ example: 'Spot Price at Transaction' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  price?: string;
+
+  @ApiPropertyOptional({ example: 'Spot Price Currency' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  priceAsset?: string;
+
+  @ApiPropertyOptional({ example: 'Total (inclusive of fees and/or spread)' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  total?: string;
+
+  @ApiPropertyOptional({
+    example: 'Symbol',
+    description: 'Pair written as BASE/QUOTE or BASE-QUOTE',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  pair?: string;
+
+  @ApiPropertyOptional({ example: 'Fees and/or Spread' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  fee?: string;
+
+  @ApiPropertyOptional({
+    description: 'Defaults to the quote asset of trades, else the asset',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  feeAsset?: string;
+
+  @ApiPropertyOptional({
+    example: 'ID',
+    description: 'Without it, rows are told apart by their content',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  externalId?: string;
+
+  @ApiPropertyOptional({ example: 'Notes' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  notes?: string;
+}
+
+export class TypeMappingDto {
+  @ApiProperty({ example: 'Buy', description: 'Matched case-insensitively' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  value: string;
+
+  @ApiProperty({ enum: TransactionType })
+  @IsEnum(TransactionType)
+  type: TransactionType;
+
+  @ApiPropertyOptional({ enum: ['buy', 'sell'] })
+  @IsOptional()
+  @IsIn(['buy', 'sell'])
+  side?: string;
+}
+
+export class CreateImportMappingDto {
+  @ApiProperty({ example: 'Coinbase transaction report' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ type: ColumnMappingDto })
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ColumnMappingDto)
+  columns: ColumnMappingDto;
+
+  @ApiPropertyOptional({
+    default: 'iso',
+    example: 'DD.MM.YYYY HH:mm',
+    description:
+      'iso, unix, unix-ms or a pattern of YYYY, MM, DD, HH, mm, ss. Dates are UTC',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(40)
+  dateFormat?: string;
+
+  @ApiPropertyOptional({ type: [TypeMappingDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => TypeMappingDto)
+  types?: TypeMappingDto[];
+
+  @ApiPropertyOptional({
+    enum: TransactionType,
+    description: 'For rows whose type has no mapping; others are skipped',
+  })
+  @IsOptional()
+  @IsEnum(TransactionType)
+  defaultType?: TransactionType;
+
+  @ApiPropertyOptional({ enum: AmountSign, default: AmountSign.SIGNED })
+  @IsOptional()
+  @IsEnum(AmountSign)
+  amountSign?: AmountSign;
+
+  @ApiPropertyOptional({
+    default: false,
+    description: 'Amounts use a decimal comma (1.234,56)',
+  })
+  @IsOptional()
+  @IsBoolean()
+  decimalComma?: boolean;
+
+  @ApiPropertyOptional({
+    default: 0,
+    description: 'Lines above the header row',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  skipRows?: number;
+}
+
+export class UpdateImportMappingDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({
+    type: ColumnMappingDto,
+    description: 'Replaces all columns',
+  })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ColumnMappingDto)
+  columns?: ColumnMappingDto;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(40)
+  dateFormat?: string;
+
+  @ApiPropertyOptional({
+    type: [TypeMappingDto],
+    description: 'Replaces all type mappings',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => TypeMappingDto)
+  types?: TypeMappingDto[];
+
+  @ApiPropertyOptional({ enum: TransactionType })
+  @IsOptional()
+  @IsEnum(TransactionType)
+  defaultType?: TransactionType;
+
+  @ApiPropertyOptional({ enum: AmountSign })
+  @IsOptional()
+  @IsEnum(AmountSign)
+  amountSign?: AmountSign;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  decimalComma?: boolean;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  skipRows?: number;
+}
+
+export class ImportMappingDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ type: ColumnMappingDto })
+  columns: ColumnMappingDto;
+
+  @ApiProperty()
+  dateFormat: string;
+
+  @ApiProperty({ type: [TypeMappingDto] })
+  types: TypeMappingDto[];
+
+  @ApiPropertyOptional({ enum: TransactionType })
+  defaultType?: TransactionType;
+
+  @ApiProperty({ enum: AmountSign })
+  amountSign: AmountSign;
+
+  @ApiProperty()
+  decimalComma: boolean;
+
+  @ApiProperty()
+  skipRows: number;
+}
@@ -1,7 +1,46 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { TransactionType } from '../../../common/constants/transaction-types.constant';
+import { ImportRowStatus } from '../../../common/constants/import-row-status.constant';
+
+export class ImportPreviewRowDto {
+  @ApiProperty({ enum: ImportRowStatus })
+  status: ImportRowStatus;
+
+  @ApiPropertyOptional({ enum: TransactionType })
+  type?: TransactionType;
+
+  @ApiPropertyOptional()
+  asset?: string;
+
+  @ApiPropertyOptional()
+  amount?: number;
+
+  @ApiPropertyOptional()
+  pair?: string;
+
+  @ApiPropertyOptional()
+  timestamp?: Date;
+
+  @ApiPropertyOptional()
+  externalId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Why the row is skipped or failed',
+  })
+  reason?: string;
+
+  @ApiPropertyOptional({
+    type: Object,
+    description: 'Row(s) of the file the transaction comes from',
+  })
+  source?: Record<string, unknown>;
+}
 
 export class ImportResultDto {
-  @ApiProperty({ example: 150, description: 'Number of transactions imported' })
+  @ApiProperty({
+    example: 150,
+    description: 'Transactions imported, or that would be on a dry run',
+  })
   imported: number;
 
   @ApiProperty({ example: 10, description: 'Number of duplicate transactions skipped' })
@@ -9,4 +48,18 @@ export class ImportResultDto {
 
   @ApiProperty({ example: 0, description: 'Number of transactions that failed to import' })
   errors: number;
+
+  @ApiPropertyOptional({
+    description: 'Import batch the transactions belong to (not on dry runs)',
+  })
+  batchId?: string;
+
+  @ApiPropertyOptional({ description: 'Nothing was saved' })
+  dryRun?: boolean;
+
+  @ApiPropertyOptional({
+    type: [ImportPreviewRowDto],
+    description: 'Every row and what the import does with it (dry runs)',
+  })
+  rows?: ImportPreviewRowDto[];
 }
@@ -0,0 +1,100 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { model, Types } from 'mongoose';
+import { ImportBatchesService } from './import-batches.service';
+import {
+  ImportBatch,
+  ImportBatchDocument,
+  ImportBatchSchema,
+} from './schemas/import-batch.schema';
+import { TransactionsService } from '../transactions/transactions.service';
+import { ImportSource } from '../../common/constants/import-sources.constant';
+
+// Documents are built offline; nothing here talks to a database
+const ImportBatchModel = model(ImportBatch.name, ImportBatchSchema);
+
+describe('ImportBatchesService', () => {
+  const userId = new Types.ObjectId();
+
+  let service: ImportBatchesService;
+  let batch: ImportBatchDocument;
+  let batchModel: { findOne: jest.Mock };
+  let transactionsService: { deleteImportBatch: jest.Mock };
+
+  beforeEach(async () => {
+    batch = new ImportBatchModel({
+      userId,
+      source: ImportSource.KOINLY_CSV,
+      fileName: 'koinly.csv',
+      fileHash: 'abc',
+    }) as ImportBatchDocument;
+    batch.save = jest.fn().mockResolvedValue(batch);
+    batchModel = { findOne: jest.fn().mockResolvedValue(batch) };
+    transactionsService = { deleteImportBatch: jest.fn().mockResolvedValue(3) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImportBatchesService,
+        { provide: getModelToken(ImportBatch.name), useValue: batchModel },
+        { provide: TransactionsService, useValue: transactionsService },
+      ],
+    }).compile();
+
+    service = module.get<ImportBatchesService>(ImportBatchesService);
+  });
+
+  describe('finish', () => {
+    it('stores the counts and reports failed rows as errors', async () => {
+      await service.finish(batch, { imported: 5, skipped: 1, failed: 2 });
+
+      expect(batch.save).toHaveBeenCalled();
+      expect(batch.finishedAt).toBeInstanceOf(Date);
+      expect(service.toResponse(batch)).toMatchObject({
+        imported: 5,
+        skipped: 1,
+        errors: 2,
+      });
+    });
+  });
+
+  describe('undo', () => {
+    it('deletes the batch transactions and marks the batch undone', async () => {
+      const result = await service.undo(
+        userId.toString(),
+        batch._id.toString(),
+      );
+
+      expect(batchModel.findOne).toHaveBeenCalledWith({
+        _id: batch._id,
+        userId,
+      });
+      expect(transactionsService.deleteImportBatch).toHaveBeenCalledWith(
+        userId.toString(),
+        batch._id,
+      );
+      expect(result.removed).toBe(3);
+      expect(result.undoneAt).toBeInstanceOf(Date);
+    });
+
+    it('refuses to undo a batch twice', async () => {
+      batch.undoneAt = new Date();
+
+      await expect(
+        service.undo(userId.toString(), batch._id.toString()),
+      ).rejects.toThrow(BadRequestException);
+      expect(transactionsService.deleteImportBatch).not.toHaveBeenCalled();
+    });
+
+    it('rejects batches of other users and invalid ids', async () => {
+      batchModel.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.undo(userId.toString(), new Types.ObjectId().toString()),
+      ).rejects.toThrow(NotFoundException);
+      await expect(service.undo(userId.toString(), 'nope')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { createHash } from 'crypto';
+import {
+  ImportBatch,
+  ImportBatchDocument,
+} from './schemas/import-batch.schema';
+import { ImportBatchDto } from './dto/import-batch.dto';
+import { TransactionsService } from '../transactions/transactions.service';
+import { ImportSource } from '../../common/constants/import-sources.constant';
+
+/**
+ * Uploaded file as handed over by the controller
+ */
+export interface ImportFile {
+  buffer: Buffer;
+  originalname: string;
+}
+
+/**
+ * Log of file uploads. Each batch knows the transactions it brought in,
+ * so a wrong upload can be undone as a whole.
+ */
+@Injectable()
+export class ImportBatchesService {
+  private readonly logger = new Logger(ImportBatchesService.name);
+
+  constructor(
+    @InjectModel(ImportBatch.name)
+    private batchModel: Model<ImportBatchDocument>,
+    private readonly transactionsService: TransactionsService,
+  ) {}
+
+  async findAll(userId: string): Promise<ImportBatchDto[]> {
+    const batches = await this.batchModel
+      .find({ userId: new Types.ObjectId(userId) })
+      .sort({ createdAt: -1 });
+    return batches.map((b) => this.toResponse(b));
+  }
+
+  /**
+   * Record an upload before its rows are written, so rows of an import that
+   * dies halfway still belong to a batch
+   */
+  async start(
+    userId: string,
+    credentialId: string | undefined,
+    source: ImportSource,
+    file: ImportFile,
+  ): Promise<ImportBatchDocument> {
+    return this.batchModel.create({
+      userId: new Types.ObjectId(userId),
+      credentialId: credentialId && new Types.ObjectId(credentialId),
+      source,
+      fileName: file.originalname,
+      fileHash: createHash('sha256').update(file.buffer).digest('hex'),
+    });
+  }
+
+  async finish(
+    batch: ImportBatchDocument,
+    counts: Pick<
+      ImportBatch,
+      | 'imported'
+      | 'skipped'
+      | 'failed'
+      | 'firstTransactionAt'
+      | 'lastTransactionAt'
+    >,
+  ): Promise<void> {
+    Object.assign(batch, counts, { finishedAt: new Date() });
+    await batch.save();
+  }
+
+  /**
+   * Delete the batch's transactions; P&L and snapshots follow as after any
+   * deletion. The batch stays in the log, marked as undone.
+   */
+  async undo(userId: string, batchId: string): Promise<ImportBatchDto> {
+    const batch = Types.ObjectId.isValid(batchId)
+      ? await this.batchModel.findOne({
+          _id: new Types.ObjectId(batchId),
+          userId: new Types.ObjectId(userId),
+        })
+      : null;
+    if (!batch) {
+      throw new NotFoundException('Import batch not found');
+    }
+    if (batch.undoneAt) {
+      throw new BadRequestException('Import batch was already undone');
+    }
+
+    batch.removed = await this.transactionsService.deleteImportBatch(
+      userId,
+      batch._id,
+    );
+    batch.undoneAt = new Date();
+    await batch.save();
+
+    this.logger.log(
+      `Undid import batch ${batchId} (${batch.fileName}, ${batch.removed} transactions) for user ${userId}`,
+    );
+    return this.toResponse(batch);
+  }
+
+  toResponse(batch: ImportBatchDocument): ImportBatchDto {
+    return {
+      id: batch._id.toString(),
+      credentialId: batch.credentialId?.toString(),
+      source: batch.source,
+      fileName: batch.fileName,
+      fileHash: batch.fileHash,
+      imported: batch.imported,
+      skipped: batch.skipped,
+      errors: batch.failed,
+      firstTransactionAt: batch.firstTransactionAt,
+      lastTransactionAt: batch.lastTransactionAt,
+      createdAt: (batch as ImportBatchDocument & { createdAt: Date }).createdAt,
+      finishedAt: batch.finishedAt,
+      undoneAt: batch.undoneAt,
+      removed: batch.removed,
+    };
+  }
+}
@@ -0,0 +1,155 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  ImportMapping,
+  ImportMappingDocument,
+} from './schemas/import-mapping.schema';
+import {
+  CreateImportMappingDto,
+  ImportMappingDto,
+  UpdateImportMappingDto,
+} from './dto/import-mapping.dto';
+import {
+  AmountSign,
+  SPECIAL_DATE_FORMATS,
+} from '../../common/constants/import-mapping.constant';
+
+/**
+ * Saved column mappings of the generic CSV and Excel importer, one set
+ * per user
+ */
+@Injectable()
+export class ImportMappingsService {
+  constructor(
+    @InjectModel(ImportMapping.name)
+    private mappingModel: Model<ImportMappingDocument>,
+  ) {}
+
+  async findAll(userId: string): Promise<ImportMappingDto[]> {
+    const mappings = await this.mappingModel
+      .find({ userId: new Types.ObjectId(userId) })
+      .sort({ name: 1 });
+    return mappings.map((m) => this.toResponse(m));
+  }
+
+  async create(
+    userId: string,
+    dto: CreateImportMappingDto,
+  ): Promise<ImportMappingDto> {
+    this.validateDateFormat(dto.dateFormat);
+    await this.assertNameFree(userId, dto.name);
+
+    const mapping = await this.mappingModel.create({
+      userId: new Types.ObjectId(userId),
+      name: dto.name,
+      columns: dto.columns,
+      dateFormat: dto.dateFormat ?? 'iso',
+      types: dto.types ?? [],
+      defaultType: dto.defaultType,
+      amountSign: dto.amountSign ?? AmountSign.SIGNED,
+      decimalComma: dto.decimalComma ?? false,
+      skipRows: dto.skipRows ?? 0,
+    });
+    return this.toResponse(mapping);
+  }
+
+  async update(
+    userId: string,
+    mappingId: string,
+    dto: UpdateImportMappingDto,
+  ): Promise<ImportMappingDto> {
+    const mapping = await this.findMapping(userId, mappingId);
+
+    if (dto.name !== undefined && dto.name !== mapping.name) {
+      await this.assertNameFree(userId, dto.name);
+      mapping.name = dto.name;
+    }
+    if (dto.columns !== undefined) {
+      mapping.columns = dto.columns;
+    }
+    if (dto.dateFormat !== undefined) {
+      this.validateDateFormat(dto.dateFormat);
+      mapping.dateFormat = dto.dateFormat;
+    }
+    if (dto.types !== undefined) {
+      mapping.types = dto.types;
+    }
+    if (dto.defaultType !== undefined) {
+      mapping.defaultType = dto.defaultType;
+    }
+    if (dto.amountSign !== undefined) {
+      mapping.amountSign = dto.amountSign;
+    }
+    if (dto.decimalComma !== undefined) {
+      mapping.decimalComma = dto.decimalComma;
+    }
+    if (dto.skipRows !== undefined) {
+      mapping.skipRows = dto.skipRows;
+    }
+
+    await mapping.save();
+    return this.toResponse(mapping);
+  }
+
+  async delete(userId: string, mappingId: string): Promise<void> {
+    const mapping = await this.findMapping(userId, mappingId);
+    await mapping.deleteOne();
+  }
+
+  async findMapping(
+    userId: string,
+    mappingId: string,
+  ): Promise<ImportMappingDocument> {
+    const mapping = Types.ObjectId.isValid(mappingId)
+      ? await this.mappingModel.findOne({
+          _id: new Types.ObjectId(mappingId),
+          userId: new Types.ObjectId(userId),
+        })
+      : null;
+    if (!mapping) {
+      throw new NotFoundException('Import mapping not found');
+    }
+    return mapping;
+  }
+
+  // ==================== PRIVATE METHODS ====================
+
+  private async assertNameFree(userId: string, name: string): Promise<void> {
+    const existing = await this.mappingModel.exists({
+      userId: new Types.ObjectId(userId),
+      name,
+    });
+    if (existing) {
+      throw new ConflictException(`Import mapping ${name} already exists`);
+    }
+  }
+
+  private validateDateFormat(format?: string): void {
+    if (!format || SPECIAL_DATE_FORMATS.includes(format)) return;
+    if (!['YYYY', 'MM', 'DD'].every((token) => format.includes(token))) {
+      throw new BadRequestException(
+        'Date format must be iso, unix, unix-ms or contain YYYY, MM and DD',
+      );
+    }
+  }
+
+  private toResponse(mapping: ImportMappingDocument): ImportMappingDto {
+    return {
+      id: mapping._id.toString(),
+      name: mapping.name,
+      columns: mapping.columns,
+      dateFormat: mapping.dateFormat,
+      types: mapping.types,
+      defaultType: mapping.defaultType,
+      amountSign: mapping.amountSign,
+      decimalComma: mapping.decimalComma,
+      skipRows: mapping.skipRows,
+    };
+  }
+}
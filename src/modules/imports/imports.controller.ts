@@ -1,7 +1,12 @@
 import {
   Controller,
+  Get,
   Post,
+  Put,
+  Delete,
+  Body,
   Param,
+  Query,
   UseGuards,
   UseInterceptors,
   UploadedFile,
@@ -15,18 +20,173 @@ import {
   ApiBearerAuth,
   ApiConsumes,
   ApiBody,
+  ApiQuery,
 } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { ImportsService } from './imports.service';
+import { ImportBatchesService } from './import-batches.service';
 import { ImportResultDto } from './dto/import-result.dto';
+import { ImportBatchDto } from './dto/import-batch.dto';
+import { ImportMappingsService } from './import-mappings.service';
+import {
+  CreateImportMappingDto,
+  ImportMappingDto,
+  UpdateImportMappingDto,
+} from './dto/import-mapping.dto';
 
 @ApiTags('Imports')
 @Controller('imports')
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class ImportsController {
-  constructor(private readonly importsService: ImportsService) {}
+  constructor(
+    private readonly importsService: ImportsService,
+    private readonly batchesService: ImportBatchesService,
+    private readonly mappingsService: ImportMappingsService,
+  ) {}
+
+  // ==================== IMPORT BATCHES ====================
+
+  @Get('batches')
+  @ApiOperation({ summary: 'List uploaded files, newest first' })
+  @ApiResponse({ status: 200, type: [ImportBatchDto] })
+  async findBatches(
+    @CurrentUser('userId') userId: string,
+  ): Promise<ImportBatchDto[]> {
+    return this.batchesService.findAll(userId);
+  }
+
+  @Delete('batches/:batchId')
+  @ApiOperation({
+    summary: 'Undo an upload',
+    description:
+      'Deletes exactly the transactions the file brought in, then recalculates P&L and rebuilds snapshots.',
+  })
+  @ApiResponse({ status: 200, type: ImportBatchDto })
+  @ApiResponse({ status: 400, description: 'Batch already undone' })
+  @ApiResponse({ status: 404, description: 'Import batch not found' })
+  async undoBatch(
+    @CurrentUser('userId') userId: string,
+    @Param('batchId') batchId: string,
+  ): Promise<ImportBatchDto> {
+    return this.batchesService.undo(userId, batchId);
+  }
+
+  // ==================== COLUMN MAPPINGS ====================
+
+  @Get('mappings')
+  @ApiOperation({ summary: 'Get saved column mappings' })
+  @ApiResponse({ status: 200, type: [ImportMappingDto] })
+  async getMappings(
+    @CurrentUser('userId') userId: string,
+  ): Promise<ImportMappingDto[]> {
+    return this.mappingsService.findAll(userId);
+  }
+
+  @Post('mappings')
+  @ApiOperation({
+    summary: 'Save a column mapping',
+    description:
+      'Describes the columns, date format, type values and sign convention of an export, for use with imports/mapped.',
+  })
+  @ApiResponse({ status: 201, type: ImportMappingDto })
+  @ApiResponse({ status: 400, description: 'Invalid date format' })
+  @ApiResponse({ status: 409, description: 'Name already in use' })
+  async createMapping(
+    @CurrentUser('userId') userId: string,
+    @Body() dto: CreateImportMappingDto,
+  ): Promise<ImportMappingDto> {
+    return this.mappingsService.create(userId, dto);
+  }
+
+  @Put('mappings/:mappingId')
+  @ApiOperation({ summary: 'Update a column mapping' })
+  @ApiResponse({ status: 200, type: ImportMappingDto })
+  @ApiResponse({ status: 404, description: 'Mapping not found' })
+  async updateMapping(
+    @Param('mappingId') mappingId: string,
+    @CurrentUser('userId') userId: string,
+    @Body() dto: UpdateImportMappingDto,
+  ): Promise<ImportMappingDto> {
+    return this.mappingsService.update(userId, mappingId, dto);
+  }
+
+  @Delete('mappings/:mappingId')
+  @ApiOperation({ summary: 'Delete a column mapping' })
+  @ApiResponse({ status: 200, description: 'Mapping deleted' })
+  @ApiResponse({ status: 404, description: 'Mapping not found' })
+  async deleteMapping(
+    @Param('mappingId') mappingId: string,
+    @CurrentUser('userId') userId: string,
+  ): Promise<void> {
+    await this.mappingsService.delete(userId, mappingId);
+  }
+
+  @Post('mapped/:credentialId')
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({
+    summary: 'Import a CSV or Excel file with a saved column mapping',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'CSV or Excel (.xlsx) export file',
+        },
+      },
+    },
+  })
+  @ApiQuery({ name: 'mappingId', required: true })
+  @ApiQuery({
+    name: 'dryRun',
+    required: false,
+    type: Boolean,
+    description: 'Check the file without saving; the result lists every row',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Import results',
+    type: ImportResultDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid file, or columns of the mapping missing',
+  })
+  @ApiResponse({ status: 404, description: 'Mapping not found' })
+  async importWithMapping(
+    @UploadedFile() file: { buffer: Buffer; originalname: string },
+    @Param('credentialId') credentialId: string,
+    @CurrentUser('userId') userId: string,
+    @Query('mappingId') mappingId: string,
+    @Query('dryRun') dryRun?: string,
+  ): Promise<ImportResultDto> {
+    if (!file) {
+      throw new BadRequestException('File is required');
+    }
+
+    if (!/\.(csv|xlsx)$/.test(file.originalname)) {
+      throw new BadRequestException('File must be a CSV or Excel file');
+    }
+
+    if (!mappingId) {
+      throw new BadRequestException('mappingId is required');
+    }
+
+    return this.importsService.importWithMapping(
+      file,
+      credentialId,
+      mappingId,
+      userId,
+      dryRun === 'true',
+    );
+  }
+
+  // ==================== NEXO CSV IMPORT ====================
 
   @Post('nexo-csv/:credentialId')
   @UseInterceptors(FileInterceptor('file'))
@@ -44,6 +204,12 @@ export class ImportsController {
       },
     },
   })
+  @ApiQuery({
+    name: 'dryRun',
+    required: false,
+    type: Boolean,
+    description: 'Check the file without saving; the result lists every row',
+  })
   @ApiResponse({
     status: 200,
     description: 'Import results',
@@ -54,6 +220,7 @@ export class ImportsController {
     @UploadedFile() file: { buffer: Buffer; originalname: string },
     @Param('credentialId') credentialId: string,
     @CurrentUser('userId') userId: string,
+    @Query('dryRun') dryRun?: string,
   ): Promise<ImportResultDto> {
     if (!file) {
       throw new BadRequestException('CSV file is required');
@@ -63,7 +230,12 @@ export class ImportsController {
       throw new BadRequestException('File must be a CSV file');
     }
 
-    return this.importsService.importNexoCsv(file.buffer, credentialId, userId);
+    return this.importsService.importNexoCsv(
+      file,
+      credentialId,
+      userId,
+      dryRun === 'true',
+    );
   }
 
   // ==================== BINANCE EXCEL IMPORTS ====================
@@ -84,6 +256,12 @@ export class ImportsController {
       },
     },
   })
+  @ApiQuery({
+    name: 'dryRun',
+    required: false,
+    type: Boolean,
+    description: 'Check the file without saving; the result lists every row',
+  })
   @ApiResponse({
     status: 200,
     description: 'Import results',
@@ -94,6 +272,7 @@ export class ImportsController {
     @UploadedFile() file: { buffer: Buffer; originalname: string },
     @Param('credentialId') credentialId: string,
     @CurrentUser('userId') userId: string,
+    @Query('dryRun') dryRun?: string,
   ): Promise<ImportResultDto> {
     if (!file) {
       throw new BadRequestException('Excel file is required');
@@ -103,7 +282,12 @@ export class ImportsController {
       throw new BadRequestException('File must be an Excel file (.xlsx)');
     }
 
-    return this.importsService.importBinanceDeposits(file.buffer, credentialId, userId);
+    return this.importsService.importBinanceDeposits(
+      file,
+      credentialId,
+      userId,
+      dryRun === 'true',
+    );
   }
 
   @Post('binance-withdrawals/:credentialId')
@@ -122,6 +306,12 @@ export class ImportsController {
       },
     },
   })
+  @ApiQuery({
+    name: 'dryRun',
+    required: false,
+    type: Boolean,
+    description: 'Check the file without saving; the result lists every row',
+  })
   @ApiResponse({
     status: 200,
     description: 'Import results',
@@ -132,6 +322,7 @@ export class ImportsController {
     @UploadedFile() file: { buffer: Buffer; originalname: string },
     @Param('credentialId') credentialId: string,
     @CurrentUser('userId') userId: string,
+    @Query('dryRun') dryRun?: string,
   ): Promise<ImportResultDto> {
     if (!file) {
       throw new BadRequestException('Excel file is required');
@@ -141,7 +332,12 @@ export class ImportsController {
       throw new BadRequestException('File must be an Excel file (.xlsx)');
     }
 
-    return this.importsService.importBinanceWithdrawals(file.buffer, credentialId, userId);
+    return this.importsService.importBinanceWithdrawals(
+      file,
+      credentialId,
+      userId,
+      dryRun === 'true',
+    );
   }
 
   @Post('binance-transactions/:credentialId')
@@ -163,6 +359,12 @@ export class ImportsController {
       },
     },
   })
+  @ApiQuery({
+    name: 'dryRun',
+    required: false,
+    type: Boolean,
+    description: 'Check the file without saving; the result lists every row',
+  })
   @ApiResponse({
     status: 200,
     description: 'Import results',
@@ -173,6 +375,7 @@ export class ImportsController {
     @UploadedFile() file: { buffer: Buffer; originalname: string },
     @Param('credentialId') credentialId: string,
     @CurrentUser('userId') userId: string,
+    @Query('dryRun') dryRun?: string,
   ): Promise<ImportResultDto> {
     if (!file) {
       throw new BadRequestException('Excel file is required');
@@ -182,6 +385,122 @@ export class ImportsController {
       throw new BadRequestException('File must be an Excel file (.xlsx)');
     }
 
-    return this.importsService.importBinanceTransactions(file.buffer, credentialId, userId);
+    return this.importsService.importBinanceTransactions(
+      file,
+      credentialId,
+      userId,
+      dryRun === 'true',
+    );
+  }
+
+  // ==================== KRAKEN CSV IMPORT ====================
+
+  @Post('kraken-ledger/:credentialId')
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({
+    summary: 'Import Kraken ledgers.csv or trades.csv export',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'Kraken ledgers.csv or trades.csv export file',
+        },
+      },
+    },
+  })
+  @ApiQuery({
+    name: 'dryRun',
+    required: false,
+    type: Boolean,
+    description: 'Check the file without saving; the result lists every row',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Import results',
+    type: ImportResultDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid file or credential' })
+  async importKrakenCsv(
+    @UploadedFile() file: { buffer: Buffer; originalname: string },
+    @Param('credentialId') credentialId: string,
+    @CurrentUser('userId') userId: string,
+    @Query('dryRun') dryRun?: string,
+  ): Promise<ImportResultDto> {
+    if (!file) {
+      throw new BadRequestException('CSV file is required');
+    }
+
+    if (!file.originalname.endsWith('.csv')) {
+      throw new BadRequestException('File must be a CSV file');
+    }
+
+    return this.importsService.importKrakenCsv(
+      file,
+      credentialId,
+      userId,
+      dryRun === 'true',
+    );
+  }
+
+  // ==================== PORTFOLIO TRACKER IMPORT ====================
+
+  @Post('tracker-csv')
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({
+    summary: 'Import a Koinly or CoinTracking CSV export',
+    description:
+      "Rows go to the given account, else to the account whose label or exchange matches the row's wallet, else to the default manual wallet.",
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'Koinly or CoinTracking CSV export file',
+        },
+      },
+    },
+  })
+  @ApiQuery({ name: 'credentialId', required: false })
+  @ApiQuery({
+    name: 'dryRun',
+    required: false,
+    type: Boolean,
+    description: 'Check the file without saving; the result lists every row',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Import results',
+    type: ImportResultDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid file or credential' })
+  async importTrackerCsv(
+    @UploadedFile() file: { buffer: Buffer; originalname: string },
+    @CurrentUser('userId') userId: string,
+    @Query('credentialId') credentialId?: string,
+    @Query('dryRun') dryRun?: string,
+  ): Promise<ImportResultDto> {
+    if (!file) {
+      throw new BadRequestException('CSV file is required');
+    }
+
+    if (!file.originalname.endsWith('.csv')) {
+      throw new BadRequestException('File must be a CSV file');
+    }
+
+    return this.importsService.importTrackerCsv(
+      file,
+      userId,
+      credentialId,
+      dryRun === 'true',
+    );
   }
 }
@@ -2,21 +2,34 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { ImportsController } from './imports.controller';
 import { ImportsService } from './imports.service';
+import { ImportBatchesService } from './import-batches.service';
+import { ImportMappingsService } from './import-mappings.service';
+import { ImportBatch, ImportBatchSchema } from './schemas/import-batch.schema';
+import {
+  ImportMapping,
+  ImportMappingSchema,
+} from './schemas/import-mapping.schema';
 import {
   Transaction,
   TransactionSchema,
 } from '../transactions/schemas/transaction.schema';
 import { ExchangeCredentialsModule } from '../exchange-credentials/exchange-credentials.module';
+import { PnlModule } from '../pnl/pnl.module';
+import { TransactionsModule } from '../transactions/transactions.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: Transaction.name, schema: TransactionSchema },
+      { name: ImportBatch.name, schema: ImportBatchSchema },
+      { name: ImportMapping.name, schema: ImportMappingSchema },
     ]),
     ExchangeCredentialsModule,
+    PnlModule,
+    TransactionsModule,
   ],
   controllers: [ImportsController],
-  providers: [ImportsService],
+  providers: [ImportsService, ImportBatchesService, ImportMappingsService],
   exports: [ImportsService],
 })
 export class ImportsModule {}
@@ -0,0 +1,539 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { model, Types } from 'mongoose';
+import { ImportsService } from './imports.service';
+import { ImportBatchesService } from './import-batches.service';
+import { ImportMappingsService } from './import-mappings.service';
+import { Transaction } from '../transactions/schemas/transaction.schema';
+import { ExchangeCredentialsService } from '../exchange-credentials/exchange-credentials.service';
+import { PnlService } from '../pnl/pnl.service';
+import { TransactionRulesService } from '../transactions/transaction-rules.service';
+import { TransactionRule } from '../transactions/schemas/transaction-rule.schema';
+import { TransactionDuplicatesService } from '../transactions/transaction-duplicates.service';
+import {
+  ImportMapping,
+  ImportMappingSchema,
+} from './schemas/import-mapping.schema';
+import { TransactionType } from '../../common/constants/transaction-types.constant';
+import { TransactionCategory } from '../../common/constants/transaction-categories.constant';
+import { ImportRowStatus } from '../../common/constants/import-row-status.constant';
+
+// Mappings are built offline; nothing here talks to a database
+const ImportMappingModel = model(ImportMapping.name, ImportMappingSchema);
+
+// Counters of one import; opaque to these tests
+type ImportRun = object;
+
+interface TrackerRow {
+  externalId: string;
+  timestamp: Date;
+  label: string;
+  sent?: { amount: number; asset: string };
+  received?: { amount: number; asset: string };
+  fee?: { amount: number; asset: string };
+  sendingWallet?: string;
+  receivingWallet?: string;
+  notes?: string;
+}
+
+describe('ImportsService', () => {
+  const userId = new Types.ObjectId();
+  const ledger = {
+    _id: new Types.ObjectId(),
+    userId,
+    exchange: 'ledger',
+    label: 'Ledger',
+  };
+
+  let service: ImportsService;
+  let rulesService: TransactionRulesService;
+  let rules: Partial<TransactionRule>[];
+  let transactionModel: { exists: jest.Mock; create: jest.Mock };
+  let pnlService: { recalculateFrom: jest.Mock };
+  let mappingsService: { findMapping: jest.Mock };
+  let internals: {
+    parseMappedAmount: (
+      value: string | undefined,
+      decimalComma: boolean,
+    ) => number;
+    parseMappedDate: (value: string, format: string) => Date;
+    startRun: (dryRun: boolean) => ImportRun;
+    readKoinlyRow: (
+      run: ImportRun,
+      record: Record<string, string>,
+    ) => TrackerRow;
+    readCoinTrackingRow: (
+      run: ImportRun,
+      record: Record<string, string>,
+    ) => TrackerRow;
+  };
+
+  const csv = (rows: string[][]) => ({
+    originalname: 'export.csv',
+    buffer: Buffer.from(rows.map((row) => row.join(',')).join('\n')),
+  });
+
+  beforeEach(async () => {
+    rules = [];
+    transactionModel = {
+      exists: jest.fn().mockResolvedValue(null),
+      create: jest.fn().mockResolvedValue(undefined),
+    };
+    pnlService = { recalculateFrom: jest.fn() };
+    mappingsService = { findMapping: jest.fn() };
+    const ruleModel = {
+      find: jest.fn(() => ({
+        sort: () => ({ lean: () => Promise.resolve(rules) }),
+      })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImportsService,
+        TransactionRulesService,
+        {
+          provide: getModelToken(Transaction.name),
+          useValue: transactionModel,
+        },
+        { provide: getModelToken(TransactionRule.name), useValue: ruleModel },
+        {
+          provide: ExchangeCredentialsService,
+          useValue: {
+            findById: jest.fn().mockResolvedValue(ledger),
+            findAllByUser: jest.fn().mockResolvedValue([ledger]),
+          },
+        },
+        { provide: PnlService, useValue: pnlService },
+        {
+          provide: TransactionDuplicatesService,
+          useValue: { detect: jest.fn() },
+        },
+        {
+          provide: ImportBatchesService,
+          useValue: {
+            start: jest.fn().mockResolvedValue({ _id: new Types.ObjectId() }),
+            finish: jest.fn(),
+          },
+        },
+        { provide: ImportMappingsService, useValue: mappingsService },
+      ],
+    }).compile();
+
+    service = module.get<ImportsService>(ImportsService);
+    rulesService = module.get<TransactionRulesService>(TransactionRulesService);
+    internals = service as unknown as typeof internals;
+  });
+
+  describe('parseMappedAmount', () => {
+    it('strips currency signs and thousands separators', () => {
+      expect(internals.parseMappedAmount('$1,234.56', false)).toBe(1234.56);
+      expect(internals.parseMappedAmount('-0.5 BTC', false)).toBe(-0.5);
+    });
+
+    it('reads decimal commas', () => {
+      expect(internals.parseMappedAmount('1.234,56 €', true)).toBe(1234.56);
+      expect(internals.parseMappedAmount('-0,25', true)).toBe(-0.25);
+    });
+
+    it('keeps the exponent of scientific notation', () => {
+      expect(internals.parseMappedAmount('1E-08', false)).toBe(1e-8);
+      expect(internals.parseMappedAmount('2.5e-7 BTC', false)).toBe(2.5e-7);
+      expect(internals.parseMappedAmount('-3E+2', false)).toBe(-300);
+      expect(internals.parseMappedAmount('2,5E-7', true)).toBe(2.5e-7);
+    });
+
+    it('does not read a currency code as an exponent', () => {
+      expect(internals.parseMappedAmount('1.5EUR', false)).toBe(1.5);
+      expect(internals.parseMappedAmount('EUR -5', false)).toBe(-5);
+    });
+
+    it('reads empty cells as zero', () => {
+      expect(internals.parseMappedAmount(undefined, false)).toBe(0);
+      expect(internals.parseMappedAmount('', false)).toBe(0);
+      expect(internals.parseMappedAmount(' - ', false)).toBe(0);
+    });
+
+    it('rejects cells that are not a finite number', () => {
+      expect(() => internals.parseMappedAmount('n/a', false)).toThrow(
+        'Invalid amount: n/a',
+      );
+      expect(() => internals.parseMappedAmount('1.2.3', false)).toThrow();
+      expect(() => internals.parseMappedAmount('1e999', false)).toThrow();
+    });
+  });
+
+  describe('parseMappedDate', () => {
+    it('parses ISO strings as UTC', () => {
+      expect(
+        internals.parseMappedDate('2024-01-15 14:30:00', 'iso').toISOString(),
+      ).toBe('2024-01-15T14:30:00.000Z');
+    });
+
+    it('parses unix seconds and milliseconds', () => {
+      expect(
+        internals.parseMappedDate('1705329000', 'unix').toISOString(),
+      ).toBe('2024-01-15T14:30:00.000Z');
+      expect(
+        internals.parseMappedDate('1705329000000', 'unix-ms').toISOString(),
+      ).toBe('2024-01-15T14:30:00.000Z');
+    });
+
+    it('parses token patterns', () => {
+      expect(
+        internals
+          .parseMappedDate('15.01.2024 14:30', 'DD.MM.YYYY HH:mm')
+          .toISOString(),
+      ).toBe('2024-01-15T14:30:00.000Z');
+      expect(
+        internals.parseMappedDate('1/5/2024', 'MM/DD/YYYY').toISOString(),
+      ).toBe('2024-01-05T00:00:00.000Z');
+    });
+
+    it('takes Excel date cells as ISO whatever the format', () => {
+      expect(
+        internals
+          .parseMappedDate('2024-01-15T14:30:00.000Z', 'DD/MM/YYYY')
+          .toISOString(),
+      ).toBe('2024-01-15T14:30:00.000Z');
+    });
+
+    it('rejects dates that do not match the pattern', () => {
+      expect(() =>
+        internals.parseMappedDate('2024-01-15', 'DD.MM.YYYY'),
+      ).toThrow('Date 2024-01-15 does not match DD.MM.YYYY');
+    });
+  });
+
+  describe('importWithMapping', () => {
+    const header = ['Date', 'Coin', 'Change', 'Ref'];
+    const deposit = ['2024-01-15T14:30:00Z', 'eth', '0.5', 'R1'];
+
+    const mapping = (externalId?: string) =>
+      mappingsService.findMapping.mockResolvedValue(
+        new ImportMappingModel({
+          userId,
+          name: 'Wallet',
+          columns: {
+            timestamp: 'Date',
+            asset: 'Coin',
+            amount: 'Change',
+            externalId,
+          },
+          defaultType: TransactionType.DEPOSIT,
+        }),
+      );
+
+    beforeEach(() => mapping('Ref'));
+
+    it('imports rows with the mapped columns', async () => {
+      const result = await service.importWithMapping(
+        csv([header, deposit]),
+        ledger._id.toString(),
+        new Types.ObjectId().toString(),
+        userId.toString(),
+      );
+
+      expect(result.imported).toBe(1);
+      expect(transactionModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          externalId: 'R1',
+          exchange: 'ledger',
+          type: TransactionType.DEPOSIT,
+          asset: 'ETH',
+          amount: 0.5,
+        }),
+      );
+    });
+
+    it('skips ids the exchange already has, whatever the account', async () => {
+      transactionModel.exists.mockResolvedValue({ _id: new Types.ObjectId() });
+
+      const result = await service.importWithMapping(
+        csv([header, deposit]),
+        ledger._id.toString(),
+        new Types.ObjectId().toString(),
+        userId.toString(),
+      );
+
+      expect(result).toMatchObject({ imported: 0, skipped: 1 });
+      expect(transactionModel.exists).toHaveBeenCalledWith({
+        externalId: 'R1',
+        exchange: 'ledger',
+      });
+      expect(transactionModel.create).not.toHaveBeenCalled();
+    });
+
+    it('imports identical rows without an id once each', async () => {
+      const row = deposit.slice(0, -1);
+      mapping(undefined);
+
+      const result = await service.importWithMapping(
+        csv([header.slice(0, -1), row, row]),
+        ledger._id.toString(),
+        new Types.ObjectId().toString(),
+        userId.toString(),
+      );
+
+      expect(result).toMatchObject({ imported: 2, skipped: 0 });
+    });
+  });
+
+  describe('readKoinlyRow', () => {
+    const readKoinlyRow = (record: Record<string, string>) =>
+      internals.readKoinlyRow(internals.startRun(false), record);
+    const record = {
+      'Date (UTC)': '2024-01-15 14:30 UTC',
+      'Sent Amount': '0.5',
+      'Sent Currency': 'BTC',
+      'Received Amount': '20000',
+      'Received Currency': 'USDC;3408',
+      'Fee Amount': '10',
+      'Fee Currency': 'USDC',
+      Label: 'Swap',
+      'Sending Wallet': 'Kraken',
+      'Receiving Wallet': 'Kraken',
+      Description: 'Rebalance',
+    };
+
+    it('reads amounts, wallets and the label', () => {
+      expect(readKoinlyRow(record)).toMatchObject({
+        timestamp: new Date('2024-01-15T14:30:00Z'),
+        label: 'swap',
+        sent: { amount: 0.5, asset: 'BTC' },
+        received: { amount: 20000, asset: 'USDC' },
+        fee: { amount: 10, asset: 'USDC' },
+        sendingWallet: 'Kraken',
+        receivingWallet: 'Kraken',
+        notes: 'Rebalance',
+      });
+    });
+
+    it("uses Koinly's ID, then the hash, as the external id", () => {
+      expect(
+        readKoinlyRow({ ...record, ID: 'K1', TxHash: '0xabc' }).externalId,
+      ).toBe('koinly-K1');
+      expect(readKoinlyRow({ ...record, TxHash: '0xabc' }).externalId).toBe(
+        'koinly-0xabc',
+      );
+    });
+
+    it('derives a stable external id from the row without an id column', () => {
+      const first = readKoinlyRow(record).externalId;
+
+      expect(first).toMatch(/^koinly-[0-9a-f]{24}$/);
+      expect(readKoinlyRow({ ...record }).externalId).toBe(first);
+      expect(
+        readKoinlyRow({ ...record, 'Sent Amount': '0.6' }).externalId,
+      ).not.toBe(first);
+    });
+
+    it('gives identical rows of one file their own ids', () => {
+      const run = internals.startRun(false);
+      const ids = [record, { ...record }, { ...record }].map(
+        (r) => internals.readKoinlyRow(run, r).externalId,
+      );
+
+      expect(new Set(ids).size).toBe(3);
+      // The first copy keeps the id an earlier import of the file gave it
+      expect(ids[0]).toBe(readKoinlyRow(record).externalId);
+      // Reading the file again gives the same ids
+      const again = internals.startRun(false);
+      expect(
+        [record, record, record].map(
+          (r) => internals.readKoinlyRow(again, r).externalId,
+        ),
+      ).toEqual(ids);
+    });
+
+    it('falls back to the Type column and leaves empty sides out', () => {
+      const row = readKoinlyRow({
+        Date: '2024-01-15 14:30:00',
+        Type: 'Reward',
+        'Received Amount': '1.5',
+        'Received Currency': 'DOT',
+        'Sent Amount': '',
+        'Sent Currency': '',
+      });
+
+      expect(row.label).toBe('reward');
+      expect(row.received).toEqual({ amount: 1.5, asset: 'DOT' });
+      expect(row.sent).toBeUndefined();
+      expect(row.fee).toBeUndefined();
+    });
+  });
+
+  describe('readCoinTrackingRow', () => {
+    const readCoinTrackingRow = (record: Record<string, string>) =>
+      internals.readCoinTrackingRow(internals.startRun(false), record);
+    it('reads the import template columns', () => {
+      const row = readCoinTrackingRow({
+        Type: 'Trade',
+        'Buy Amount': '0.1',
+        'Buy Cur.': 'BTC',
+        'Sell Amount': '4000',
+        'Sell Cur.': 'EUR',
+        'Fee Amount': '5',
+        'Fee Cur.': 'EUR',
+        Exchange: 'Kraken',
+        Comment: 'DCA',
+        Date: '15.01.2024 14:30:00',
+        'Tx-ID': 'T1',
+      });
+
+      expect(row).toMatchObject({
+        externalId: 'cointracking-T1',
+        timestamp: new Date('2024-01-15T14:30:00Z'),
+        label: 'trade',
+        received: { amount: 0.1, asset: 'BTC' },
+        sent: { amount: 4000, asset: 'EUR' },
+        fee: { amount: 5, asset: 'EUR' },
+        sendingWallet: 'Kraken',
+        receivingWallet: 'Kraken',
+        notes: 'DCA',
+      });
+    });
+
+    it('reads the trade list export with its repeated Cur. columns', () => {
+      const row = readCoinTrackingRow({
+        Type: 'Withdrawal',
+        Buy: '',
+        'Cur.': '',
+        Sell: '1.2',
+        'Cur. (2)': 'ETH',
+        Fee: '0.001',
+        'Cur. (3)': 'ETH',
+        Exchange: 'Ledger',
+        Date: '15.01.2024 14:30',
+      });
+
+      expect(row.externalId).toMatch(/^cointracking-[0-9a-f]{24}$/);
+      expect(row.timestamp).toEqual(new Date('2024-01-15T14:30:00Z'));
+      expect(row.label).toBe('withdrawal');
+      expect(row.received).toBeUndefined();
+      expect(row.sent).toEqual({ amount: 1.2, asset: 'ETH' });
+      expect(row.fee).toEqual({ amount: 0.001, asset: 'ETH' });
+    });
+
+    it('rejects rows without a date', () => {
+      expect(() => readCoinTrackingRow({ Type: 'Deposit', Date: '' })).toThrow(
+        'Missing date',
+      );
+    });
+  });
+
+  describe('importTrackerCsv', () => {
+    const koinlyHeader = [
+      'Date (UTC)',
+      'Sent Amount',
+      'Sent Currency',
+      'Received Amount',
+      'Received Currency',
+      'Label',
+      'Sending Wallet',
+      'Receiving Wallet',
+      'ID',
+    ];
+    const dotDeposit = [
+      '2024-01-15 14:30:00',
+      '',
+      '',
+      '1.5',
+      'DOT',
+      '',
+      '',
+      'Ledger',
+      'K1',
+    ];
+
+    it('classifies new rows with the rules and leaves stored ones alone', async () => {
+      rules = [
+        {
+          name: 'DOT airdrops',
+          conditions: { asset: 'DOT' },
+          actions: { category: TransactionCategory.AIRDROP, tags: ['drop'] },
+        },
+      ];
+      const applyToHistory = jest.spyOn(rulesService, 'applyToHistory');
+
+      const result = await service.importTrackerCsv(
+        csv([koinlyHeader, dotDeposit]),
+        userId.toString(),
+      );
+
+      expect(result.imported).toBe(1);
+      expect(transactionModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          externalId: 'koinly-K1',
+          credentialId: ledger._id,
+          type: TransactionType.DEPOSIT,
+          category: TransactionCategory.AIRDROP,
+          tags: ['drop'],
+        }),
+      );
+      expect(applyToHistory).not.toHaveBeenCalled();
+      expect(pnlService.recalculateFrom).toHaveBeenCalledWith(
+        userId.toString(),
+        new Date('2024-01-15T14:30:00Z'),
+      );
+    });
+
+    it('imports identical rows without an id once each', async () => {
+      const row = dotDeposit.slice(0, -1);
+
+      const result = await service.importTrackerCsv(
+        csv([koinlyHeader.slice(0, -1), row, row]),
+        userId.toString(),
+      );
+
+      expect(result).toMatchObject({ imported: 2, skipped: 0 });
+      const [first, second] = transactionModel.create.mock.calls.map(
+        ([tx]) => tx.externalId,
+      );
+      expect(first).not.toBe(second);
+    });
+
+    it('skips rows the user or the exchange already has', async () => {
+      transactionModel.exists.mockResolvedValue({ _id: new Types.ObjectId() });
+
+      const result = await service.importTrackerCsv(
+        csv([koinlyHeader, dotDeposit]),
+        userId.toString(),
+      );
+
+      expect(result).toMatchObject({ imported: 0, skipped: 1 });
+      expect(transactionModel.exists).toHaveBeenCalledWith({
+        $or: [
+          { userId, externalId: 'koinly-K1' },
+          { externalId: 'koinly-K1', exchange: 'ledger' },
+        ],
+      });
+      expect(transactionModel.create).not.toHaveBeenCalled();
+    });
+
+    it('shows rule changes in the dry run preview', async () => {
+      rules = [
+        {
+          name: 'DOT staking',
+          conditions: { asset: 'DOT' },
+          actions: { type: TransactionType.INTEREST, tags: [] },
+        },
+      ];
+
+      const result = await service.importTrackerCsv(
+        csv([koinlyHeader, dotDeposit]),
+        userId.toString(),
+        undefined,
+        true,
+      );
+
+      expect(transactionModel.create).not.toHaveBeenCalled();
+      expect(result.rows).toEqual([
+        expect.objectContaining({
+          status: ImportRowStatus.NEW,
+          type: TransactionType.INTEREST,
+          externalId: 'koinly-K1',
+        }),
+      ]);
+    });
+  });
+});
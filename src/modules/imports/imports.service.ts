@@ -1,14 +1,143 @@
 import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model, Types } from 'mongoose';
+import { Model, Types, FilterQuery } from 'mongoose';
 import * as ExcelJS from 'exceljs';
+import { createHash } from 'crypto';
 import {
   Transaction,
   TransactionDocument,
 } from '../transactions/schemas/transaction.schema';
 import { TransactionType } from '../../common/constants/transaction-types.constant';
-import { ImportResultDto } from './dto/import-result.dto';
+import { ImportRowStatus } from '../../common/constants/import-row-status.constant';
+import { ImportPreviewRowDto, ImportResultDto } from './dto/import-result.dto';
 import { ExchangeCredentialsService } from '../exchange-credentials/exchange-credentials.service';
+import { ExchangeCredentialDocument } from '../exchange-credentials/schemas/exchange-credential.schema';
+import { ExchangeType } from '../../common/constants/exchanges.constant';
+import { TransactionCategory } from '../../common/constants/transaction-categories.constant';
+import { PnlService } from '../pnl/pnl.service';
+import {
+  RuleTarget,
+  TransactionRulesService,
+} from '../transactions/transaction-rules.service';
+import { TransactionRule } from '../transactions/schemas/transaction-rule.schema';
+import { TransactionDuplicatesService } from '../transactions/transaction-duplicates.service';
+import { ImportBatchesService, ImportFile } from './import-batches.service';
+import { ImportBatchDocument } from './schemas/import-batch.schema';
+import { ImportMappingsService } from './import-mappings.service';
+import { ImportMappingDocument } from './schemas/import-mapping.schema';
+import { ImportSource } from '../../common/constants/import-sources.constant';
+import {
+  AmountSign,
+  DATE_FORMAT_TOKENS,
+} from '../../common/constants/import-mapping.constant';
+import {
+  KrakenLedgerLeg,
+  groupKrakenLedger,
+  krakenSwapTrade,
+  normalizeKrakenAsset,
+  splitKrakenPair,
+} from '../../integrations/exchanges/kraken/kraken-ledger';
+
+// Amounts this close to zero are dust
+const DUST = 0.00000001;
+
+// Ledger types whose spend and receive entries form a trade
+const KRAKEN_TRADE_TYPES = ['trade', 'spend', 'receive'];
+
+// Receiving one of these for crypto is a sale in a tracker export
+const TRACKER_QUOTE_ASSETS = [
+  'USD',
+  'EUR',
+  'GBP',
+  'CHF',
+  'CAD',
+  'AUD',
+  'JPY',
+  'USDT',
+  'USDC',
+  'BUSD',
+  'DAI',
+];
+
+type TrackerMapping = Pick<Transaction, 'type' | 'category'>;
+
+// Koinly labels and CoinTracking types of rows that only receive
+const TRACKER_INCOMING_LABELS: Record<string, TrackerMapping> = {
+  '': { type: TransactionType.DEPOSIT },
+  deposit: { type: TransactionType.DEPOSIT },
+  crypto_deposit: { type: TransactionType.DEPOSIT },
+  fiat_deposit: { type: TransactionType.DEPOSIT },
+  transfer: { type: TransactionType.DEPOSIT },
+  reward: { type: TransactionType.INTEREST },
+  'reward / bonus': { type: TransactionType.INTEREST },
+  staking: { type: TransactionType.INTEREST },
+  mining: { type: TransactionType.INTEREST },
+  cashback: { type: TransactionType.INTEREST },
+  'lending interest': { type: TransactionType.INTEREST },
+  'loan interest': { type: TransactionType.INTEREST },
+  'lending income': { type: TransactionType.INTEREST },
+  'interest income': { type: TransactionType.INTEREST },
+  airdrop: {
+    type: TransactionType.DEPOSIT,
+    category: TransactionCategory.AIRDROP,
+  },
+  fork: {
+    type: TransactionType.DEPOSIT,
+    category: TransactionCategory.AIRDROP,
+  },
+  gift: { type: TransactionType.DEPOSIT, category: TransactionCategory.GIFT },
+  'gift / tip': {
+    type: TransactionType.DEPOSIT,
+    category: TransactionCategory.GIFT,
+  },
+  income: {
+    type: TransactionType.DEPOSIT,
+    category: TransactionCategory.PAYMENT,
+  },
+  'other income': {
+    type: TransactionType.DEPOSIT,
+    category: TransactionCategory.PAYMENT,
+  },
+};
+
+// Koinly labels and CoinTracking types of rows that only send
+const TRACKER_OUTGOING_LABELS: Record<string, TrackerMapping> = {
+  '': { type: TransactionType.WITHDRAWAL },
+  withdrawal: { type: TransactionType.WITHDRAWAL },
+  crypto_withdrawal: { type: TransactionType.WITHDRAWAL },
+  fiat_withdrawal: { type: TransactionType.WITHDRAWAL },
+  transfer: { type: TransactionType.WITHDRAWAL },
+  gift: {
+    type: TransactionType.WITHDRAWAL,
+    category: TransactionCategory.GIFT,
+  },
+  donation: {
+    type: TransactionType.WITHDRAWAL,
+    category: TransactionCategory.GIFT,
+  },
+  lost: {
+    type: TransactionType.WITHDRAWAL,
+    category: TransactionCategory.LOST,
+  },
+  stolen: {
+    type: TransactionType.WITHDRAWAL,
+    category: TransactionCategory.LOST,
+  },
+  spend: {
+    type: TransactionType.WITHDRAWAL,
+    category: TransactionCategory.PAYMENT,
+  },
+  payment: {
+    type: TransactionType.WITHDRAWAL,
+    category: TransactionCategory.PAYMENT,
+  },
+  cost: { type: TransactionType.FEE },
+  fee: { type: TransactionType.FEE },
+  'margin fee': { type: TransactionType.FEE },
+  'loan fee': { type: TransactionType.FEE },
+  'other fee': { type: TransactionType.FEE },
+  'other expense': { type: TransactionType.FEE },
+};
 
 interface NexoCsvRow {
   Transaction: string;
@@ -55,6 +184,63 @@ interface BinanceWithdrawRow {
   status: string;
 }
 
+/**
+ * Outcome of one import so far. On a dry run nothing is written, but every
+ * row goes through the same checks.
+ */
+interface ImportRun {
+  dryRun: boolean;
+  imported: number;
+  skipped: number;
+  errors: number;
+  // Unset on a dry run
+  batch?: ImportBatchDocument;
+  // Earliest imported transaction, where P&L is replayed from
+  since?: Date;
+  until?: Date;
+  // External ids imported by this run, so a dry run still spots repeats
+  seen: Set<string>;
+  // Times each row without an id was read, so identical rows get their own ids
+  rowCounts: Map<string, number>;
+  rows: ImportPreviewRowDto[];
+  // The user's enabled rules, loaded with the first new row
+  rules?: TransactionRule[];
+}
+
+interface TrackerAmount {
+  amount: number;
+  asset: string;
+}
+
+/**
+ * Row of a Koinly or CoinTracking export in common terms
+ */
+interface TrackerRow {
+  externalId: string;
+  timestamp: Date;
+  label: string; // Lower-cased Koinly label or CoinTracking type
+  sent?: TrackerAmount;
+  received?: TrackerAmount;
+  fee?: TrackerAmount;
+  sendingWallet?: string;
+  receivingWallet?: string;
+  notes?: string;
+  raw: Record<string, string>;
+}
+
+/**
+ * Accounts tracker rows can go to. With `fixed` every row goes to the one
+ * credential asked for.
+ */
+interface TrackerAccounts {
+  userId: string;
+  dryRun: boolean;
+  credentials: ExchangeCredentialDocument[];
+  fixed: boolean;
+  // Default manual wallet, looked up on first use
+  manual?: Partial<Transaction>;
+}
+
 @Injectable()
 export class ImportsService {
   private readonly logger = new Logger(ImportsService.name);
@@ -63,6 +249,11 @@ export class ImportsService {
     @InjectModel(Transaction.name)
     private transactionModel: Model<TransactionDocument>,
     private readonly credentialsService: ExchangeCredentialsService,
+    private readonly pnlService: PnlService,
+    private readonly rulesService: TransactionRulesService,
+    private readonly duplicatesService: TransactionDuplicatesService,
+    private readonly batchesService: ImportBatchesService,
+    private readonly mappingsService: ImportMappingsService,
   ) {}
 
   /**
@@ -76,21 +267,203 @@ export class ImportsService {
     return credential.exchange;
   }
 
+  /**
+   * Imported history is usually older than what is already booked, so P&L
+   * is rolled back to the earliest imported transaction and replayed.
+   * Records the API already brought in are flagged as duplicates for review.
+   */
+  private async afterImport(userId: string, since?: Date): Promise<void> {
+    if (!since) return;
+
+    try {
+      await this.pnlService.recalculateFrom(userId, since);
+    } catch (error) {
+      this.logger.warn(`Failed to update P&L after import: ${error.message}`);
+    }
+
+    try {
+      await this.duplicatesService.detect(userId, since);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to detect duplicates after import: ${error.message}`,
+      );
+    }
+  }
+
+  private earliest(current: Date | undefined, timestamp: Date): Date {
+    return current && current <= timestamp ? current : timestamp;
+  }
+
+  private startRun(dryRun: boolean): ImportRun {
+    return {
+      dryRun,
+      imported: 0,
+      skipped: 0,
+      errors: 0,
+      seen: new Set(),
+      rowCounts: new Map(),
+      rows: [],
+    };
+  }
+
+  /**
+   * Log the upload as a batch once the file turned out to be readable
+   */
+  private async openBatch(
+    run: ImportRun,
+    file: ImportFile,
+    source: ImportSource,
+    credentialId: string | undefined,
+    userId: string,
+  ): Promise<void> {
+    if (!run.dryRun) {
+      run.batch = await this.batchesService.start(
+        userId,
+        credentialId,
+        source,
+        file,
+      );
+    }
+  }
+
+  /**
+   * Whether the transaction is already stored, or earlier in this file
+   */
+  private async isDuplicate(
+    run: ImportRun,
+    externalId: string,
+    query: FilterQuery<Transaction>,
+  ): Promise<boolean> {
+    if (run.seen.has(externalId)) {
+      return true;
+    }
+    return !!(await this.transactionModel.exists(query));
+  }
+
+  private async insert(
+    run: ImportRun,
+    transaction: Partial<Transaction>,
+  ): Promise<void> {
+    if (isNaN(transaction.timestamp?.getTime())) {
+      throw new Error('Invalid date');
+    }
+
+    // Rules classify new rows only; stored ones keep what the user set
+    run.rules ??= await this.rulesService.getEnabledRules(
+      transaction.userId.toString(),
+    );
+    const changes = this.rulesService.evaluate(
+      run.rules,
+      transaction as RuleTarget,
+    );
+    if (changes) {
+      this.rulesService.applyChanges(transaction as RuleTarget, changes);
+    }
+    if (!run.dryRun) {
+      await this.transactionModel.create({
+        ...transaction,
+        importBatchId: run.batch?._id,
+      });
+    }
+    run.seen.add(transaction.externalId);
+    run.imported++;
+    run.since = this.earliest(run.since, transaction.timestamp);
+    if (!run.until || transaction.timestamp > run.until) {
+      run.until = transaction.timestamp;
+    }
+    run.rows.push(this.previewRow(ImportRowStatus.NEW, transaction));
+  }
+
+  private skip(
+    run: ImportRun,
+    status: ImportRowStatus,
+    transaction: Partial<Transaction>,
+    reason?: string,
+  ): void {
+    run.skipped++;
+    run.rows.push(this.previewRow(status, transaction, reason));
+  }
+
+  private fail(
+    run: ImportRun,
+    error: Error,
+    source: Record<string, unknown>,
+  ): void {
+    run.errors++;
+    run.rows.push({
+      status: ImportRowStatus.ERROR,
+      reason: error.message,
+      source,
+    });
+  }
+
+  private previewRow(
+    status: ImportRowStatus,
+    transaction: Partial<Transaction>,
+    reason?: string,
+  ): ImportPreviewRowDto {
+    return {
+      status,
+      type: transaction.type,
+      asset: transaction.asset,
+      amount: transaction.amount,
+      pair: transaction.pair,
+      timestamp: transaction.timestamp,
+      externalId: transaction.externalId,
+      reason,
+      source: transaction.rawData,
+    };
+  }
+
+  private async finishImport(
+    run: ImportRun,
+    label: string,
+    userId: string,
+  ): Promise<ImportResultDto> {
+    this.logger.log(
+      `${label}${run.dryRun ? ' (dry run)' : ''}: ${run.imported} imported, ${run.skipped} skipped, ${run.errors} errors`,
+    );
+
+    const result: ImportResultDto = {
+      imported: run.imported,
+      skipped: run.skipped,
+      errors: run.errors,
+    };
+    if (run.dryRun) {
+      return { ...result, dryRun: true, rows: run.rows };
+    }
+
+    await this.batchesService.finish(run.batch, {
+      imported: run.imported,
+      skipped: run.skipped,
+      failed: run.errors,
+      firstTransactionAt: run.since,
+      lastTransactionAt: run.until,
+    });
+    await this.afterImport(userId, run.since);
+    return { ...result, batchId: run.batch._id.toString() };
+  }
+
   async importNexoCsv(
-    fileBuffer: Buffer,
+    file: ImportFile,
     credentialId: string,
     userId: string,
+    dryRun = false,
   ): Promise<ImportResultDto> {
-    const content = fileBuffer.toString('utf-8');
-    const records = this.parseCsv(content);
+    const run = this.startRun(dryRun);
+    const content = file.buffer.toString('utf-8');
+    const records = this.parseCsv(content, run);
 
     if (records.length === 0) {
       throw new BadRequestException('No valid records found in CSV file');
     }
-
-    let imported = 0;
-    let skipped = 0;
-    let errors = 0;
+    await this.openBatch(
+      run,
+      file,
+      ImportSource.NEXO_CSV,
+      credentialId,
+      userId,
+    );
 
     for (const record of records) {
       try {
@@ -101,49 +474,67 @@ export class ImportsService {
         );
 
         // Check if transaction already exists
-        const existing = await this.transactionModel.findOne({
+        const duplicate = await this.isDuplicate(run, transaction.externalId, {
           externalId: transaction.externalId,
           exchange: transaction.exchange,
         });
 
-        if (existing) {
-          skipped++;
+        if (duplicate) {
+          this.skip(run, ImportRowStatus.DUPLICATE, transaction);
         } else {
-          await this.transactionModel.create(transaction);
-          imported++;
+          await this.insert(run, transaction);
         }
       } catch (error) {
         this.logger.warn(`Failed to import row: ${error.message}`);
-        errors++;
+        this.fail(run, error, record as unknown as Record<string, unknown>);
       }
     }
 
-    this.logger.log(
-      `Import completed: ${imported} imported, ${skipped} skipped, ${errors} errors`,
-    );
+    return this.finishImport(run, 'Nexo CSV import', userId);
+  }
 
-    return { imported, skipped, errors };
+  private parseCsv(content: string, run: ImportRun): NexoCsvRow[] {
+    return this.parseCsvRows(content, run).filter(
+      (record) => record['Transaction'] && record['Type'],
+    ) as unknown as NexoCsvRow[];
   }
 
-  private parseCsv(content: string): NexoCsvRow[] {
+  /**
+   * Rows keyed by header. A repeated header gets its position appended, as
+   * in `Cur.`, `Cur. (2)`. Lines whose column count doesn't match the header
+   * are recorded as failed rows of the run.
+   */
+  private parseCsvRows(
+    content: string,
+    run: ImportRun,
+  ): Record<string, string>[] {
     const lines = content.split('\n').filter((line) => line.trim());
     if (lines.length < 2) return [];
 
-    const headers = this.parseCSVLine(lines[0]);
-    const records: NexoCsvRow[] = [];
+    const headers = this.parseCSVLine(lines[0]).map((header, index, all) => {
+      const count = all.slice(0, index).filter((h) => h === header).length;
+      return count > 0 ? `${header} (${count + 1})` : header;
+    });
+    const records: Record<string, string>[] = [];
 
     for (let i = 1; i < lines.length; i++) {
       const values = this.parseCSVLine(lines[i]);
-      if (values.length !== headers.length) continue;
+      if (values.length !== headers.length) {
+        this.fail(
+          run,
+          new Error(
+            `Expected ${headers.length} columns, found ${values.length}`,
+          ),
+          { row: i, content: lines[i] },
+        );
+        continue;
+      }
 
       const record: Record<string, string> = {};
       for (let j = 0; j < headers.length; j++) {
         record[headers[j]] = values[j];
       }
-
-      if (record['Transaction'] && record['Type']) {
-        records.push(record as unknown as NexoCsvRow);
-      }
+      records.push(record);
     }
 
     return records;
@@ -211,7 +602,7 @@ export class ImportsService {
         record['Fee Currency'] && record['Fee Currency'] !== '-'
           ? record['Fee Currency']
           : undefined,
-      timestamp: this.parseNexoDate(record['Date / Time (UTC)']),
+      timestamp: this.parseUtcDate(record['Date / Time (UTC)']),
       rawData: {
         ...record,
         inputCurrency: record['Input Currency'],
@@ -246,10 +637,10 @@ export class ImportsService {
   }
 
   /**
-   * Parse Nexo date string as UTC
-   * Nexo format: "2024-01-15 14:30:00" (already in UTC)
+   * Parse a date string without timezone as UTC
+   * Nexo and Kraken format: "2024-01-15 14:30:00" (already in UTC)
    */
-  private parseNexoDate(dateStr: string): Date {
+  private parseUtcDate(dateStr: string): Date {
     if (!dateStr) return new Date();
 
     // If the date string doesn't have timezone info, append 'Z' to treat it as UTC
@@ -267,7 +658,7 @@ export class ImportsService {
 
     // Fallback if parsing fails
     if (isNaN(parsed.getTime())) {
-      this.logger.warn(`Failed to parse Nexo date as UTC: ${dateStr}`);
+      this.logger.warn(`Failed to parse date as UTC: ${dateStr}`);
       return new Date(dateStr);
     }
 
@@ -328,15 +719,16 @@ export class ImportsService {
    * Import Binance deposits from Excel file
    */
   async importBinanceDeposits(
-    fileBuffer: Buffer,
+    file: ImportFile,
     credentialId: string,
     userId: string,
+    dryRun = false,
   ): Promise<ImportResultDto> {
     // Get the exchange from the credential
     const exchange = await this.getCredentialExchange(credentialId, userId);
 
     const workbook = new ExcelJS.Workbook();
-    await workbook.xlsx.load(fileBuffer as unknown as ExcelJS.Buffer);
+    await workbook.xlsx.load(file.buffer as unknown as ExcelJS.Buffer);
 
     const sheet = workbook.worksheets[0];
     const records = this.parseBinanceDepositRows(sheet);
@@ -345,17 +737,34 @@ export class ImportsService {
       throw new BadRequestException('No valid deposit records found in Excel file');
     }
 
-    let imported = 0;
-    let skipped = 0;
-    let errors = 0;
+    const run = this.startRun(dryRun);
+    await this.openBatch(
+      run,
+      file,
+      ImportSource.BINANCE_DEPOSITS,
+      credentialId,
+      userId,
+    );
 
     for (const record of records) {
       try {
         const externalId = `binance-deposit-${record.txid || record.time}`;
         const timestamp = this.parseBinanceDate(record.time);
 
+        const transaction: Partial<Transaction> = {
+          userId: new Types.ObjectId(userId),
+          credentialId: new Types.ObjectId(credentialId),
+          exchange,
+          externalId,
+          type: TransactionType.DEPOSIT,
+          asset: record.coin,
+          amount: record.amount,
+          timestamp,
+          rawData: record as unknown as Record<string, unknown>,
+        };
+
         // Check for duplicates by externalId OR by matching fields
-        const existing = await this.transactionModel.findOne({
+        const duplicate = await this.isDuplicate(run, externalId, {
           credentialId: new Types.ObjectId(credentialId),
           $or: [
             { externalId },
@@ -371,48 +780,34 @@ export class ImportsService {
           ],
         });
 
-        if (existing) {
-          skipped++;
+        if (duplicate) {
+          this.skip(run, ImportRowStatus.DUPLICATE, transaction);
         } else {
-          await this.transactionModel.create({
-            userId: new Types.ObjectId(userId),
-            credentialId: new Types.ObjectId(credentialId),
-            exchange,
-            externalId,
-            type: TransactionType.DEPOSIT,
-            asset: record.coin,
-            amount: record.amount,
-            timestamp,
-            rawData: record as unknown as Record<string, unknown>,
-          });
-          imported++;
+          await this.insert(run, transaction);
         }
       } catch (error) {
         this.logger.warn(`Failed to import deposit: ${error.message}`);
-        errors++;
+        this.fail(run, error, record as unknown as Record<string, unknown>);
       }
     }
 
-    this.logger.log(
-      `Binance deposits import: ${imported} imported, ${skipped} skipped, ${errors} errors`,
-    );
-
-    return { imported, skipped, errors };
+    return this.finishImport(run, 'Binance deposits import', userId);
   }
 
   /**
    * Import Binance withdrawals from Excel file
    */
   async importBinanceWithdrawals(
-    fileBuffer: Buffer,
+    file: ImportFile,
     credentialId: string,
     userId: string,
+    dryRun = false,
   ): Promise<ImportResultDto> {
     // Get the exchange from the credential
     const exchange = await this.getCredentialExchange(credentialId, userId);
 
     const workbook = new ExcelJS.Workbook();
-    await workbook.xlsx.load(fileBuffer as unknown as ExcelJS.Buffer);
+    await workbook.xlsx.load(file.buffer as unknown as ExcelJS.Buffer);
 
     const sheet = workbook.worksheets[0];
     const records = this.parseBinanceWithdrawRows(sheet);
@@ -421,17 +816,36 @@ export class ImportsService {
       throw new BadRequestException('No valid withdrawal records found in Excel file');
     }
 
-    let imported = 0;
-    let skipped = 0;
-    let errors = 0;
+    const run = this.startRun(dryRun);
+    await this.openBatch(
+      run,
+      file,
+      ImportSource.BINANCE_WITHDRAWALS,
+      credentialId,
+      userId,
+    );
 
     for (const record of records) {
       try {
         const externalId = `binance-withdraw-${record.txid || record.time}`;
         const timestamp = this.parseBinanceDate(record.time);
 
+        const transaction: Partial<Transaction> = {
+          userId: new Types.ObjectId(userId),
+          credentialId: new Types.ObjectId(credentialId),
+          exchange,
+          externalId,
+          type: TransactionType.WITHDRAWAL,
+          asset: record.coin,
+          amount: record.amount,
+          fee: record.fee || undefined,
+          feeAsset: record.fee ? record.coin : undefined,
+          timestamp,
+          rawData: record as unknown as Record<string, unknown>,
+        };
+
         // Check for duplicates by externalId OR by matching fields
-        const existing = await this.transactionModel.findOne({
+        const duplicate = await this.isDuplicate(run, externalId, {
           credentialId: new Types.ObjectId(credentialId),
           $or: [
             { externalId },
@@ -447,35 +861,18 @@ export class ImportsService {
           ],
         });
 
-        if (existing) {
-          skipped++;
+        if (duplicate) {
+          this.skip(run, ImportRowStatus.DUPLICATE, transaction);
         } else {
-          await this.transactionModel.create({
-            userId: new Types.ObjectId(userId),
-            credentialId: new Types.ObjectId(credentialId),
-            exchange,
-            externalId,
-            type: TransactionType.WITHDRAWAL,
-            asset: record.coin,
-            amount: record.amount,
-            fee: record.fee || undefined,
-            feeAsset: record.fee ? record.coin : undefined,
-            timestamp,
-            rawData: record as unknown as Record<string, unknown>,
-          });
-          imported++;
+          await this.insert(run, transaction);
         }
       } catch (error) {
         this.logger.warn(`Failed to import withdrawal: ${error.message}`);
-        errors++;
+        this.fail(run, error, record as unknown as Record<string, unknown>);
       }
     }
 
-    this.logger.log(
-      `Binance withdrawals import: ${imported} imported, ${skipped} skipped, ${errors} errors`,
-    );
-
-    return { imported, skipped, errors };
+    return this.finishImport(run, 'Binance withdrawals import', userId);
   }
 
   /**
@@ -483,15 +880,16 @@ export class ImportsService {
    * This includes: interest, cashback, trades, card spending, etc.
    */
   async importBinanceTransactions(
-    fileBuffer: Buffer,
+    file: ImportFile,
     credentialId: string,
     userId: string,
+    dryRun = false,
   ): Promise<ImportResultDto> {
     // Get the exchange from the credential
     const exchange = await this.getCredentialExchange(credentialId, userId);
 
     const workbook = new ExcelJS.Workbook();
-    await workbook.xlsx.load(fileBuffer as unknown as ExcelJS.Buffer);
+    await workbook.xlsx.load(file.buffer as unknown as ExcelJS.Buffer);
 
     const sheet = workbook.worksheets[0];
     const records = this.parseBinanceTransactionRows(sheet);
@@ -500,9 +898,14 @@ export class ImportsService {
       throw new BadRequestException('No valid transaction records found in Excel file');
     }
 
-    let imported = 0;
-    let skipped = 0;
-    let errors = 0;
+    const run = this.startRun(dryRun);
+    await this.openBatch(
+      run,
+      file,
+      ImportSource.BINANCE_TRANSACTIONS,
+      credentialId,
+      userId,
+    );
 
     // Group records by timestamp to match trade pairs
     const recordsByTime = new Map<string, BinanceTransactionRow[]>();
@@ -521,59 +924,52 @@ export class ImportsService {
       // Process trades as pairs
       if (tradeRecords.length >= 2) {
         try {
-          const result = await this.processBinanceTradePair(
+          await this.processBinanceTradePair(
+            run,
             tradeRecords,
             exchange,
             credentialId,
             userId,
           );
-          imported += result.imported;
-          skipped += result.skipped;
         } catch (error) {
           this.logger.warn(`Failed to import trade pair at ${time}: ${error.message}`);
-          errors++;
+          this.fail(run, error, { records: tradeRecords });
         }
       } else if (tradeRecords.length === 1) {
         // Single trade record without pair - import as simple trade
         const record = tradeRecords[0];
         try {
-          const result = await this.importSimpleBinanceTransaction(
+          await this.importSimpleBinanceTransaction(
+            run,
             record,
             exchange,
             credentialId,
             userId,
           );
-          if (result === 'imported') imported++;
-          else if (result === 'skipped') skipped++;
         } catch (error) {
           this.logger.warn(`Failed to import single trade: ${error.message}`);
-          errors++;
+          this.fail(run, error, record as unknown as Record<string, unknown>);
         }
       }
 
       // Process non-trade records individually
       for (const record of nonTradeRecords) {
         try {
-          const result = await this.importSimpleBinanceTransaction(
+          await this.importSimpleBinanceTransaction(
+            run,
             record,
             exchange,
             credentialId,
             userId,
           );
-          if (result === 'imported') imported++;
-          else if (result === 'skipped') skipped++;
         } catch (error) {
           this.logger.warn(`Failed to import transaction: ${error.message}`);
-          errors++;
+          this.fail(run, error, record as unknown as Record<string, unknown>);
         }
       }
     }
 
-    this.logger.log(
-      `Binance transactions import: ${imported} imported, ${skipped} skipped, ${errors} errors`,
-    );
-
-    return { imported, skipped, errors };
+    return this.finishImport(run, 'Binance transactions import', userId);
   }
 
   /**
@@ -595,25 +991,28 @@ export class ImportsService {
    * Process a pair of trade records (buy + sell) into a single trade transaction
    */
   private async processBinanceTradePair(
+    run: ImportRun,
     tradeRecords: BinanceTransactionRow[],
     exchange: string,
     credentialId: string,
     userId: string,
-  ): Promise<{ imported: number; skipped: number }> {
+  ): Promise<void> {
     // Find the buy side (positive change) and sell side (negative change)
     const buyRecord = tradeRecords.find(r => r.change > 0);
     const sellRecord = tradeRecords.find(r => r.change < 0);
 
     if (!buyRecord || !sellRecord) {
       // Can't determine pair, import individually
-      let imported = 0;
-      let skipped = 0;
       for (const record of tradeRecords) {
-        const result = await this.importSimpleBinanceTransaction(record, exchange, credentialId, userId);
-        if (result === 'imported') imported++;
-        else if (result === 'skipped') skipped++;
+        await this.importSimpleBinanceTransaction(
+          run,
+          record,
+          exchange,
+          credentialId,
+          userId,
+        );
       }
-      return { imported, skipped };
+      return;
     }
 
     // Create trade with full details
@@ -629,29 +1028,7 @@ export class ImportsService {
 
     const externalId = `binance-trade-${buyRecord.time}-${asset}-${priceAsset}-${amount}`;
 
-    // Check for duplicates by externalId OR by matching fields
-    const existing = await this.transactionModel.findOne({
-      credentialId: new Types.ObjectId(credentialId),
-      $or: [
-        { externalId },
-        {
-          type: TransactionType.TRADE,
-          asset,
-          amount: { $gte: amount - 0.00000001, $lte: amount + 0.00000001 },
-          pair,
-          timestamp: {
-            $gte: new Date(timestamp.getTime() - 60000), // 1 minute tolerance
-            $lte: new Date(timestamp.getTime() + 60000),
-          },
-        },
-      ],
-    });
-
-    if (existing) {
-      return { imported: 0, skipped: 1 };
-    }
-
-    await this.transactionModel.create({
+    const transaction: Partial<Transaction> = {
       userId: new Types.ObjectId(userId),
       credentialId: new Types.ObjectId(credentialId),
       exchange,
@@ -661,6 +1038,7 @@ export class ImportsService {
       amount,
       price,
       priceAsset,
+      total: priceAmount,
       pair,
       side: 'buy',
       timestamp,
@@ -668,38 +1046,79 @@ export class ImportsService {
         buyRecord,
         sellRecord,
       } as unknown as Record<string, unknown>,
+    };
+
+    // Check for duplicates by externalId OR by matching fields
+    const duplicate = await this.isDuplicate(run, externalId, {
+      credentialId: new Types.ObjectId(credentialId),
+      $or: [
+        { externalId },
+        {
+          type: TransactionType.TRADE,
+          asset,
+          amount: { $gte: amount - 0.00000001, $lte: amount + 0.00000001 },
+          pair,
+          timestamp: {
+            $gte: new Date(timestamp.getTime() - 60000), // 1 minute tolerance
+            $lte: new Date(timestamp.getTime() + 60000),
+          },
+        },
+      ],
     });
 
-    return { imported: 1, skipped: 0 };
+    if (duplicate) {
+      this.skip(run, ImportRowStatus.DUPLICATE, transaction);
+    } else {
+      await this.insert(run, transaction);
+    }
   }
 
   /**
    * Import a simple (non-paired) Binance transaction
    */
   private async importSimpleBinanceTransaction(
+    run: ImportRun,
     record: BinanceTransactionRow,
     exchange: string,
     credentialId: string,
     userId: string,
-  ): Promise<'imported' | 'skipped' | 'error'> {
+  ): Promise<void> {
+    const externalId = `binance-tx-${record.time}-${record.coin}-${record.operation}-${record.change}`;
+    const timestamp = this.parseBinanceDate(record.time);
+    const amount = Math.abs(record.change);
+    const transaction: Partial<Transaction> = {
+      userId: new Types.ObjectId(userId),
+      credentialId: new Types.ObjectId(credentialId),
+      exchange,
+      externalId,
+      asset: record.coin,
+      amount,
+      timestamp,
+      rawData: record as unknown as Record<string, unknown>,
+    };
+
     // Skip internal transfers
     if (this.isInternalBinanceTransfer(record.operation)) {
-      return 'skipped';
+      this.skip(run, ImportRowStatus.INTERNAL_TRANSFER, transaction);
+      return;
     }
 
     const mappedType = this.mapBinanceOperationType(record.operation, record.change);
 
     // Skip if we can't determine the type
     if (!mappedType) {
-      return 'skipped';
+      this.skip(
+        run,
+        ImportRowStatus.UNSUPPORTED,
+        transaction,
+        `Unknown operation: ${record.operation}`,
+      );
+      return;
     }
-
-    const externalId = `binance-tx-${record.time}-${record.coin}-${record.operation}-${record.change}`;
-    const timestamp = this.parseBinanceDate(record.time);
-    const amount = Math.abs(record.change);
+    transaction.type = mappedType;
 
     // Check for duplicates by externalId OR by matching fields
-    const existing = await this.transactionModel.findOne({
+    const duplicate = await this.isDuplicate(run, externalId, {
       credentialId: new Types.ObjectId(credentialId),
       $or: [
         { externalId },
@@ -715,23 +1134,11 @@ export class ImportsService {
       ],
     });
 
-    if (existing) {
-      return 'skipped';
+    if (duplicate) {
+      this.skip(run, ImportRowStatus.DUPLICATE, transaction);
+    } else {
+      await this.insert(run, transaction);
     }
-
-    await this.transactionModel.create({
-      userId: new Types.ObjectId(userId),
-      credentialId: new Types.ObjectId(credentialId),
-      exchange,
-      externalId,
-      type: mappedType,
-      asset: record.coin,
-      amount,
-      timestamp,
-      rawData: record as unknown as Record<string, unknown>,
-    });
-
-    return 'imported';
   }
 
   // ==================== BINANCE PARSING HELPERS ====================
@@ -917,4 +1324,921 @@ export class ImportsService {
     this.logger.debug(`Unknown Binance operation: ${operation}`);
     return null;
   }
+
+  // ==================== MAPPED IMPORT ====================
+
+  /**
+   * Import any CSV or Excel export through one of the user's saved column
+   * mappings
+   */
+  async importWithMapping(
+    file: ImportFile,
+    credentialId: string,
+    mappingId: string,
+    userId: string,
+    dryRun = false,
+  ): Promise<ImportResultDto> {
+    const exchange = await this.getCredentialExchange(credentialId, userId);
+    const mapping = await this.mappingsService.findMapping(userId, mappingId);
+    const run = this.startRun(dryRun);
+
+    const records = file.originalname.endsWith('.xlsx')
+      ? await this.parseExcelRows(file, mapping.skipRows)
+      : this.parseCsvRows(
+          file.buffer
+            .toString('utf-8')
+            .replace(/^\uFEFF/, '')
+            .split('\n')
+            .slice(mapping.skipRows)
+            .join('\n'),
+          run,
+        );
+
+    if (records.length === 0) {
+      throw new BadRequestException('No records found in file');
+    }
+    const columns = Object.values(mapping.toObject().columns) as string[];
+    const missing = columns.filter((column) => !(column in records[0]));
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Columns not found in file: ${missing.join(', ')}`,
+      );
+    }
+    await this.openBatch(run, file, ImportSource.MAPPED, credentialId, userId);
+
+    const owner: Partial<Transaction> = {
+      userId: new Types.ObjectId(userId),
+      credentialId: new Types.ObjectId(credentialId),
+      exchange,
+    };
+    for (const record of records) {
+      try {
+        const transaction = this.mapRecord(run, mapping, record, owner);
+        if (!transaction.type) {
+          this.skip(
+            run,
+            ImportRowStatus.UNSUPPORTED,
+            transaction,
+            `No type mapping for ${record[mapping.columns.type] || 'empty type'}`,
+          );
+          continue;
+        }
+
+        // Same key as the unique index: the id column of an exchange's
+        // export may already have come in through another of its accounts
+        const duplicate = await this.isDuplicate(run, transaction.externalId, {
+          externalId: transaction.externalId,
+          exchange,
+        });
+        if (duplicate) {
+          this.skip(run, ImportRowStatus.DUPLICATE, transaction);
+        } else {
+          await this.insert(run, transaction);
+        }
+      } catch (error) {
+        this.logger.warn(`Failed to import mapped row: ${error.message}`);
+        this.fail(run, error, record);
+      }
+    }
+
+    return this.finishImport(
+      run,
+      `Import with mapping ${mapping.name}`,
+      userId,
+    );
+  }
+
+  /**
+   * Rows of the first sheet keyed by the header row. Date cells come
+   * through as ISO strings whatever the mapping's date format.
+   */
+  private async parseExcelRows(
+    file: ImportFile,
+    skipRows: number,
+  ): Promise<Record<string, string>[]> {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(file.buffer as unknown as ExcelJS.Buffer);
+    const sheet = workbook.worksheets[0];
+    if (!sheet) return [];
+
+    const headers: string[] = [];
+    sheet.getRow(skipRows + 1).eachCell((cell, column) => {
+      headers[column] = cell.text.trim();
+    });
+
+    const records: Record<string, string>[] = [];
+    for (let i = skipRows + 2; i <= sheet.rowCount; i++) {
+      const row = sheet.getRow(i);
+      if (!row.hasValues) continue;
+
+      const record: Record<string, string> = {};
+      headers.forEach((header, column) => {
+        const cell = row.getCell(column);
+        record[header] =
+          cell.value instanceof Date ? cell.value.toISOString() : cell.text;
+      });
+      records.push(record);
+    }
+    return records;
+  }
+
+  private mapRecord(
+    run: ImportRun,
+    mapping: ImportMappingDocument,
+    record: Record<string, string>,
+    owner: Partial<Transaction>,
+  ): Partial<Transaction> {
+    const { columns } = mapping;
+    const text = (column?: string) =>
+      (column && record[column]?.trim()) || undefined;
+    const number = (column?: string) =>
+      this.parseMappedAmount(text(column), mapping.decimalComma);
+
+    const dateText = text(columns.timestamp);
+    const asset = text(columns.asset)?.toUpperCase();
+    const signedAmount = number(columns.amount);
+    if (!dateText) throw new Error('Missing date');
+    if (!asset) throw new Error('Missing asset');
+    if (!signedAmount) throw new Error('Missing amount');
+
+    const typeText = text(columns.type)?.toLowerCase();
+    const typeMapping = mapping.types.find(
+      (t) => t.value.toLowerCase() === typeText,
+    );
+    let type = typeMapping?.type ?? mapping.defaultType;
+    let side = typeMapping?.side;
+
+    // With signed amounts the sign tells which way the money went
+    const outgoing =
+      mapping.amountSign === AmountSign.SIGNED && signedAmount < 0;
+    if (
+      type === TransactionType.DEPOSIT ||
+      type === TransactionType.WITHDRAWAL
+    ) {
+      type = outgoing ? TransactionType.WITHDRAWAL : TransactionType.DEPOSIT;
+    }
+    if (type === TransactionType.TRADE) {
+      side = side ?? (outgoing ? 'sell' : 'buy');
+    }
+
+    const amount = Math.abs(signedAmount);
+    const [, pairQuote] = text(columns.pair)?.split(/[/\-_]/) ?? [];
+    const priceAsset = (text(columns.priceAsset) ?? pairQuote)?.toUpperCase();
+    const price = Math.abs(number(columns.price)) || undefined;
+    const total =
+      Math.abs(number(columns.total)) || (price ? price * amount : undefined);
+    const fee = Math.abs(number(columns.fee)) || undefined;
+    const feeAsset =
+      text(columns.feeAsset)?.toUpperCase() ||
+      (type === TransactionType.TRADE ? priceAsset : undefined) ||
+      asset;
+
+    return {
+      ...owner,
+      externalId: text(columns.externalId) ?? this.rowId(run, record),
+      type,
+      asset,
+      amount,
+      price,
+      priceAsset,
+      total,
+      pair:
+        type === TransactionType.TRADE && priceAsset
+          ? `${asset}/${priceAsset}`
+          : undefined,
+      side,
+      fee,
+      feeAsset: fee ? feeAsset : undefined,
+      timestamp: this.parseMappedDate(dateText, mapping.dateFormat),
+      notes: text(columns.notes),
+      rawData: record,
+    };
+  }
+
+  /**
+   * Id of a row without an id column, from its content. Files can hold the
+   * same row twice (two equal buys in one minute), so repeats within the
+   * file also hash how many came before them.
+   */
+  private rowId(
+    run: ImportRun,
+    record: Record<string, string>,
+    prefix = 'row',
+  ): string {
+    const content = JSON.stringify(record);
+    const occurrence = run.rowCounts.get(content) ?? 0;
+    run.rowCounts.set(content, occurrence + 1);
+
+    const hash = createHash('sha256').update(content);
+    if (occurrence > 0) {
+      hash.update(`#${occurrence}`);
+    }
+    return `${prefix}-${hash.digest('hex').slice(0, 24)}`;
+  }
+
+  /**
+   * Amount with currency signs and thousands separators removed. Exports
+   * write dust in scientific notation (`1E-08`), so the exponent is kept.
+   * Empty cells are zero; anything else that isn't a number is an error.
+   */
+  private parseMappedAmount(
+    value: string | undefined,
+    decimalComma: boolean,
+  ): number {
+    const compact = (value || '').replace(/[\s']/g, '');
+    if (!compact || compact === '-') return 0;
+
+    const match = /(-)?[^\d-]*?(\d[\d.,]*(?:[eE][-+]?\d+)?)/.exec(compact);
+    if (!match) {
+      throw new Error(`Invalid amount: ${value}`);
+    }
+    const [, minus, digits] = match;
+    const number = decimalComma
+      ? digits.replace(/\./g, '').replace(',', '.')
+      : digits.replace(/,/g, '');
+    const parsed = Number(`${minus ?? ''}${number}`);
+    if (!Number.isFinite(parsed)) {
+      throw new Error(`Invalid amount: ${value}`);
+    }
+    return parsed;
+  }
+
+  /**
+   * Parse a date as UTC: ISO strings, unix seconds or milliseconds, or a
+   * pattern of YYYY, MM, DD, HH, mm and ss tokens
+   */
+  private parseMappedDate(value: string, format: string): Date {
+    // Excel date cells are already ISO strings
+    if (format === 'iso' || /^\d{4}-\d{2}-\d{2}T.*Z$/.test(value)) {
+      return this.parseUtcDate(value);
+    }
+    if (format === 'unix' || format === 'unix-ms') {
+      const time = parseFloat(value);
+      return new Date(format === 'unix' ? time * 1000 : time);
+    }
+
+    let pattern = '';
+    const order: string[] = [];
+    for (let i = 0; i < format.length; ) {
+      const token = DATE_FORMAT_TOKENS.find((t) => format.startsWith(t, i));
+      if (token) {
+        pattern += token === 'YYYY' ? '(\\d{4})' : '(\\d{1,2})';
+        order.push(token);
+        i += token.length;
+      } else {
+        pattern += format[i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        i++;
+      }
+    }
+
+    const match = new RegExp(`^${pattern}`).exec(value);
+    if (!match) {
+      throw new Error(`Date ${value} does not match ${format}`);
+    }
+    const parts: Record<string, number> = {};
+    order.forEach((token, index) => {
+      parts[token] = parseInt(match[index + 1], 10);
+    });
+    return new Date(
+      Date.UTC(
+        parts.YYYY,
+        parts.MM - 1,
+        parts.DD,
+        parts.HH ?? 0,
+        parts.mm ?? 0,
+        parts.ss ?? 0,
+      ),
+    );
+  }
+
+  // ==================== KRAKEN CSV IMPORT ====================
+
+  /**
+   * Import Kraken's ledgers.csv or trades.csv export, told apart by their
+   * header. The ledger also carries staking and earn rewards, which the API
+   * sync leaves out.
+   */
+  async importKrakenCsv(
+    file: ImportFile,
+    credentialId: string,
+    userId: string,
+    dryRun = false,
+  ): Promise<ImportResultDto> {
+    const exchange = await this.getCredentialExchange(credentialId, userId);
+    const run = this.startRun(dryRun);
+    const records = this.parseCsvRows(file.buffer.toString('utf-8'), run);
+
+    if (records.length === 0) {
+      throw new BadRequestException('No valid records found in CSV file');
+    }
+    const isLedger = 'refid' in records[0];
+    if (!isLedger && !('ordertxid' in records[0])) {
+      throw new BadRequestException(
+        'File is neither a Kraken ledgers.csv nor a trades.csv export',
+      );
+    }
+    await this.openBatch(
+      run,
+      file,
+      isLedger ? ImportSource.KRAKEN_LEDGER : ImportSource.KRAKEN_TRADES,
+      credentialId,
+      userId,
+    );
+
+    const owner: Partial<Transaction> = {
+      userId: new Types.ObjectId(userId),
+      credentialId: new Types.ObjectId(credentialId),
+      exchange,
+    };
+    if (isLedger) {
+      await this.importKrakenLedgerRows(run, records, owner);
+    } else {
+      await this.importKrakenTradeRows(run, records, owner);
+    }
+
+    return this.finishImport(
+      run,
+      isLedger ? 'Kraken ledger import' : 'Kraken trades import',
+      userId,
+    );
+  }
+
+  private async importKrakenLedgerRows(
+    run: ImportRun,
+    records: Record<string, string>[],
+    owner: Partial<Transaction>,
+  ): Promise<void> {
+    // Entries without a txid are still pending on Kraken's side
+    const pending = records.filter((r) => !r.txid);
+    for (const record of pending) {
+      this.skip(
+        run,
+        ImportRowStatus.UNSUPPORTED,
+        { rawData: record },
+        'Pending entry',
+      );
+    }
+
+    const groups = groupKrakenLedger(
+      records.filter((r) => r.txid),
+      (r) => r.refid || r.txid,
+    );
+    for (const [refId, group] of groups) {
+      try {
+        await this.importKrakenLedgerGroup(run, refId, group, owner);
+      } catch (error) {
+        this.logger.warn(
+          `Failed to import Kraken ledger entry ${refId}: ${error.message}`,
+        );
+        this.fail(run, error, { refId, entries: group });
+      }
+    }
+  }
+
+  /**
+   * Entries of one refid: a trade when an asset is spent for another, a
+   * wallet move when one asset goes out and comes back, otherwise each
+   * entry on its own
+   */
+  private async importKrakenLedgerGroup(
+    run: ImportRun,
+    refId: string,
+    group: Record<string, string>[],
+    owner: Partial<Transaction>,
+  ): Promise<void> {
+    const legs: KrakenLedgerLeg[] = group.map((record) => ({
+      asset: normalizeKrakenAsset(record.asset),
+      amount: this.parseAmount(record.amount),
+      timestamp: this.parseUtcDate(record.time),
+      raw: record,
+    }));
+    const spend = legs.find((leg) => leg.amount < 0);
+    const receive = legs.find((leg) => leg.amount > 0);
+
+    if (
+      spend &&
+      receive &&
+      spend.asset !== receive.asset &&
+      group.some((r) => KRAKEN_TRADE_TYPES.includes(r.type))
+    ) {
+      const trade = krakenSwapTrade(refId, spend, receive);
+      const feeRecord = group.find((r) => this.parseAmount(r.fee) > 0);
+      await this.importKrakenTransaction(run, {
+        ...owner,
+        ...trade,
+        // Order fills carry the trade id, the one the API sync stores
+        externalId: group.some((r) => r.type === 'trade')
+          ? refId
+          : trade.externalId,
+        type: TransactionType.TRADE,
+        fee: feeRecord ? this.parseAmount(feeRecord.fee) : undefined,
+        feeAsset: feeRecord ? normalizeKrakenAsset(feeRecord.asset) : undefined,
+      });
+      return;
+    }
+
+    // One asset going out and back in, or legs of a staking transfer
+    const net = legs.reduce((sum, leg) => sum + leg.amount, 0);
+    const walletMove =
+      legs.length > 1 &&
+      legs.every((leg) => leg.asset === legs[0].asset) &&
+      (Math.abs(net) <= DUST ||
+        group.some((r) => this.isInternalKrakenMove(r.type, r.subtype)));
+    if (walletMove) {
+      for (const leg of legs) {
+        this.skip(
+          run,
+          ImportRowStatus.INTERNAL_TRANSFER,
+          this.krakenLedgerEntry(owner, leg, 'refid'),
+        );
+      }
+      return;
+    }
+
+    for (const leg of legs) {
+      await this.importKrakenLedgerEntry(run, leg, owner);
+    }
+  }
+
+  private async importKrakenLedgerEntry(
+    run: ImportRun,
+    leg: KrakenLedgerLeg,
+    owner: Partial<Transaction>,
+  ): Promise<void> {
+    const { type, subtype } = leg.raw as Record<string, string>;
+
+    if (this.isInternalKrakenMove(type, subtype)) {
+      this.skip(
+        run,
+        ImportRowStatus.INTERNAL_TRANSFER,
+        this.krakenLedgerEntry(owner, leg, 'txid'),
+      );
+      return;
+    }
+
+    const mappedType = this.mapKrakenLedgerType(type, leg.amount);
+    // Deposits and withdrawals keep the refid, the id the API sync stores
+    const transaction = this.krakenLedgerEntry(
+      owner,
+      leg,
+      mappedType === TransactionType.DEPOSIT ||
+        mappedType === TransactionType.WITHDRAWAL
+        ? 'refid'
+        : 'txid',
+    );
+
+    if (!mappedType) {
+      this.skip(
+        run,
+        ImportRowStatus.UNSUPPORTED,
+        transaction,
+        `Unsupported ledger entry: ${subtype ? `${type}/${subtype}` : type}`,
+      );
+      return;
+    }
+
+    await this.importKrakenTransaction(run, {
+      ...transaction,
+      type: mappedType,
+    });
+  }
+
+  private krakenLedgerEntry(
+    owner: Partial<Transaction>,
+    leg: KrakenLedgerLeg,
+    idColumn: 'refid' | 'txid',
+  ): Partial<Transaction> {
+    const fee = this.parseAmount(leg.raw.fee as string);
+    return {
+      ...owner,
+      externalId:
+        idColumn === 'refid'
+          ? (leg.raw.refid as string)
+          : `ledger-${leg.raw.txid}`,
+      asset: leg.asset,
+      amount: Math.abs(leg.amount),
+      fee: fee || undefined,
+      feeAsset: fee ? leg.asset : undefined,
+      timestamp: leg.timestamp,
+      rawData: leg.raw,
+    };
+  }
+
+  private async importKrakenTradeRows(
+    run: ImportRun,
+    records: Record<string, string>[],
+    owner: Partial<Transaction>,
+  ): Promise<void> {
+    for (const record of records) {
+      try {
+        const [asset, priceAsset] = splitKrakenPair(record.pair);
+        const fee = this.parseAmount(record.fee);
+
+        await this.importKrakenTransaction(run, {
+          ...owner,
+          externalId: record.txid,
+          type: TransactionType.TRADE,
+          asset,
+          amount: this.parseAmount(record.vol),
+          price: this.parseAmount(record.price),
+          priceAsset,
+          total: this.parseAmount(record.cost),
+          fee: fee || undefined,
+          feeAsset: fee ? priceAsset : undefined,
+          pair: `${asset}/${priceAsset}`,
+          side: record.type === 'sell' ? 'sell' : 'buy',
+          timestamp: this.parseUtcDate(record.time),
+          rawData: record,
+        });
+      } catch (error) {
+        this.logger.warn(`Failed to import Kraken trade: ${error.message}`);
+        this.fail(run, error, record);
+      }
+    }
+  }
+
+  private async importKrakenTransaction(
+    run: ImportRun,
+    transaction: Partial<Transaction>,
+  ): Promise<void> {
+    const duplicate = await this.isDuplicate(run, transaction.externalId, {
+      externalId: transaction.externalId,
+      exchange: transaction.exchange,
+    });
+
+    if (duplicate) {
+      this.skip(run, ImportRowStatus.DUPLICATE, transaction);
+    } else {
+      await this.insert(run, transaction);
+    }
+  }
+
+  /**
+   * Moves between the spot, staking, earn and futures wallets
+   */
+  private isInternalKrakenMove(type: string, subtype: string): boolean {
+    if (type === 'earn') {
+      return subtype !== 'reward';
+    }
+    return (
+      type === 'transfer' &&
+      [
+        'spottostaking',
+        'stakingfromspot',
+        'stakingtospot',
+        'spotfromstaking',
+        'spottofutures',
+        'spotfromfutures',
+      ].includes(subtype)
+    );
+  }
+
+  private mapKrakenLedgerType(
+    type: string,
+    amount: number,
+  ): TransactionType | null {
+    switch (type) {
+      case 'deposit':
+        return amount > 0 ? TransactionType.DEPOSIT : null;
+      case 'withdrawal':
+        return amount < 0 ? TransactionType.WITHDRAWAL : null;
+      // Staking and earn rewards
+      case 'staking':
+      case 'earn':
+      case 'reward':
+      case 'dividend':
+        return amount > 0 ? TransactionType.INTEREST : null;
+      // Airdrops and forks credited to the spot wallet
+      case 'transfer':
+        return amount > 0 ? TransactionType.INTEREST : null;
+      default:
+        this.logger.debug(`Unknown Kraken ledger type: ${type}`);
+        return null;
+    }
+  }
+
+  // ==================== PORTFOLIO TRACKER IMPORT ====================
+
+  /**
+   * Import a Koinly or CoinTracking CSV export, told apart by their header.
+   * Rows go to the given account, else to the account whose label or
+   * exchange matches the row's wallet, else to the default manual wallet.
+   */
+  async importTrackerCsv(
+    file: ImportFile,
+    userId: string,
+    credentialId?: string,
+    dryRun = false,
+  ): Promise<ImportResultDto> {
+    const run = this.startRun(dryRun);
+    const records = this.parseCsvRows(
+      file.buffer.toString('utf-8').replace(/^\uFEFF/, ''),
+      run,
+    );
+
+    if (records.length === 0) {
+      throw new BadRequestException('No valid records found in CSV file');
+    }
+    const isKoinly = 'Sent Amount' in records[0];
+    if (!isKoinly && !('Type' in records[0] && 'Exchange' in records[0])) {
+      throw new BadRequestException(
+        'File is neither a Koinly nor a CoinTracking CSV export',
+      );
+    }
+
+    const accounts: TrackerAccounts = {
+      userId,
+      dryRun,
+      credentials: credentialId
+        ? [await this.credentialsService.findById(credentialId, userId)]
+        : await this.credentialsService.findAllByUser(userId),
+      fixed: !!credentialId,
+    };
+    await this.openBatch(
+      run,
+      file,
+      isKoinly ? ImportSource.KOINLY_CSV : ImportSource.COINTRACKING_CSV,
+      credentialId,
+      userId,
+    );
+
+    for (const record of records) {
+      try {
+        const row = isKoinly
+          ? this.readKoinlyRow(run, record)
+          : this.readCoinTrackingRow(run, record);
+        await this.importTrackerRow(run, row, accounts);
+      } catch (error) {
+        this.logger.warn(`Failed to import tracker row: ${error.message}`);
+        this.fail(run, error, record);
+      }
+    }
+
+    return this.finishImport(
+      run,
+      isKoinly ? 'Koinly CSV import' : 'CoinTracking CSV import',
+      userId,
+    );
+  }
+
+  private readKoinlyRow(
+    run: ImportRun,
+    record: Record<string, string>,
+  ): TrackerRow {
+    // Koinly's own ID is unique per row; a hash can repeat within a swap
+    const txId = record.ID || record.TxHash;
+    return {
+      externalId: txId ? `koinly-${txId}` : this.rowId(run, record, 'koinly'),
+      timestamp: this.parseTrackerDate(record['Date (UTC)'] ?? record.Date),
+      // The full export has a Type besides the optional Label
+      label: (record.Label || record.Type || '').toLowerCase(),
+      sent: this.trackerAmount(record['Sent Amount'], record['Sent Currency']),
+      received: this.trackerAmount(
+        record['Received Amount'],
+        record['Received Currency'],
+      ),
+      fee: this.trackerAmount(record['Fee Amount'], record['Fee Currency']),
+      sendingWallet: record['Sending Wallet'] || undefined,
+      receivingWallet: record['Receiving Wallet'] || undefined,
+      notes: record.Description || undefined,
+      raw: record,
+    };
+  }
+
+  /**
+   * Both the import template (`Buy Amount`, `Buy Cur.`...) and the trade
+   * list export, whose three currency columns are all called `Cur.`
+   */
+  private readCoinTrackingRow(
+    run: ImportRun,
+    record: Record<string, string>,
+  ): TrackerRow {
+    const column = (...names: string[]) =>
+      names.map((name) => record[name]).find((value) => value !== undefined);
+    const txId = column('Tx-ID', 'Trade ID');
+    const wallet = record.Exchange || undefined;
+
+    return {
+      externalId: txId
+        ? `cointracking-${txId}`
+        : this.rowId(run, record, 'cointracking'),
+      timestamp: this.parseTrackerDate(record.Date),
+      label: (record.Type || '').toLowerCase(),
+      received: this.trackerAmount(
+        column('Buy Amount', 'Buy'),
+        column('Buy Cur.', 'Buy Currency', 'Cur.'),
+      ),
+      sent: this.trackerAmount(
+        column('Sell Amount', 'Sell'),
+        column('Sell Cur.', 'Sell Currency', 'Cur. (2)'),
+      ),
+      fee: this.trackerAmount(
+        column('Fee Amount', 'Fee'),
+        column('Fee Cur.', 'Fee Currency', 'Cur. (3)'),
+      ),
+      sendingWallet: wallet,
+      receivingWallet: wallet,
+      notes: record.Comment || undefined,
+      raw: record,
+    };
+  }
+
+  private async importTrackerRow(
+    run: ImportRun,
+    row: TrackerRow,
+    accounts: TrackerAccounts,
+  ): Promise<void> {
+    const { sent, received, fee } = row;
+    const base: Partial<Transaction> = {
+      externalId: row.externalId,
+      timestamp: row.timestamp,
+      notes: row.notes,
+      rawData: row.raw,
+    };
+    const feeFields = fee ? { fee: fee.amount, feeAsset: fee.asset } : {};
+
+    // The same asset leaving one wallet and arriving in another
+    if (sent && received && sent.asset === received.asset) {
+      const from = await this.trackerAccount(accounts, row.sendingWallet);
+      const to = await this.trackerAccount(accounts, row.receivingWallet);
+      if (from.credentialId.equals(to.credentialId)) {
+        this.skip(run, ImportRowStatus.INTERNAL_TRANSFER, {
+          ...base,
+          asset: sent.asset,
+          amount: sent.amount,
+        });
+        return;
+      }
+      await this.importTrackerTransaction(run, {
+        ...from,
+        ...base,
+        ...feeFields,
+        externalId: `${row.externalId}-out`,
+        type: TransactionType.WITHDRAWAL,
+        asset: sent.asset,
+        amount: sent.amount,
+      });
+      await this.importTrackerTransaction(run, {
+        ...to,
+        ...base,
+        externalId: `${row.externalId}-in`,
+        type: TransactionType.DEPOSIT,
+        asset: received.asset,
+        amount: received.amount,
+      });
+      return;
+    }
+
+    const owner = await this.trackerAccount(
+      accounts,
+      received ? row.receivingWallet : row.sendingWallet,
+    );
+
+    // Receiving fiat or a stablecoin for crypto is a sale of the crypto,
+    // anything else a buy of what was received
+    if (sent && received) {
+      const isSell =
+        TRACKER_QUOTE_ASSETS.includes(received.asset) &&
+        !TRACKER_QUOTE_ASSETS.includes(sent.asset);
+      const [bought, paid] = isSell ? [sent, received] : [received, sent];
+      await this.importTrackerTransaction(run, {
+        ...owner,
+        ...base,
+        ...feeFields,
+        type: TransactionType.TRADE,
+        asset: bought.asset,
+        amount: bought.amount,
+        price: paid.amount / bought.amount,
+        priceAsset: paid.asset,
+        total: paid.amount,
+        pair: `${bought.asset}/${paid.asset}`,
+        side: isSell ? 'sell' : 'buy',
+      });
+      return;
+    }
+
+    const moved = received ?? sent;
+    if (!moved && fee) {
+      await this.importTrackerTransaction(run, {
+        ...owner,
+        ...base,
+        type: TransactionType.FEE,
+        asset: fee.asset,
+        amount: fee.amount,
+      });
+      return;
+    }
+
+    const mapped = received
+      ? TRACKER_INCOMING_LABELS[row.label]
+      : TRACKER_OUTGOING_LABELS[row.label];
+    const transaction: Partial<Transaction> = {
+      ...owner,
+      ...base,
+      ...feeFields,
+      asset: moved?.asset,
+      amount: moved?.amount,
+    };
+    if (!moved || !mapped) {
+      this.skip(
+        run,
+        ImportRowStatus.UNSUPPORTED,
+        transaction,
+        moved ? `Unsupported label: ${row.label}` : 'Row without amounts',
+      );
+      return;
+    }
+
+    await this.importTrackerTransaction(run, { ...transaction, ...mapped });
+  }
+
+  private async importTrackerTransaction(
+    run: ImportRun,
+    transaction: Partial<Transaction>,
+  ): Promise<void> {
+    // A wallet may map to another account on a later import, so the whole
+    // user is checked; the exchange check keeps the insert clear of the
+    // unique { externalId, exchange } index
+    const duplicate = await this.isDuplicate(run, transaction.externalId, {
+      $or: [
+        { userId: transaction.userId, externalId: transaction.externalId },
+        { externalId: transaction.externalId, exchange: transaction.exchange },
+      ],
+    });
+
+    if (duplicate) {
+      this.skip(run, ImportRowStatus.DUPLICATE, transaction);
+    } else {
+      await this.insert(run, transaction);
+    }
+  }
+
+  /**
+   * Owner fields of the account a tracker wallet name stands for
+   */
+  private async trackerAccount(
+    accounts: TrackerAccounts,
+    wallet?: string,
+  ): Promise<Partial<Transaction>> {
+    const name = wallet?.trim().toLowerCase();
+    const credential = accounts.fixed
+      ? accounts.credentials[0]
+      : name &&
+        (accounts.credentials.find((c) => c.label.toLowerCase() === name) ??
+          accounts.credentials.find((c) => c.exchange.split('-')[0] === name));
+    if (credential) {
+      return {
+        userId: credential.userId,
+        credentialId: credential._id,
+        exchange: credential.exchange,
+      };
+    }
+
+    if (!accounts.manual) {
+      const manual = accounts.dryRun
+        ? accounts.credentials.find((c) => c.exchange === ExchangeType.MANUAL)
+        : await this.credentialsService.findOrCreateManualWallet(
+            accounts.userId,
+          );
+      // A dry run doesn't create the manual wallet
+      accounts.manual = {
+        userId: new Types.ObjectId(accounts.userId),
+        credentialId: manual?._id ?? new Types.ObjectId(),
+        exchange: ExchangeType.MANUAL,
+      };
+    }
+    return accounts.manual;
+  }
+
+  private trackerAmount(
+    amount: string | undefined,
+    asset: string | undefined,
+  ): TrackerAmount | undefined {
+    const value = Math.abs(this.parseAmount(amount));
+    // Koinly tells tokens sharing a ticker apart with a suffix: USDC;3408
+    const ticker = asset?.split(';')[0].trim().toUpperCase();
+    return value && ticker && ticker !== '-'
+      ? { amount: value, asset: ticker }
+      : undefined;
+  }
+
+  /**
+   * Dates in UTC, as `2024-01-15 14:30:00`, `2024-01-15 14:30 UTC` or
+   * CoinTracking's `15.01.2024 14:30:00`
+   */
+  private parseTrackerDate(value: string | undefined): Date {
+    const trimmed = (value || '').replace(/\s*UTC$/i, '').trim();
+    if (!trimmed) {
+      throw new Error('Missing date');
+    }
+    if (/^\d{1,2}\.\d{1,2}\.\d{4}/.test(trimmed)) {
+      return this.parseMappedDate(
+        trimmed,
+        /:\d{2}:\d{2}$/.test(trimmed)
+          ? 'DD.MM.YYYY HH:mm:ss'
+          : 'DD.MM.YYYY HH:mm',
+      );
+    }
+    return this.parseUtcDate(trimmed);
+  }
 }
@@ -0,0 +1,61 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ImportSource } from '../../../common/constants/import-sources.constant';
+
+export type ImportBatchDocument = ImportBatch & Document;
+
+/**
+ * One uploaded file. Transactions it brought in point back to it through
+ * `importBatchId`, so the whole upload can be undone.
+ */
+@Schema({ timestamps: true, collection: 'import_batches' })
+export class ImportBatch {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  // Unset when the rows went to several accounts
+  @Prop({ type: Types.ObjectId, ref: 'ExchangeCredential' })
+  credentialId?: Types.ObjectId;
+
+  @Prop({ required: true, enum: ImportSource })
+  source: ImportSource;
+
+  @Prop({ required: true })
+  fileName: string;
+
+  // SHA-256 of the file contents
+  @Prop({ required: true })
+  fileHash: string;
+
+  @Prop({ type: Number, default: 0 })
+  imported: number;
+
+  @Prop({ type: Number, default: 0 })
+  skipped: number;
+
+  // Rows that couldn't be read; `errors` is reserved by Mongoose documents
+  @Prop({ type: Number, default: 0 })
+  failed: number;
+
+  // Range of the imported transactions
+  @Prop()
+  firstTransactionAt?: Date;
+
+  @Prop()
+  lastTransactionAt?: Date;
+
+  @Prop()
+  finishedAt?: Date;
+
+  // Set once the batch's transactions were deleted
+  @Prop()
+  undoneAt?: Date;
+
+  @Prop({ type: Number })
+  removed?: number;
+}
+
+export const ImportBatchSchema = SchemaFactory.createForClass(ImportBatch);
+
+ImportBatchSchema.index({ userId: 1, createdAt: -1 });
+ImportBatchSchema.index({ userId: 1, fileHash: 1 });
@@ -0,0 +1,106 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { TransactionType } from '../../../common/constants/transaction-types.constant';
+import { AmountSign } from '../../../common/constants/import-mapping.constant';
+
+export type ImportMappingDocument = ImportMapping & Document;
+
+/**
+ * File column holding each transaction field. Only date, asset and amount
+ * are required.
+ */
+@Schema({ _id: false })
+export class ColumnMapping {
+  @Prop({ required: true })
+  timestamp: string;
+
+  @Prop()
+  type?: string;
+
+  @Prop({ required: true })
+  asset: string;
+
+  @Prop({ required: true })
+  amount: string;
+
+  @Prop()
+  price?: string;
+
+  @Prop()
+  priceAsset?: string;
+
+  @Prop()
+  total?: string;
+
+  @Prop()
+  pair?: string; // BASE/QUOTE or BASE-QUOTE
+
+  @Prop()
+  fee?: string;
+
+  @Prop()
+  feeAsset?: string;
+
+  @Prop()
+  externalId?: string;
+
+  @Prop()
+  notes?: string;
+}
+
+export const ColumnMappingSchema = SchemaFactory.createForClass(ColumnMapping);
+
+/**
+ * Transaction type a value of the type column stands for
+ */
+@Schema({ _id: false })
+export class TypeMapping {
+  @Prop({ required: true })
+  value: string; // Compared case-insensitively
+
+  @Prop({ type: String, enum: TransactionType, required: true })
+  type: TransactionType;
+
+  @Prop()
+  side?: string; // For trades: buy or sell
+}
+
+export const TypeMappingSchema = SchemaFactory.createForClass(TypeMapping);
+
+/**
+ * User-defined layout of a CSV or Excel export, so files of exchanges and
+ * wallets without a dedicated importer can be brought in
+ */
+@Schema({ timestamps: true, collection: 'import_mappings' })
+export class ImportMapping {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ type: ColumnMappingSchema, required: true })
+  columns: ColumnMapping;
+
+  @Prop({ default: 'iso' })
+  dateFormat: string; // iso, unix, unix-ms or a pattern like DD.MM.YYYY HH:mm
+
+  @Prop({ type: [TypeMappingSchema], default: [] })
+  types: TypeMapping[];
+
+  @Prop({ type: String, enum: TransactionType })
+  defaultType?: TransactionType; // For rows whose type has no mapping
+
+  @Prop({ type: String, enum: AmountSign, default: AmountSign.SIGNED })
+  amountSign: AmountSign;
+
+  @Prop({ default: false })
+  decimalComma: boolean; // 1.234,56 instead of 1,234.56
+
+  @Prop({ type: Number, default: 0 })
+  skipRows: number; // Lines above the header row
+}
+
+export const ImportMappingSchema = SchemaFactory.createForClass(ImportMapping);
+
+ImportMappingSchema.index({ userId: 1, name: 1 }, { unique: true });
@@ -0,0 +1,154 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, Matches } from 'class-validator';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class IncomeQueryDto {
+  @ApiPropertyOptional({
+    example: '2024-01-01',
+    description: 'Start date (YYYY-MM-DD). Defaults to the first payout.',
+  })
+  @IsOptional()
+  @Matches(DATE_PATTERN, { message: 'from must be a YYYY-MM-DD date' })
+  from?: string;
+
+  @ApiPropertyOptional({
+    example: '2024-12-31',
+    description: 'End date (YYYY-MM-DD), inclusive. Defaults to today.',
+  })
+  @IsOptional()
+  @Matches(DATE_PATTERN, { message: 'to must be a YYYY-MM-DD date' })
+  to?: string;
+
+  @ApiPropertyOptional({ example: 'USDT' })
+  @IsOptional()
+  @IsString()
+  asset?: string;
+}
+
+export class IncomePayoutDto {
+  @ApiProperty()
+  transactionId: string;
+
+  @ApiProperty({ example: 'USDT' })
+  asset: string;
+
+  @ApiProperty({ example: 'nexo' })
+  exchange: string;
+
+  @ApiProperty()
+  credentialId: string;
+
+  @ApiProperty()
+  amount: number;
+
+  @ApiProperty()
+  timestamp: Date;
+
+  @ApiProperty({ description: 'Price per unit at receipt, 0 when unknown' })
+  price: number;
+
+  @ApiProperty({ description: 'Value at receipt' })
+  value: number;
+}
+
+export class IncomeSliceDto {
+  @ApiProperty({ description: 'Amount of the asset received' })
+  amount: number;
+
+  @ApiProperty({ description: 'Value at receipt' })
+  value: number;
+
+  @ApiProperty()
+  payouts: number;
+
+  @ApiProperty({
+    nullable: true,
+    description: 'Average held balance from daily snapshots in the range',
+  })
+  averageBalance: number | null;
+
+  @ApiProperty({
+    nullable: true,
+    example: 0.08,
+    description:
+      'Effective annual yield on the average balance (0.08 = 8%), null without snapshots',
+  })
+  apy: number | null;
+}
+
+export class IncomeAssetDto extends IncomeSliceDto {
+  @ApiProperty({ example: 'USDT' })
+  asset: string;
+}
+
+export class IncomeExchangeDto extends IncomeSliceDto {
+  @ApiProperty({ example: 'nexo' })
+  exchange: string;
+
+  @ApiProperty({ example: 'Nexo' })
+  label: string;
+
+  @ApiProperty()
+  credentialId: string;
+
+  @ApiProperty({ example: 'USDT' })
+  asset: string;
+}
+
+export class IncomeMonthAssetDto {
+  @ApiProperty({ example: 'USDT' })
+  asset: string;
+
+  @ApiProperty()
+  amount: number;
+
+  @ApiProperty()
+  value: number;
+}
+
+export class IncomeMonthDto {
+  @ApiProperty({ example: '2024-03' })
+  month: string;
+
+  @ApiProperty()
+  value: number;
+
+  @ApiProperty()
+  payouts: number;
+
+  @ApiProperty({ type: [IncomeMonthAssetDto] })
+  assets: IncomeMonthAssetDto[];
+}
+
+export class IncomeReportDto {
+  @ApiProperty({ example: '2024-01-01' })
+  from: string;
+
+  @ApiProperty({ example: '2024-12-31' })
+  to: string;
+
+  @ApiProperty()
+  days: number;
+
+  @ApiProperty({ example: 'USD', description: 'Currency of the values' })
+  currency: string;
+
+  @ApiProperty()
+  totalValue: number;
+
+  @ApiProperty()
+  payouts: number;
+
+  @ApiProperty({ description: 'Payouts without a price at receipt' })
+  unpricedPayouts: number;
+
+  @ApiProperty({ type: [IncomeAssetDto] })
+  byAsset: IncomeAssetDto[];
+
+  @ApiProperty({ type: [IncomeExchangeDto] })
+  byExchange: IncomeExchangeDto[];
+
+  @ApiProperty({ type: [IncomeMonthDto] })
+  byMonth: IncomeMonthDto[];
+}
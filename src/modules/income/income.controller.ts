@@ -0,0 +1,83 @@
+import { Controller, Get, Query, Res, UseGuards } from '@nestjs/common';
+import { Response } from 'express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { IncomeService } from './income.service';
+import { SettingsService } from '../settings/settings.service';
+import {
+  IncomePayoutDto,
+  IncomeQueryDto,
+  IncomeReportDto,
+} from './dto/income.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@ApiTags('income')
+@Controller('income')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class IncomeController {
+  constructor(
+    private readonly incomeService: IncomeService,
+    private readonly settingsService: SettingsService,
+  ) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get interest and staking income',
+    description:
+      'Income per asset, exchange account and month, valued at receipt, with the effective APY on the average balance held according to daily snapshots.',
+  })
+  @ApiResponse({ status: 200, type: IncomeReportDto })
+  async getReport(
+    @CurrentUser('userId') userId: string,
+    @Query() query: IncomeQueryDto,
+  ): Promise<IncomeReportDto> {
+    const currency = await this.settingsService.getReportingCurrency(userId);
+    return this.incomeService.getReport(userId, query, currency);
+  }
+
+  @Get('payouts')
+  @ApiOperation({ summary: 'List income payouts valued at receipt' })
+  @ApiResponse({ status: 200, type: [IncomePayoutDto] })
+  async getPayouts(
+    @CurrentUser('userId') userId: string,
+    @Query() query: IncomeQueryDto,
+  ): Promise<IncomePayoutDto[]> {
+    const currency = await this.settingsService.getReportingCurrency(userId);
+    return this.incomeService.getPayouts(userId, query, currency);
+  }
+
+  @Get('export')
+  @ApiOperation({ summary: 'Export income to Excel' })
+  @ApiProduces(
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  )
+  @ApiResponse({ status: 200, description: 'Excel file with income data' })
+  async exportToExcel(
+    @CurrentUser('userId') userId: string,
+    @Query() query: IncomeQueryDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    const currency = await this.settingsService.getReportingCurrency(userId);
+    const buffer = await this.incomeService.exportToExcel(
+      userId,
+      query,
+      currency,
+    );
+
+    const filename = `income-export-${new Date().toISOString().split('T')[0]}.xlsx`;
+
+    res.setHeader(
+      'Content-Type',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    );
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(buffer);
+  }
+}
@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { IncomeController } from './income.controller';
+import { IncomeService } from './income.service';
+import {
+  Transaction,
+  TransactionSchema,
+} from '../transactions/schemas/transaction.schema';
+import {
+  DailySnapshot,
+  DailySnapshotSchema,
+} from '../snapshots/schemas/daily-snapshot.schema';
+import { PricesModule } from '../prices/prices.module';
+import { SettingsModule } from '../settings/settings.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Transaction.name, schema: TransactionSchema },
+      { name: DailySnapshot.name, schema: DailySnapshotSchema },
+    ]),
+    PricesModule,
+    SettingsModule,
+  ],
+  controllers: [IncomeController],
+  providers: [IncomeService],
+  exports: [IncomeService],
+})
+export class IncomeModule {}
@@ -0,0 +1,445 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import * as ExcelJS from 'exceljs';
+import {
+  Transaction,
+  TransactionDocument,
+} from '../transactions/schemas/transaction.schema';
+import {
+  DailySnapshot,
+  DailySnapshotDocument,
+} from '../snapshots/schemas/daily-snapshot.schema';
+import {
+  IncomeAssetDto,
+  IncomeExchangeDto,
+  IncomeMonthDto,
+  IncomePayoutDto,
+  IncomeQueryDto,
+  IncomeReportDto,
+  IncomeSliceDto,
+} from './dto/income.dto';
+import { PriceHistoryService } from '../prices/price-history.service';
+import { FxRatesService } from '../prices/fx-rates.service';
+import { TransactionType } from '../../common/constants/transaction-types.constant';
+import { ReportingCurrency } from '../../common/constants/currencies.constant';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365;
+
+// Assets whose USD price is 1
+const USD_ASSETS = new Set(['USD', 'USDT', 'USDC', 'BUSD']);
+
+interface IncomeTotals {
+  amount: number;
+  value: number;
+  payouts: number;
+}
+
+/**
+ * Interest and staking income. Each payout is valued at receipt from the
+ * local price history; yields are measured against the balance held
+ * according to the daily snapshots.
+ */
+@Injectable()
+export class IncomeService {
+  private readonly logger = new Logger(IncomeService.name);
+
+  constructor(
+    @InjectModel(Transaction.name)
+    private transactionModel: Model<TransactionDocument>,
+    @InjectModel(DailySnapshot.name)
+    private snapshotModel: Model<DailySnapshotDocument>,
+    private readonly priceHistoryService: PriceHistoryService,
+    private readonly fxRatesService: FxRatesService,
+  ) {}
+
+  /**
+   * Income per asset, exchange account and month with the effective APY
+   * earned on the average balance of the range
+   */
+  async getReport(
+    userId: string,
+    query: IncomeQueryDto = {},
+    currency: ReportingCurrency = ReportingCurrency.USD,
+  ): Promise<IncomeReportDto> {
+    const payouts = await this.getPayouts(userId, query, currency);
+    return this.buildReport(userId, query, payouts, currency);
+  }
+
+  /**
+   * Interest payouts in the range, valued at receipt
+   */
+  async getPayouts(
+    userId: string,
+    query: IncomeQueryDto = {},
+    currency: ReportingCurrency = ReportingCurrency.USD,
+  ): Promise<IncomePayoutDto[]> {
+    const filter: FilterQuery<Transaction> = {
+      userId: new Types.ObjectId(userId),
+      type: TransactionType.INTEREST,
+      duplicateOf: null,
+    };
+    if (query.asset) {
+      filter.asset = query.asset;
+    }
+    if (query.from || query.to) {
+      filter.timestamp = {};
+      if (query.from) {
+        filter.timestamp.$gte = new Date(query.from);
+      }
+      if (query.to) {
+        filter.timestamp.$lte = new Date(Date.parse(query.to) + DAY_MS - 1);
+      }
+    }
+
+    const transactions = await this.transactionModel
+      .find(filter)
+      .sort({ timestamp: 1 })
+      .lean();
+    const rates = await this.fxRatesService.getRates(
+      currency,
+      transactions.map((tx) => tx.timestamp),
+    );
+
+    // Payouts of the same asset within an hour share a price lookup
+    const prices = new Map<string, number>();
+    const payouts: IncomePayoutDto[] = [];
+    for (const tx of transactions) {
+      const hour = Math.floor(tx.timestamp.getTime() / (60 * 60 * 1000));
+      const cacheKey = `${tx.asset}:${hour}`;
+      let priceUsd = prices.get(cacheKey);
+      if (priceUsd === undefined) {
+        priceUsd = await this.getPriceAtReceipt(tx.asset, tx.timestamp);
+        prices.set(cacheKey, priceUsd);
+      }
+
+      const price = priceUsd * (rates.get(this.dayKey(tx.timestamp)) ?? 1);
+      const amount = Math.abs(tx.amount);
+      payouts.push({
+        transactionId: tx._id.toString(),
+        asset: tx.asset,
+        exchange: tx.exchange,
+        credentialId: tx.credentialId.toString(),
+        amount,
+        timestamp: tx.timestamp,
+        price,
+        value: amount * price,
+      });
+    }
+
+    const unpriced = payouts.filter((p) => p.price <= 0).length;
+    if (unpriced > 0) {
+      this.logger.warn(
+        `${unpriced} income payouts for user ${userId} have no price at receipt`,
+      );
+    }
+
+    return payouts;
+  }
+
+  /**
+   * Export the income report as an Excel workbook
+   */
+  async exportToExcel(
+    userId: string,
+    query: IncomeQueryDto = {},
+    currency: ReportingCurrency = ReportingCurrency.USD,
+  ): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = 'Exchange Monitor';
+    workbook.created = new Date();
+
+    await this.addIncomeSheets(workbook, userId, query, currency);
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    return Buffer.from(buffer);
+  }
+
+  /**
+   * Add the income sheets (by asset, by exchange, by month and payouts) to a
+   * workbook, so other exports can include them
+   */
+  async addIncomeSheets(
+    workbook: ExcelJS.Workbook,
+    userId: string,
+    query: IncomeQueryDto = {},
+    currency: ReportingCurrency = ReportingCurrency.USD,
+  ): Promise<void> {
+    const payouts = await this.getPayouts(userId, query, currency);
+    const report = await this.buildReport(userId, query, payouts, currency);
+
+    const assetSheet = workbook.addWorksheet('Income by Asset');
+    assetSheet.columns = [
+      { header: 'Asset', key: 'asset', width: 12 },
+      { header: 'Amount', key: 'amount', width: 18 },
+      { header: `Value (${currency})`, key: 'value', width: 18 },
+      { header: 'Payouts', key: 'payouts', width: 10 },
+      { header: 'Average Balance', key: 'averageBalance', width: 18 },
+      { header: 'APY (%)', key: 'apy', width: 10 },
+    ];
+    this.styleHeader(assetSheet, 'FF4472C4');
+    for (const item of report.byAsset) {
+      assetSheet.addRow({
+        ...item,
+        averageBalance: item.averageBalance ?? '-',
+        apy: item.apy !== null ? item.apy * 100 : '-',
+      });
+    }
+
+    const exchangeSheet = workbook.addWorksheet('Income by Exchange');
+    exchangeSheet.columns = [
+      { header: 'Exchange', key: 'label', width: 20 },
+      { header: 'Asset', key: 'asset', width: 12 },
+      { header: 'Amount', key: 'amount', width: 18 },
+      { header: `Value (${currency})`, key: 'value', width: 18 },
+      { header: 'Payouts', key: 'payouts', width: 10 },
+      { header: 'Average Balance', key: 'averageBalance', width: 18 },
+      { header: 'APY (%)', key: 'apy', width: 10 },
+    ];
+    this.styleHeader(exchangeSheet, 'FF70AD47');
+    for (const item of report.byExchange) {
+      exchangeSheet.addRow({
+        ...item,
+        averageBalance: item.averageBalance ?? '-',
+        apy: item.apy !== null ? item.apy * 100 : '-',
+      });
+    }
+
+    const monthSheet = workbook.addWorksheet('Income by Month');
+    monthSheet.columns = [
+      { header: 'Month', key: 'month', width: 10 },
+      { header: 'Asset', key: 'asset', width: 12 },
+      { header: 'Amount', key: 'amount', width: 18 },
+      { header: `Value (${currency})`, key: 'value', width: 18 },
+    ];
+    this.styleHeader(monthSheet, 'FFFFC000');
+    for (const month of report.byMonth) {
+      for (const item of month.assets) {
+        monthSheet.addRow({ month: month.month, ...item });
+      }
+    }
+
+    const payoutSheet = workbook.addWorksheet('Income Payouts');
+    payoutSheet.columns = [
+      { header: 'Date', key: 'timestamp', width: 20 },
+      { header: 'Exchange', key: 'exchange', width: 15 },
+      { header: 'Asset', key: 'asset', width: 12 },
+      { header: 'Amount', key: 'amount', width: 18 },
+      { header: `Price (${currency})`, key: 'price', width: 15 },
+      { header: `Value (${currency})`, key: 'value', width: 18 },
+    ];
+    this.styleHeader(payoutSheet, 'FF7030A0');
+    for (const payout of payouts) {
+      payoutSheet.addRow({
+        ...payout,
+        timestamp: payout.timestamp.toISOString(),
+      });
+    }
+  }
+
+  // ==================== PRIVATE METHODS ====================
+
+  private async buildReport(
+    userId: string,
+    query: IncomeQueryDto,
+    payouts: IncomePayoutDto[],
+    currency: ReportingCurrency,
+  ): Promise<IncomeReportDto> {
+    const { start, end } = this.getRange(query, payouts);
+    const days = Math.max(1, (end.getTime() - start.getTime()) / DAY_MS);
+
+    const snapshots = await this.snapshotModel
+      .find({
+        userId: new Types.ObjectId(userId),
+        date: { $gte: this.dayKey(start), $lte: this.dayKey(end) },
+      })
+      .sort({ date: 1 })
+      .lean();
+
+    const byAsset = new Map<string, IncomeTotals>();
+    const byExchange = new Map<string, IncomeTotals & IncomePayoutDto>();
+    const byMonth = new Map<
+      string,
+      IncomeTotals & { assets: Map<string, IncomeTotals> }
+    >();
+    const add = (totals: IncomeTotals, payout: IncomePayoutDto) => {
+      totals.amount += payout.amount;
+      totals.value += payout.value;
+      totals.payouts++;
+    };
+    const empty = (): IncomeTotals => ({ amount: 0, value: 0, payouts: 0 });
+
+    for (const payout of payouts) {
+      const asset = byAsset.get(payout.asset) || empty();
+      add(asset, payout);
+      byAsset.set(payout.asset, asset);
+
+      const exchangeKey = `${payout.credentialId}:${payout.asset}`;
+      const exchange = byExchange.get(exchangeKey) || {
+        ...payout,
+        ...empty(),
+      };
+      add(exchange, payout);
+      byExchange.set(exchangeKey, exchange);
+
+      const monthKey = payout.timestamp.toISOString().substring(0, 7);
+      const month = byMonth.get(monthKey) || {
+        ...empty(),
+        assets: new Map<string, IncomeTotals>(),
+      };
+      add(month, payout);
+      const monthAsset = month.assets.get(payout.asset) || empty();
+      add(monthAsset, payout);
+      month.assets.set(payout.asset, monthAsset);
+      byMonth.set(monthKey, month);
+    }
+
+    const labels = new Map<string, string>();
+    for (const snapshot of snapshots) {
+      for (const eb of snapshot.exchangeBalances) {
+        if (eb.credentialId && eb.label) {
+          labels.set(eb.credentialId.toString(), eb.label);
+        }
+      }
+    }
+
+    const assets: IncomeAssetDto[] = Array.from(byAsset.entries())
+      .map(([asset, totals]) => ({
+        asset,
+        ...this.toSlice(
+          totals,
+          snapshots.map(
+            (s) =>
+              s.consolidatedBalances.find((b) => b.asset === asset)?.amount ||
+              0,
+          ),
+          days,
+        ),
+      }))
+      .sort((a, b) => b.value - a.value);
+
+    const exchanges: IncomeExchangeDto[] = Array.from(byExchange.values())
+      .map((totals) => ({
+        exchange: totals.exchange,
+        label: labels.get(totals.credentialId) || totals.exchange,
+        credentialId: totals.credentialId,
+        asset: totals.asset,
+        ...this.toSlice(
+          totals,
+          snapshots.map(
+            (s) =>
+              s.exchangeBalances
+                .find(
+                  (eb) => eb.credentialId?.toString() === totals.credentialId,
+                )
+                ?.balances.find((b) => b.asset === totals.asset)?.amount || 0,
+          ),
+          days,
+        ),
+      }))
+      .sort((a, b) => b.value - a.value);
+
+    const months: IncomeMonthDto[] = Array.from(byMonth.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, totals]) => ({
+        month,
+        value: totals.value,
+        payouts: totals.payouts,
+        assets: Array.from(totals.assets.entries()).map(([asset, t]) => ({
+          asset,
+          amount: t.amount,
+          value: t.value,
+        })),
+      }));
+
+    return {
+      from: this.dayKey(start),
+      to: this.dayKey(end),
+      days: Math.round(days),
+      currency,
+      totalValue: payouts.reduce((sum, p) => sum + p.value, 0),
+      payouts: payouts.length,
+      unpricedPayouts: payouts.filter((p) => p.price <= 0).length,
+      byAsset: assets,
+      byExchange: exchanges,
+      byMonth: months,
+    };
+  }
+
+  private async getPriceAtReceipt(asset: string, date: Date): Promise<number> {
+    if (USD_ASSETS.has(asset)) {
+      return 1;
+    }
+
+    try {
+      const price = await this.priceHistoryService.getHistoricalPriceForAsset(
+        asset,
+        date,
+      );
+      return price ?? 0;
+    } catch (error) {
+      this.logger.debug(
+        `Failed to get price history for ${asset}: ${error.message}`,
+      );
+      return 0;
+    }
+  }
+
+  /**
+   * Range of the report: the requested dates, or from the first payout
+   * until now
+   */
+  private getRange(
+    query: IncomeQueryDto,
+    payouts: IncomePayoutDto[],
+  ): { start: Date; end: Date } {
+    const end = query.to
+      ? new Date(Date.parse(query.to) + DAY_MS - 1)
+      : new Date();
+    const start = query.from
+      ? new Date(query.from)
+      : new Date(this.dayKey(payouts[0]?.timestamp || end));
+    return { start, end };
+  }
+
+  /**
+   * Totals with the effective APY, compounding the yield earned on the
+   * average balance over the range to a year
+   */
+  private toSlice(
+    totals: IncomeTotals,
+    balances: number[],
+    days: number,
+  ): IncomeSliceDto {
+    const averageBalance =
+      balances.length > 0
+        ? balances.reduce((sum, b) => sum + b, 0) / balances.length
+        : null;
+    const apy =
+      averageBalance && averageBalance > 0
+        ? Math.pow(1 + totals.amount / averageBalance, DAYS_PER_YEAR / days) - 1
+        : null;
+
+    return {
+      amount: totals.amount,
+      value: totals.value,
+      payouts: totals.payouts,
+      averageBalance,
+      apy,
+    };
+  }
+
+  private styleHeader(sheet: ExcelJS.Worksheet, argb: string): void {
+    sheet.getRow(1).fill = {
+      type: 'pattern',
+      pattern: 'solid',
+      fgColor: { argb },
+    };
+    sheet.getRow(1).font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  }
+
+  private dayKey(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
@@ -0,0 +1,71 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsMongoId,
+  IsNumber,
+  IsPositive,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class LotAllocationDto {
+  @ApiProperty({ example: '65a1f0c2e4b0a1b2c3d4e5f6' })
+  @IsMongoId()
+  lotId: string;
+
+  @ApiProperty({ example: 0.25 })
+  @IsNumber()
+  @IsPositive()
+  amount: number;
+}
+
+export class SetLotOverrideDto {
+  @ApiProperty({
+    type: [LotAllocationDto],
+    description:
+      'Lots consumed by the disposal. Amounts must add up to the disposed amount.',
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => LotAllocationDto)
+  lots: LotAllocationDto[];
+}
+
+export class LotSelectionItemDto {
+  @ApiProperty()
+  lotId: string;
+
+  @ApiProperty()
+  amount: number;
+
+  @ApiProperty()
+  costPerUnit: number;
+
+  @ApiProperty()
+  acquiredAt: Date;
+}
+
+export class LotSelectionResponseDto {
+  @ApiProperty()
+  transactionId: string;
+
+  @ApiProperty()
+  asset: string;
+
+  @ApiProperty()
+  amount: number;
+
+  @ApiProperty()
+  costBasis: number;
+
+  @ApiProperty()
+  realizedPnl: number;
+
+  @ApiProperty({ description: 'True when lots were picked manually' })
+  specificLots: boolean;
+
+  @ApiProperty({ type: [LotSelectionItemDto] })
+  lots: LotSelectionItemDto[];
+}
@@ -0,0 +1,84 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsNumber, IsOptional, Min } from 'class-validator';
+import { PnlIssueType } from '../../../common/constants/pnl-issue-types.constant';
+
+export class SetManualValuationDto {
+  @ApiPropertyOptional({
+    example: 42000,
+    description: 'USD price per unit, used when no market price was found',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  price?: number;
+
+  @ApiPropertyOptional({
+    example: 30000,
+    description:
+      'USD cost per unit of the part of a disposal not covered by any lot',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  costPerUnit?: number;
+
+  @ApiPropertyOptional({
+    example: '2021-03-01',
+    description:
+      'When the uncovered amount was acquired, for the holding period. Defaults to the disposal date.',
+  })
+  @IsOptional()
+  @IsDateString()
+  acquiredAt?: string;
+}
+
+export class ManualValuationDto {
+  @ApiPropertyOptional()
+  price?: number;
+
+  @ApiPropertyOptional()
+  costPerUnit?: number;
+
+  @ApiPropertyOptional()
+  acquiredAt?: Date;
+}
+
+export class PnlIssueDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ enum: PnlIssueType })
+  type: PnlIssueType;
+
+  @ApiProperty()
+  asset: string;
+
+  @ApiProperty()
+  transactionId: string;
+
+  @ApiProperty()
+  exchange: string;
+
+  @ApiProperty({ description: 'Amount of the asset affected' })
+  amount: number;
+
+  @ApiProperty()
+  timestamp: Date;
+
+  @ApiProperty()
+  message: string;
+
+  @ApiPropertyOptional({ type: ManualValuationDto })
+  valuation?: ManualValuationDto;
+}
+
+export class PnlAssetIssuesDto {
+  @ApiProperty()
+  asset: string;
+
+  @ApiProperty()
+  count: number;
+
+  @ApiProperty({ type: [PnlIssueDto] })
+  issues: PnlIssueDto[];
+}
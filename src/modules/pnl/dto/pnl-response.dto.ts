@@ -1,4 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { CostBasisMethod } from '../../../common/constants/cost-basis-methods.constant';
 
 export class AssetPnlDto {
   @ApiProperty()
@@ -37,6 +38,31 @@ export class PeriodBreakdownDto {
   allTime: number;
 }
 
+export class FeeAssetDto {
+  @ApiProperty()
+  asset: string;
+
+  @ApiProperty()
+  amount: number;
+
+  @ApiProperty()
+  valueUsd: number;
+}
+
+export class FeeBreakdownDto {
+  @ApiProperty()
+  totalFees: number;
+
+  @ApiProperty({ description: 'Fees added to the cost basis of acquired lots' })
+  addedToCostBasis: number;
+
+  @ApiProperty({ description: 'Fees deducted from the proceeds of disposals' })
+  deductedFromProceeds: number;
+
+  @ApiProperty({ type: [FeeAssetDto] })
+  byAsset: FeeAssetDto[];
+}
+
 export class PnlSummaryResponseDto {
   @ApiProperty()
   totalRealizedPnl: number;
@@ -52,6 +78,24 @@ export class PnlSummaryResponseDto {
 
   @ApiProperty({ type: PeriodBreakdownDto })
   periodBreakdown: PeriodBreakdownDto;
+
+  @ApiProperty({ type: FeeBreakdownDto })
+  fees: FeeBreakdownDto;
+
+  @ApiProperty({ enum: CostBasisMethod })
+  costBasisMethod: CostBasisMethod;
+
+  @ApiProperty({
+    description:
+      'True when the figures were computed in memory for a method other than the saved one',
+  })
+  isPreview: boolean;
+
+  @ApiProperty({
+    example: 'USD',
+    description: 'Reporting currency of the values',
+  })
+  currency: string;
 }
 
 export class UnrealizedPnlDto {
@@ -80,6 +124,102 @@ export class UnrealizedPnlResponseDto {
 
   @ApiProperty({ type: [UnrealizedPnlDto] })
   positions: UnrealizedPnlDto[];
+
+  @ApiProperty({
+    example: 'USD',
+    description: 'Reporting currency of the values',
+  })
+  currency: string;
+}
+
+export enum HoldingAgeBucket {
+  UNDER_30_DAYS = 'under_30_days',
+  UNDER_1_YEAR = 'under_1_year',
+  OVER_1_YEAR = 'over_1_year',
+}
+
+export class UnrealizedPnlGroupDto {
+  @ApiProperty()
+  totalUnrealizedPnl: number;
+
+  @ApiProperty()
+  costBasis: number;
+
+  @ApiProperty()
+  currentValue: number;
+
+  @ApiProperty({ type: [UnrealizedPnlDto] })
+  positions: UnrealizedPnlDto[];
+}
+
+export class UnrealizedPnlExchangeDto extends UnrealizedPnlGroupDto {
+  @ApiProperty({ example: 'binance' })
+  exchange: string;
+}
+
+export class UnrealizedPnlAgeDto extends UnrealizedPnlGroupDto {
+  @ApiProperty({ enum: HoldingAgeBucket })
+  bucket: HoldingAgeBucket;
+}
+
+export class UpcomingLongTermLotDto {
+  @ApiProperty()
+  lotId: string;
+
+  @ApiProperty()
+  asset: string;
+
+  @ApiProperty()
+  exchange: string;
+
+  @ApiProperty()
+  amount: number;
+
+  @ApiProperty()
+  costBasis: number;
+
+  @ApiProperty()
+  currentValue: number;
+
+  @ApiProperty()
+  unrealizedPnl: number;
+
+  @ApiProperty()
+  acquiredAt: Date;
+
+  @ApiProperty({ description: 'First day a sale of this lot is long term' })
+  longTermAt: Date;
+}
+
+export class UpcomingLongTermDto extends UnrealizedPnlGroupDto {
+  @ApiProperty({ example: 30 })
+  days: number;
+
+  @ApiProperty({ type: [UpcomingLongTermLotDto] })
+  lots: UpcomingLongTermLotDto[];
+}
+
+export class UnrealizedPnlBreakdownDto {
+  @ApiProperty()
+  totalUnrealizedPnl: number;
+
+  @ApiProperty({ type: [UnrealizedPnlExchangeDto] })
+  byExchange: UnrealizedPnlExchangeDto[];
+
+  @ApiProperty({ type: [UnrealizedPnlAgeDto] })
+  byAge: UnrealizedPnlAgeDto[];
+
+  @ApiProperty({
+    type: UpcomingLongTermDto,
+    description: 'Short-term lots that turn long term within `days`',
+  })
+  upcomingLongTerm: UpcomingLongTermDto;
+
+  @ApiProperty({
+    example: 'USD',
+    description: 'Reporting currency of the values',
+  })
+  currency: string;
 }
 
 export class RealizedPnlItemDto {
@@ -116,8 +256,17 @@ export class RealizedPnlItemDto {
   @ApiProperty()
   pnlPercent: number;
 
-  @ApiProperty()
+  @ApiProperty({
+    example: 'short_term',
+    description:
+      'short_term, long_term, or mixed when lots of both terms were sold',
+  })
   holdingPeriod: string;
+
+  @ApiProperty({
+    description: 'Gift sent or lost coins: removed without a sale',
+  })
+  nonSale: boolean;
 }
 
 export class PaginatedRealizedPnlDto {
@@ -135,6 +284,12 @@ export class PaginatedRealizedPnlDto {
 
   @ApiProperty()
   totalPages: number;
+
+  @ApiProperty({
+    example: 'USD',
+    description: 'Reporting currency of the values',
+  })
+  currency: string;
 }
 
 export class CostBasisLotDto {
@@ -181,6 +336,12 @@ export class PaginatedCostBasisLotsDto {
 
   @ApiProperty()
   totalPages: number;
+
+  @ApiProperty({
+    example: 'USD',
+    description: 'Reporting currency of the values',
+  })
+  currency: string;
 }
 
 export class PnlEvolutionDto {
@@ -192,4 +353,10 @@ export class PnlEvolutionDto {
 
   @ApiProperty()
   timeframe: string;
+
+  @ApiProperty({
+    example: 'USD',
+    description: 'Reporting currency of the values',
+  })
+  currency: string;
 }
@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsOptional, Matches } from 'class-validator';
+import { CostBasisMethod } from '../../../common/constants/cost-basis-methods.constant';
+
+export class UpdatePnlSettingsDto {
+  @ApiProperty({
+    enum: CostBasisMethod,
+    required: false,
+    example: CostBasisMethod.FIFO,
+    description: 'Method used to pick which lots a disposal consumes',
+  })
+  @IsOptional()
+  @IsEnum(CostBasisMethod)
+  costBasisMethod?: CostBasisMethod;
+
+  @ApiProperty({
+    required: false,
+    example: '04-06',
+    description: 'First day of the tax year as MM-DD',
+  })
+  @IsOptional()
+  @Matches(/^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/, {
+    message: 'taxYearStart must be a MM-DD date',
+  })
+  taxYearStart?: string;
+}
+
+export class PnlSettingsResponseDto {
+  @ApiProperty({ enum: CostBasisMethod, example: CostBasisMethod.FIFO })
+  costBasisMethod: CostBasisMethod;
+
+  @ApiProperty({ example: '01-01' })
+  taxYearStart: string;
+}
@@ -0,0 +1,167 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayUnique,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Min,
+} from 'class-validator';
+import { CostBasisMethod } from '../../../common/constants/cost-basis-methods.constant';
+
+export class SimulateSaleDto {
+  @ApiProperty({ example: 'BTC' })
+  @IsString()
+  @IsNotEmpty()
+  asset: string;
+
+  @ApiProperty({ example: 0.5 })
+  @IsNumber()
+  @IsPositive()
+  amount: number;
+
+  @ApiPropertyOptional({
+    example: 'kraken',
+    description:
+      'Exchange the sale would happen on; its lots are used when they cover the amount',
+  })
+  @IsOptional()
+  @IsString()
+  exchange?: string;
+
+  @ApiPropertyOptional({
+    example: 65000,
+    description:
+      'Sale price per unit in the reporting currency. Defaults to the current price.',
+  })
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  price?: number;
+
+  @ApiPropertyOptional({
+    example: 10,
+    description: 'Sale fee in the reporting currency, deducted from proceeds',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  fee?: number;
+
+  @ApiPropertyOptional({
+    enum: CostBasisMethod,
+    isArray: true,
+    description: 'Methods to compare. Defaults to the saved method.',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(CostBasisMethod, { each: true })
+  methods?: CostBasisMethod[];
+}
+
+export class SimulatedLotDto {
+  @ApiProperty()
+  lotId: string;
+
+  @ApiProperty()
+  exchange: string;
+
+  @ApiProperty()
+  amount: number;
+
+  @ApiProperty()
+  costPerUnit: number;
+
+  @ApiProperty()
+  acquiredAt: Date;
+
+  @ApiProperty()
+  longTerm: boolean;
+}
+
+export class HoldingTermTotalsDto {
+  @ApiProperty()
+  amount: number;
+
+  @ApiProperty()
+  proceeds: number;
+
+  @ApiProperty()
+  costBasis: number;
+
+  @ApiProperty()
+  gain: number;
+}
+
+export class RemainingPositionDto {
+  @ApiProperty()
+  amount: number;
+
+  @ApiProperty()
+  costBasis: number;
+
+  @ApiProperty()
+  averageCost: number;
+}
+
+export class SaleSimulationResultDto {
+  @ApiProperty({ enum: CostBasisMethod })
+  method: CostBasisMethod;
+
+  @ApiProperty({ description: 'True for the saved cost-basis method' })
+  current: boolean;
+
+  @ApiProperty({ description: 'Amount covered by lots' })
+  amount: number;
+
+  @ApiProperty({ description: 'Amount not covered by any lot' })
+  uncoveredAmount: number;
+
+  @ApiProperty()
+  proceeds: number;
+
+  @ApiProperty()
+  costBasis: number;
+
+  @ApiProperty()
+  realizedPnl: number;
+
+  @ApiProperty({ type: HoldingTermTotalsDto })
+  shortTerm: HoldingTermTotalsDto;
+
+  @ApiProperty({ type: HoldingTermTotalsDto })
+  longTerm: HoldingTermTotalsDto;
+
+  @ApiProperty({ type: [SimulatedLotDto] })
+  lots: SimulatedLotDto[];
+
+  @ApiProperty({ type: RemainingPositionDto })
+  remaining: RemainingPositionDto;
+
+  @ApiProperty({ type: [String] })
+  warnings: string[];
+}
+
+export class SaleSimulationDto {
+  @ApiProperty()
+  asset: string;
+
+  @ApiProperty()
+  amount: number;
+
+  @ApiPropertyOptional()
+  exchange?: string;
+
+  @ApiProperty({ description: 'Sale price per unit' })
+  price: number;
+
+  @ApiProperty({ example: 'USD', description: 'Currency of the values' })
+  currency: string;
+
+  @ApiProperty({ type: [SaleSimulationResultDto] })
+  results: SaleSimulationResultDto[];
+}
@@ -0,0 +1,121 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export enum TaxReportFormat {
+  CSV = 'csv',
+  XLSX = 'xlsx',
+}
+
+export class TaxReportQueryDto {
+  @ApiProperty({
+    example: 2025,
+    description: 'Calendar year in which the tax year starts',
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(2009)
+  @Max(2100)
+  year: number;
+
+  @ApiPropertyOptional({
+    enum: TaxReportFormat,
+    default: TaxReportFormat.XLSX,
+  })
+  @IsOptional()
+  @IsEnum(TaxReportFormat)
+  format?: TaxReportFormat = TaxReportFormat.XLSX;
+}
+
+export class TaxGainRowDto {
+  @ApiProperty()
+  asset: string;
+
+  @ApiProperty()
+  exchange: string;
+
+  @ApiProperty()
+  amount: number;
+
+  @ApiProperty({
+    description:
+      'Acquisition date, null when the lots were bought on different days',
+    nullable: true,
+  })
+  dateAcquired: Date | null;
+
+  @ApiProperty()
+  dateSold: Date;
+
+  @ApiProperty()
+  proceeds: number;
+
+  @ApiProperty()
+  costBasis: number;
+
+  @ApiProperty()
+  gain: number;
+
+  @ApiProperty({ example: 'short_term' })
+  term: string;
+
+  @ApiProperty({ description: 'True when the coins were spent paying a fee' })
+  isFee: boolean;
+}
+
+export class TaxIncomeRowDto {
+  @ApiProperty()
+  asset: string;
+
+  @ApiProperty()
+  exchange: string;
+
+  @ApiProperty()
+  amount: number;
+
+  @ApiProperty()
+  dateReceived: Date;
+
+  @ApiProperty({ description: 'USD price per unit at receipt' })
+  pricePerUnit: number;
+
+  @ApiProperty({ description: 'USD value at receipt' })
+  value: number;
+}
+
+export class TaxTermTotalsDto {
+  @ApiProperty()
+  proceeds: number;
+
+  @ApiProperty()
+  costBasis: number;
+
+  @ApiProperty()
+  gain: number;
+}
+
+export class TaxReportDto {
+  @ApiProperty()
+  year: number;
+
+  @ApiProperty()
+  periodStart: Date;
+
+  @ApiProperty({ description: 'Exclusive end of the tax year' })
+  periodEnd: Date;
+
+  @ApiProperty({ type: [TaxGainRowDto] })
+  gains: TaxGainRowDto[];
+
+  @ApiProperty({ type: [TaxIncomeRowDto] })
+  income: TaxIncomeRowDto[];
+
+  @ApiProperty({ type: TaxTermTotalsDto })
+  shortTerm: TaxTermTotalsDto;
+
+  @ApiProperty({ type: TaxTermTotalsDto })
+  longTerm: TaxTermTotalsDto;
+
+  @ApiProperty()
+  totalIncome: number;
+}
@@ -0,0 +1,50 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsMongoId } from 'class-validator';
+import { TransferMatchStatus } from '../../../common/constants/transfer-match-status.constant';
+
+export class CreateTransferMatchDto {
+  @ApiProperty({ description: 'Withdrawal transaction id' })
+  @IsMongoId()
+  withdrawalId: string;
+
+  @ApiProperty({
+    description: 'Deposit transaction id on the receiving exchange',
+  })
+  @IsMongoId()
+  depositId: string;
+}
+
+export class TransferMatchResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  asset: string;
+
+  @ApiProperty()
+  withdrawalId: string;
+
+  @ApiProperty()
+  depositId: string;
+
+  @ApiProperty()
+  fromExchange: string;
+
+  @ApiProperty()
+  toExchange: string;
+
+  @ApiProperty()
+  withdrawnAmount: number;
+
+  @ApiProperty()
+  receivedAmount: number;
+
+  @ApiProperty()
+  withdrawnAt: Date;
+
+  @ApiProperty()
+  receivedAt: Date;
+
+  @ApiProperty({ enum: TransferMatchStatus })
+  status: TransferMatchStatus;
+}
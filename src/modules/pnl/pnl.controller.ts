@@ -1,4 +1,17 @@
-import { Controller, Get, Post, Query, Res, UseGuards } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Param,
+  Body,
+  Query,
+  Res,
+  UseGuards,
+  ParseEnumPipe,
+  BadRequestException,
+} from '@nestjs/common';
 import { Response } from 'express';
 import {
   ApiTags,
@@ -9,14 +22,35 @@ import {
   ApiProduces,
 } from '@nestjs/swagger';
 import { PnlService } from './pnl.service';
+import { TaxReportService } from './tax-report.service';
+import { SettingsService } from '../settings/settings.service';
 import {
   PnlSummaryResponseDto,
   UnrealizedPnlResponseDto,
+  UnrealizedPnlBreakdownDto,
   RealizedPnlItemDto,
   PaginatedRealizedPnlDto,
   PaginatedCostBasisLotsDto,
   PnlEvolutionDto,
 } from './dto/pnl-response.dto';
+import {
+  PnlSettingsResponseDto,
+  UpdatePnlSettingsDto,
+} from './dto/pnl-settings.dto';
+import {
+  LotSelectionResponseDto,
+  SetLotOverrideDto,
+} from './dto/lot-override.dto';
+import {
+  CreateTransferMatchDto,
+  TransferMatchResponseDto,
+} from './dto/transfer-match.dto';
+import { TaxReportFormat, TaxReportQueryDto } from './dto/tax-report.dto';
+import { PnlAssetIssuesDto, SetManualValuationDto } from './dto/pnl-issue.dto';
+import { SaleSimulationDto, SimulateSaleDto } from './dto/sale-simulation.dto';
+import { QueuedJobDto } from '../queue/dto/queued-job.dto';
+import { CostBasisMethod } from '../../common/constants/cost-basis-methods.constant';
+import { TransferMatchStatus } from '../../common/constants/transfer-match-status.constant';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 
@@ -25,15 +59,52 @@ import { CurrentUser } from '../../common/decorators/current-user.decorator';
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class PnlController {
-  constructor(private readonly pnlService: PnlService) {}
+  constructor(
+    private readonly pnlService: PnlService,
+    private readonly taxReportService: TaxReportService,
+    private readonly settingsService: SettingsService,
+  ) {}
 
   @Get('summary')
   @ApiOperation({ summary: 'Get P&L summary including realized and unrealized' })
+  @ApiQuery({
+    name: 'method',
+    required: false,
+    enum: CostBasisMethod,
+    description:
+      'Preview the summary under another cost-basis method without persisting',
+  })
   @ApiResponse({ status: 200, type: PnlSummaryResponseDto })
   async getSummary(
     @CurrentUser('userId') userId: string,
+    @Query('method', new ParseEnumPipe(CostBasisMethod, { optional: true }))
+    method?: CostBasisMethod,
   ): Promise<PnlSummaryResponseDto> {
-    return this.pnlService.getSummary(userId);
+    const currency = await this.settingsService.getReportingCurrency(userId);
+    return this.pnlService.getSummary(userId, method, currency);
+  }
+
+  @Get('settings')
+  @ApiOperation({ summary: 'Get P&L settings (cost-basis method)' })
+  @ApiResponse({ status: 200, type: PnlSettingsResponseDto })
+  async getSettings(
+    @CurrentUser('userId') userId: string,
+  ): Promise<PnlSettingsResponseDto> {
+    return this.pnlService.getSettings(userId);
+  }
+
+  @Put('settings')
+  @ApiOperation({
+    summary: 'Update P&L settings',
+    description:
+      'Changing the cost-basis method rebuilds all cost basis lots and realized P&L under the new method.',
+  })
+  @ApiResponse({ status: 200, type: PnlSettingsResponseDto })
+  async updateSettings(
+    @CurrentUser('userId') userId: string,
+    @Body() dto: UpdatePnlSettingsDto,
+  ): Promise<PnlSettingsResponseDto> {
+    return this.pnlService.updateSettings(userId, dto);
   }
 
   @Get('unrealized')
@@ -42,7 +113,28 @@ export class PnlController {
   async getUnrealizedPnl(
     @CurrentUser('userId') userId: string,
   ): Promise<UnrealizedPnlResponseDto> {
-    return this.pnlService.getUnrealizedPnl(userId);
+    const currency = await this.settingsService.getReportingCurrency(userId);
+    return this.pnlService.getUnrealizedPnl(userId, currency);
+  }
+
+  @Get('unrealized/breakdown')
+  @ApiOperation({
+    summary: 'Get unrealized P&L by exchange and lot age',
+    description:
+      'Splits current holdings by the exchange holding each lot and by holding age, and lists the lots that turn long term within `days`.',
+  })
+  @ApiQuery({ name: 'days', required: false, example: 30 })
+  @ApiResponse({ status: 200, type: UnrealizedPnlBreakdownDto })
+  async getUnrealizedBreakdown(
+    @CurrentUser('userId') userId: string,
+    @Query('days') days?: string,
+  ): Promise<UnrealizedPnlBreakdownDto> {
+    const daysNum = days ? parseInt(days, 10) : 30;
+    if (isNaN(daysNum) || daysNum < 1 || daysNum > 365) {
+      throw new BadRequestException('days must be between 1 and 365');
+    }
+    const currency = await this.settingsService.getReportingCurrency(userId);
+    return this.pnlService.getUnrealizedBreakdown(userId, daysNum, currency);
   }
 
   @Get('realized')
@@ -57,7 +149,8 @@ export class PnlController {
   ): Promise<RealizedPnlItemDto[]> {
     const start = startDate ? new Date(startDate) : undefined;
     const end = endDate ? new Date(endDate) : undefined;
-    return this.pnlService.getRealizedPnl(userId, start, end);
+    const currency = await this.settingsService.getReportingCurrency(userId);
+    return this.pnlService.getRealizedPnl(userId, start, end, currency);
   }
 
   @Get('realized/paginated')
@@ -84,12 +177,191 @@ export class PnlController {
     const end = endDate ? new Date(endDate) : undefined;
     const assetsArr = assets ? assets.split(',').map(a => a.trim()) : undefined;
     const exchangesArr = exchanges ? exchanges.split(',').map(e => e.trim()) : undefined;
+    const currency = await this.settingsService.getReportingCurrency(userId);
 
     return this.pnlService.getRealizedPnlPaginated(
-      userId, pageNum, limitNum, start, end, assetsArr, exchangesArr
+      userId, pageNum, limitNum, start, end, assetsArr, exchangesArr, currency
     );
   }
 
+  @Get('realized/:transactionId/lots')
+  @ApiOperation({ summary: 'Get the lots consumed by a disposal' })
+  @ApiQuery({
+    name: 'asset',
+    required: false,
+    description: 'Disposed asset, required for trades between two coins',
+  })
+  @ApiResponse({ status: 200, type: LotSelectionResponseDto })
+  @ApiResponse({
+    status: 404,
+    description: 'Transaction or realized P&L not found',
+  })
+  async getLotSelection(
+    @CurrentUser('userId') userId: string,
+    @Param('transactionId') transactionId: string,
+    @Query('asset') asset?: string,
+  ): Promise<LotSelectionResponseDto> {
+    return this.pnlService.getLotSelection(userId, transactionId, asset);
+  }
+
+  @Put('realized/:transactionId/lots')
+  @ApiOperation({
+    summary: 'Choose the lots consumed by a disposal (specific identification)',
+    description:
+      'Amounts must add up to the disposed amount. P&L for the asset is recalculated with the override.',
+  })
+  @ApiResponse({ status: 200, type: LotSelectionResponseDto })
+  @ApiQuery({ name: 'asset', required: false })
+  @ApiResponse({ status: 400, description: 'Invalid lot selection' })
+  async setLotOverride(
+    @CurrentUser('userId') userId: string,
+    @Param('transactionId') transactionId: string,
+    @Body() dto: SetLotOverrideDto,
+    @Query('asset') asset?: string,
+  ): Promise<LotSelectionResponseDto> {
+    return this.pnlService.setLotOverride(userId, transactionId, dto, asset);
+  }
+
+  @Delete('realized/:transactionId/lots')
+  @ApiOperation({
+    summary: 'Remove a lot override and use the cost-basis method again',
+  })
+  @ApiResponse({ status: 200, type: LotSelectionResponseDto })
+  @ApiQuery({ name: 'asset', required: false })
+  @ApiResponse({ status: 404, description: 'Lot override not found' })
+  async removeLotOverride(
+    @CurrentUser('userId') userId: string,
+    @Param('transactionId') transactionId: string,
+    @Query('asset') asset?: string,
+  ): Promise<LotSelectionResponseDto> {
+    return this.pnlService.removeLotOverride(userId, transactionId, asset);
+  }
+
+  @Post('simulate-sale')
+  @ApiOperation({
+    summary: 'Simulate a sale without saving it',
+    description:
+      'Returns the lots a sale today would consume, the realized gain split by holding term and the remaining position, for each requested cost-basis method.',
+  })
+  @ApiResponse({ status: 200, type: SaleSimulationDto })
+  @ApiResponse({ status: 400, description: 'No price available' })
+  async simulateSale(
+    @CurrentUser('userId') userId: string,
+    @Body() dto: SimulateSaleDto,
+  ): Promise<SaleSimulationDto> {
+    const currency = await this.settingsService.getReportingCurrency(userId);
+    return this.pnlService.simulateSale(userId, dto, currency);
+  }
+
+  @Get('issues')
+  @ApiOperation({
+    summary: 'List cost-basis issues per asset',
+    description:
+      'Disposals not covered by lots, transactions without a price and exchanges selling more than they held, as of the last recalculation.',
+  })
+  @ApiQuery({ name: 'asset', required: false })
+  @ApiResponse({ status: 200, type: [PnlAssetIssuesDto] })
+  async getIssues(
+    @CurrentUser('userId') userId: string,
+    @Query('asset') asset?: string,
+  ): Promise<PnlAssetIssuesDto[]> {
+    return this.pnlService.getIssues(userId, asset);
+  }
+
+  @Put('transactions/:transactionId/valuation')
+  @ApiOperation({
+    summary: 'Supply a manual price or cost for a transaction',
+    description:
+      'The price replaces a missing market price; the cost is used for the part of a disposal not covered by lots. P&L for the asset is recalculated.',
+  })
+  @ApiQuery({
+    name: 'asset',
+    required: false,
+    description:
+      'Asset of the transaction, required for trades between two coins',
+  })
+  @ApiResponse({ status: 200, type: PnlAssetIssuesDto })
+  @ApiResponse({ status: 400, description: 'Invalid valuation' })
+  async setManualValuation(
+    @CurrentUser('userId') userId: string,
+    @Param('transactionId') transactionId: string,
+    @Body() dto: SetManualValuationDto,
+    @Query('asset') asset?: string,
+  ): Promise<PnlAssetIssuesDto> {
+    return this.pnlService.setManualValuation(
+      userId,
+      transactionId,
+      dto,
+      asset,
+    );
+  }
+
+  @Delete('transactions/:transactionId/valuation')
+  @ApiOperation({ summary: 'Remove a manual price or cost' })
+  @ApiQuery({ name: 'asset', required: false })
+  @ApiResponse({ status: 200, type: PnlAssetIssuesDto })
+  @ApiResponse({ status: 404, description: 'Manual valuation not found' })
+  async removeManualValuation(
+    @CurrentUser('userId') userId: string,
+    @Param('transactionId') transactionId: string,
+    @Query('asset') asset?: string,
+  ): Promise<PnlAssetIssuesDto> {
+    return this.pnlService.removeManualValuation(userId, transactionId, asset);
+  }
+
+  @Get('transfers')
+  @ApiOperation({
+    summary: 'List transfer matches between exchanges',
+    description:
+      'Matched withdrawal/deposit pairs move lots instead of realizing P&L.',
+  })
+  @ApiQuery({ name: 'status', required: false, enum: TransferMatchStatus })
+  @ApiResponse({ status: 200, type: [TransferMatchResponseDto] })
+  async getTransferMatches(
+    @CurrentUser('userId') userId: string,
+    @Query('status', new ParseEnumPipe(TransferMatchStatus, { optional: true }))
+    status?: TransferMatchStatus,
+  ): Promise<TransferMatchResponseDto[]> {
+    return this.pnlService.getTransferMatches(userId, status);
+  }
+
+  @Post('transfers/match')
+  @ApiOperation({
+    summary: 'Match transfers across the whole history and recalculate P&L',
+  })
+  @ApiResponse({ status: 200 })
+  async runTransferMatching(
+    @CurrentUser('userId') userId: string,
+  ): Promise<{ matched: number; processed: number }> {
+    return this.pnlService.runTransferMatching(userId);
+  }
+
+  @Post('transfers')
+  @ApiOperation({ summary: 'Manually pair a withdrawal with a deposit' })
+  @ApiResponse({ status: 201, type: TransferMatchResponseDto })
+  @ApiResponse({ status: 400, description: 'Transactions cannot be matched' })
+  async createTransferMatch(
+    @CurrentUser('userId') userId: string,
+    @Body() dto: CreateTransferMatchDto,
+  ): Promise<TransferMatchResponseDto> {
+    return this.pnlService.createTransferMatch(userId, dto);
+  }
+
+  @Delete('transfers/:id')
+  @ApiOperation({
+    summary: 'Reject a transfer match',
+    description:
+      'The withdrawal is treated as a disposal again and the pair is not matched automatically anymore.',
+  })
+  @ApiResponse({ status: 200, type: TransferMatchResponseDto })
+  @ApiResponse({ status: 404, description: 'Transfer match not found' })
+  async rejectTransferMatch(
+    @CurrentUser('userId') userId: string,
+    @Param('id') id: string,
+  ): Promise<TransferMatchResponseDto> {
+    return this.pnlService.rejectTransferMatch(userId, id);
+  }
+
   @Get('lots')
   @ApiOperation({ summary: 'Get cost basis lots with pagination and filters' })
   @ApiQuery({ name: 'page', required: false, example: 1 })
@@ -111,9 +383,10 @@ export class PnlController {
     const assetsArr = assets ? assets.split(',').map(a => a.trim()) : undefined;
     const exchangesArr = exchanges ? exchanges.split(',').map(e => e.trim()) : undefined;
     const showEmptyBool = showEmpty === 'true';
+    const currency = await this.settingsService.getReportingCurrency(userId);
 
     return this.pnlService.getCostBasisLots(
-      userId, pageNum, limitNum, assetsArr, exchangesArr, showEmptyBool
+      userId, pageNum, limitNum, assetsArr, exchangesArr, showEmptyBool, currency
     );
   }
 
@@ -125,7 +398,8 @@ export class PnlController {
     @CurrentUser('userId') userId: string,
     @Query('timeframe') timeframe?: string,
   ): Promise<PnlEvolutionDto> {
-    return this.pnlService.getPnlEvolution(userId, timeframe || '1y');
+    const currency = await this.settingsService.getReportingCurrency(userId);
+    return this.pnlService.getPnlEvolution(userId, timeframe || '1y', currency);
   }
 
   @Get('filters')
@@ -142,23 +416,39 @@ export class PnlController {
   }
 
   @Post('recalculate')
-  @ApiOperation({ summary: 'Recalculate all P&L from transaction history' })
-  @ApiResponse({ status: 200 })
+  @ApiOperation({
+    summary: 'Queue a recalculation of all P&L from transaction history',
+    description:
+      'With `since`, only lots and realized records from that date on are rolled back and replayed. Returns the job at once; poll it under /jobs.',
+  })
+  @ApiQuery({ name: 'since', required: false, example: '2024-01-01' })
+  @ApiQuery({
+    name: 'assets',
+    required: false,
+    description: 'Comma-separated asset filter (with since)',
+  })
+  @ApiResponse({ status: 201, type: QueuedJobDto })
   async recalculate(
     @CurrentUser('userId') userId: string,
-  ): Promise<{ processed: number; message: string }> {
-    const result = await this.pnlService.recalculateAll(userId);
-    return {
-      processed: result.processed,
-      message: `P&L recalculation complete. Processed ${result.processed} transactions.`,
-    };
+    @Query('since') since?: string,
+    @Query('assets') assets?: string,
+  ): Promise<QueuedJobDto> {
+    const sinceDate = since ? new Date(since) : undefined;
+    if (sinceDate && isNaN(sinceDate.getTime())) {
+      throw new BadRequestException('Invalid since date');
+    }
+    const assetsArr = assets
+      ? assets.split(',').map((a) => a.trim())
+      : undefined;
+
+    return this.pnlService.queueRecalculation(userId, sinceDate, assetsArr);
   }
 
   @Get('export')
   @ApiOperation({
     summary: 'Export P&L data to Excel',
     description:
-      'Generates an Excel file with cost basis lots, realized P&L, and summary by asset for verification.',
+      'Generates an Excel file with cost basis lots, realized P&L, summary by asset and interest income for verification.',
   })
   @ApiProduces('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')
   @ApiResponse({
@@ -180,4 +470,43 @@ export class PnlController {
     res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
     res.send(buffer);
   }
+
+  @Get('tax-report')
+  @ApiOperation({
+    summary: 'Export the annual tax report',
+    description:
+      'Capital gains schedule (short/long term) and interest income valued at receipt for the tax year starting in `year`, using the tax-year start from P&L settings.',
+  })
+  @ApiProduces(
+    'text/csv',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  )
+  @ApiResponse({ status: 200, description: 'CSV or Excel file' })
+  async exportTaxReport(
+    @CurrentUser('userId') userId: string,
+    @Query() query: TaxReportQueryDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    const report = await this.taxReportService.getTaxReport(userId, query.year);
+
+    const filename = `tax-report-${query.year}.${query.format}`;
+
+    if (query.format === TaxReportFormat.CSV) {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${filename}"`,
+      );
+      res.send(this.taxReportService.exportToCsv(report));
+      return;
+    }
+
+    const buffer = await this.taxReportService.exportToExcel(report);
+    res.setHeader(
+      'Content-Type',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    );
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(buffer);
+  }
 }
@@ -7,20 +7,44 @@ import {
   CostBasisLotSchema,
 } from './schemas/cost-basis-lot.schema';
 import { RealizedPnl, RealizedPnlSchema } from './schemas/realized-pnl.schema';
+import { PnlSettings, PnlSettingsSchema } from './schemas/pnl-settings.schema';
+import { LotOverride, LotOverrideSchema } from './schemas/lot-override.schema';
+import { PnlIssue, PnlIssueSchema } from './schemas/pnl-issue.schema';
+import {
+  ManualValuation,
+  ManualValuationSchema,
+} from './schemas/manual-valuation.schema';
+import {
+  TransferMatch,
+  TransferMatchSchema,
+} from './schemas/transfer-match.schema';
+import { TransferMatchingService } from './transfer-matching.service';
+import { TaxReportService } from './tax-report.service';
 import { PricesModule } from '../prices/prices.module';
+import { SettingsModule } from '../settings/settings.module';
+import { IncomeModule } from '../income/income.module';
 import { TransactionsModule } from '../transactions/transactions.module';
+import { QueueModule } from '../queue/queue.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: CostBasisLot.name, schema: CostBasisLotSchema },
       { name: RealizedPnl.name, schema: RealizedPnlSchema },
+      { name: PnlSettings.name, schema: PnlSettingsSchema },
+      { name: LotOverride.name, schema: LotOverrideSchema },
+      { name: TransferMatch.name, schema: TransferMatchSchema },
+      { name: PnlIssue.name, schema: PnlIssueSchema },
+      { name: ManualValuation.name, schema: ManualValuationSchema },
     ]),
     PricesModule,
+    SettingsModule,
+    IncomeModule,
     forwardRef(() => TransactionsModule),
+    QueueModule,
   ],
   controllers: [PnlController],
-  providers: [PnlService],
+  providers: [PnlService, TransferMatchingService, TaxReportService],
   exports: [PnlService],
 })
 export class PnlModule {}
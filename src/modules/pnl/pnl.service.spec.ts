@@ -0,0 +1,488 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { PnlService } from './pnl.service';
+import { CostBasisLot } from './schemas/cost-basis-lot.schema';
+import { RealizedPnl } from './schemas/realized-pnl.schema';
+import { PnlSettings } from './schemas/pnl-settings.schema';
+import { LotOverride } from './schemas/lot-override.schema';
+import { PnlIssue } from './schemas/pnl-issue.schema';
+import { ManualValuation } from './schemas/manual-valuation.schema';
+import { TransferMatchingService } from './transfer-matching.service';
+import { PricesService } from '../prices/prices.service';
+import { PriceHistoryService } from '../prices/price-history.service';
+import { FxRatesService } from '../prices/fx-rates.service';
+import { IncomeService } from '../income/income.service';
+import { TransactionsService } from '../transactions/transactions.service';
+import { JobQueueService } from '../queue/job-queue.service';
+import { CostBasisMethod } from '../../common/constants/cost-basis-methods.constant';
+import { TransactionType } from '../../common/constants/transaction-types.constant';
+import { FakeModel } from '../../../test/fake-model';
+
+type Lot = CostBasisLot & { _id: Types.ObjectId };
+
+const lot = (acquiredAt: string, amount: number, costPerUnit: number): Lot =>
+  ({
+    _id: new Types.ObjectId(),
+    asset: 'BTC',
+    originalAmount: amount,
+    remainingAmount: amount,
+    costPerUnit,
+    acquiredAt: new Date(acquiredAt),
+  }) as Lot;
+
+describe('PnlService', () => {
+  const userId = new Types.ObjectId().toString();
+
+  let service: PnlService;
+  let transactions: FakeModel;
+  let lots: FakeModel;
+  let realized: FakeModel;
+  let settings: FakeModel;
+  let issues: FakeModel;
+  let transferMatchingService: Record<string, jest.Mock>;
+  let prices: Record<string, number>;
+
+  const tx = (timestamp: string, fields: Record<string, unknown>) =>
+    transactions.create({
+      userId: new Types.ObjectId(userId),
+      exchange: 'kraken',
+      timestamp: new Date(timestamp),
+      ...fields,
+    });
+  const trade = (
+    side: 'buy' | 'sell',
+    timestamp: string,
+    amount: number,
+    price: number,
+    fields: Record<string, unknown> = {},
+  ) =>
+    tx(timestamp, {
+      type: TransactionType.TRADE,
+      side,
+      asset: 'BTC',
+      amount,
+      price,
+      priceAsset: 'USD',
+      total: amount * price,
+      ...fields,
+    });
+
+  beforeEach(async () => {
+    transactions = new FakeModel();
+    lots = new FakeModel();
+    realized = new FakeModel();
+    settings = new FakeModel();
+    issues = new FakeModel();
+    prices = {};
+    transferMatchingService = {
+      autoMatch: jest.fn().mockResolvedValue([]),
+      getActiveMatches: jest.fn().mockResolvedValue([]),
+      releaseTransactions: jest.fn().mockResolvedValue([]),
+    };
+
+    const models: [{ name: string }, FakeModel][] = [
+      [CostBasisLot, lots],
+      [RealizedPnl, realized],
+      [PnlSettings, settings],
+      [LotOverride, new FakeModel()],
+      [PnlIssue, issues],
+      [ManualValuation, new FakeModel()],
+    ];
+    const services = [
+      PricesService,
+      FxRatesService,
+      IncomeService,
+      JobQueueService,
+    ].map((provide) => ({ provide, useValue: {} }));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PnlService,
+        ...models.map(([model, fake]) => ({
+          provide: getModelToken(model.name),
+          useValue: fake,
+        })),
+        ...services,
+        {
+          provide: TransactionsService,
+          useValue: {
+            findAllByUserSorted: jest.fn((user: string, since?: Date) =>
+              transactions
+                .find({
+                  userId: user,
+                  duplicateOf: null,
+                  ...(since && { timestamp: { $gte: since } }),
+                })
+                .sort({ timestamp: 1 })
+                .exec(),
+            ),
+          },
+        },
+        { provide: TransferMatchingService, useValue: transferMatchingService },
+        {
+          provide: PriceHistoryService,
+          useValue: {
+            getHistoricalPriceForAsset: jest.fn(
+              async (asset: string) => prices[asset] ?? null,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PnlService>(PnlService);
+  });
+
+  describe('selectLots', () => {
+    const selectLots = (lots: Lot[], amount: number, method: CostBasisMethod) =>
+      (
+        service as unknown as {
+          selectLots: (
+            lots: Lot[],
+            amount: number,
+            method: CostBasisMethod,
+          ) => { lot: Lot; amount: number }[];
+        }
+      ).selectLots(lots, amount, method);
+
+    const oldCheap = lot('2023-01-01', 1, 20000);
+    const middleDear = lot('2023-06-01', 1, 30000);
+    const newMiddle = lot('2024-01-01', 1, 25000);
+    const lots = [middleDear, newMiddle, oldCheap];
+
+    it('takes the oldest lots first under FIFO', () => {
+      const allocations = selectLots(lots, 1.5, CostBasisMethod.FIFO);
+
+      expect(allocations).toEqual([
+        { lot: oldCheap, amount: 1 },
+        { lot: middleDear, amount: 0.5 },
+      ]);
+    });
+
+    it('takes the newest lots first under LIFO', () => {
+      const allocations = selectLots(lots, 1.5, CostBasisMethod.LIFO);
+
+      expect(allocations).toEqual([
+        { lot: newMiddle, amount: 1 },
+        { lot: middleDear, amount: 0.5 },
+      ]);
+    });
+
+    it('takes the most expensive lots first under HIFO', () => {
+      const allocations = selectLots(lots, 1.5, CostBasisMethod.HIFO);
+
+      expect(allocations).toEqual([
+        { lot: middleDear, amount: 1 },
+        { lot: newMiddle, amount: 0.5 },
+      ]);
+    });
+
+    it('breaks HIFO ties by age', () => {
+      const older = lot('2023-01-01', 1, 30000);
+      const allocations = selectLots(
+        [middleDear, older],
+        1,
+        CostBasisMethod.HIFO,
+      );
+
+      expect(allocations).toEqual([{ lot: older, amount: 1 }]);
+    });
+
+    it('draws from every lot pro-rata under average cost', () => {
+      const small = lot('2023-01-01', 1, 20000);
+      const large = lot('2023-06-01', 3, 30000);
+      const allocations = selectLots(
+        [small, large],
+        2,
+        CostBasisMethod.AVERAGE,
+      );
+
+      expect(allocations).toEqual([
+        { lot: small, amount: 0.5 },
+        { lot: large, amount: 1.5 },
+      ]);
+    });
+
+    it('does not allocate more than the lots hold', () => {
+      expect(selectLots(lots, 5, CostBasisMethod.FIFO)).toHaveLength(3);
+      expect(selectLots([oldCheap], 5, CostBasisMethod.AVERAGE)[0].amount).toBe(
+        1,
+      );
+      expect(selectLots([], 1, CostBasisMethod.AVERAGE)).toEqual([]);
+    });
+
+    it('leaves the lots themselves untouched', () => {
+      selectLots(lots, 2, CostBasisMethod.FIFO);
+
+      expect(lots.map((l) => l.remainingAmount)).toEqual([1, 1, 1]);
+      expect(lots[0]).toBe(middleDear);
+    });
+  });
+
+  describe('recalculateAll', () => {
+    it('replays trades into lots and realized records', async () => {
+      await trade('buy', '2024-01-01', 1, 20000);
+      await trade('buy', '2024-02-01', 1, 30000);
+      await trade('sell', '2024-03-01', 1.5, 40000);
+
+      const { processed } = await service.recalculateAll(userId);
+
+      expect(processed).toBe(3);
+      expect(lots.docs.map((l) => [l.costPerUnit, l.remainingAmount])).toEqual([
+        [20000, 0],
+        [30000, 0.5],
+      ]);
+      expect(realized.docs).toHaveLength(1);
+      expect(realized.docs[0]).toMatchObject({
+        asset: 'BTC',
+        amount: 1.5,
+        proceeds: 60000,
+        costBasis: 35000,
+        realizedPnl: 25000,
+        holdingPeriod: 'short_term',
+      });
+    });
+
+    it('replaces what an earlier run stored', async () => {
+      await trade('buy', '2024-01-01', 1, 20000);
+      await trade('sell', '2024-03-01', 1, 40000);
+
+      await service.recalculateAll(userId);
+      await service.recalculateAll(userId);
+
+      expect(lots.docs).toHaveLength(1);
+      expect(realized.docs).toHaveLength(1);
+    });
+
+    it('splits an average cost sale by the age of each lot', async () => {
+      await settings.create({
+        userId: new Types.ObjectId(userId),
+        costBasisMethod: CostBasisMethod.AVERAGE,
+      });
+      await trade('buy', '2022-01-01', 1, 20000);
+      await trade('buy', '2024-01-01', 1, 40000);
+      await trade('sell', '2024-03-01', 1, 50000);
+
+      await service.recalculateAll(userId);
+
+      const [sale] = realized.docs;
+      expect(sale.holdingPeriod).toBe('mixed');
+      expect(sale.lotBreakdown.map((lb) => [lb.amount, lb.longTerm])).toEqual([
+        [0.5, true],
+        [0.5, false],
+      ]);
+      expect(sale.costBasis).toBeCloseTo(30000);
+    });
+
+    it('calls a sale long term when every lot is over a year old', async () => {
+      await trade('buy', '2022-01-01', 1, 20000);
+      await trade('buy', '2022-06-01', 1, 40000);
+      await trade('sell', '2024-03-01', 1.5, 50000);
+
+      await service.recalculateAll(userId);
+
+      expect(realized.docs[0].holdingPeriod).toBe('long_term');
+    });
+  });
+
+  describe('fees', () => {
+    it('adds fiat fees to the cost and takes them off the proceeds', async () => {
+      await trade('buy', '2024-01-01', 1, 20000, {
+        fee: 10,
+        feeAsset: 'USD',
+      });
+      await trade('sell', '2024-03-01', 1, 30000, {
+        fee: 15,
+        feeAsset: 'USD',
+      });
+
+      await service.recalculateAll(userId);
+
+      expect(lots.docs[0].costPerUnit).toBe(20010);
+      expect(realized.docs).toHaveLength(1);
+      expect(realized.docs[0]).toMatchObject({
+        proceeds: 29985,
+        costBasis: 20010,
+        realizedPnl: 9975,
+      });
+    });
+
+    it('disposes of coins spent on fees at market value', async () => {
+      await trade('buy', '2024-01-01', 1, 20000);
+      await trade('sell', '2024-03-01', 0.5, 30000, {
+        fee: 0.001,
+        feeAsset: 'BTC',
+      });
+
+      await service.recalculateAll(userId);
+
+      const sale = realized.docs.find((r) => !r.isFee);
+      const fee = realized.docs.find((r) => r.isFee);
+      expect(sale.proceeds).toBeCloseTo(15000 - 30);
+      expect(fee).toMatchObject({ asset: 'BTC', amount: 0.001 });
+      expect(fee.proceeds).toBeCloseTo(30);
+      expect(fee.costBasis).toBeCloseTo(20);
+      expect(lots.docs[0].remainingAmount).toBeCloseTo(0.499);
+    });
+
+    it('capitalizes a fee in the bought coin into its lot', async () => {
+      await trade('buy', '2024-01-01', 1, 20000, {
+        fee: 0.01,
+        feeAsset: 'BTC',
+      });
+
+      await service.recalculateAll(userId);
+
+      // The fee is valued into the lot, then the coins paid are disposed of
+      expect(lots.docs[0].costPerUnit).toBeCloseTo(20200);
+      expect(lots.docs[0].remainingAmount).toBeCloseTo(0.99);
+      expect(realized.docs[0]).toMatchObject({ isFee: true, amount: 0.01 });
+    });
+  });
+
+  describe('transfers', () => {
+    const transfer = async (amount: number, received: number) => {
+      const withdrawal = await tx('2024-02-01T10:00:00Z', {
+        type: TransactionType.WITHDRAWAL,
+        asset: 'BTC',
+        amount,
+      });
+      const deposit = await tx('2024-02-01T11:00:00Z', {
+        type: TransactionType.DEPOSIT,
+        exchange: 'ledger',
+        asset: 'BTC',
+        amount: received,
+      });
+      return {
+        userId: new Types.ObjectId(userId),
+        withdrawalId: withdrawal._id,
+        depositId: deposit._id,
+        asset: 'BTC',
+        fromExchange: 'kraken',
+        toExchange: 'ledger',
+        withdrawnAmount: amount,
+        receivedAmount: received,
+        withdrawnAt: withdrawal.timestamp,
+        receivedAt: deposit.timestamp,
+      };
+    };
+
+    it('moves lots with their cost and age to the receiving exchange', async () => {
+      await trade('buy', '2023-01-01', 1, 20000);
+      transferMatchingService.getActiveMatches.mockResolvedValue([
+        await transfer(1, 1),
+      ]);
+      await trade('sell', '2024-03-01', 1, 60000, { exchange: 'ledger' });
+
+      await service.recalculateAll(userId);
+
+      const moved = lots.docs.find((l) => l.exchange === 'ledger');
+      expect(moved).toMatchObject({
+        source: 'transfer_in',
+        costPerUnit: 20000,
+        acquiredAt: new Date('2023-01-01'),
+        remainingAmount: 0,
+      });
+      expect(realized.docs).toHaveLength(1);
+      expect(realized.docs[0]).toMatchObject({
+        exchange: 'ledger',
+        costBasis: 20000,
+        holdingPeriod: 'long_term',
+      });
+      expect(issues.docs).toEqual([]);
+    });
+
+    it('books what did not arrive as a fee disposal', async () => {
+      prices.BTC = 50000;
+      await trade('buy', '2023-01-01', 1, 20000);
+      transferMatchingService.getActiveMatches.mockResolvedValue([
+        await transfer(1, 0.999),
+      ]);
+
+      await service.recalculateAll(userId);
+
+      expect(
+        lots.docs.find((l) => l.exchange === 'ledger').originalAmount,
+      ).toBeCloseTo(0.999);
+      expect(realized.docs).toHaveLength(1);
+      expect(realized.docs[0].isFee).toBe(true);
+      expect(realized.docs[0].amount).toBeCloseTo(0.001);
+      expect(realized.docs[0].proceeds).toBeCloseTo(50);
+    });
+
+    it('treats unmatched sides as a disposal and a new acquisition', async () => {
+      prices.BTC = 50000;
+      await trade('buy', '2023-01-01', 1, 20000);
+      await transfer(1, 1);
+
+      await service.recalculateAll(userId);
+
+      expect(realized.docs).toHaveLength(1);
+      expect(realized.docs[0].realizedPnl).toBeCloseTo(30000);
+      expect(lots.docs.find((l) => l.exchange === 'ledger')).toMatchObject({
+        costPerUnit: 50000,
+        remainingAmount: 1,
+      });
+    });
+  });
+
+  describe('recalculateFrom', () => {
+    const ledger = () => ({
+      lots: lots.docs.map((l) => [l._id.toString(), l.remainingAmount]).sort(),
+      realized: realized.docs
+        .map((r) => [r.realizedAt.toISOString(), r.amount, r.costBasis])
+        .sort(),
+    });
+
+    it('ends where a full rebuild would', async () => {
+      await trade('buy', '2024-01-01', 1, 20000);
+      await trade('buy', '2024-02-01', 1, 30000);
+      await trade('sell', '2024-03-01', 1, 40000);
+      await service.recalculateAll(userId);
+
+      // A sale imported later that lands before the one already booked
+      await trade('sell', '2024-02-15', 0.5, 35000);
+      const { assets } = await service.recalculateFrom(
+        userId,
+        new Date('2024-02-15'),
+      );
+      const incremental = ledger();
+      await service.recalculateAll(userId);
+
+      expect(assets).toEqual(['BTC']);
+      expect(incremental).toEqual(ledger());
+      expect(incremental.realized).toEqual([
+        ['2024-02-15T00:00:00.000Z', 0.5, 10000],
+        ['2024-03-01T00:00:00.000Z', 1, 25000],
+      ]);
+    });
+
+    it('leaves records before the date alone', async () => {
+      await trade('buy', '2024-01-01', 1, 20000);
+      await trade('sell', '2024-02-01', 0.5, 30000);
+      await service.recalculateAll(userId);
+      const [earlier] = realized.docs;
+
+      await trade('sell', '2024-03-01', 0.5, 40000);
+      await service.recalculateFrom(userId, new Date('2024-03-01'));
+
+      expect(realized.docs).toHaveLength(2);
+      expect(realized.docs[0]._id).toEqual(earlier._id);
+      expect(lots.docs[0].remainingAmount).toBe(0);
+    });
+
+    it('only matches transfers near the new transactions', async () => {
+      const since = new Date('2024-03-01');
+      await trade('buy', '2024-03-01', 1, 20000);
+
+      await service.recalculateFrom(userId, since);
+
+      expect(transferMatchingService.autoMatch).toHaveBeenCalledWith(
+        userId,
+        'BTC',
+        since,
+      );
+    });
+  });
+});
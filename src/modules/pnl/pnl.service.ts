@@ -1,32 +1,157 @@
-import { Injectable, Logger, Inject, forwardRef } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  Inject,
+  forwardRef,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
+import { createHash } from 'crypto';
 import * as ExcelJS from 'exceljs';
 import {
   CostBasisLot,
   CostBasisLotDocument,
+  FeeDetail,
 } from './schemas/cost-basis-lot.schema';
 import {
   RealizedPnl,
   RealizedPnlDocument,
   LotBreakdown,
 } from './schemas/realized-pnl.schema';
+import {
+  PnlSettings,
+  PnlSettingsDocument,
+} from './schemas/pnl-settings.schema';
+import {
+  LotOverride,
+  LotOverrideDocument,
+  LotOverrideAllocation,
+} from './schemas/lot-override.schema';
 import { PricesService } from '../prices/prices.service';
 import { PriceHistoryService } from '../prices/price-history.service';
+import { FxRatesService } from '../prices/fx-rates.service';
+import { IncomeService } from '../income/income.service';
 import {
   PnlSummaryResponseDto,
   UnrealizedPnlResponseDto,
+  UnrealizedPnlDto,
+  UnrealizedPnlGroupDto,
+  UnrealizedPnlBreakdownDto,
+  HoldingAgeBucket,
   RealizedPnlItemDto,
   PaginatedRealizedPnlDto,
   PaginatedCostBasisLotsDto,
   PnlEvolutionDto,
+  FeeBreakdownDto,
 } from './dto/pnl-response.dto';
+import {
+  PnlSettingsResponseDto,
+  UpdatePnlSettingsDto,
+} from './dto/pnl-settings.dto';
+import {
+  LotSelectionResponseDto,
+  SetLotOverrideDto,
+} from './dto/lot-override.dto';
+import {
+  CreateTransferMatchDto,
+  TransferMatchResponseDto,
+} from './dto/transfer-match.dto';
+import { PnlIssue, PnlIssueDocument } from './schemas/pnl-issue.schema';
+import {
+  ManualValuation,
+  ManualValuationDocument,
+} from './schemas/manual-valuation.schema';
+import { PnlAssetIssuesDto, SetManualValuationDto } from './dto/pnl-issue.dto';
+import {
+  SaleSimulationDto,
+  SaleSimulationResultDto,
+  SimulateSaleDto,
+} from './dto/sale-simulation.dto';
+import { TransferMatch } from './schemas/transfer-match.schema';
+import { TransferMatchingService } from './transfer-matching.service';
 import { TransactionDocument } from '../transactions/schemas/transaction.schema';
 import { TransactionType } from '../../common/constants/transaction-types.constant';
+import { CostBasisMethod } from '../../common/constants/cost-basis-methods.constant';
+import { TransferMatchStatus } from '../../common/constants/transfer-match-status.constant';
+import { PnlIssueType } from '../../common/constants/pnl-issue-types.constant';
+import {
+  NON_SALE_CATEGORIES,
+  TransactionCategory,
+} from '../../common/constants/transaction-categories.constant';
+import { ReportingCurrency } from '../../common/constants/currencies.constant';
+import { JobType } from '../../common/constants/job-queue.constant';
 import { TransactionsService } from '../transactions/transactions.service';
+import { JobQueueService } from '../queue/job-queue.service';
+import { QueuedJobDto } from '../queue/dto/queued-job.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LONG_TERM_HOLDING_MS = 365 * DAY_MS;
+
+// Tolerance for comparing crypto amounts that went through float arithmetic
+const AMOUNT_TOLERANCE = 1e-8;
+
+// Quote currencies whose trade price is already a USD price
+const USD_QUOTE_ASSETS = new Set(['USD', 'USDT', 'USDC', 'BUSD']);
+
+// Fiat legs of a trade don't hold cost basis
+const FIAT_ASSETS = new Set(['USD', 'EUR', 'GBP', 'ARS']);
+
+interface LotState extends CostBasisLot {
+  _id: Types.ObjectId;
+}
+
+interface RealizedState extends RealizedPnl {
+  _id: Types.ObjectId;
+}
+
+/**
+ * Working set of lots and realized records that transactions are applied to.
+ * It is either rolled back from the database to a point in time
+ * (incremental recalculation) or built from scratch (full recalculation
+ * and method previews).
+ */
+interface LedgerState {
+  lots: LotState[];
+  realized: RealizedState[];
+  changedLots: Set<LotState>;
+  overrides: Map<string, LotOverrideAllocation[]>;
+  overrideErrors: string[];
+  transfersByWithdrawal: Map<string, TransferMatch>;
+  transferDepositIds: Set<string>;
+  valuations: Map<string, ManualValuation>;
+  issues: PnlIssue[];
+  // When set, only legs of this asset are applied (per-asset replay)
+  asset?: string;
+}
+
+/**
+ * One asset moving in or out of the portfolio. Trades have a leg for the
+ * base asset and one for the quote asset; other transactions have one.
+ */
+interface TransactionLeg {
+  asset: string;
+  amount: number;
+  kind: 'acquisition' | 'disposal';
+}
+
+interface LotAllocation {
+  lot: LotState;
+  amount: number;
+}
+
+// Transaction an issue or manual-cost lot is booked against
+interface IssueOrigin {
+  userId: string;
+  transactionId: string;
+  exchange: string;
+  timestamp: Date;
+}
 
 @Injectable()
-export class PnlService {
+export class PnlService implements OnModuleInit {
   private readonly logger = new Logger(PnlService.name);
 
   constructor(
@@ -34,53 +159,66 @@ export class PnlService {
     private costBasisLotModel: Model<CostBasisLotDocument>,
     @InjectModel(RealizedPnl.name)
     private realizedPnlModel: Model<RealizedPnlDocument>,
+    @InjectModel(PnlSettings.name)
+    private pnlSettingsModel: Model<PnlSettingsDocument>,
+    @InjectModel(LotOverride.name)
+    private lotOverrideModel: Model<LotOverrideDocument>,
+    @InjectModel(PnlIssue.name)
+    private pnlIssueModel: Model<PnlIssueDocument>,
+    @InjectModel(ManualValuation.name)
+    private manualValuationModel: Model<ManualValuationDocument>,
     private readonly pricesService: PricesService,
     private readonly priceHistoryService: PriceHistoryService,
+    private readonly fxRatesService: FxRatesService,
     @Inject(forwardRef(() => TransactionsService))
     private readonly transactionsService: TransactionsService,
+    private readonly transferMatchingService: TransferMatchingService,
+    private readonly incomeService: IncomeService,
+    private readonly jobQueueService: JobQueueService,
   ) {}
 
+  onModuleInit(): void {
+    this.jobQueueService.registerHandler(
+      JobType.PNL_RECALCULATION,
+      async (payload, { job, signal }) => {
+        const userId = job.userId.toString();
+        const result = payload.since
+          ? await this.recalculateFrom(
+              userId,
+              new Date(payload.since as string),
+              payload.assets as string[] | undefined,
+              signal,
+            )
+          : await this.recalculateAll(userId, signal);
+        return { processed: result.processed };
+      },
+    );
+  }
+
   /**
-   * Process a transaction and update cost basis / realized P&L
+   * Update P&L after new transactions were stored (sync, imports). Only the
+   * assets they touch are rolled back to the earliest of them and replayed,
+   * so back-dated transactions are booked in the right order.
    */
-  async processTransaction(tx: TransactionDocument): Promise<void> {
-    const userId = tx.userId.toString();
-
-    // Determine if this adds to cost basis or realizes gains
-    if (this.isAcquisition(tx)) {
-      // Get price - use transaction price if available, otherwise fetch historical
-      let pricePerUnit = tx.price;
-      if (!pricePerUnit || pricePerUnit === 0) {
-        pricePerUnit = await this.getHistoricalPriceForTransaction(tx.asset, tx.timestamp);
-      }
+  async processNewTransactions(
+    userId: string,
+    transactions: TransactionDocument[],
+  ): Promise<{ processed: number; assets: string[] }> {
+    if (transactions.length === 0) {
+      return { processed: 0, assets: [] };
+    }
 
-      await this.addLot(
-        userId,
-        tx.asset,
-        tx.amount,
-        pricePerUnit,
-        tx.timestamp,
-        tx._id.toString(),
-        tx.exchange,
-        tx.type,
-      );
-    } else if (this.isDisposal(tx)) {
-      // Get price - use transaction price if available, otherwise fetch historical
-      let pricePerUnit = tx.price;
-      if (!pricePerUnit || pricePerUnit === 0) {
-        pricePerUnit = await this.getHistoricalPriceForTransaction(tx.asset, tx.timestamp);
+    const since = new Date(
+      Math.min(...transactions.map((tx) => tx.timestamp.getTime())),
+    );
+    const assets = new Set<string>();
+    for (const tx of transactions) {
+      for (const asset of this.getTransactionAssets(tx)) {
+        assets.add(asset);
       }
-
-      await this.consumeLotsFIFO(
-        userId,
-        tx.asset,
-        tx.amount,
-        pricePerUnit,
-        tx.timestamp,
-        tx._id.toString(),
-        tx.exchange,
-      );
     }
+
+    return this.recalculateFrom(userId, since, [...assets]);
   }
 
   /**
@@ -136,21 +274,72 @@ export class PnlService {
   }
 
   /**
-   * Get P&L summary for a user
+   * Get P&L summary for a user.
+   * When a method other than the saved one is given, the whole history is
+   * replayed in memory under that method and nothing is persisted.
    */
-  async getSummary(userId: string): Promise<PnlSummaryResponseDto> {
-    // Get all realized P&L
-    const realizedPnls = await this.realizedPnlModel.find({
-      userId: new Types.ObjectId(userId),
-    });
+  async getSummary(
+    userId: string,
+    method?: CostBasisMethod,
+    currency: ReportingCurrency = ReportingCurrency.USD,
+  ): Promise<PnlSummaryResponseDto> {
+    const savedMethod = await this.getCostBasisMethod(userId);
+
+    if (method && method !== savedMethod) {
+      const { state } = await this.replayTransactions(userId, method);
+      return this.buildSummary(
+        state.realized,
+        state.lots,
+        method,
+        true,
+        currency,
+      );
+    }
+
+    // Consumed lots are included for the fee breakdown
+    const [realizedPnls, lots] = await Promise.all([
+      this.realizedPnlModel
+        .find({ userId: new Types.ObjectId(userId) })
+        .lean<RealizedState[]>(),
+      this.costBasisLotModel
+        .find({ userId: new Types.ObjectId(userId) })
+        .lean<LotState[]>(),
+    ]);
+
+    return this.buildSummary(realizedPnls, lots, savedMethod, false, currency);
+  }
+
+  /**
+   * Get unrealized P&L based on current holdings
+   */
+  async getUnrealizedPnl(
+    userId: string,
+    currency: ReportingCurrency = ReportingCurrency.USD,
+  ): Promise<UnrealizedPnlResponseDto> {
+    const lots = await this.findOpenLots(userId);
+    const restated = await this.restateInCurrency([], lots, currency);
+    return this.buildUnrealizedPnl(restated.lots, currency);
+  }
 
+  private async buildSummary(
+    usdRealizedPnls: RealizedPnl[],
+    usdLots: CostBasisLot[],
+    method: CostBasisMethod,
+    isPreview: boolean,
+    currency: ReportingCurrency,
+  ): Promise<PnlSummaryResponseDto> {
+    const { realized: realizedPnls, lots } = await this.restateInCurrency(
+      usdRealizedPnls,
+      usdLots,
+      currency,
+    );
     const totalRealizedPnl = realizedPnls.reduce(
       (sum, r) => sum + r.realizedPnl,
       0,
     );
 
     // Get unrealized P&L
-    const unrealized = await this.getUnrealizedPnl(userId);
+    const unrealized = await this.buildUnrealizedPnl(lots, currency);
     const totalUnrealizedPnl = unrealized.totalUnrealizedPnl;
 
     // Calculate period breakdown
@@ -215,19 +404,182 @@ export class PnlService {
       totalPnl: totalRealizedPnl + totalUnrealizedPnl,
       byAsset,
       periodBreakdown,
+      fees: this.buildFeeBreakdown(realizedPnls, lots),
+      costBasisMethod: method,
+      isPreview,
+      currency,
+    };
+  }
+
+  private buildFeeBreakdown(
+    realizedPnls: RealizedPnl[],
+    lots: CostBasisLot[],
+  ): FeeBreakdownDto {
+    const byAsset = new Map<string, { amount: number; valueUsd: number }>();
+    const addFee = (fee: FeeDetail) => {
+      const existing = byAsset.get(fee.asset) || { amount: 0, valueUsd: 0 };
+      existing.amount += fee.amount;
+      existing.valueUsd += fee.valueUsd;
+      byAsset.set(fee.asset, existing);
+    };
+
+    let addedToCostBasis = 0;
+    for (const lot of lots) {
+      if (!lot.fee) continue;
+      addedToCostBasis += lot.fee.valueUsd;
+      addFee(lot.fee);
+    }
+
+    let deductedFromProceeds = 0;
+    for (const r of realizedPnls) {
+      if (!r.fee) continue;
+      deductedFromProceeds += r.fee.valueUsd;
+      addFee(r.fee);
+    }
+
+    return {
+      totalFees: addedToCostBasis + deductedFromProceeds,
+      addedToCostBasis,
+      deductedFromProceeds,
+      byAsset: Array.from(byAsset.entries()).map(([asset, data]) => ({
+        asset,
+        amount: data.amount,
+        valueUsd: data.valueUsd,
+      })),
     };
   }
 
   /**
-   * Get unrealized P&L based on current holdings
+   * Lots must already be restated in `currency`; current values are
+   * converted at today's rate
    */
-  async getUnrealizedPnl(userId: string): Promise<UnrealizedPnlResponseDto> {
-    // Get remaining lots grouped by asset
-    const lots = await this.costBasisLotModel.find({
-      userId: new Types.ObjectId(userId),
-      remainingAmount: { $gt: 0 },
-    });
+  private async buildUnrealizedPnl(
+    lots: CostBasisLot[],
+    currency: ReportingCurrency,
+  ): Promise<UnrealizedPnlResponseDto> {
+    const { prices, rate } = await this.getCurrentPrices(lots, currency);
+    const positions = this.toPositions(lots, prices, rate);
+
+    const totalUnrealizedPnl = positions.reduce(
+      (sum, p) => sum + p.unrealizedPnl,
+      0,
+    );
+
+    return {
+      totalUnrealizedPnl,
+      positions,
+      currency,
+    };
+  }
+
+  /**
+   * Unrealized P&L of current holdings split by the exchange holding each
+   * lot and by lot age, plus the lots that turn long term within `days`
+   */
+  async getUnrealizedBreakdown(
+    userId: string,
+    days = 30,
+    currency: ReportingCurrency = ReportingCurrency.USD,
+  ): Promise<UnrealizedPnlBreakdownDto> {
+    const openLots = await this.findOpenLots(userId);
+    const { lots } = await this.restateInCurrency([], openLots, currency);
+    const { prices, rate } = await this.getCurrentPrices(lots, currency);
+
+    const now = Date.now();
+    const ageOf = (lot: CostBasisLot) =>
+      now - new Date(lot.acquiredAt).getTime();
+    const group = (groupLots: LotState[]): UnrealizedPnlGroupDto => {
+      const positions = this.toPositions(groupLots, prices, rate);
+      return {
+        totalUnrealizedPnl: positions.reduce((s, p) => s + p.unrealizedPnl, 0),
+        costBasis: positions.reduce((s, p) => s + p.costBasis, 0),
+        currentValue: positions.reduce((s, p) => s + p.currentValue, 0),
+        positions,
+      };
+    };
+
+    const exchanges = Array.from(new Set(lots.map((l) => l.exchange))).sort();
+    const byExchange = exchanges.map((exchange) => ({
+      exchange,
+      ...group(lots.filter((l) => l.exchange === exchange)),
+    }));
+
+    const bucketOf = (lot: CostBasisLot): HoldingAgeBucket => {
+      const age = ageOf(lot);
+      if (age > LONG_TERM_HOLDING_MS) return HoldingAgeBucket.OVER_1_YEAR;
+      if (age >= 30 * DAY_MS) return HoldingAgeBucket.UNDER_1_YEAR;
+      return HoldingAgeBucket.UNDER_30_DAYS;
+    };
+    const byAge = Object.values(HoldingAgeBucket).map((bucket) => ({
+      bucket,
+      ...group(lots.filter((l) => bucketOf(l) === bucket)),
+    }));
+
+    // Sales are long term once held for more than a year
+    const upcoming = lots
+      .filter((lot) => {
+        const age = ageOf(lot);
+        return (
+          age <= LONG_TERM_HOLDING_MS &&
+          age + days * DAY_MS > LONG_TERM_HOLDING_MS
+        );
+      })
+      .sort((a, b) => ageOf(b) - ageOf(a));
+
+    return {
+      totalUnrealizedPnl: byExchange.reduce(
+        (sum, e) => sum + e.totalUnrealizedPnl,
+        0,
+      ),
+      byExchange,
+      byAge,
+      upcomingLongTerm: {
+        days,
+        ...group(upcoming),
+        lots: upcoming.map((lot) => {
+          const currentValue =
+            lot.remainingAmount * (prices[lot.asset] || 0) * rate;
+          const costBasis = lot.remainingAmount * lot.costPerUnit;
+          return {
+            lotId: lot._id.toString(),
+            asset: lot.asset,
+            exchange: lot.exchange,
+            amount: lot.remainingAmount,
+            costBasis,
+            currentValue,
+            unrealizedPnl: currentValue - costBasis,
+            acquiredAt: lot.acquiredAt,
+            longTermAt: new Date(
+              new Date(lot.acquiredAt).getTime() + LONG_TERM_HOLDING_MS + 1,
+            ),
+          };
+        }),
+      },
+      currency,
+    };
+  }
+
+  private async getCurrentPrices(
+    lots: CostBasisLot[],
+    currency: ReportingCurrency,
+  ): Promise<{ prices: Record<string, number>; rate: number }> {
+    const assets = Array.from(new Set(lots.map((l) => l.asset)));
+    const [prices, rate] = await Promise.all([
+      this.pricesService.getPricesMap(assets),
+      this.fxRatesService.getCurrentRate(currency),
+    ]);
+    return { prices, rate };
+  }
 
+  /**
+   * Open positions per asset valued at current prices (`prices` in USD,
+   * `rate` converts to the reporting currency)
+   */
+  private toPositions(
+    lots: CostBasisLot[],
+    prices: Record<string, number>,
+    rate: number,
+  ): UnrealizedPnlDto[] {
     // Group by asset
     const assetLots = new Map<
       string,
@@ -235,18 +587,15 @@ export class PnlService {
     >();
 
     for (const lot of lots) {
+      if (lot.remainingAmount <= 0) continue;
       const existing = assetLots.get(lot.asset) || { amount: 0, costBasis: 0 };
       existing.amount += lot.remainingAmount;
       existing.costBasis += lot.remainingAmount * lot.costPerUnit;
       assetLots.set(lot.asset, existing);
     }
 
-    // Get current prices
-    const assets = Array.from(assetLots.keys());
-    const pricesMap = await this.pricesService.getPricesMap(assets);
-
-    const positions = Array.from(assetLots.entries()).map(([asset, data]) => {
-      const currentPrice = pricesMap[asset] || 0;
+    return Array.from(assetLots.entries()).map(([asset, data]) => {
+      const currentPrice = (prices[asset] || 0) * rate;
       const currentValue = data.amount * currentPrice;
       const unrealizedPnl = currentValue - data.costBasis;
       const unrealizedPnlPercent =
@@ -261,16 +610,6 @@ export class PnlService {
         unrealizedPnlPercent,
       };
     });
-
-    const totalUnrealizedPnl = positions.reduce(
-      (sum, p) => sum + p.unrealizedPnl,
-      0,
-    );
-
-    return {
-      totalUnrealizedPnl,
-      positions,
-    };
   }
 
   /**
@@ -280,6 +619,7 @@ export class PnlService {
     userId: string,
     startDate?: Date,
     endDate?: Date,
+    currency: ReportingCurrency = ReportingCurrency.USD,
   ): Promise<RealizedPnlItemDto[]> {
     const query: Record<string, unknown> = {
       userId: new Types.ObjectId(userId),
@@ -295,9 +635,15 @@ export class PnlService {
       }
     }
 
-    const records = await this.realizedPnlModel
+    const usdRecords = await this.realizedPnlModel
       .find(query)
-      .sort({ realizedAt: -1 });
+      .sort({ realizedAt: -1 })
+      .lean<RealizedState[]>();
+    const { realized: records } = await this.restateInCurrency(
+      usdRecords,
+      [],
+      currency,
+    );
 
     return records.map((r) => ({
       id: r._id.toString(),
@@ -312,6 +658,7 @@ export class PnlService {
       sellPrice: r.amount > 0 ? r.proceeds / r.amount : 0,
       pnlPercent: r.costBasis > 0 ? (r.realizedPnl / r.costBasis) * 100 : 0,
       holdingPeriod: r.holdingPeriod || 'short_term',
+      nonSale: r.nonSale || false,
     }));
   }
 
@@ -326,6 +673,7 @@ export class PnlService {
     endDate?: Date,
     assets?: string[],
     exchanges?: string[],
+    currency: ReportingCurrency = ReportingCurrency.USD,
   ): Promise<PaginatedRealizedPnlDto> {
     const query: Record<string, unknown> = {
       userId: new Types.ObjectId(userId),
@@ -352,11 +700,17 @@ export class PnlService {
     const total = await this.realizedPnlModel.countDocuments(query);
     const totalPages = Math.ceil(total / limit);
 
-    const records = await this.realizedPnlModel
+    const usdRecords = await this.realizedPnlModel
       .find(query)
       .sort({ realizedAt: -1 })
       .skip((page - 1) * limit)
-      .limit(limit);
+      .limit(limit)
+      .lean<RealizedState[]>();
+    const { realized: records } = await this.restateInCurrency(
+      usdRecords,
+      [],
+      currency,
+    );
 
     const data = records.map((r) => ({
       id: r._id.toString(),
@@ -371,9 +725,10 @@ export class PnlService {
       sellPrice: r.amount > 0 ? r.proceeds / r.amount : 0,
       pnlPercent: r.costBasis > 0 ? (r.realizedPnl / r.costBasis) * 100 : 0,
       holdingPeriod: r.holdingPeriod || 'short_term',
+      nonSale: r.nonSale || false,
     }));
 
-    return { data, total, page, limit, totalPages };
+    return { data, total, page, limit, totalPages, currency };
   }
 
   /**
@@ -386,6 +741,7 @@ export class PnlService {
     assets?: string[],
     exchanges?: string[],
     showEmpty: boolean = false,
+    currency: ReportingCurrency = ReportingCurrency.USD,
   ): Promise<PaginatedCostBasisLotsDto> {
     const query: Record<string, unknown> = {
       userId: new Types.ObjectId(userId),
@@ -406,11 +762,13 @@ export class PnlService {
     const total = await this.costBasisLotModel.countDocuments(query);
     const totalPages = Math.ceil(total / limit);
 
-    const lots = await this.costBasisLotModel
+    const usdLots = await this.costBasisLotModel
       .find(query)
       .sort({ acquiredAt: -1 })
       .skip((page - 1) * limit)
-      .limit(limit);
+      .limit(limit)
+      .lean<LotState[]>();
+    const { lots } = await this.restateInCurrency([], usdLots, currency);
 
     const data = lots.map((lot) => ({
       id: lot._id.toString(),
@@ -424,7 +782,7 @@ export class PnlService {
       totalCost: lot.originalAmount * lot.costPerUnit,
     }));
 
-    return { data, total, page, limit, totalPages };
+    return { data, total, page, limit, totalPages, currency };
   }
 
   /**
@@ -433,6 +791,7 @@ export class PnlService {
   async getPnlEvolution(
     userId: string,
     timeframe: string = '1y',
+    currency: ReportingCurrency = ReportingCurrency.USD,
   ): Promise<PnlEvolutionDto> {
     // Calculate date range based on timeframe
     const now = new Date();
@@ -458,15 +817,16 @@ export class PnlService {
     }
 
     // Get all realized P&L records in range, sorted by date
-    const records = await this.realizedPnlModel
+    const usdRecords = await this.realizedPnlModel
       .find({
         userId: new Types.ObjectId(userId),
         realizedAt: { $gte: startDate },
       })
-      .sort({ realizedAt: 1 });
+      .sort({ realizedAt: 1 })
+      .lean<RealizedState[]>();
 
-    if (records.length === 0) {
-      return { labels: [], data: [], timeframe };
+    if (usdRecords.length === 0) {
+      return { labels: [], data: [], timeframe, currency };
     }
 
     // Group by day and calculate cumulative P&L
@@ -474,10 +834,17 @@ export class PnlService {
     let cumulative = 0;
 
     // Get initial cumulative from records before start date
-    const priorRecords = await this.realizedPnlModel.find({
-      userId: new Types.ObjectId(userId),
-      realizedAt: { $lt: startDate },
-    });
+    const usdPriorRecords = await this.realizedPnlModel
+      .find({
+        userId: new Types.ObjectId(userId),
+        realizedAt: { $lt: startDate },
+      })
+      .lean<RealizedState[]>();
+    const [{ realized: records }, { realized: priorRecords }] =
+      await Promise.all([
+        this.restateInCurrency(usdRecords, [], currency),
+        this.restateInCurrency(usdPriorRecords, [], currency),
+      ]);
     cumulative = priorRecords.reduce((sum, r) => sum + r.realizedPnl, 0);
 
     for (const record of records) {
@@ -491,7 +858,7 @@ export class PnlService {
     const labels = sortedDates;
     const data = sortedDates.map((date) => dailyPnl.get(date) || 0);
 
-    return { labels, data, timeframe };
+    return { labels, data, timeframe, currency };
   }
 
   /**
@@ -521,37 +888,318 @@ export class PnlService {
   }
 
   /**
-   * Recalculate all P&L from transaction history
+   * Queue a full recalculation, or an incremental one with `since`. One
+   * recalculation runs at a time per user.
+   */
+  async queueRecalculation(
+    userId: string,
+    since?: Date,
+    assets?: string[],
+  ): Promise<QueuedJobDto> {
+    return this.jobQueueService.enqueue(
+      userId,
+      JobType.PNL_RECALCULATION,
+      { since: since?.toISOString(), assets },
+      { concurrencyKey: `pnl:${userId}` },
+    );
+  }
+
+  /**
+   * Recalculate all P&L from transaction history using the saved cost-basis
+   * method. When `signal` is aborted during the replay nothing is saved.
    */
-  async recalculateAll(userId: string): Promise<{ processed: number }> {
-    this.logger.log(`Starting P&L recalculation for user ${userId}`);
+  async recalculateAll(
+    userId: string,
+    signal?: AbortSignal,
+  ): Promise<{ processed: number }> {
+    const method = await this.getCostBasisMethod(userId);
+    this.logger.log(
+      `Starting P&L recalculation for user ${userId} (method: ${method})`,
+    );
 
-    // Clear existing data
-    await this.costBasisLotModel.deleteMany({
-      userId: new Types.ObjectId(userId),
+    await this.transferMatchingService.autoMatch(userId);
+
+    const { state, processed, total } = await this.replayTransactions(
+      userId,
+      method,
+      undefined,
+      undefined,
+      signal,
+    );
+
+    await this.replaceLedger(userId, state);
+
+    this.logger.log(`P&L recalculation complete. Processed ${processed}/${total} transactions`);
+
+    return { processed };
+  }
+
+  /**
+   * Rebuild lots and realized records of a single asset. Cost basis of one
+   * asset never depends on another, so this is equivalent to a full rebuild.
+   */
+  private async recalculateAsset(
+    userId: string,
+    asset: string,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const method = await this.getCostBasisMethod(userId);
+    const { state } = await this.replayTransactions(
+      userId,
+      method,
+      asset,
+      undefined,
+      signal,
+    );
+    await this.replaceLedger(userId, state, asset);
+  }
+
+  /**
+   * Roll back lots and realized records booked at or after `since` and replay
+   * the transactions from there. Limited to `assets` when given, otherwise
+   * every asset with transactions in that range. An aborted `signal` stops
+   * before the next asset is saved; assets done by then keep their new state.
+   */
+  async recalculateFrom(
+    userId: string,
+    since: Date,
+    assets?: string[],
+    signal?: AbortSignal,
+  ): Promise<{ processed: number; assets: string[] }> {
+    const method = await this.getCostBasisMethod(userId);
+    const transactions = await this.transactionsService.findAllByUserSorted(
+      userId,
+      since,
+    );
+    const targets =
+      assets ||
+      Array.from(
+        new Set(transactions.flatMap((tx) => this.getTransactionAssets(tx))),
+      );
+
+    this.logger.log(
+      `Incremental P&L recalculation for user ${userId} from ${since.toISOString()} (${targets.join(', ') || 'no assets'})`,
+    );
+
+    let processed = 0;
+    for (const asset of targets) {
+      if (signal?.aborted) {
+        throw new Error('Recalculation cancelled');
+      }
+      // New deposits or withdrawals may complete transfers whose other side
+      // was booked before `since`, so the replay starts at the withdrawal
+      const matches = await this.transferMatchingService.autoMatch(
+        userId,
+        asset,
+        since,
+      );
+      const assetSince = new Date(
+        Math.min(
+          since.getTime(),
+          ...matches.map((m) => new Date(m.withdrawnAt).getTime()),
+        ),
+      );
+
+      const replayed =
+        assetSince < since
+          ? await this.transactionsService.findAllByUserSorted(
+              userId,
+              assetSince,
+            )
+          : transactions;
+      processed += await this.recalculateAssetFrom(
+        userId,
+        asset,
+        assetSince,
+        replayed.filter((tx) => this.getTransactionAssets(tx).includes(asset)),
+        method,
+        signal,
+      );
+    }
+
+    return { processed, assets: targets };
+  }
+
+  /**
+   * Update P&L after transactions were created, edited or deleted by hand.
+   * `previous` holds the versions before the change (none for creations) and
+   * `current` the versions after it (none for deletions).
+   */
+  async recalculateForEdits(
+    userId: string,
+    previous: TransactionDocument[],
+    current: TransactionDocument[],
+  ): Promise<void> {
+    const released = await this.transferMatchingService.releaseTransactions(
+      userId,
+      previous.map((tx) => tx._id),
+    );
+    const changed = [...previous, ...current];
+    const assets = new Set(
+      changed.flatMap((tx) => this.getTransactionAssets(tx)),
+    );
+    released.forEach((m) => assets.add(m.asset));
+    if (assets.size === 0) {
+      return;
+    }
+
+    const since = new Date(
+      Math.min(
+        ...changed.map((tx) => new Date(tx.timestamp).getTime()),
+        ...released.map((m) => new Date(m.withdrawnAt).getTime()),
+      ),
+    );
+    await this.recalculateFrom(userId, since, [...assets]);
+  }
+
+  /**
+   * Incremental rebuild of one asset. Lots created before `since` are kept
+   * and get back what later disposals and transfers took from them.
+   */
+  private async recalculateAssetFrom(
+    userId: string,
+    asset: string,
+    since: Date,
+    transactions: TransactionDocument[],
+    method: CostBasisMethod,
+    signal?: AbortSignal,
+  ): Promise<number> {
+    const userObjectId = new Types.ObjectId(userId);
+    const lots = await this.costBasisLotModel
+      .find({ userId: userObjectId, asset })
+      .sort({ acquiredAt: 1 })
+      .lean<LotState[]>();
+
+    // Lots moved before bookedAt was recorded can't be rolled back
+    if (lots.some((lot) => lot.source === 'transfer_in' && !lot.bookedAt)) {
+      await this.recalculateAsset(userId, asset, signal);
+      return transactions.length;
+    }
+
+    const createdAt = (lot: LotState) =>
+      new Date(lot.bookedAt || lot.acquiredAt).getTime();
+    const kept = lots.filter((lot) => createdAt(lot) < since.getTime());
+    const removed = lots.filter((lot) => createdAt(lot) >= since.getTime());
+    const keptById = new Map(kept.map((lot) => [lot._id.toString(), lot]));
+    const changed = new Set<LotState>();
+
+    const restore = (lotId: Types.ObjectId | undefined, amount: number) => {
+      const lot = lotId && keptById.get(lotId.toString());
+      if (!lot) return;
+      lot.remainingAmount = Math.min(
+        lot.originalAmount,
+        lot.remainingAmount + amount,
+      );
+      changed.add(lot);
+    };
+
+    const rolledBack = await this.realizedPnlModel
+      .find({ userId: userObjectId, asset, realizedAt: { $gte: since } })
+      .lean<RealizedState[]>();
+    for (const record of rolledBack) {
+      for (const item of record.lotBreakdown) {
+        restore(item.lotId, item.amount);
+      }
+    }
+    for (const lot of removed) {
+      restore(lot.sourceLotId, lot.originalAmount);
+    }
+
+    // Replay in memory first: it fetches prices and may fail, and nothing
+    // is rolled back until the new state is ready to be written
+    const state = this.createLedgerState(kept, {
+      overrides: await this.loadOverrides(userId, asset),
+      transfers: await this.transferMatchingService.getActiveMatches(
+        userId,
+        asset,
+      ),
+      valuations: await this.loadValuations(userId, asset),
+      asset,
     });
+    changed.forEach((lot) => state.changedLots.add(lot));
+
+    let processed = 0;
+    for (const tx of transactions) {
+      if (signal?.aborted) {
+        throw new Error('Recalculation cancelled');
+      }
+      try {
+        await this.applyTransaction(state, tx, method);
+        processed++;
+      } catch (error) {
+        this.recordFailedTransaction(state, tx, error);
+      }
+    }
+    for (const error of state.overrideErrors) {
+      this.logger.warn(`Lot override ignored: ${error}`);
+    }
+
     await this.realizedPnlModel.deleteMany({
-      userId: new Types.ObjectId(userId),
+      _id: { $in: rolledBack.map((r) => r._id) },
+    });
+    await this.costBasisLotModel.deleteMany({
+      _id: { $in: removed.map((l) => l._id) },
+    });
+    await this.pnlIssueModel.deleteMany({
+      userId: userObjectId,
+      asset,
+      timestamp: { $gte: since },
     });
+    await this.saveLedgerState(state);
+    return processed;
+  }
 
+  /**
+   * Replay every transaction of a user (or of a single asset) in memory under
+   * the given method. Nothing is written; callers decide whether to persist.
+   */
+  private async replayTransactions(
+    userId: string,
+    method: CostBasisMethod,
+    asset?: string,
+    overrides?: Map<string, LotOverrideAllocation[]>,
+    signal?: AbortSignal,
+  ): Promise<{ state: LedgerState; processed: number; total: number }> {
     // Get all transactions sorted by timestamp
-    const transactions = await this.transactionsService.findAllByUserSorted(userId);
+    const transactions = (
+      await this.transactionsService.findAllByUserSorted(userId)
+    ).filter(
+      (tx) =>
+        !asset ||
+        tx.asset === asset ||
+        tx.priceAsset === asset ||
+        tx.feeAsset === asset,
+    );
 
-    this.logger.log(`Processing ${transactions.length} transactions for P&L recalculation`);
+    this.logger.log(`Replaying ${transactions.length} transactions for P&L (method: ${method})`);
 
+    const state = this.createLedgerState([], {
+      overrides: overrides || (await this.loadOverrides(userId, asset)),
+      transfers: await this.transferMatchingService.getActiveMatches(
+        userId,
+        asset,
+      ),
+      valuations: await this.loadValuations(userId, asset),
+      asset,
+    });
     let processed = 0;
     for (const tx of transactions) {
+      if (signal?.aborted) {
+        throw new Error('Recalculation cancelled');
+      }
       try {
-        await this.processTransaction(tx);
+        await this.applyTransaction(state, tx, method);
         processed++;
       } catch (error) {
-        this.logger.warn(`Failed to process transaction ${tx._id}: ${error.message}`);
+        this.recordFailedTransaction(state, tx, error);
       }
     }
 
-    this.logger.log(`P&L recalculation complete. Processed ${processed}/${transactions.length} transactions`);
+    for (const error of state.overrideErrors) {
+      this.logger.warn(`Lot override ignored: ${error}`);
+    }
 
-    return { processed };
+    return { state, processed, total: transactions.length };
   }
 
   /**
@@ -799,29 +1447,1147 @@ export class PnlService {
       fgColor: { argb: 'FFE2EFDA' },
     };
 
+    // Sheets 4-7: Interest and staking income
+    await this.incomeService.addIncomeSheets(workbook, userId);
+
     // Generate buffer
     const buffer = await workbook.xlsx.writeBuffer();
     return Buffer.from(buffer);
   }
 
-  // ==================== PRIVATE METHODS ====================
+  // ==================== SETTINGS ====================
 
-  private isAcquisition(tx: TransactionDocument): boolean {
+  async getSettings(userId: string): Promise<PnlSettingsResponseDto> {
+    const settings = await this.pnlSettingsModel.findOne({
+      userId: new Types.ObjectId(userId),
+    });
+    return {
+      costBasisMethod: settings?.costBasisMethod || CostBasisMethod.FIFO,
+      taxYearStart: settings?.taxYearStart || '01-01',
+    };
+  }
+
+  /**
+   * Update P&L settings. Changing the cost-basis method rebuilds all lots and
+   * realized records so the stored data always matches the saved method.
+   */
+  async updateSettings(
+    userId: string,
+    dto: UpdatePnlSettingsDto,
+  ): Promise<PnlSettingsResponseDto> {
+    const previousMethod = await this.getCostBasisMethod(userId);
+
+    const update: Partial<PnlSettings> = {};
+    if (dto.costBasisMethod !== undefined) {
+      update.costBasisMethod = dto.costBasisMethod;
+    }
+    if (dto.taxYearStart !== undefined) {
+      update.taxYearStart = dto.taxYearStart;
+    }
+
+    const settings = await this.pnlSettingsModel.findOneAndUpdate(
+      { userId: new Types.ObjectId(userId) },
+      { $set: update },
+      { upsert: true, new: true, setDefaultsOnInsert: true },
+    );
+
+    if (settings.costBasisMethod !== previousMethod) {
+      this.logger.log(
+        `Cost basis method changed from ${previousMethod} to ${settings.costBasisMethod} for user ${userId}`,
+      );
+      await this.recalculateAll(userId);
+    }
+
+    return {
+      costBasisMethod: settings.costBasisMethod,
+      taxYearStart: settings.taxYearStart,
+    };
+  }
+
+  async getCostBasisMethod(userId: string): Promise<CostBasisMethod> {
+    const settings = await this.pnlSettingsModel.findOne({
+      userId: new Types.ObjectId(userId),
+    });
+    return settings?.costBasisMethod || CostBasisMethod.FIFO;
+  }
+
+  // ==================== SPECIFIC LOT IDENTIFICATION ====================
+
+  /**
+   * Get the lots consumed by a disposal and whether they were picked manually.
+   * `asset` picks the leg of a trade; it defaults to the only disposed asset.
+   */
+  async getLotSelection(
+    userId: string,
+    transactionId: string,
+    asset?: string,
+  ): Promise<LotSelectionResponseDto> {
+    const { tx, leg } = await this.findDisposal(userId, transactionId, asset);
+    const realized = await this.findRealizedForDisposal(userId, tx, leg.asset);
+    return this.toLotSelectionResponse(realized);
+  }
+
+  /**
+   * Override which lots a disposal consumes. The asset's history is replayed
+   * with the override first, so it is only saved when every lot still has
+   * enough remaining amount at the time of the sale.
+   */
+  async setLotOverride(
+    userId: string,
+    transactionId: string,
+    dto: SetLotOverrideDto,
+    asset?: string,
+  ): Promise<LotSelectionResponseDto> {
+    const { tx, leg } = await this.findDisposal(userId, transactionId, asset);
+    const realized = await this.findRealizedForDisposal(userId, tx, leg.asset);
+
+    const lotIds = dto.lots.map((l) => l.lotId);
+    if (new Set(lotIds).size !== lotIds.length) {
+      throw new BadRequestException('Each lot can only be listed once');
+    }
+
+    const total = dto.lots.reduce((sum, l) => sum + l.amount, 0);
+    if (Math.abs(total - realized.amount) > AMOUNT_TOLERANCE) {
+      throw new BadRequestException(
+        `Lot amounts add up to ${total} ${leg.asset} but the disposal is ${realized.amount} ${leg.asset}`,
+      );
+    }
+
+    const allocations: LotOverrideAllocation[] = dto.lots.map((l) => ({
+      lotId: new Types.ObjectId(l.lotId),
+      amount: l.amount,
+    }));
+
+    const overrides = await this.loadOverrides(userId, leg.asset);
+    overrides.set(this.overrideKey(transactionId, leg.asset), allocations);
+
+    const method = await this.getCostBasisMethod(userId);
+    const { state } = await this.replayTransactions(
+      userId,
+      method,
+      leg.asset,
+      overrides,
+    );
+
+    if (state.overrideErrors.length > 0) {
+      throw new BadRequestException(state.overrideErrors.join('; '));
+    }
+
+    await this.lotOverrideModel.findOneAndUpdate(
+      {
+        userId: new Types.ObjectId(userId),
+        transactionId: tx._id,
+        asset: leg.asset,
+      },
+      { $set: { lots: allocations } },
+      { upsert: true },
+    );
+    await this.replaceLedger(userId, state, leg.asset);
+
+    this.logger.log(
+      `Saved specific lot selection for transaction ${transactionId} (${leg.asset})`,
+    );
+
+    return this.getLotSelection(userId, transactionId, leg.asset);
+  }
+
+  /**
+   * Remove a lot override and go back to the configured cost-basis method
+   */
+  async removeLotOverride(
+    userId: string,
+    transactionId: string,
+    asset?: string,
+  ): Promise<LotSelectionResponseDto> {
+    const { tx, leg } = await this.findDisposal(userId, transactionId, asset);
+
+    const result = await this.lotOverrideModel.deleteOne({
+      userId: new Types.ObjectId(userId),
+      transactionId: tx._id,
+      asset: leg.asset,
+    });
+    if (result.deletedCount === 0) {
+      throw new NotFoundException('Lot override not found');
+    }
+
+    await this.recalculateAsset(userId, leg.asset);
+
+    return this.getLotSelection(userId, transactionId, leg.asset);
+  }
+
+  private async findDisposal(
+    userId: string,
+    transactionId: string,
+    asset?: string,
+  ): Promise<{ tx: TransactionDocument; leg: TransactionLeg }> {
+    const tx = Types.ObjectId.isValid(transactionId)
+      ? await this.transactionsService.findById(transactionId, userId)
+      : null;
+    if (!tx) {
+      throw new NotFoundException('Transaction not found');
+    }
+
+    const disposals = this.getLegs(tx).filter(
+      (l) => l.kind === 'disposal' && (!asset || l.asset === asset),
+    );
+    if (disposals.length === 0) {
+      throw new BadRequestException(
+        asset
+          ? `Transaction does not dispose of ${asset}`
+          : 'Transaction is not a disposal',
+      );
+    }
+    if (disposals.length > 1) {
+      throw new BadRequestException(
+        'Transaction disposes of several assets, specify one with ?asset=',
+      );
+    }
+    return { tx, leg: disposals[0] };
+  }
+
+  private async findRealizedForDisposal(
+    userId: string,
+    tx: TransactionDocument,
+    asset: string,
+  ): Promise<RealizedPnlDocument> {
+    const realized = await this.realizedPnlModel.findOne({
+      userId: new Types.ObjectId(userId),
+      transactionId: tx._id,
+      asset,
+      isFee: { $ne: true },
+    });
+    if (!realized) {
+      throw new NotFoundException(
+        'No realized P&L found for this transaction, run a recalculation first',
+      );
+    }
+    return realized;
+  }
+
+  private toLotSelectionResponse(
+    realized: RealizedPnlDocument,
+  ): LotSelectionResponseDto {
+    return {
+      transactionId: realized.transactionId.toString(),
+      asset: realized.asset,
+      amount: realized.amount,
+      costBasis: realized.costBasis,
+      realizedPnl: realized.realizedPnl,
+      specificLots: realized.specificLots || false,
+      lots: realized.lotBreakdown.map((lb) => ({
+        lotId: lb.lotId.toString(),
+        amount: lb.amount,
+        costPerUnit: lb.costPerUnit,
+        acquiredAt: lb.acquiredAt,
+      })),
+    };
+  }
+
+  private async loadOverrides(
+    userId: string,
+    asset?: string,
+  ): Promise<Map<string, LotOverrideAllocation[]>> {
+    const query: Record<string, unknown> = {
+      userId: new Types.ObjectId(userId),
+    };
+    if (asset) {
+      query.asset = asset;
+    }
+
+    const overrides = await this.lotOverrideModel.find(query).lean();
+    return new Map(
+      overrides.map((o) => [
+        this.overrideKey(o.transactionId.toString(), o.asset),
+        o.lots,
+      ]),
+    );
+  }
+
+  private overrideKey(transactionId: string, asset: string): string {
+    return `${transactionId}:${asset}`;
+  }
+
+  // ==================== TRANSFERS ====================
+
+  async getTransferMatches(
+    userId: string,
+    status?: TransferMatchStatus,
+  ): Promise<TransferMatchResponseDto[]> {
+    return this.transferMatchingService.findMatches(userId, status);
+  }
+
+  /**
+   * Run automatic transfer matching over the whole history and rebuild P&L
+   */
+  async runTransferMatching(
+    userId: string,
+  ): Promise<{ matched: number; processed: number }> {
+    const matches = await this.transferMatchingService.autoMatch(userId);
+    const { processed } = await this.recalculateAll(userId);
+    return { matched: matches.length, processed };
+  }
+
+  async createTransferMatch(
+    userId: string,
+    dto: CreateTransferMatchDto,
+  ): Promise<TransferMatchResponseDto> {
+    const match = await this.transferMatchingService.createManualMatch(
+      userId,
+      dto,
+    );
+    await this.recalculateAsset(userId, match.asset);
+    return this.transferMatchingService.toResponse(match);
+  }
+
+  async rejectTransferMatch(
+    userId: string,
+    matchId: string,
+  ): Promise<TransferMatchResponseDto> {
+    const match = await this.transferMatchingService.rejectMatch(
+      userId,
+      matchId,
+    );
+    await this.recalculateAsset(userId, match.asset);
+    return this.transferMatchingService.toResponse(match);
+  }
+
+  // ==================== SALE SIMULATION ====================
+
+  /**
+   * Dry run of selling `amount` today under one or more cost-basis methods.
+   * Methods other than the saved one replay the asset's history first, as
+   * their open lots differ. With an exchange, the sale draws on the lots held
+   * there, falling back to all lots (and a warning) when they fall short.
+   * Nothing is written.
+   */
+  async simulateSale(
+    userId: string,
+    dto: SimulateSaleDto,
+    currency: ReportingCurrency = ReportingCurrency.USD,
+  ): Promise<SaleSimulationDto> {
+    const savedMethod = await this.getCostBasisMethod(userId);
+    const methods = dto.methods?.length ? dto.methods : [savedMethod];
+    const rate = await this.fxRatesService.getCurrentRate(currency);
+
+    const priceUsd =
+      dto.price !== undefined
+        ? dto.price / rate
+        : (await this.pricesService.getPricesMap([dto.asset]))[dto.asset] || 0;
+    if (priceUsd <= 0) {
+      throw new BadRequestException(
+        `No current price for ${dto.asset}, provide one`,
+      );
+    }
+
+    const fee: FeeDetail | undefined = dto.fee
+      ? { asset: currency, amount: dto.fee, valueUsd: dto.fee / rate }
+      : undefined;
+    const now = new Date();
+
+    const results: SaleSimulationResultDto[] = [];
+    for (const method of methods) {
+      const lots =
+        method === savedMethod
+          ? await this.findOpenLots(userId, [dto.asset])
+          : (
+              await this.replayTransactions(userId, method, dto.asset)
+            ).state.lots.filter((lot) => lot.remainingAmount > 0);
+
+      const exchangeLots = lots.filter((lot) => lot.exchange === dto.exchange);
+      const exchangeAvailable = exchangeLots.reduce(
+        (sum, lot) => sum + lot.remainingAmount,
+        0,
+      );
+      const candidates =
+        dto.exchange && exchangeAvailable + AMOUNT_TOLERANCE >= dto.amount
+          ? exchangeLots
+          : lots;
+
+      const state = this.createLedgerState(candidates, { asset: dto.asset });
+      this.consumeLots(
+        state,
+        userId,
+        dto.asset,
+        dto.amount,
+        priceUsd,
+        now,
+        new Types.ObjectId().toString(),
+        dto.exchange || '',
+        method,
+        { fee },
+      );
+      // Lots held elsewhere are untouched but still part of what remains
+      state.lots.push(...lots.filter((lot) => !candidates.includes(lot)));
+
+      results.push(
+        await this.toSimulationResult(
+          state,
+          method,
+          method === savedMethod,
+          dto,
+          currency,
+        ),
+      );
+    }
+
+    return {
+      asset: dto.asset,
+      amount: dto.amount,
+      exchange: dto.exchange,
+      price: priceUsd * rate,
+      currency,
+      results,
+    };
+  }
+
+  private async toSimulationResult(
+    state: LedgerState,
+    method: CostBasisMethod,
+    current: boolean,
+    dto: SimulateSaleDto,
+    currency: ReportingCurrency,
+  ): Promise<SaleSimulationResultDto> {
+    const lotsById = new Map(state.lots.map((l) => [l._id.toString(), l]));
+    const restated = await this.restateInCurrency(
+      state.realized,
+      state.lots.filter((l) => l.remainingAmount > AMOUNT_TOLERANCE),
+      currency,
+    );
+    const sale = restated.realized[0];
+    const proceedsPerUnit = sale.amount > 0 ? sale.proceeds / sale.amount : 0;
+
+    const lots = sale.lotBreakdown.map((lb) => ({
+      lotId: lb.lotId.toString(),
+      exchange: lotsById.get(lb.lotId.toString())?.exchange || '',
+      amount: lb.amount,
+      costPerUnit: lb.costPerUnit,
+      acquiredAt: lb.acquiredAt,
+      longTerm: lb.longTerm,
+    }));
+    const termTotals = (longTerm: boolean) => {
+      const termLots = lots.filter((l) => l.longTerm === longTerm);
+      const amount = termLots.reduce((sum, l) => sum + l.amount, 0);
+      const costBasis = termLots.reduce(
+        (sum, l) => sum + l.amount * l.costPerUnit,
+        0,
+      );
+      const proceeds = amount * proceedsPerUnit;
+      return { amount, proceeds, costBasis, gain: proceeds - costBasis };
+    };
+
+    const remainingAmount = restated.lots.reduce(
+      (sum, l) => sum + l.remainingAmount,
+      0,
+    );
+    const remainingCost = restated.lots.reduce(
+      (sum, l) => sum + l.remainingAmount * l.costPerUnit,
+      0,
+    );
+
+    // Without an exchange the sale can't be checked against its balance
+    const warnings = state.issues
+      .filter((i) => dto.exchange || i.type !== PnlIssueType.NEGATIVE_BALANCE)
+      .map((i) => i.message);
+
+    return {
+      method,
+      current,
+      amount: sale.amount,
+      uncoveredAmount: Math.max(0, dto.amount - sale.amount),
+      proceeds: sale.proceeds,
+      costBasis: sale.costBasis,
+      realizedPnl: sale.realizedPnl,
+      shortTerm: termTotals(false),
+      longTerm: termTotals(true),
+      lots,
+      remaining: {
+        amount: remainingAmount,
+        costBasis: remainingCost,
+        averageCost: remainingAmount > 0 ? remainingCost / remainingAmount : 0,
+      },
+      warnings,
+    };
+  }
+
+  // ==================== DIAGNOSTICS ====================
+
+  /**
+   * Issues found during the last recalculation, grouped by asset, with the
+   * manual values already supplied for their transactions
+   */
+  async getIssues(
+    userId: string,
+    asset?: string,
+  ): Promise<PnlAssetIssuesDto[]> {
+    const query: Record<string, unknown> = {
+      userId: new Types.ObjectId(userId),
+    };
+    if (asset) {
+      query.asset = asset;
+    }
+
+    const [issues, valuations] = await Promise.all([
+      this.pnlIssueModel.find(query).sort({ asset: 1, timestamp: 1 }).lean(),
+      this.loadValuations(userId, asset),
+    ]);
+
+    const byAsset = new Map<string, PnlAssetIssuesDto>();
+    for (const issue of issues) {
+      const group = byAsset.get(issue.asset) || {
+        asset: issue.asset,
+        count: 0,
+        issues: [],
+      };
+      const valuation = valuations.get(
+        this.overrideKey(issue.transactionId.toString(), issue.asset),
+      );
+      group.count++;
+      group.issues.push({
+        id: issue._id.toString(),
+        type: issue.type,
+        asset: issue.asset,
+        transactionId: issue.transactionId.toString(),
+        exchange: issue.exchange,
+        amount: issue.amount,
+        timestamp: issue.timestamp,
+        message: issue.message,
+        valuation: valuation && {
+          price: valuation.price,
+          costPerUnit: valuation.costPerUnit,
+          acquiredAt: valuation.acquiredAt,
+        },
+      });
+      byAsset.set(issue.asset, group);
+    }
+
+    return Array.from(byAsset.values());
+  }
+
+  /**
+   * Supply a price or a cost for one asset of a transaction and recalculate
+   * that asset. Returns the issues left for the asset.
+   */
+  async setManualValuation(
+    userId: string,
+    transactionId: string,
+    dto: SetManualValuationDto,
+    asset?: string,
+  ): Promise<PnlAssetIssuesDto> {
+    if (dto.price === undefined && dto.costPerUnit === undefined) {
+      throw new BadRequestException('Provide a price or a costPerUnit');
+    }
+    const { tx, asset: target } = await this.findValuationTarget(
+      userId,
+      transactionId,
+      asset,
+    );
+
+    // Replaced as a whole so values left out of the request are cleared
+    const filter = {
+      userId: new Types.ObjectId(userId),
+      transactionId: tx._id,
+      asset: target,
+    };
+    await this.manualValuationModel.replaceOne(
+      filter,
+      {
+        ...filter,
+        price: dto.price,
+        costPerUnit: dto.costPerUnit,
+        acquiredAt: dto.acquiredAt ? new Date(dto.acquiredAt) : undefined,
+      },
+      { upsert: true },
+    );
+    await this.recalculateAsset(userId, target);
+
+    this.logger.log(
+      `Saved manual valuation for transaction ${transactionId} (${target})`,
+    );
+
+    return this.getAssetIssues(userId, target);
+  }
+
+  /**
+   * Remove a manual price or cost and recalculate the asset
+   */
+  async removeManualValuation(
+    userId: string,
+    transactionId: string,
+    asset?: string,
+  ): Promise<PnlAssetIssuesDto> {
+    const { tx, asset: target } = await this.findValuationTarget(
+      userId,
+      transactionId,
+      asset,
+    );
+
+    const result = await this.manualValuationModel.deleteOne({
+      userId: new Types.ObjectId(userId),
+      transactionId: tx._id,
+      asset: target,
+    });
+    if (result.deletedCount === 0) {
+      throw new NotFoundException('Manual valuation not found');
+    }
+
+    await this.recalculateAsset(userId, target);
+
+    return this.getAssetIssues(userId, target);
+  }
+
+  private async getAssetIssues(
+    userId: string,
+    asset: string,
+  ): Promise<PnlAssetIssuesDto> {
+    const [issues] = await this.getIssues(userId, asset);
+    return issues || { asset, count: 0, issues: [] };
+  }
+
+  private async findValuationTarget(
+    userId: string,
+    transactionId: string,
+    asset?: string,
+  ): Promise<{ tx: TransactionDocument; asset: string }> {
+    const tx = Types.ObjectId.isValid(transactionId)
+      ? await this.transactionsService.findById(transactionId, userId)
+      : null;
+    if (!tx) {
+      throw new NotFoundException('Transaction not found');
+    }
+
+    const assets = this.getTransactionAssets(tx).filter(
+      (a) => !asset || a === asset,
+    );
+    if (assets.length === 0) {
+      throw new BadRequestException(
+        asset
+          ? `Transaction does not move ${asset}`
+          : 'Transaction does not affect cost basis',
+      );
+    }
+    if (assets.length > 1) {
+      throw new BadRequestException(
+        'Transaction moves several assets, specify one with ?asset=',
+      );
+    }
+    return { tx, asset: assets[0] };
+  }
+
+  private async loadValuations(
+    userId: string,
+    asset?: string,
+  ): Promise<Map<string, ManualValuation>> {
+    const query: Record<string, unknown> = {
+      userId: new Types.ObjectId(userId),
+    };
+    if (asset) {
+      query.asset = asset;
+    }
+
+    const valuations = await this.manualValuationModel
+      .find(query)
+      .lean<ManualValuation[]>();
+    return new Map(
+      valuations.map((v) => [
+        this.overrideKey(v.transactionId.toString(), v.asset),
+        v,
+      ]),
+    );
+  }
+
+  // ==================== PRIVATE METHODS ====================
+
+  private isAcquisition(tx: TransactionDocument): boolean {
     return (
       tx.type === TransactionType.DEPOSIT ||
-      tx.type === TransactionType.INTEREST ||
-      (tx.type === TransactionType.TRADE && tx.side === 'buy')
+      tx.type === TransactionType.INTEREST
     );
   }
 
   private isDisposal(tx: TransactionDocument): boolean {
+    return tx.type === TransactionType.WITHDRAWAL;
+  }
+
+  private isTrade(tx: TransactionDocument): boolean {
     return (
-      tx.type === TransactionType.WITHDRAWAL ||
-      (tx.type === TransactionType.TRADE && tx.side === 'sell')
+      tx.type === TransactionType.TRADE &&
+      (tx.side === 'buy' || tx.side === 'sell')
     );
   }
 
-  private async addLot(
+  /**
+   * Split a transaction into the assets it adds and removes. A buy of
+   * ETH/BTC acquires ETH and disposes of BTC; a sell does the opposite.
+   */
+  private getLegs(tx: TransactionDocument): TransactionLeg[] {
+    if (this.isTrade(tx)) {
+      const isBuy = tx.side === 'buy';
+      const legs: TransactionLeg[] = [];
+
+      if (!FIAT_ASSETS.has(tx.asset)) {
+        legs.push({
+          asset: tx.asset,
+          amount: tx.amount,
+          kind: isBuy ? 'acquisition' : 'disposal',
+        });
+      }
+
+      const quoteAmount = this.getQuoteAmount(tx);
+      if (tx.priceAsset && quoteAmount > 0 && !FIAT_ASSETS.has(tx.priceAsset)) {
+        legs.push({
+          asset: tx.priceAsset,
+          amount: quoteAmount,
+          kind: isBuy ? 'disposal' : 'acquisition',
+        });
+      }
+
+      return legs;
+    }
+
+    if (this.isAcquisition(tx)) {
+      return [{ asset: tx.asset, amount: tx.amount, kind: 'acquisition' }];
+    }
+    if (this.isDisposal(tx)) {
+      return [{ asset: tx.asset, amount: tx.amount, kind: 'disposal' }];
+    }
+    return [];
+  }
+
+  /**
+   * Every non-fiat asset whose lots a transaction can touch
+   */
+  private getTransactionAssets(tx: TransactionDocument): string[] {
+    const assets = new Set(this.getLegs(tx).map((l) => l.asset));
+    if (tx.fee && !FIAT_ASSETS.has(tx.feeAsset || tx.asset)) {
+      assets.add(tx.feeAsset || tx.asset);
+    }
+    return [...assets];
+  }
+
+  private getQuoteAmount(tx: TransactionDocument): number {
+    return tx.total || tx.amount * (tx.price || 0);
+  }
+
+  /**
+   * USD value per unit of a leg at the time of the transaction.
+   * Trades are valued through the quote asset (BTC price for ETH/BTC); if the
+   * quote can't be priced, the base asset's market price is used for both legs.
+   */
+  private async getLegPricePerUnit(
+    tx: TransactionDocument,
+    leg: TransactionLeg,
+  ): Promise<number> {
+    const isBaseLeg = leg.asset === tx.asset;
+
+    if (this.isTrade(tx) && tx.priceAsset && tx.price) {
+      const quoteUsd = USD_QUOTE_ASSETS.has(tx.priceAsset)
+        ? 1
+        : await this.getHistoricalPriceForTransaction(
+            tx.priceAsset,
+            tx.timestamp,
+          );
+      if (quoteUsd > 0) {
+        return isBaseLeg ? tx.price * quoteUsd : quoteUsd;
+      }
+
+      const baseUsd = await this.getHistoricalPriceForTransaction(
+        tx.asset,
+        tx.timestamp,
+      );
+      return isBaseLeg
+        ? baseUsd
+        : (baseUsd * tx.amount) / this.getQuoteAmount(tx);
+    }
+
+    // Use transaction price if available, otherwise fetch historical
+    if (isBaseLeg && tx.price) {
+      return tx.price;
+    }
+    return this.getHistoricalPriceForTransaction(leg.asset, tx.timestamp);
+  }
+
+  /**
+   * Fee of a transaction valued in USD. Fees without a fee asset are assumed
+   * to be charged in the transaction's asset.
+   */
+  private async getFee(tx: TransactionDocument): Promise<FeeDetail | null> {
+    if (!tx.fee || tx.fee <= 0) {
+      return null;
+    }
+
+    const asset = tx.feeAsset || tx.asset;
+    let pricePerUnit: number;
+    if (USD_QUOTE_ASSETS.has(asset)) {
+      pricePerUnit = 1;
+    } else {
+      const leg = this.getLegs(tx).find((l) => l.asset === asset);
+      pricePerUnit = leg
+        ? await this.getLegPricePerUnit(tx, leg)
+        : await this.getHistoricalPriceForTransaction(asset, tx.timestamp);
+    }
+
+    return { asset, amount: tx.fee, valueUsd: tx.fee * pricePerUnit };
+  }
+
+  /**
+   * Paying a fee in crypto spends those coins, so it is a disposal of the
+   * fee asset at market value. Fiat fees only affect cost or proceeds.
+   */
+  private disposeFee(
+    state: LedgerState,
+    tx: TransactionDocument,
+    fee: FeeDetail,
+    amount: number,
+    method: CostBasisMethod,
+  ): void {
+    if (FIAT_ASSETS.has(fee.asset) || amount <= AMOUNT_TOLERANCE) return;
+    if (state.asset && fee.asset !== state.asset) return;
+
+    this.consumeLots(
+      state,
+      tx.userId.toString(),
+      fee.asset,
+      amount,
+      fee.valueUsd / fee.amount,
+      tx.timestamp,
+      tx._id.toString(),
+      tx.exchange,
+      method,
+      { isFee: true },
+    );
+  }
+
+  private createLedgerState(
+    lots: LotState[],
+    options: {
+      overrides?: Map<string, LotOverrideAllocation[]>;
+      transfers?: TransferMatch[];
+      valuations?: Map<string, ManualValuation>;
+      asset?: string;
+    } = {},
+  ): LedgerState {
+    const transfers = options.transfers || [];
+    return {
+      lots,
+      realized: [],
+      changedLots: new Set(),
+      overrides: options.overrides || new Map(),
+      overrideErrors: [],
+      transfersByWithdrawal: new Map(
+        transfers.map((t) => [t.withdrawalId.toString(), t]),
+      ),
+      transferDepositIds: new Set(transfers.map((t) => t.depositId.toString())),
+      valuations: options.valuations || new Map(),
+      issues: [],
+      asset: options.asset,
+    };
+  }
+
+  /**
+   * Lot ids are derived from the acquiring transaction so they stay stable
+   * across recalculations and lot overrides keep pointing at the same lots.
+   */
+  private lotIdFor(...parts: string[]): Types.ObjectId {
+    const hash = createHash('sha1').update(parts.join(':')).digest('hex');
+    return new Types.ObjectId(hash.substring(0, 24));
+  }
+
+  private async findOpenLots(
+    userId: string,
+    assets?: string[],
+  ): Promise<LotState[]> {
+    const query: Record<string, unknown> = {
+      userId: new Types.ObjectId(userId),
+      remainingAmount: { $gt: 0 },
+    };
+    if (assets) {
+      query.asset = { $in: assets };
+    }
+    return this.costBasisLotModel
+      .find(query)
+      .sort({ acquiredAt: 1 })
+      .lean<LotState[]>();
+  }
+
+  /**
+   * Replace all stored lots and realized records of a user (or of one asset)
+   * with a replayed ledger state.
+   */
+  private async replaceLedger(
+    userId: string,
+    state: LedgerState,
+    asset?: string,
+  ): Promise<void> {
+    const query: Record<string, unknown> = {
+      userId: new Types.ObjectId(userId),
+    };
+    if (asset) {
+      query.asset = asset;
+    }
+
+    await this.costBasisLotModel.deleteMany(query);
+    await this.realizedPnlModel.deleteMany(query);
+    await this.pnlIssueModel.deleteMany(query);
+    await this.saveLedgerState(state);
+  }
+
+  /**
+   * Persist lots touched, realized records and issues created while applying
+   * transactions to a ledger state.
+   */
+  private async saveLedgerState(state: LedgerState): Promise<void> {
+    if (state.changedLots.size > 0) {
+      await this.costBasisLotModel.bulkWrite(
+        Array.from(state.changedLots).map((lot) => ({
+          updateOne: {
+            filter: { _id: lot._id },
+            update: { $set: lot },
+            upsert: true,
+          },
+        })),
+      );
+      state.changedLots.clear();
+    }
+
+    if (state.realized.length > 0) {
+      await this.realizedPnlModel.insertMany(state.realized);
+      state.realized = [];
+    }
+
+    if (state.issues.length > 0) {
+      await this.pnlIssueModel.insertMany(state.issues);
+      state.issues = [];
+    }
+  }
+
+  /**
+   * Apply a single transaction to the ledger state
+   */
+  private async applyTransaction(
+    state: LedgerState,
+    tx: TransactionDocument,
+    method: CostBasisMethod,
+  ): Promise<void> {
+    const userId = tx.userId.toString();
+    const txId = tx._id.toString();
+
+    // Matched transfers: lots move with the withdrawal, the deposit adds nothing
+    if (state.transferDepositIds.has(txId)) {
+      return;
+    }
+    const transfer = state.transfersByWithdrawal.get(txId);
+    if (transfer) {
+      await this.moveLots(state, tx, transfer, method);
+      return;
+    }
+
+    const legs = this.getLegs(tx);
+    const fee = legs.length > 0 ? await this.getFee(tx) : null;
+
+    // The fee is capitalized into the main leg when it is an acquisition
+    // (buy, deposit) and deducted from its proceeds when it is a disposal
+    const feeLeg = legs.find((l) => l.asset === tx.asset) || legs[0];
+
+    // Gifts received keep the donor's cost and acquisition date, which the
+    // user supplies as a manual valuation
+    const isGift = tx.category === TransactionCategory.GIFT;
+    const nonSale = NON_SALE_CATEGORIES.includes(tx.category);
+
+    for (const leg of legs) {
+      if (state.asset && leg.asset !== state.asset) continue;
+
+      const valuation = state.valuations.get(this.overrideKey(txId, leg.asset));
+      const donorCost =
+        isGift && leg.kind === 'acquisition'
+          ? valuation?.costPerUnit
+          : undefined;
+      const pricePerUnit =
+        donorCost ??
+        valuation?.price ??
+        (await this.getLegPricePerUnit(tx, leg));
+      const legFee = leg === feeLeg && fee ? fee : undefined;
+
+      if (isGift && leg.kind === 'acquisition' && donorCost === undefined) {
+        this.addIssue(
+          state,
+          PnlIssueType.MISSING_GIFT_BASIS,
+          leg.asset,
+          leg.amount,
+          this.issueOrigin(tx),
+          `Gift of ${leg.amount} ${leg.asset} booked at market value; set the donor's cost basis`,
+        );
+      } else if (pricePerUnit <= 0 && donorCost === undefined && !nonSale) {
+        this.addIssue(
+          state,
+          PnlIssueType.ZERO_PRICE,
+          leg.asset,
+          leg.amount,
+          this.issueOrigin(tx),
+          leg.kind === 'acquisition'
+            ? `No price found for ${leg.asset}, lot booked at zero cost`
+            : `No price found for ${leg.asset}, proceeds booked as zero`,
+        );
+      }
+
+      // Determine if this adds to cost basis or realizes gains
+      if (leg.kind === 'acquisition') {
+        const lot = this.addLot(
+          state,
+          userId,
+          leg.asset,
+          leg.amount,
+          pricePerUnit,
+          (donorCost !== undefined && valuation?.acquiredAt) || tx.timestamp,
+          txId,
+          tx.exchange,
+          tx.category || tx.type,
+          legFee,
+        );
+        if (lot.acquiredAt.getTime() !== tx.timestamp.getTime()) {
+          lot.bookedAt = tx.timestamp;
+        }
+      } else {
+        this.consumeLots(
+          state,
+          userId,
+          leg.asset,
+          leg.amount,
+          pricePerUnit,
+          tx.timestamp,
+          txId,
+          tx.exchange,
+          method,
+          { fee: legFee, nonSale },
+        );
+      }
+    }
+
+    if (fee) {
+      this.disposeFee(state, tx, fee, fee.amount, method);
+    }
+  }
+
+  /**
+   * Move lots to the receiving exchange keeping their cost and acquisition
+   * date. Lots held on the sending exchange are used first. Whatever did not
+   * arrive (unreported network fee) and reported fees are booked as fee
+   * disposals.
+   */
+  private async moveLots(
+    state: LedgerState,
+    tx: TransactionDocument,
+    transfer: TransferMatch,
+    method: CostBasisMethod,
+  ): Promise<void> {
+    const txId = tx._id.toString();
+    const movedAmount = Math.min(transfer.receivedAmount, tx.amount);
+    const lostAmount = tx.amount - movedAmount;
+
+    const fee = await this.getFee(tx);
+    if (fee) {
+      // A same-asset fee may already be part of what did not arrive
+      const feeAmount =
+        fee.asset === tx.asset
+          ? Math.max(0, fee.amount - lostAmount)
+          : fee.amount;
+      this.disposeFee(state, tx, fee, feeAmount, method);
+    }
+
+    if (state.asset && tx.asset !== state.asset) return;
+
+    const openLots = state.lots.filter(
+      (lot) => lot.asset === tx.asset && lot.remainingAmount > 0,
+    );
+    const sourceLots = openLots.filter((lot) => lot.exchange === tx.exchange);
+    const sourceAvailable = sourceLots.reduce(
+      (sum, lot) => sum + lot.remainingAmount,
+      0,
+    );
+    const candidates =
+      sourceAvailable + AMOUNT_TOLERANCE >= movedAmount ? sourceLots : openLots;
+    const valuation = state.valuations.get(this.overrideKey(txId, tx.asset));
+
+    let moved = 0;
+    for (const allocation of this.selectLots(candidates, movedAmount, method)) {
+      const { lot } = allocation;
+      lot.remainingAmount -= allocation.amount;
+      state.changedLots.add(lot);
+      moved += allocation.amount;
+
+      const movedLot: LotState = {
+        _id: this.lotIdFor(lot._id.toString(), txId),
+        userId: lot.userId,
+        asset: lot.asset,
+        originalAmount: allocation.amount,
+        remainingAmount: allocation.amount,
+        costPerUnit: lot.costPerUnit,
+        acquiredAt: lot.acquiredAt,
+        transactionId: transfer.depositId,
+        exchange: transfer.toExchange,
+        source: 'transfer_in',
+        sourceLotId: lot._id,
+        bookedAt: tx.timestamp,
+      };
+      state.lots.push(movedLot);
+      state.changedLots.add(movedLot);
+    }
+
+    this.logger.debug(
+      `Moved ${moved} ${tx.asset} from ${tx.exchange} to ${transfer.toExchange}`,
+    );
+
+    const uncovered = movedAmount - moved;
+    if (uncovered > AMOUNT_TOLERANCE && valuation?.costPerUnit !== undefined) {
+      this.addManualCostLot(state, valuation, uncovered, {
+        userId: tx.userId.toString(),
+        transactionId: txId,
+        exchange: transfer.toExchange,
+        timestamp: tx.timestamp,
+      });
+    } else if (uncovered > AMOUNT_TOLERANCE) {
+      this.logger.warn(
+        `Not enough lots to cover transfer of ${movedAmount} ${tx.asset}. Missing: ${uncovered}`,
+      );
+      this.addIssue(
+        state,
+        PnlIssueType.UNCOVERED_DISPOSAL,
+        tx.asset,
+        uncovered,
+        this.issueOrigin(tx),
+        `Transfer of ${movedAmount} ${tx.asset} is missing ${uncovered} ${tx.asset} of lots`,
+      );
+    } else if (candidates === openLots) {
+      this.addIssue(
+        state,
+        PnlIssueType.NEGATIVE_BALANCE,
+        tx.asset,
+        movedAmount - sourceAvailable,
+        this.issueOrigin(tx),
+        `${tx.exchange} sent ${movedAmount} ${tx.asset} but only held ${sourceAvailable}`,
+      );
+    }
+
+    if (lostAmount > AMOUNT_TOLERANCE) {
+      const pricePerUnit =
+        valuation?.price ??
+        (await this.getHistoricalPriceForTransaction(tx.asset, tx.timestamp));
+      this.consumeLots(
+        state,
+        tx.userId.toString(),
+        tx.asset,
+        lostAmount,
+        pricePerUnit,
+        tx.timestamp,
+        txId,
+        tx.exchange,
+        method,
+        { isFee: true },
+      );
+    }
+  }
+
+  private addLot(
+    state: LedgerState,
     userId: string,
     asset: string,
     amount: number,
@@ -830,27 +2596,35 @@ export class PnlService {
     transactionId: string,
     exchange: string,
     source: string,
-  ): Promise<CostBasisLotDocument> {
-    const lot = new this.costBasisLotModel({
+    fee?: FeeDetail,
+  ): LotState {
+    const lot: LotState = {
+      _id: this.lotIdFor(transactionId, asset),
       userId: new Types.ObjectId(userId),
       asset,
       originalAmount: amount,
       remainingAmount: amount,
-      costPerUnit,
+      costPerUnit:
+        costPerUnit + (fee && amount > 0 ? fee.valueUsd / amount : 0),
       acquiredAt,
       transactionId: new Types.ObjectId(transactionId),
       exchange,
       source,
-    });
+      fee,
+    };
+
+    state.lots.push(lot);
+    state.changedLots.add(lot);
 
     this.logger.debug(
-      `Added lot: ${amount} ${asset} @ $${costPerUnit} (${source})`,
+      `Added lot: ${amount} ${asset} @ $${lot.costPerUnit} (${source})`,
     );
 
-    return lot.save();
+    return lot;
   }
 
-  private async consumeLotsFIFO(
+  private consumeLots(
+    state: LedgerState,
     userId: string,
     asset: string,
     amount: number,
@@ -858,65 +2632,120 @@ export class PnlService {
     realizedAt: Date,
     transactionId: string,
     exchange: string,
-  ): Promise<void> {
-    // Get oldest lots first (FIFO)
-    const lots = await this.costBasisLotModel
-      .find({
-        userId: new Types.ObjectId(userId),
-        asset,
-        remainingAmount: { $gt: 0 },
-      })
-      .sort({ acquiredAt: 1 });
-
-    let remainingToSell = amount;
+    method: CostBasisMethod,
+    options: { fee?: FeeDetail; isFee?: boolean; nonSale?: boolean } = {},
+  ): void {
+    const openLots = state.lots.filter(
+      (lot) => lot.asset === asset && lot.remainingAmount > 0,
+    );
+    // Lot overrides apply to the disposal itself, not to coins spent on fees
+    const overrideAllocations = options.isFee
+      ? null
+      : this.resolveOverride(state, openLots, transactionId, asset);
+    const allocations =
+      overrideAllocations || this.selectLots(openLots, amount, method);
+    const heldOnExchange = openLots
+      .filter((lot) => lot.exchange === exchange)
+      .reduce((sum, lot) => sum + lot.remainingAmount, 0);
+
+    let consumed = 0;
     let totalCostBasis = 0;
     const lotBreakdown: LotBreakdown[] = [];
 
-    for (const lot of lots) {
-      if (remainingToSell <= 0) break;
-
-      const consumeAmount = Math.min(lot.remainingAmount, remainingToSell);
-      totalCostBasis += consumeAmount * lot.costPerUnit;
+    for (const allocation of allocations) {
+      const { lot } = allocation;
+      totalCostBasis += allocation.amount * lot.costPerUnit;
 
       lotBreakdown.push({
         lotId: lot._id,
-        amount: consumeAmount,
+        amount: allocation.amount,
         costPerUnit: lot.costPerUnit,
         acquiredAt: lot.acquiredAt,
+        longTerm: this.isLongTerm(lot.acquiredAt, realizedAt),
       });
 
       // Update lot
-      lot.remainingAmount -= consumeAmount;
-      await lot.save();
-
-      remainingToSell -= consumeAmount;
+      lot.remainingAmount -= allocation.amount;
+      state.changedLots.add(lot);
+      consumed += allocation.amount;
 
       this.logger.debug(
-        `Consumed ${consumeAmount} from lot acquired at ${lot.acquiredAt}`,
+        `Consumed ${allocation.amount} from lot acquired at ${lot.acquiredAt}`,
       );
     }
 
-    if (remainingToSell > 0) {
+    // Part of the disposal no lot covers: booked at the manual cost when the
+    // user supplied one, otherwise reported as an issue
+    const origin = { userId, transactionId, exchange, timestamp: realizedAt };
+    const remainingToSell = amount - consumed;
+    const valuation = state.valuations.get(
+      this.overrideKey(transactionId, asset),
+    );
+    if (
+      remainingToSell > AMOUNT_TOLERANCE &&
+      valuation?.costPerUnit !== undefined
+    ) {
+      const lot = this.addManualCostLot(
+        state,
+        valuation,
+        remainingToSell,
+        origin,
+      );
+      totalCostBasis += remainingToSell * lot.costPerUnit;
+      lotBreakdown.push({
+        lotId: lot._id,
+        amount: remainingToSell,
+        costPerUnit: lot.costPerUnit,
+        acquiredAt: lot.acquiredAt,
+        longTerm: this.isLongTerm(lot.acquiredAt, realizedAt),
+      });
+      lot.remainingAmount = 0;
+      consumed += remainingToSell;
+    } else if (remainingToSell > AMOUNT_TOLERANCE) {
       this.logger.warn(
         `Not enough lots to cover sale of ${amount} ${asset}. Missing: ${remainingToSell}`,
       );
+      this.addIssue(
+        state,
+        PnlIssueType.UNCOVERED_DISPOSAL,
+        asset,
+        remainingToSell,
+        origin,
+        `Disposal of ${amount} ${asset} is missing ${remainingToSell} ${asset} of lots`,
+      );
+    } else if (amount - heldOnExchange > AMOUNT_TOLERANCE) {
+      this.addIssue(
+        state,
+        PnlIssueType.NEGATIVE_BALANCE,
+        asset,
+        amount - heldOnExchange,
+        origin,
+        `Disposal of ${amount} ${asset} on ${exchange} but only ${heldOnExchange} was held there`,
+      );
     }
 
-    const actualSold = amount - remainingToSell;
-    const proceeds = actualSold * proceedsPerUnit;
-    const realizedPnl = proceeds - totalCostBasis;
-
-    // Determine holding period (>1 year = long term)
-    const oldestLot = lotBreakdown[0];
+    // Gifts sent and lost coins leave the books without proceeds or a gain
+    const actualSold = consumed;
+    const proceeds = options.nonSale
+      ? 0
+      : actualSold * proceedsPerUnit - (options.fee?.valueUsd || 0);
+    const realizedPnl = options.nonSale ? 0 : proceeds - totalCostBasis;
+
+    // Each lot keeps its own term; average cost, LIFO and HIFO can draw on
+    // lots of both ages in one disposal
+    const longTermAmount = lotBreakdown
+      .filter((lb) => lb.longTerm)
+      .reduce((sum, lb) => sum + lb.amount, 0);
     const holdingPeriod =
-      oldestLot &&
-      realizedAt.getTime() - new Date(oldestLot.acquiredAt).getTime() >
-        365 * 24 * 60 * 60 * 1000
-        ? 'long_term'
-        : 'short_term';
+      longTermAmount <= AMOUNT_TOLERANCE
+        ? 'short_term'
+        : longTermAmount + AMOUNT_TOLERANCE >= actualSold
+          ? 'long_term'
+          : 'mixed';
 
     // Create realized P&L record
-    const realizedRecord = new this.realizedPnlModel({
+    state.realized.push({
+      _id: new Types.ObjectId(),
       userId: new Types.ObjectId(userId),
       transactionId: new Types.ObjectId(transactionId),
       asset,
@@ -927,20 +2756,269 @@ export class PnlService {
       realizedAt,
       holdingPeriod,
       lotBreakdown,
+      specificLots: overrideAllocations !== null,
+      fee: options.fee,
+      isFee: options.isFee || false,
+      nonSale: options.nonSale || false,
       exchange,
     });
 
-    await realizedRecord.save();
-
     this.logger.debug(
       `Realized P&L: ${realizedPnl.toFixed(2)} USD from ${actualSold} ${asset}`,
     );
   }
 
-  private sumRealizedAfter(
-    records: RealizedPnlDocument[],
-    since: Date,
+  private isLongTerm(acquiredAt: Date, disposedAt: Date): boolean {
+    return (
+      disposedAt.getTime() - new Date(acquiredAt).getTime() >
+      LONG_TERM_HOLDING_MS
+    );
+  }
+
+  /**
+   * Lot for an amount no recorded lot covers, at the cost the user supplied.
+   * Its id is derived from the disposal and how many such lots it already
+   * has (a fee and a sale can both fall short), so replays replace it.
+   */
+  private addManualCostLot(
+    state: LedgerState,
+    valuation: ManualValuation,
+    amount: number,
+    origin: IssueOrigin,
+  ): LotState {
+    const previous = state.lots.filter(
+      (lot) =>
+        lot.source === 'manual_cost' &&
+        lot.asset === valuation.asset &&
+        lot.transactionId.toString() === origin.transactionId,
+    ).length;
+    const lot: LotState = {
+      _id: this.lotIdFor(
+        origin.transactionId,
+        valuation.asset,
+        'manual_cost',
+        ...(previous > 0 ? [String(previous)] : []),
+      ),
+      userId: new Types.ObjectId(origin.userId),
+      asset: valuation.asset,
+      originalAmount: amount,
+      remainingAmount: amount,
+      costPerUnit: valuation.costPerUnit || 0,
+      acquiredAt: valuation.acquiredAt || origin.timestamp,
+      bookedAt: origin.timestamp,
+      transactionId: new Types.ObjectId(origin.transactionId),
+      exchange: origin.exchange,
+      source: 'manual_cost',
+    };
+    state.lots.push(lot);
+    state.changedLots.add(lot);
+    return lot;
+  }
+
+  private addIssue(
+    state: LedgerState,
+    type: PnlIssueType,
+    asset: string,
+    amount: number,
+    origin: IssueOrigin,
+    message: string,
+  ): void {
+    state.issues.push({
+      userId: new Types.ObjectId(origin.userId),
+      asset,
+      type,
+      transactionId: new Types.ObjectId(origin.transactionId),
+      exchange: origin.exchange,
+      amount,
+      timestamp: origin.timestamp,
+      message,
+    });
+  }
+
+  /**
+   * A transaction that couldn't be applied (e.g. a failed price fetch) is
+   * left out of the ledger; the issue makes that visible
+   */
+  private recordFailedTransaction(
+    state: LedgerState,
+    tx: TransactionDocument,
+    error: Error,
+  ): void {
+    this.logger.warn(`Failed to process transaction ${tx._id}: ${error.message}`);
+    this.addIssue(
+      state,
+      PnlIssueType.PROCESSING_FAILED,
+      state.asset || tx.asset,
+      tx.amount,
+      this.issueOrigin(tx),
+      `Transaction left out of P&L: ${error.message}`,
+    );
+  }
+
+  private issueOrigin(tx: TransactionDocument): IssueOrigin {
+    return {
+      userId: tx.userId.toString(),
+      transactionId: tx._id.toString(),
+      exchange: tx.exchange,
+      timestamp: tx.timestamp,
+    };
+  }
+
+  /**
+   * Map a stored lot override onto the open lots. Returns null (fall back to
+   * the cost-basis method) and records an error when a lot is not available.
+   */
+  private resolveOverride(
+    state: LedgerState,
+    openLots: LotState[],
+    transactionId: string,
+    asset: string,
+  ): LotAllocation[] | null {
+    const override = state.overrides.get(
+      this.overrideKey(transactionId, asset),
+    );
+    if (!override) return null;
+
+    const allocations: LotAllocation[] = [];
+    for (const item of override) {
+      const lot = openLots.find((l) => l._id.equals(item.lotId));
+      if (!lot) {
+        state.overrideErrors.push(
+          `Lot ${item.lotId} is not an open ${asset} lot at the time of transaction ${transactionId}`,
+        );
+        return null;
+      }
+      if (item.amount > lot.remainingAmount + AMOUNT_TOLERANCE) {
+        state.overrideErrors.push(
+          `Lot ${item.lotId} only has ${lot.remainingAmount} ${asset} left at the time of transaction ${transactionId}`,
+        );
+        return null;
+      }
+      allocations.push({
+        lot,
+        amount: Math.min(item.amount, lot.remainingAmount),
+      });
+    }
+
+    return allocations;
+  }
+
+  /**
+   * Decide how much of each open lot a disposal consumes.
+   * FIFO/LIFO/HIFO drain lots in order; average cost draws from every lot
+   * pro-rata, which keeps the pool's per-unit cost unchanged after the sale.
+   */
+  private selectLots(
+    lots: LotState[],
+    amount: number,
+    method: CostBasisMethod,
+  ): LotAllocation[] {
+    if (method === CostBasisMethod.AVERAGE) {
+      const available = lots.reduce((sum, lot) => sum + lot.remainingAmount, 0);
+      if (available <= 0) return [];
+
+      const fraction = Math.min(amount / available, 1);
+      return lots.map((lot) => ({
+        lot,
+        amount: lot.remainingAmount * fraction,
+      }));
+    }
+
+    const ordered = [...lots].sort((a, b) => this.compareLots(a, b, method));
+    const allocations: LotAllocation[] = [];
+    let remaining = amount;
+
+    for (const lot of ordered) {
+      if (remaining <= 0) break;
+
+      const consumeAmount = Math.min(lot.remainingAmount, remaining);
+      allocations.push({ lot, amount: consumeAmount });
+      remaining -= consumeAmount;
+    }
+
+    return allocations;
+  }
+
+  private compareLots(
+    a: CostBasisLot,
+    b: CostBasisLot,
+    method: CostBasisMethod,
   ): number {
+    const byAge =
+      new Date(a.acquiredAt).getTime() - new Date(b.acquiredAt).getTime();
+
+    switch (method) {
+      case CostBasisMethod.LIFO:
+        return -byAge;
+      case CostBasisMethod.HIFO:
+        return b.costPerUnit - a.costPerUnit || byAge;
+      case CostBasisMethod.FIFO:
+      default:
+        return byAge;
+    }
+  }
+
+  /**
+   * Restate USD lots and realized records in the reporting currency.
+   * Costs use the rate of the day each lot was acquired; proceeds and
+   * disposal fees use the rate of the day of the disposal.
+   */
+  private async restateInCurrency<
+    R extends RealizedPnl,
+    L extends CostBasisLot,
+  >(
+    realized: R[],
+    lots: L[],
+    currency: ReportingCurrency,
+  ): Promise<{ realized: R[]; lots: L[] }> {
+    if (currency === ReportingCurrency.USD) {
+      return { realized, lots };
+    }
+
+    const dates: Date[] = [
+      ...lots.map((lot) => lot.acquiredAt),
+      ...realized.flatMap((r) => [
+        r.realizedAt,
+        ...r.lotBreakdown.map((lb) => lb.acquiredAt),
+      ]),
+    ];
+    const rates = await this.fxRatesService.getRates(currency, dates);
+    const rateOn = (date: Date) =>
+      rates.get(new Date(date).toISOString().split('T')[0]) ?? 1;
+
+    return {
+      lots: lots.map((lot) => {
+        const rate = rateOn(lot.acquiredAt);
+        return {
+          ...lot,
+          costPerUnit: lot.costPerUnit * rate,
+          fee: lot.fee && { ...lot.fee, valueUsd: lot.fee.valueUsd * rate },
+        };
+      }),
+      realized: realized.map((r) => {
+        const rate = rateOn(r.realizedAt);
+        const lotBreakdown = r.lotBreakdown.map((lb) => ({
+          ...lb,
+          costPerUnit: lb.costPerUnit * rateOn(lb.acquiredAt),
+        }));
+        const proceeds = r.proceeds * rate;
+        const costBasis = lotBreakdown.reduce(
+          (sum, lb) => sum + lb.amount * lb.costPerUnit,
+          0,
+        );
+        return {
+          ...r,
+          proceeds,
+          costBasis,
+          realizedPnl: r.nonSale ? 0 : proceeds - costBasis,
+          lotBreakdown,
+          fee: r.fee && { ...r.fee, valueUsd: r.fee.valueUsd * rate },
+        };
+      }),
+    };
+  }
+
+  private sumRealizedAfter(records: RealizedPnl[], since: Date): number {
     return records
       .filter((r) => r.realizedAt >= since)
       .reduce((sum, r) => sum + r.realizedPnl, 0);
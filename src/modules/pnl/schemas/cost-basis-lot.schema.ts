@@ -3,6 +3,20 @@ import { Document, Types } from 'mongoose';
 
 export type CostBasisLotDocument = CostBasisLot & Document;
 
+@Schema({ _id: false })
+export class FeeDetail {
+  @Prop({ required: true })
+  asset: string;
+
+  @Prop({ required: true, type: Number })
+  amount: number;
+
+  @Prop({ required: true, type: Number })
+  valueUsd: number;
+}
+
+export const FeeDetailSchema = SchemaFactory.createForClass(FeeDetail);
+
 @Schema({ timestamps: true, collection: 'cost_basis_lots' })
 export class CostBasisLot {
   @Prop({ type: Types.ObjectId, ref: 'User', required: true })
@@ -18,7 +32,7 @@ export class CostBasisLot {
   remainingAmount: number;
 
   @Prop({ required: true, type: Number })
-  costPerUnit: number; // Price paid per unit in USD
+  costPerUnit: number; // Price paid per unit in USD, fees included
 
   @Prop({ required: true })
   acquiredAt: Date;
@@ -30,7 +44,16 @@ export class CostBasisLot {
   exchange: string;
 
   @Prop({ required: true })
-  source: string; // 'buy', 'deposit', 'interest', 'transfer_in'
+  source: string; // 'buy', 'deposit', 'interest', 'transfer_in', 'manual_cost' or the transaction category
+
+  @Prop({ type: FeeDetailSchema })
+  fee?: FeeDetail; // Fee added to the cost basis of this lot
+
+  @Prop({ type: Types.ObjectId })
+  sourceLotId?: Types.ObjectId; // Lot this one was moved out of (transfer_in)
+
+  @Prop()
+  bookedAt?: Date; // When the lot entered the ledger, if not at acquiredAt (transfers, manual costs)
 }
 
 export const CostBasisLotSchema = SchemaFactory.createForClass(CostBasisLot);
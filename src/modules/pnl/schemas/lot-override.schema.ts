@@ -0,0 +1,43 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type LotOverrideDocument = LotOverride & Document;
+
+@Schema({ _id: false })
+export class LotOverrideAllocation {
+  @Prop({ type: Types.ObjectId, ref: 'CostBasisLot', required: true })
+  lotId: Types.ObjectId;
+
+  @Prop({ required: true, type: Number })
+  amount: number;
+}
+
+export const LotOverrideAllocationSchema = SchemaFactory.createForClass(
+  LotOverrideAllocation,
+);
+
+/**
+ * Specific-lot identification for a disposal. Survives recalculation because
+ * lot ids are derived from the acquiring transaction.
+ */
+@Schema({ timestamps: true, collection: 'lot_overrides' })
+export class LotOverride {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Transaction', required: true })
+  transactionId: Types.ObjectId;
+
+  @Prop({ required: true })
+  asset: string;
+
+  @Prop({ type: [LotOverrideAllocationSchema], default: [] })
+  lots: LotOverrideAllocation[];
+}
+
+export const LotOverrideSchema = SchemaFactory.createForClass(LotOverride);
+
+LotOverrideSchema.index(
+  { userId: 1, transactionId: 1, asset: 1 },
+  { unique: true },
+);
@@ -0,0 +1,38 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type ManualValuationDocument = ManualValuation & Document;
+
+/**
+ * Values supplied by the user for one asset of a transaction when the
+ * ledger can't work them out: the market price when none was found, and
+ * the cost of the part of a disposal not covered by any lot.
+ */
+@Schema({ timestamps: true, collection: 'manual_valuations' })
+export class ManualValuation {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Transaction', required: true })
+  transactionId: Types.ObjectId;
+
+  @Prop({ required: true })
+  asset: string;
+
+  @Prop({ type: Number })
+  price?: number; // USD per unit at the time of the transaction
+
+  @Prop({ type: Number })
+  costPerUnit?: number; // USD cost per unit of the uncovered amount
+
+  @Prop()
+  acquiredAt?: Date; // When the uncovered amount was acquired
+}
+
+export const ManualValuationSchema =
+  SchemaFactory.createForClass(ManualValuation);
+
+ManualValuationSchema.index(
+  { userId: 1, transactionId: 1, asset: 1 },
+  { unique: true },
+);
@@ -0,0 +1,40 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { PnlIssueType } from '../../../common/constants/pnl-issue-types.constant';
+
+export type PnlIssueDocument = PnlIssue & Document;
+
+/**
+ * Anomaly found while booking a transaction (missing lots, missing price).
+ * Issues are rebuilt together with the lots on every recalculation.
+ */
+@Schema({ timestamps: true, collection: 'pnl_issues' })
+export class PnlIssue {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true })
+  asset: string;
+
+  @Prop({ required: true, enum: PnlIssueType })
+  type: PnlIssueType;
+
+  @Prop({ type: Types.ObjectId, ref: 'Transaction', required: true })
+  transactionId: Types.ObjectId;
+
+  @Prop({ required: true })
+  exchange: string;
+
+  @Prop({ required: true, type: Number })
+  amount: number; // Amount of the asset affected
+
+  @Prop({ required: true })
+  timestamp: Date;
+
+  @Prop({ required: true })
+  message: string;
+}
+
+export const PnlIssueSchema = SchemaFactory.createForClass(PnlIssue);
+
+PnlIssueSchema.index({ userId: 1, asset: 1, timestamp: 1 });
@@ -0,0 +1,19 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { CostBasisMethod } from '../../../common/constants/cost-basis-methods.constant';
+
+export type PnlSettingsDocument = PnlSettings & Document;
+
+@Schema({ timestamps: true, collection: 'pnl_settings' })
+export class PnlSettings {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, unique: true })
+  userId: Types.ObjectId;
+
+  @Prop({ enum: CostBasisMethod, default: CostBasisMethod.FIFO })
+  costBasisMethod: CostBasisMethod;
+
+  @Prop({ default: '01-01' })
+  taxYearStart: string; // MM-DD, first day of the tax year
+}
+
+export const PnlSettingsSchema = SchemaFactory.createForClass(PnlSettings);
@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { FeeDetail, FeeDetailSchema } from './cost-basis-lot.schema';
 
 export type RealizedPnlDocument = RealizedPnl & Document;
 
@@ -16,6 +17,9 @@ export class LotBreakdown {
 
   @Prop({ required: true })
   acquiredAt: Date;
+
+  @Prop({ default: false })
+  longTerm: boolean; // Lot held over a year when disposed of
 }
 
 export const LotBreakdownSchema = SchemaFactory.createForClass(LotBreakdown);
@@ -35,7 +39,7 @@ export class RealizedPnl {
   amount: number;
 
   @Prop({ required: true, type: Number })
-  proceeds: number; // Sale value in USD
+  proceeds: number; // Sale value in USD, net of fees
 
   @Prop({ required: true, type: Number })
   costBasis: number; // Total cost basis in USD
@@ -47,11 +51,23 @@ export class RealizedPnl {
   realizedAt: Date;
 
   @Prop()
-  holdingPeriod: string; // 'short_term' | 'long_term'
+  holdingPeriod: string; // 'short_term' | 'long_term' | 'mixed' (lots of both terms)
 
   @Prop({ type: [LotBreakdownSchema], default: [] })
   lotBreakdown: LotBreakdown[];
 
+  @Prop({ default: false })
+  specificLots: boolean; // true when lotBreakdown comes from a LotOverride
+
+  @Prop({ type: FeeDetailSchema })
+  fee?: FeeDetail; // Fee deducted from the proceeds of this disposal
+
+  @Prop({ default: false })
+  isFee: boolean; // true when the disposed coins were spent paying a fee
+
+  @Prop({ default: false })
+  nonSale: boolean; // true for gifts sent and lost coins: no proceeds, no gain
+
   @Prop({ required: true })
   exchange: string;
 }
@@ -0,0 +1,51 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { TransferMatchStatus } from '../../../common/constants/transfer-match-status.constant';
+
+export type TransferMatchDocument = TransferMatch & Document;
+
+/**
+ * A withdrawal paired with a deposit on another of the user's exchanges.
+ * Matched pairs move lots instead of realizing P&L.
+ */
+@Schema({ timestamps: true, collection: 'transfer_matches' })
+export class TransferMatch {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Transaction', required: true })
+  withdrawalId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Transaction', required: true })
+  depositId: Types.ObjectId;
+
+  @Prop({ required: true })
+  asset: string;
+
+  @Prop({ required: true })
+  fromExchange: string;
+
+  @Prop({ required: true })
+  toExchange: string;
+
+  @Prop({ required: true, type: Number })
+  withdrawnAmount: number;
+
+  @Prop({ required: true, type: Number })
+  receivedAmount: number;
+
+  @Prop({ required: true })
+  withdrawnAt: Date;
+
+  @Prop({ required: true })
+  receivedAt: Date;
+
+  @Prop({ required: true, enum: TransferMatchStatus })
+  status: TransferMatchStatus;
+}
+
+export const TransferMatchSchema = SchemaFactory.createForClass(TransferMatch);
+
+TransferMatchSchema.index({ userId: 1, withdrawalId: 1 });
+TransferMatchSchema.index({ userId: 1, depositId: 1 });
+TransferMatchSchema.index({ userId: 1, asset: 1, status: 1 });
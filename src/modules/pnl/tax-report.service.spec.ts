@@ -0,0 +1,119 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { TaxReportService } from './tax-report.service';
+import { PnlService } from './pnl.service';
+import { CostBasisLot } from './schemas/cost-basis-lot.schema';
+import { RealizedPnl } from './schemas/realized-pnl.schema';
+import { FakeModel } from '../../../test/fake-model';
+
+describe('TaxReportService', () => {
+  const userId = new Types.ObjectId().toString();
+
+  let service: TaxReportService;
+  let realized: FakeModel;
+
+  const lotBreakdown = (
+    acquiredAt: string,
+    amount: number,
+    costPerUnit: number,
+    longTerm?: boolean,
+  ) => ({
+    lotId: new Types.ObjectId(),
+    amount,
+    costPerUnit,
+    acquiredAt: new Date(acquiredAt),
+    longTerm,
+  });
+
+  beforeEach(async () => {
+    realized = new FakeModel();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaxReportService,
+        {
+          provide: getModelToken(CostBasisLot.name),
+          useValue: new FakeModel(),
+        },
+        { provide: getModelToken(RealizedPnl.name), useValue: realized },
+        {
+          provide: PnlService,
+          useValue: {
+            getSettings: jest.fn().mockResolvedValue({ taxYearStart: '01-01' }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<TaxReportService>(TaxReportService);
+  });
+
+  describe('getTaxReport', () => {
+    it('reports a disposal of one term as one row', async () => {
+      await realized.create({
+        userId: new Types.ObjectId(userId),
+        asset: 'BTC',
+        exchange: 'kraken',
+        amount: 1,
+        proceeds: 50000,
+        costBasis: 20000,
+        realizedAt: new Date('2024-03-01'),
+        holdingPeriod: 'long_term',
+        lotBreakdown: [lotBreakdown('2022-01-01', 1, 20000)],
+      });
+
+      const report = await service.getTaxReport(userId, 2024);
+
+      expect(report.gains).toEqual([
+        expect.objectContaining({
+          amount: 1,
+          gain: 30000,
+          term: 'long_term',
+          dateAcquired: new Date('2022-01-01'),
+        }),
+      ]);
+      expect(report.longTerm.gain).toBe(30000);
+    });
+
+    it('splits a disposal of mixed lots into a row per term', async () => {
+      await realized.create({
+        userId: new Types.ObjectId(userId),
+        asset: 'BTC',
+        exchange: 'kraken',
+        amount: 1,
+        proceeds: 50000,
+        costBasis: 30000,
+        realizedAt: new Date('2024-03-01'),
+        holdingPeriod: 'mixed',
+        lotBreakdown: [
+          lotBreakdown('2022-01-01', 0.5, 20000, true),
+          lotBreakdown('2024-01-01', 0.5, 40000, false),
+        ],
+      });
+
+      const report = await service.getTaxReport(userId, 2024);
+
+      expect(report.gains).toEqual([
+        expect.objectContaining({
+          amount: 0.5,
+          proceeds: 25000,
+          costBasis: 20000,
+          gain: 5000,
+          term: 'short_term',
+          dateAcquired: new Date('2024-01-01'),
+        }),
+        expect.objectContaining({
+          amount: 0.5,
+          proceeds: 25000,
+          costBasis: 10000,
+          gain: 15000,
+          term: 'long_term',
+          dateAcquired: new Date('2022-01-01'),
+        }),
+      ]);
+      expect(report.shortTerm.gain).toBe(5000);
+      expect(report.longTerm.gain).toBe(15000);
+    });
+  });
+});
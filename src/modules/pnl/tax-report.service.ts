@@ -0,0 +1,375 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import * as ExcelJS from 'exceljs';
+import {
+  CostBasisLot,
+  CostBasisLotDocument,
+} from './schemas/cost-basis-lot.schema';
+import {
+  LotBreakdown,
+  RealizedPnl,
+  RealizedPnlDocument,
+} from './schemas/realized-pnl.schema';
+import {
+  TaxGainRowDto,
+  TaxReportDto,
+  TaxTermTotalsDto,
+} from './dto/tax-report.dto';
+import { PnlService } from './pnl.service';
+import { TransactionType } from '../../common/constants/transaction-types.constant';
+import { INCOME_CATEGORIES } from '../../common/constants/transaction-categories.constant';
+
+/**
+ * Builds the yearly capital gains and income schedules from the stored
+ * realized P&L records and cost basis lots.
+ */
+@Injectable()
+export class TaxReportService {
+  private readonly logger = new Logger(TaxReportService.name);
+
+  constructor(
+    @InjectModel(CostBasisLot.name)
+    private costBasisLotModel: Model<CostBasisLotDocument>,
+    @InjectModel(RealizedPnl.name)
+    private realizedPnlModel: Model<RealizedPnlDocument>,
+    private readonly pnlService: PnlService,
+  ) {}
+
+  /**
+   * Get the tax report for the tax year starting in `year`
+   */
+  async getTaxReport(userId: string, year: number): Promise<TaxReportDto> {
+    const { taxYearStart } = await this.pnlService.getSettings(userId);
+    const { periodStart, periodEnd } = this.getTaxYearPeriod(
+      year,
+      taxYearStart,
+    );
+
+    const [realizedRecords, incomeLots] = await Promise.all([
+      this.realizedPnlModel
+        .find({
+          userId: new Types.ObjectId(userId),
+          realizedAt: { $gte: periodStart, $lt: periodEnd },
+          nonSale: { $ne: true },
+        })
+        .sort({ realizedAt: 1 }),
+      this.costBasisLotModel
+        .find({
+          userId: new Types.ObjectId(userId),
+          source: { $in: [TransactionType.INTEREST, ...INCOME_CATEGORIES] },
+          acquiredAt: { $gte: periodStart, $lt: periodEnd },
+        })
+        .sort({ acquiredAt: 1 }),
+    ]);
+
+    const gains: TaxGainRowDto[] = realizedRecords.flatMap((r) =>
+      this.toGainRows(r),
+    );
+
+    // Income is valued at receipt: the lot cost without any capitalized fee
+    const income = incomeLots.map((lot) => {
+      const value =
+        lot.originalAmount * lot.costPerUnit - (lot.fee?.valueUsd || 0);
+      return {
+        asset: lot.asset,
+        exchange: lot.exchange,
+        amount: lot.originalAmount,
+        dateReceived: lot.acquiredAt,
+        pricePerUnit: lot.originalAmount > 0 ? value / lot.originalAmount : 0,
+        value,
+      };
+    });
+
+    this.logger.log(
+      `Tax report ${year} for user ${userId}: ${gains.length} disposals, ${income.length} income entries`,
+    );
+
+    return {
+      year,
+      periodStart,
+      periodEnd,
+      gains,
+      income,
+      shortTerm: this.sumTerm(gains, 'short_term'),
+      longTerm: this.sumTerm(gains, 'long_term'),
+      totalIncome: income.reduce((sum, i) => sum + i.value, 0),
+    };
+  }
+
+  /**
+   * Export the tax report as CSV. Schedules are separated by a blank line.
+   */
+  exportToCsv(report: TaxReportDto): Buffer {
+    const lines: string[] = [];
+
+    lines.push('Capital Gains');
+    lines.push(
+      this.toCsvRow([
+        'Asset',
+        'Exchange',
+        'Amount',
+        'Date Acquired',
+        'Date Sold',
+        'Proceeds (USD)',
+        'Cost Basis (USD)',
+        'Gain (USD)',
+        'Term',
+        'Fee',
+      ]),
+    );
+    for (const g of report.gains) {
+      lines.push(
+        this.toCsvRow([
+          g.asset,
+          g.exchange,
+          g.amount,
+          g.dateAcquired ? this.formatDate(g.dateAcquired) : 'Various',
+          this.formatDate(g.dateSold),
+          g.proceeds,
+          g.costBasis,
+          g.gain,
+          g.term,
+          g.isFee ? 'yes' : 'no',
+        ]),
+      );
+    }
+
+    lines.push('');
+    lines.push('Income');
+    lines.push(
+      this.toCsvRow([
+        'Asset',
+        'Exchange',
+        'Amount',
+        'Date Received',
+        'Price (USD)',
+        'Value (USD)',
+      ]),
+    );
+    for (const i of report.income) {
+      lines.push(
+        this.toCsvRow([
+          i.asset,
+          i.exchange,
+          i.amount,
+          this.formatDate(i.dateReceived),
+          i.pricePerUnit,
+          i.value,
+        ]),
+      );
+    }
+
+    lines.push('');
+    lines.push('Totals');
+    lines.push(
+      this.toCsvRow([
+        'Term',
+        'Proceeds (USD)',
+        'Cost Basis (USD)',
+        'Gain (USD)',
+      ]),
+    );
+    for (const [term, totals] of this.getTermTotals(report)) {
+      lines.push(
+        this.toCsvRow([term, totals.proceeds, totals.costBasis, totals.gain]),
+      );
+    }
+    lines.push(this.toCsvRow(['Income', '', '', report.totalIncome]));
+
+    return Buffer.from(lines.join('\n'), 'utf-8');
+  }
+
+  /**
+   * Export the tax report as an Excel workbook with one sheet per schedule
+   */
+  async exportToExcel(report: TaxReportDto): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = 'Exchange Monitor';
+    workbook.created = new Date();
+
+    // Sheet 1: Capital Gains
+    const gainsSheet = workbook.addWorksheet('Capital Gains');
+    gainsSheet.columns = [
+      { header: 'Asset', key: 'asset', width: 12 },
+      { header: 'Exchange', key: 'exchange', width: 15 },
+      { header: 'Amount', key: 'amount', width: 18 },
+      { header: 'Date Acquired', key: 'dateAcquired', width: 15 },
+      { header: 'Date Sold', key: 'dateSold', width: 15 },
+      { header: 'Proceeds (USD)', key: 'proceeds', width: 18 },
+      { header: 'Cost Basis (USD)', key: 'costBasis', width: 18 },
+      { header: 'Gain (USD)', key: 'gain', width: 18 },
+      { header: 'Term', key: 'term', width: 12 },
+      { header: 'Fee', key: 'isFee', width: 8 },
+    ];
+    this.styleHeader(gainsSheet, 'FF70AD47');
+
+    for (const g of report.gains) {
+      gainsSheet.addRow({
+        ...g,
+        dateAcquired: g.dateAcquired
+          ? this.formatDate(g.dateAcquired)
+          : 'Various',
+        dateSold: this.formatDate(g.dateSold),
+        isFee: g.isFee ? 'yes' : 'no',
+      });
+    }
+
+    // Sheet 2: Income
+    const incomeSheet = workbook.addWorksheet('Income');
+    incomeSheet.columns = [
+      { header: 'Asset', key: 'asset', width: 12 },
+      { header: 'Exchange', key: 'exchange', width: 15 },
+      { header: 'Amount', key: 'amount', width: 18 },
+      { header: 'Date Received', key: 'dateReceived', width: 15 },
+      { header: 'Price (USD)', key: 'pricePerUnit', width: 18 },
+      { header: 'Value (USD)', key: 'value', width: 18 },
+    ];
+    this.styleHeader(incomeSheet, 'FF4472C4');
+
+    for (const i of report.income) {
+      incomeSheet.addRow({
+        ...i,
+        dateReceived: this.formatDate(i.dateReceived),
+      });
+    }
+
+    // Sheet 3: Totals
+    const totalsSheet = workbook.addWorksheet('Totals');
+    totalsSheet.columns = [
+      { header: 'Term', key: 'term', width: 15 },
+      { header: 'Proceeds (USD)', key: 'proceeds', width: 18 },
+      { header: 'Cost Basis (USD)', key: 'costBasis', width: 18 },
+      { header: 'Gain (USD)', key: 'gain', width: 18 },
+    ];
+    this.styleHeader(totalsSheet, 'FFFFC000');
+
+    for (const [term, totals] of this.getTermTotals(report)) {
+      totalsSheet.addRow({ term, ...totals });
+    }
+    const incomeRow = totalsSheet.addRow({
+      term: 'Income',
+      gain: report.totalIncome,
+    });
+    incomeRow.font = { bold: true };
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    return Buffer.from(buffer);
+  }
+
+  // ==================== PRIVATE METHODS ====================
+
+  /**
+   * One row per disposal, or one per term when it drew on lots of both
+   * ages. Proceeds are shared by amount; costs come from the lots.
+   */
+  private toGainRows(r: RealizedPnl): TaxGainRowDto[] {
+    const row = (
+      lots: LotBreakdown[],
+      term: string,
+      fields: Pick<TaxGainRowDto, 'amount' | 'proceeds' | 'costBasis'>,
+    ): TaxGainRowDto => {
+      const acquiredDays = new Set(
+        lots.map((lb) => new Date(lb.acquiredAt).toISOString().split('T')[0]),
+      );
+      return {
+        asset: r.asset,
+        exchange: r.exchange,
+        ...fields,
+        dateAcquired: acquiredDays.size === 1 ? lots[0].acquiredAt : null,
+        dateSold: r.realizedAt,
+        gain: fields.proceeds - fields.costBasis,
+        term,
+        isFee: r.isFee || false,
+      };
+    };
+
+    if (r.holdingPeriod !== 'mixed') {
+      return [
+        row(r.lotBreakdown, r.holdingPeriod || 'short_term', {
+          amount: r.amount,
+          proceeds: r.proceeds,
+          costBasis: r.costBasis,
+        }),
+      ];
+    }
+
+    return [false, true].map((longTerm) => {
+      const lots = r.lotBreakdown.filter((lb) => !!lb.longTerm === longTerm);
+      const amount = lots.reduce((sum, lb) => sum + lb.amount, 0);
+      return row(lots, longTerm ? 'long_term' : 'short_term', {
+        amount,
+        proceeds: r.amount > 0 ? (r.proceeds * amount) / r.amount : 0,
+        costBasis: lots.reduce(
+          (sum, lb) => sum + lb.amount * lb.costPerUnit,
+          0,
+        ),
+      });
+    });
+  }
+
+  /**
+   * Tax year `year` runs from the configured MM-DD in that year (inclusive)
+   * to the same date a year later (exclusive), in UTC.
+   */
+  private getTaxYearPeriod(
+    year: number,
+    taxYearStart: string,
+  ): { periodStart: Date; periodEnd: Date } {
+    const [month, day] = taxYearStart.split('-').map((p) => parseInt(p, 10));
+    return {
+      periodStart: new Date(Date.UTC(year, month - 1, day)),
+      periodEnd: new Date(Date.UTC(year + 1, month - 1, day)),
+    };
+  }
+
+  private sumTerm(gains: TaxGainRowDto[], term: string): TaxTermTotalsDto {
+    return gains
+      .filter((g) => g.term === term)
+      .reduce(
+        (totals, g) => ({
+          proceeds: totals.proceeds + g.proceeds,
+          costBasis: totals.costBasis + g.costBasis,
+          gain: totals.gain + g.gain,
+        }),
+        { proceeds: 0, costBasis: 0, gain: 0 },
+      );
+  }
+
+  private getTermTotals(report: TaxReportDto): [string, TaxTermTotalsDto][] {
+    return [
+      ['Short term', report.shortTerm],
+      ['Long term', report.longTerm],
+      [
+        'Total',
+        {
+          proceeds: report.shortTerm.proceeds + report.longTerm.proceeds,
+          costBasis: report.shortTerm.costBasis + report.longTerm.costBasis,
+          gain: report.shortTerm.gain + report.longTerm.gain,
+        },
+      ],
+    ];
+  }
+
+  private styleHeader(sheet: ExcelJS.Worksheet, color: string): void {
+    sheet.getRow(1).fill = {
+      type: 'pattern',
+      pattern: 'solid',
+      fgColor: { argb: color },
+    };
+    sheet.getRow(1).font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  }
+
+  private formatDate(date: Date): string {
+    return new Date(date).toISOString().split('T')[0];
+  }
+
+  private toCsvRow(values: (string | number)[]): string {
+    return values
+      .map((value) => {
+        const str = String(value);
+        return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+      })
+      .join(',');
+  }
+}
@@ -0,0 +1,372 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  forwardRef,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  TransferMatch,
+  TransferMatchDocument,
+} from './schemas/transfer-match.schema';
+import {
+  CreateTransferMatchDto,
+  TransferMatchResponseDto,
+} from './dto/transfer-match.dto';
+import { TransactionDocument } from '../transactions/schemas/transaction.schema';
+import { TransactionsService } from '../transactions/transactions.service';
+import { TransactionType } from '../../common/constants/transaction-types.constant';
+import { TransferMatchStatus } from '../../common/constants/transfer-match-status.constant';
+
+// A deposit must arrive within this window after the withdrawal
+const TRANSFER_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Exchanges' clocks (and batched deposit crediting) can put the deposit slightly first
+const TRANSFER_CLOCK_SKEW_MS = 60 * 60 * 1000;
+
+// Relative slack on amounts for network fees the exchange did not report
+const TRANSFER_AMOUNT_TOLERANCE = 0.005;
+
+/**
+ * Pairs withdrawals with deposits on the user's other exchanges so that
+ * moving coins between accounts is not treated as a sale and a new purchase.
+ */
+@Injectable()
+export class TransferMatchingService {
+  private readonly logger = new Logger(TransferMatchingService.name);
+
+  constructor(
+    @InjectModel(TransferMatch.name)
+    private transferMatchModel: Model<TransferMatchDocument>,
+    @Inject(forwardRef(() => TransactionsService))
+    private readonly transactionsService: TransactionsService,
+  ) {}
+
+  async findMatches(
+    userId: string,
+    status?: TransferMatchStatus,
+  ): Promise<TransferMatchResponseDto[]> {
+    const query: Record<string, unknown> = {
+      userId: new Types.ObjectId(userId),
+    };
+    if (status) {
+      query.status = status;
+    }
+
+    const matches = await this.transferMatchModel
+      .find(query)
+      .sort({ withdrawnAt: -1 });
+
+    return matches.map((m) => this.toResponse(m));
+  }
+
+  /**
+   * Get matches that are in effect (not rejected), optionally for one asset
+   */
+  async getActiveMatches(
+    userId: string,
+    asset?: string,
+  ): Promise<TransferMatch[]> {
+    const query: Record<string, unknown> = {
+      userId: new Types.ObjectId(userId),
+      status: { $ne: TransferMatchStatus.REJECTED },
+    };
+    if (asset) {
+      query.asset = asset;
+    }
+    return this.transferMatchModel.find(query).lean();
+  }
+
+  /**
+   * Find and save new withdrawal/deposit pairs. Transactions that already
+   * belong to a match and pairs the user rejected are left alone.
+   * When `since` is given only transactions from one transfer window before
+   * it are considered, which keeps matching cheap after an incremental sync.
+   */
+  async autoMatch(
+    userId: string,
+    asset?: string,
+    since?: Date,
+  ): Promise<TransferMatchDocument[]> {
+    const from = since
+      ? new Date(since.getTime() - TRANSFER_WINDOW_MS - TRANSFER_CLOCK_SKEW_MS)
+      : undefined;
+
+    const transactions = await this.transactionsService.findByTypes(
+      userId,
+      [TransactionType.WITHDRAWAL, TransactionType.DEPOSIT],
+      asset,
+      from,
+    );
+    if (transactions.length === 0) {
+      return [];
+    }
+
+    const existing = await this.transferMatchModel
+      .find({
+        userId: new Types.ObjectId(userId),
+        $or: [
+          { withdrawalId: { $in: transactions.map((t) => t._id) } },
+          { depositId: { $in: transactions.map((t) => t._id) } },
+        ],
+      })
+      .lean();
+
+    const used = new Set<string>();
+    const rejectedPairs = new Set<string>();
+    for (const match of existing) {
+      if (match.status === TransferMatchStatus.REJECTED) {
+        rejectedPairs.add(`${match.withdrawalId}:${match.depositId}`);
+      } else {
+        used.add(match.withdrawalId.toString());
+        used.add(match.depositId.toString());
+      }
+    }
+
+    // Categorized transactions (gifts, lost coins...) are not transfers
+    const withdrawals = transactions.filter(
+      (t) =>
+        t.type === TransactionType.WITHDRAWAL &&
+        !t.category &&
+        !used.has(t._id.toString()),
+    );
+    const deposits = transactions.filter(
+      (t) =>
+        t.type === TransactionType.DEPOSIT &&
+        !t.category &&
+        !used.has(t._id.toString()),
+    );
+
+    const newMatches: TransferMatch[] = [];
+    for (const withdrawal of withdrawals) {
+      const deposit = this.findBestDeposit(
+        withdrawal,
+        deposits.filter(
+          (d) =>
+            !used.has(d._id.toString()) &&
+            !rejectedPairs.has(`${withdrawal._id}:${d._id}`),
+        ),
+      );
+      if (!deposit) continue;
+
+      used.add(deposit._id.toString());
+      newMatches.push(
+        this.buildMatch(userId, withdrawal, deposit, TransferMatchStatus.AUTO),
+      );
+    }
+
+    if (newMatches.length === 0) {
+      return [];
+    }
+
+    this.logger.log(
+      `Matched ${newMatches.length} transfers for user ${userId}${asset ? ` (${asset})` : ''}`,
+    );
+    return this.transferMatchModel.insertMany(newMatches);
+  }
+
+  /**
+   * Pair a withdrawal and a deposit by hand, e.g. when the deposit arrived
+   * outside the automatic time window or with an unexpected fee.
+   */
+  async createManualMatch(
+    userId: string,
+    dto: CreateTransferMatchDto,
+  ): Promise<TransferMatchDocument> {
+    const [withdrawal, deposit] = await Promise.all([
+      this.transactionsService.findById(dto.withdrawalId, userId),
+      this.transactionsService.findById(dto.depositId, userId),
+    ]);
+
+    if (!withdrawal || withdrawal.type !== TransactionType.WITHDRAWAL) {
+      throw new NotFoundException('Withdrawal not found');
+    }
+    if (!deposit || deposit.type !== TransactionType.DEPOSIT) {
+      throw new NotFoundException('Deposit not found');
+    }
+    if (withdrawal.category || deposit.category) {
+      throw new BadRequestException(
+        'Categorized transactions cannot be matched as a transfer',
+      );
+    }
+    if (withdrawal.asset !== deposit.asset) {
+      throw new BadRequestException(
+        `Cannot match a ${withdrawal.asset} withdrawal with a ${deposit.asset} deposit`,
+      );
+    }
+    if (deposit.amount > withdrawal.amount * (1 + TRANSFER_AMOUNT_TOLERANCE)) {
+      throw new BadRequestException(
+        'Deposit amount is larger than the withdrawn amount',
+      );
+    }
+
+    const conflicting = await this.transferMatchModel.findOne({
+      userId: new Types.ObjectId(userId),
+      status: { $ne: TransferMatchStatus.REJECTED },
+      $or: [{ withdrawalId: withdrawal._id }, { depositId: deposit._id }],
+    });
+    if (conflicting) {
+      throw new BadRequestException(
+        'Withdrawal or deposit already belongs to another transfer match',
+      );
+    }
+
+    const match = this.buildMatch(
+      userId,
+      withdrawal,
+      deposit,
+      TransferMatchStatus.MANUAL,
+    );
+    return this.transferMatchModel.findOneAndUpdate(
+      {
+        userId: match.userId,
+        withdrawalId: match.withdrawalId,
+        depositId: match.depositId,
+      },
+      { $set: match },
+      { upsert: true, new: true },
+    );
+  }
+
+  /**
+   * Reject a match. It is kept so automatic matching does not pair the
+   * same transactions again.
+   */
+  async rejectMatch(
+    userId: string,
+    matchId: string,
+  ): Promise<TransferMatchDocument> {
+    const match = Types.ObjectId.isValid(matchId)
+      ? await this.transferMatchModel.findOneAndUpdate(
+          {
+            _id: new Types.ObjectId(matchId),
+            userId: new Types.ObjectId(userId),
+          },
+          { $set: { status: TransferMatchStatus.REJECTED } },
+          { new: true },
+        )
+      : null;
+
+    if (!match) {
+      throw new NotFoundException('Transfer match not found');
+    }
+    return match;
+  }
+
+  /**
+   * Drop the matches of transactions that were edited or deleted by hand so
+   * automatic matching can pair them again. Rejections are kept.
+   */
+  async releaseTransactions(
+    userId: string,
+    transactionIds: Types.ObjectId[],
+  ): Promise<TransferMatch[]> {
+    if (transactionIds.length === 0) {
+      return [];
+    }
+
+    const query = {
+      userId: new Types.ObjectId(userId),
+      status: { $ne: TransferMatchStatus.REJECTED },
+      $or: [
+        { withdrawalId: { $in: transactionIds } },
+        { depositId: { $in: transactionIds } },
+      ],
+    };
+    const matches = await this.transferMatchModel.find(query).lean();
+    if (matches.length > 0) {
+      await this.transferMatchModel.deleteMany(query);
+    }
+    return matches;
+  }
+
+  toResponse(match: TransferMatchDocument): TransferMatchResponseDto {
+    return {
+      id: match._id.toString(),
+      asset: match.asset,
+      withdrawalId: match.withdrawalId.toString(),
+      depositId: match.depositId.toString(),
+      fromExchange: match.fromExchange,
+      toExchange: match.toExchange,
+      withdrawnAmount: match.withdrawnAmount,
+      receivedAmount: match.receivedAmount,
+      withdrawnAt: match.withdrawnAt,
+      receivedAt: match.receivedAt,
+      status: match.status,
+    };
+  }
+
+  // ==================== PRIVATE METHODS ====================
+
+  /**
+   * Closest-in-time deposit of the same asset, on another credential, whose
+   * amount is the withdrawn amount minus at most the fee.
+   */
+  private findBestDeposit(
+    withdrawal: TransactionDocument,
+    deposits: TransactionDocument[],
+  ): TransactionDocument | null {
+    const withdrawnAt = withdrawal.timestamp.getTime();
+    let best: TransactionDocument | null = null;
+    let bestDistance = Infinity;
+
+    for (const deposit of deposits) {
+      if (deposit.asset !== withdrawal.asset) continue;
+      if (deposit.credentialId.equals(withdrawal.credentialId)) continue;
+
+      const delta = deposit.timestamp.getTime() - withdrawnAt;
+      if (delta < -TRANSFER_CLOCK_SKEW_MS || delta > TRANSFER_WINDOW_MS) {
+        continue;
+      }
+      if (!this.amountsMatch(withdrawal, deposit)) continue;
+
+      if (Math.abs(delta) < bestDistance) {
+        best = deposit;
+        bestDistance = Math.abs(delta);
+      }
+    }
+
+    return best;
+  }
+
+  private amountsMatch(
+    withdrawal: TransactionDocument,
+    deposit: TransactionDocument,
+  ): boolean {
+    const fee =
+      withdrawal.fee &&
+      (!withdrawal.feeAsset || withdrawal.feeAsset === withdrawal.asset)
+        ? withdrawal.fee
+        : 0;
+    const tolerance = withdrawal.amount * TRANSFER_AMOUNT_TOLERANCE;
+
+    return (
+      deposit.amount <= withdrawal.amount + tolerance &&
+      deposit.amount >= withdrawal.amount - fee - tolerance
+    );
+  }
+
+  private buildMatch(
+    userId: string,
+    withdrawal: TransactionDocument,
+    deposit: TransactionDocument,
+    status: TransferMatchStatus,
+  ): TransferMatch {
+    return {
+      userId: new Types.ObjectId(userId),
+      withdrawalId: withdrawal._id,
+      depositId: deposit._id,
+      asset: withdrawal.asset,
+      fromExchange: withdrawal.exchange,
+      toExchange: deposit.exchange,
+      withdrawnAmount: withdrawal.amount,
+      receivedAmount: deposit.amount,
+      withdrawnAt: withdrawal.timestamp,
+      receivedAt: deposit.timestamp,
+      status,
+    };
+  }
+}
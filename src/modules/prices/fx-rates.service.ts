@@ -0,0 +1,263 @@
+import {
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { FxRate, FxRateDocument } from './schemas/fx-rate.schema';
+import { ReportingCurrency } from '../../common/constants/currencies.constant';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Max candles Binance returns per OHLCV request
+const OHLCV_PAGE_SIZE = 1000;
+
+/**
+ * Binance market quoting each currency against USDT. `inverse` is set when
+ * the currency is the base of the pair (EUR/USDT gives USD per EUR).
+ */
+const FX_MARKETS: Record<string, { symbol: string; inverse: boolean }> = {
+  [ReportingCurrency.EUR]: { symbol: 'EUR/USDT', inverse: true },
+  [ReportingCurrency.ARS]: { symbol: 'USDT/ARS', inverse: false },
+  [ReportingCurrency.BRL]: { symbol: 'USDT/BRL', inverse: false },
+};
+
+/**
+ * Daily USD exchange rates for the reporting currencies.
+ * Closed days are stored in `fx_rates` and fetched from Binance only once;
+ * the current day uses the live ticker, cached for a few minutes.
+ */
+@Injectable()
+export class FxRatesService {
+  private readonly logger = new Logger(FxRatesService.name);
+  private readonly binanceHostname?: string;
+  private currentRateCache = new Map<
+    string,
+    { rate: number; timestamp: number }
+  >();
+  private readonly currentRateTtlMs = 5 * 60 * 1000;
+
+  // First day with a candle per currency, so older days are not re-fetched
+  private listedSince = new Map<string, string>();
+
+  constructor(
+    @InjectModel(FxRate.name)
+    private fxRateModel: Model<FxRateDocument>,
+    private readonly configService: ConfigService,
+  ) {
+    this.binanceHostname = this.configService.get<string>('BINANCE_HOSTNAME');
+  }
+
+  /**
+   * Units of `currency` per 1 USD on the day of `date`
+   */
+  async getRate(currency: ReportingCurrency, date: Date): Promise<number> {
+    const rates = await this.getRates(currency, [date]);
+    return rates.get(this.dayKey(date)) ?? 1;
+  }
+
+  /**
+   * Units of `currency` per 1 USD right now
+   */
+  async getCurrentRate(currency: ReportingCurrency): Promise<number> {
+    if (currency === ReportingCurrency.USD) {
+      return 1;
+    }
+
+    const cached = this.currentRateCache.get(currency);
+    if (cached && Date.now() - cached.timestamp < this.currentRateTtlMs) {
+      return cached.rate;
+    }
+
+    const market = FX_MARKETS[currency];
+    try {
+      const client = await this.createClient();
+      const ticker = await client.fetchTicker(market.symbol);
+      const rate = market.inverse ? 1 / ticker.last : ticker.last;
+      this.currentRateCache.set(currency, { rate, timestamp: Date.now() });
+      return rate;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to fetch current ${currency} rate: ${error.message}`,
+      );
+    }
+
+    // Fall back to the stale cache or the last stored close
+    if (cached) {
+      return cached.rate;
+    }
+    const latest = await this.fxRateModel
+      .findOne({ currency })
+      .sort({ date: -1 });
+    if (!latest) {
+      throw new ServiceUnavailableException(
+        `No ${currency} exchange rate available`,
+      );
+    }
+    return latest.rate;
+  }
+
+  /**
+   * Rates for every day in `dates`, keyed by YYYY-MM-DD. Days without a
+   * close (before the market was listed) use the nearest known day.
+   */
+  async getRates(
+    currency: ReportingCurrency,
+    dates: Date[],
+  ): Promise<Map<string, number>> {
+    const days = Array.from(new Set(dates.map((d) => this.dayKey(d)))).sort();
+    const result = new Map<string, number>();
+    if (days.length === 0) {
+      return result;
+    }
+
+    if (currency === ReportingCurrency.USD) {
+      days.forEach((day) => result.set(day, 1));
+      return result;
+    }
+
+    const today = this.dayKey(new Date());
+    const pastDays = days.filter((day) => day < today);
+
+    if (pastDays.length > 0) {
+      let stored = await this.findStored(currency, pastDays);
+      const listedSince = this.listedSince.get(currency);
+      const missing = pastDays.filter(
+        (day) => !stored.has(day) && (!listedSince || day >= listedSince),
+      );
+
+      if (missing.length > 0) {
+        await this.fetchAndStore(
+          currency,
+          missing[0],
+          missing[missing.length - 1],
+        );
+        stored = await this.findStored(currency, pastDays);
+      }
+
+      for (const day of pastDays) {
+        const rate = stored.get(day) ?? (await this.findNearest(currency, day));
+        result.set(day, rate);
+      }
+    }
+
+    if (days.includes(today)) {
+      result.set(today, await this.getCurrentRate(currency));
+    }
+
+    return result;
+  }
+
+  // ==================== PRIVATE METHODS ====================
+
+  private async findStored(
+    currency: string,
+    days: string[],
+  ): Promise<Map<string, number>> {
+    const rates = await this.fxRateModel
+      .find({
+        currency,
+        date: { $gte: days[0], $lte: days[days.length - 1] },
+      })
+      .lean();
+    return new Map(rates.map((r) => [r.date, r.rate]));
+  }
+
+  private async findNearest(
+    currency: ReportingCurrency,
+    day: string,
+  ): Promise<number> {
+    const previous = await this.fxRateModel
+      .findOne({ currency, date: { $lte: day } })
+      .sort({ date: -1 });
+    if (previous) {
+      return previous.rate;
+    }
+
+    const next = await this.fxRateModel
+      .findOne({ currency, date: { $gt: day } })
+      .sort({ date: 1 });
+    return next ? next.rate : this.getCurrentRate(currency);
+  }
+
+  /**
+   * Fetch daily closes between two days (inclusive) and store them
+   */
+  private async fetchAndStore(
+    currency: ReportingCurrency,
+    fromDay: string,
+    toDay: string,
+  ): Promise<void> {
+    const market = FX_MARKETS[currency];
+    const today = this.dayKey(new Date());
+    const end = Date.parse(toDay);
+    let since = Date.parse(fromDay);
+    const rates: FxRate[] = [];
+
+    try {
+      const client = await this.createClient();
+
+      while (since <= end) {
+        const ohlcv = await client.fetchOHLCV(
+          market.symbol,
+          '1d',
+          since,
+          OHLCV_PAGE_SIZE,
+        );
+        if (!ohlcv || ohlcv.length === 0) break;
+
+        if (rates.length === 0 && ohlcv[0][0] > Date.parse(fromDay)) {
+          this.listedSince.set(currency, this.dayKey(new Date(ohlcv[0][0])));
+        }
+
+        for (const [timestamp, , , , close] of ohlcv) {
+          const day = this.dayKey(new Date(timestamp));
+          // Today's candle is still open
+          if (timestamp > end || day >= today || !close) continue;
+          rates.push({
+            currency,
+            date: day,
+            rate: market.inverse ? 1 / close : close,
+          });
+        }
+
+        if (ohlcv.length < OHLCV_PAGE_SIZE) break;
+        since = ohlcv[ohlcv.length - 1][0] + DAY_MS;
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to fetch ${currency} rates ${fromDay}..${toDay}: ${error.message}`,
+      );
+    }
+
+    if (rates.length === 0) {
+      return;
+    }
+
+    await this.fxRateModel.bulkWrite(
+      rates.map((rate) => ({
+        updateOne: {
+          filter: { currency: rate.currency, date: rate.date },
+          update: { $set: rate },
+          upsert: true,
+        },
+      })),
+    );
+    this.logger.log(`Stored ${rates.length} ${currency} daily rates`);
+  }
+
+  private async createClient(): Promise<any> {
+    const ccxt = await import('ccxt');
+    const config: any = { enableRateLimit: true };
+    if (this.binanceHostname && this.binanceHostname !== 'binance.us') {
+      config.hostname = this.binanceHostname;
+    }
+    return new ccxt.binance(config);
+  }
+
+  private dayKey(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
@@ -6,6 +6,7 @@ import { PriceHistoryController } from './price-history.controller';
 import { PricesService } from './prices.service';
 import { PriceHistoryService } from './price-history.service';
 import { PriceHistoryInitializerService } from './price-history-initializer.service';
+import { FxRatesService } from './fx-rates.service';
 import { PricesGateway } from './websocket/prices.gateway';
 import { PriceAggregatorService } from './websocket/price-aggregator.service';
 import { BinanceStreamService } from './websocket/binance-stream.service';
@@ -19,11 +20,13 @@ import {
   PriceHistory,
   PriceHistorySchema,
 } from './schemas/price-history.schema';
+import { FxRate, FxRateSchema } from './schemas/fx-rate.schema';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: PriceHistory.name, schema: PriceHistorySchema },
+      { name: FxRate.name, schema: FxRateSchema },
     ]),
     EventEmitterModule.forRoot(),
     ExchangeCredentialsModule,
@@ -35,6 +38,7 @@ import {
     PricesService,
     PriceHistoryService,
     PriceHistoryInitializerService,
+    FxRatesService,
     PricesGateway,
     PriceAggregatorService,
     BinanceStreamService,
@@ -46,6 +50,7 @@ import {
     PriceAggregatorService,
     PriceHistoryService,
     PriceHistoryInitializerService,
+    FxRatesService,
   ],
 })
 export class PricesModule {}
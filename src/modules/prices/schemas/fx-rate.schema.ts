@@ -0,0 +1,21 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type FxRateDocument = FxRate & Document;
+
+@Schema({ timestamps: true, collection: 'fx_rates' })
+export class FxRate {
+  @Prop({ required: true })
+  currency: string; // "EUR", "ARS"
+
+  @Prop({ required: true })
+  date: string; // Format: YYYY-MM-DD (UTC day)
+
+  @Prop({ required: true, type: Number })
+  rate: number; // Units of `currency` per 1 USD at the day's close
+}
+
+export const FxRateSchema = SchemaFactory.createForClass(FxRate);
+
+// Daily closes never change, so there is no TTL
+FxRateSchema.index({ currency: 1, date: 1 }, { unique: true });
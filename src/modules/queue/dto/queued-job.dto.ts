@@ -0,0 +1,43 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  JobStatus,
+  JobType,
+} from '../../../common/constants/job-queue.constant';
+
+export class QueuedJobDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ enum: JobType })
+  type: JobType;
+
+  @ApiProperty({ enum: JobStatus })
+  status: JobStatus;
+
+  @ApiProperty({ type: Object })
+  payload: Record<string, unknown>;
+
+  @ApiProperty({ description: 'Times a worker started the job' })
+  attempts: number;
+
+  @ApiProperty()
+  cancelRequested: boolean;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiPropertyOptional()
+  startedAt?: Date;
+
+  @ApiPropertyOptional()
+  finishedAt?: Date;
+
+  @ApiPropertyOptional({
+    type: Object,
+    description: 'What the job returned once completed',
+  })
+  result?: Record<string, unknown>;
+
+  @ApiPropertyOptional()
+  error?: string;
+}
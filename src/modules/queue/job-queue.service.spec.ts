@@ -0,0 +1,183 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { JobQueueService, JobHandler } from './job-queue.service';
+import { QueuedJob, QueuedJobDocument } from './schemas/queued-job.schema';
+import { JobStatus, JobType } from '../../common/constants/job-queue.constant';
+import { FakeModel } from '../../../test/fake-model';
+
+describe('JobQueueService', () => {
+  const userId = new Types.ObjectId().toString();
+
+  let service: JobQueueService;
+  let jobs: FakeModel & { aggregate: jest.Mock };
+  let internals: {
+    claimNext: () => Promise<QueuedJobDocument | null>;
+    run: (job: QueuedJobDocument) => Promise<void>;
+    recoverExpired: () => Promise<void>;
+  };
+
+  const enqueue = (concurrencyKey = `sync:${userId}`, uniqueKey?: string) =>
+    service.enqueue(
+      userId,
+      JobType.SYNC,
+      { credentialId: 'c1' },
+      { concurrencyKey, uniqueKey },
+    );
+  const stored = (id: string) => jobs.docs.find((j) => j._id.toString() === id);
+
+  // Claim the next job and run it to the end with the given handler
+  const work = async (handler: JobHandler) => {
+    service.registerHandler(JobType.SYNC, handler);
+    const job = await internals.claimNext();
+    await internals.run(job);
+    return stored(job._id.toString());
+  };
+
+  beforeEach(async () => {
+    jobs = Object.assign(
+      new FakeModel([], { attempts: 0, cancelRequested: false }),
+      // Concurrency keys at their limit; none unless a test says otherwise
+      { aggregate: jest.fn().mockResolvedValue([]) },
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JobQueueService,
+        { provide: getModelToken(QueuedJob.name), useValue: jobs },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback: unknown) => fallback },
+        },
+      ],
+    }).compile();
+
+    service = module.get<JobQueueService>(JobQueueService);
+    internals = service as unknown as typeof internals;
+  });
+
+  describe('enqueue', () => {
+    it('returns the active job with the same unique key', async () => {
+      const first = await enqueue(undefined, 'sync:c1');
+      const second = await enqueue(undefined, 'sync:c1');
+
+      expect(second.id).toBe(first.id);
+      expect(jobs.docs).toHaveLength(1);
+    });
+
+    it('queues again once the earlier job finished', async () => {
+      const first = await enqueue(undefined, 'sync:c1');
+      stored(first.id).status = JobStatus.COMPLETED;
+
+      const second = await enqueue(undefined, 'sync:c1');
+
+      expect(second.id).not.toBe(first.id);
+      expect(second.status).toBe(JobStatus.QUEUED);
+    });
+  });
+
+  describe('worker', () => {
+    it('runs the handler and stores its result', async () => {
+      await enqueue();
+      const handler = jest.fn().mockResolvedValue({ synced: 4 });
+
+      const job = await work(handler);
+
+      expect(handler).toHaveBeenCalledWith(
+        { credentialId: 'c1' },
+        expect.objectContaining({ signal: expect.any(AbortSignal) }),
+      );
+      expect(job).toMatchObject({
+        status: JobStatus.COMPLETED,
+        result: { synced: 4 },
+        attempts: 1,
+      });
+      expect(job.finishedAt).toBeInstanceOf(Date);
+      expect(job.lockedBy).toBeUndefined();
+    });
+
+    it('fails the job with the error of the handler', async () => {
+      await enqueue();
+
+      const job = await work(() => Promise.reject(new Error('Rate limited')));
+
+      expect(job).toMatchObject({
+        status: JobStatus.FAILED,
+        error: 'Rate limited',
+      });
+    });
+
+    it('skips concurrency keys that are at their limit', async () => {
+      await enqueue('sync:busy');
+      const free = await enqueue('sync:free');
+      jobs.aggregate.mockResolvedValue([{ _id: 'sync:busy' }]);
+
+      const claimed = await internals.claimNext();
+
+      expect(claimed._id.toString()).toBe(free.id);
+      expect(claimed.status).toBe(JobStatus.RUNNING);
+    });
+
+    it('takes jobs of dead workers back, or fails them after three tries', async () => {
+      const retried = await enqueue('a');
+      const given = await enqueue('b');
+      const expired = {
+        status: JobStatus.RUNNING,
+        lockedBy: 'gone:1',
+        lockedUntil: new Date(Date.now() - 1000),
+      };
+      Object.assign(stored(retried.id), expired, { attempts: 1 });
+      Object.assign(stored(given.id), expired, { attempts: 3 });
+
+      await internals.recoverExpired();
+
+      expect(stored(retried.id).status).toBe(JobStatus.QUEUED);
+      expect(stored(retried.id).lockedBy).toBeUndefined();
+      expect(stored(given.id)).toMatchObject({
+        status: JobStatus.FAILED,
+        error: 'Worker stopped responding',
+      });
+    });
+  });
+
+  describe('cancel', () => {
+    it('cancels a queued job at once', async () => {
+      const queued = await enqueue();
+
+      const cancelled = await service.cancel(userId, queued.id);
+
+      expect(cancelled.status).toBe(JobStatus.CANCELLED);
+      expect(await internals.claimNext()).toBeNull();
+    });
+
+    it('stops a running job through its signal', async () => {
+      const queued = await enqueue();
+
+      const job = await work(
+        (_payload, { signal }) =>
+          new Promise((_resolve, reject) => {
+            signal.addEventListener('abort', () =>
+              reject(new Error('Recalculation cancelled')),
+            );
+            void service.cancel(userId, queued.id);
+          }),
+      );
+
+      expect(job).toMatchObject({
+        status: JobStatus.CANCELLED,
+        cancelRequested: true,
+      });
+    });
+
+    it('refuses jobs that already finished', async () => {
+      const queued = await enqueue();
+      stored(queued.id).status = JobStatus.COMPLETED;
+
+      await expect(service.cancel(userId, queued.id)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+});
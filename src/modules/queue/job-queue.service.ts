@@ -0,0 +1,386 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types, FilterQuery } from 'mongoose';
+import { hostname } from 'os';
+import { QueuedJob, QueuedJobDocument } from './schemas/queued-job.schema';
+import { QueuedJobDto } from './dto/queued-job.dto';
+import {
+  FINISHED_JOB_STATUSES,
+  JobStatus,
+  JobType,
+} from '../../common/constants/job-queue.constant';
+
+// A running job is handed to another worker when its lease runs out
+const JOB_LEASE_MS = 2 * 60 * 1000;
+
+// Jobs whose worker died this many times are failed instead of retried
+const MAX_JOB_ATTEMPTS = 3;
+
+export interface JobContext {
+  job: QueuedJobDocument;
+  // Aborted when the job is cancelled; handlers check it between steps and
+  // throw before saving anything further
+  signal: AbortSignal;
+}
+
+export type JobHandler = (
+  payload: Record<string, unknown>,
+  context: JobContext,
+) => Promise<object | void>;
+
+export interface EnqueueOptions {
+  concurrencyKey: string;
+  concurrencyLimit?: number;
+  uniqueKey?: string;
+}
+
+/**
+ * Mongo-backed queue for work too long for an HTTP request. Features
+ * register a handler per job type; every process with the worker enabled
+ * polls for queued jobs and keeps a lease on the ones it runs.
+ */
+@Injectable()
+export class JobQueueService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(JobQueueService.name);
+  private readonly workerId = `${hostname()}:${process.pid}`;
+  private readonly handlers = new Map<JobType, JobHandler>();
+  private readonly running = new Map<string, AbortController>();
+  private pollTimer?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(
+    @InjectModel(QueuedJob.name)
+    private jobModel: Model<QueuedJobDocument>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit(): void {
+    if (!this.configService.get<boolean>('queue.workerEnabled', true)) {
+      this.logger.log('Job queue worker is disabled');
+      return;
+    }
+    const interval = this.configService.get<number>(
+      'queue.pollIntervalMs',
+      2000,
+    );
+    this.pollTimer = setInterval(() => this.poll(), interval);
+  }
+
+  /**
+   * Hand the jobs of this process back to the queue so a restart picks
+   * them up without waiting for the lease to run out
+   */
+  async onModuleDestroy(): Promise<void> {
+    clearInterval(this.pollTimer);
+    if (this.running.size === 0) return;
+
+    for (const controller of this.running.values()) {
+      controller.abort();
+    }
+    await this.jobModel.updateMany(
+      { status: JobStatus.RUNNING, lockedBy: this.workerId },
+      {
+        $set: { status: JobStatus.QUEUED },
+        $unset: { lockedBy: 1, lockedUntil: 1 },
+      },
+    );
+  }
+
+  registerHandler(type: JobType, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  async enqueue(
+    userId: string,
+    type: JobType,
+    payload: Record<string, unknown>,
+    options: EnqueueOptions,
+  ): Promise<QueuedJobDto> {
+    if (options.uniqueKey) {
+      const active = await this.jobModel.findOne({
+        uniqueKey: options.uniqueKey,
+        status: { $in: [JobStatus.QUEUED, JobStatus.RUNNING] },
+        cancelRequested: false,
+      });
+      if (active) {
+        return this.toResponse(active);
+      }
+    }
+
+    const job = await this.jobModel.create({
+      userId: new Types.ObjectId(userId),
+      type,
+      payload,
+      status: JobStatus.QUEUED,
+      concurrencyKey: options.concurrencyKey,
+      concurrencyLimit: options.concurrencyLimit ?? 1,
+      uniqueKey: options.uniqueKey,
+    });
+    this.logger.log(`Queued ${type} job ${job._id} for user ${userId}`);
+    return this.toResponse(job);
+  }
+
+  async findAll(
+    userId: string,
+    status?: JobStatus,
+    limit = 50,
+  ): Promise<QueuedJobDto[]> {
+    const query: FilterQuery<QueuedJob> = {
+      userId: new Types.ObjectId(userId),
+    };
+    if (status) {
+      query.status = status;
+    }
+
+    const jobs = await this.jobModel
+      .find(query)
+      .sort({ createdAt: -1 })
+      .limit(limit);
+    return jobs.map((j) => this.toResponse(j));
+  }
+
+  async findOne(userId: string, jobId: string): Promise<QueuedJobDto> {
+    return this.toResponse(await this.findJob(userId, jobId));
+  }
+
+  /**
+   * Queued jobs are cancelled at once. Running ones are asked to stop and
+   * end as cancelled at the handler's next check.
+   */
+  async cancel(userId: string, jobId: string): Promise<QueuedJobDto> {
+    const job = await this.findJob(userId, jobId);
+    if (FINISHED_JOB_STATUSES.includes(job.status)) {
+      throw new BadRequestException(`Job is already ${job.status}`);
+    }
+
+    const cancelled = await this.jobModel.findOneAndUpdate(
+      { _id: job._id, status: JobStatus.QUEUED },
+      {
+        $set: {
+          status: JobStatus.CANCELLED,
+          cancelRequested: true,
+          finishedAt: new Date(),
+        },
+      },
+      { new: true },
+    );
+    if (cancelled) {
+      return this.toResponse(cancelled);
+    }
+
+    const requested = await this.jobModel.findOneAndUpdate(
+      { _id: job._id },
+      { $set: { cancelRequested: true } },
+      { new: true },
+    );
+    this.running.get(job._id.toString())?.abort();
+    return this.toResponse(requested);
+  }
+
+  toResponse(job: QueuedJobDocument): QueuedJobDto {
+    return {
+      id: job._id.toString(),
+      type: job.type,
+      status: job.status,
+      payload: job.payload,
+      attempts: job.attempts,
+      cancelRequested: job.cancelRequested,
+      createdAt: (job as QueuedJobDocument & { createdAt: Date }).createdAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
+      result: job.result,
+      error: job.error,
+    };
+  }
+
+  // ==================== WORKER ====================
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      await this.recoverExpired();
+
+      const concurrency = this.configService.get<number>(
+        'queue.concurrency',
+        3,
+      );
+      while (this.running.size < concurrency) {
+        const job = await this.claimNext();
+        if (!job) break;
+        void this.run(job);
+      }
+    } catch (error) {
+      this.logger.warn(`Job queue poll failed: ${error.message}`);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Jobs whose worker stopped renewing the lease (crash, restart) go back
+   * to the queue, or fail after too many attempts
+   */
+  private async recoverExpired(): Promise<void> {
+    const expired = {
+      status: JobStatus.RUNNING,
+      lockedUntil: { $lt: new Date() },
+    };
+    const unlock = { $unset: { lockedBy: 1, lockedUntil: 1 } };
+
+    await this.jobModel.updateMany(
+      { ...expired, cancelRequested: true },
+      {
+        $set: { status: JobStatus.CANCELLED, finishedAt: new Date() },
+        ...unlock,
+      },
+    );
+    await this.jobModel.updateMany(
+      { ...expired, attempts: { $gte: MAX_JOB_ATTEMPTS } },
+      {
+        $set: {
+          status: JobStatus.FAILED,
+          error: 'Worker stopped responding',
+          finishedAt: new Date(),
+        },
+        ...unlock,
+      },
+    );
+    const requeued = await this.jobModel.updateMany(expired, {
+      $set: { status: JobStatus.QUEUED },
+      ...unlock,
+    });
+    if (requeued.modifiedCount > 0) {
+      this.logger.warn(`Requeued ${requeued.modifiedCount} abandoned jobs`);
+    }
+  }
+
+  /**
+   * Oldest queued job whose concurrency key has room. Two workers claiming
+   * at the same moment can go one over a key's limit.
+   */
+  private async claimNext(): Promise<QueuedJobDocument | null> {
+    const full = await this.jobModel.aggregate<{ _id: string }>([
+      { $match: { status: JobStatus.RUNNING } },
+      {
+        $group: {
+          _id: '$concurrencyKey',
+          running: { $sum: 1 },
+          limit: { $max: '$concurrencyLimit' },
+        },
+      },
+      { $match: { $expr: { $gte: ['$running', '$limit'] } } },
+    ]);
+
+    const now = new Date();
+    return this.jobModel.findOneAndUpdate(
+      {
+        status: JobStatus.QUEUED,
+        concurrencyKey: { $nin: full.map((k) => k._id) },
+      },
+      {
+        $set: {
+          status: JobStatus.RUNNING,
+          lockedBy: this.workerId,
+          lockedUntil: new Date(now.getTime() + JOB_LEASE_MS),
+          startedAt: now,
+        },
+        $inc: { attempts: 1 },
+      },
+      { sort: { createdAt: 1 }, new: true },
+    );
+  }
+
+  private async run(job: QueuedJobDocument): Promise<void> {
+    const jobId = job._id.toString();
+    const controller = new AbortController();
+    this.running.set(jobId, controller);
+    const heartbeat = setInterval(
+      () => this.renewLease(job, controller),
+      JOB_LEASE_MS / 3,
+    );
+
+    const update: Partial<QueuedJob> = {};
+    try {
+      const handler = this.handlers.get(job.type);
+      if (!handler) {
+        throw new Error(`No handler registered for ${job.type} jobs`);
+      }
+      const result = await handler(job.payload, {
+        job,
+        signal: controller.signal,
+      });
+      // Handlers throw when they stop for a cancel; one that returned did
+      // all of its work
+      update.status = JobStatus.COMPLETED;
+      update.result = (result as Record<string, unknown>) ?? undefined;
+    } catch (error) {
+      update.status = controller.signal.aborted
+        ? JobStatus.CANCELLED
+        : JobStatus.FAILED;
+      update.error = error.message;
+      this.logger.warn(`${job.type} job ${jobId} failed: ${error.message}`);
+    } finally {
+      clearInterval(heartbeat);
+      this.running.delete(jobId);
+    }
+
+    // A worker that lost its lease leaves the job to whoever took it over
+    await this.jobModel.updateOne(
+      { _id: job._id, lockedBy: this.workerId, status: JobStatus.RUNNING },
+      {
+        $set: { ...update, finishedAt: new Date() },
+        $unset: { lockedBy: 1, lockedUntil: 1 },
+      },
+    );
+    this.logger.log(`${job.type} job ${jobId} ${update.status}`);
+  }
+
+  /**
+   * Extend the lease and pick up cancellation requested by another process
+   */
+  private async renewLease(
+    job: QueuedJobDocument,
+    controller: AbortController,
+  ): Promise<void> {
+    try {
+      const current = await this.jobModel.findOneAndUpdate(
+        { _id: job._id, lockedBy: this.workerId },
+        { $set: { lockedUntil: new Date(Date.now() + JOB_LEASE_MS) } },
+        { new: true },
+      );
+      if (!current || current.cancelRequested) {
+        controller.abort();
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to renew lease of job ${job._id}: ${error.message}`,
+      );
+    }
+  }
+
+  private async findJob(
+    userId: string,
+    jobId: string,
+  ): Promise<QueuedJobDocument> {
+    const job = Types.ObjectId.isValid(jobId)
+      ? await this.jobModel.findOne({
+          _id: new Types.ObjectId(jobId),
+          userId: new Types.ObjectId(userId),
+        })
+      : null;
+    if (!job) {
+      throw new NotFoundException('Job not found');
+    }
+    return job;
+  }
+}
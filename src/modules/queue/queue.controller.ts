@@ -0,0 +1,68 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  UseGuards,
+  ParseEnumPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { JobQueueService } from './job-queue.service';
+import { QueuedJobDto } from './dto/queued-job.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { JobStatus } from '../../common/constants/job-queue.constant';
+
+@ApiTags('jobs')
+@Controller('jobs')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class QueueController {
+  constructor(private readonly jobQueueService: JobQueueService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List recent background jobs, newest first' })
+  @ApiQuery({ name: 'status', required: false, enum: JobStatus })
+  @ApiResponse({ status: 200, type: [QueuedJobDto] })
+  async findAll(
+    @CurrentUser('userId') userId: string,
+    @Query('status', new ParseEnumPipe(JobStatus, { optional: true }))
+    status?: JobStatus,
+  ): Promise<QueuedJobDto[]> {
+    return this.jobQueueService.findAll(userId, status);
+  }
+
+  @Get(':jobId')
+  @ApiOperation({ summary: 'Get a background job' })
+  @ApiResponse({ status: 200, type: QueuedJobDto })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  async findOne(
+    @CurrentUser('userId') userId: string,
+    @Param('jobId') jobId: string,
+  ): Promise<QueuedJobDto> {
+    return this.jobQueueService.findOne(userId, jobId);
+  }
+
+  @Post(':jobId/cancel')
+  @ApiOperation({
+    summary: 'Cancel a background job',
+    description:
+      'A queued job is cancelled at once. A running job stops at its next checkpoint; what it already saved is kept.',
+  })
+  @ApiResponse({ status: 201, type: QueuedJobDto })
+  @ApiResponse({ status: 400, description: 'Job already finished' })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  async cancel(
+    @CurrentUser('userId') userId: string,
+    @Param('jobId') jobId: string,
+  ): Promise<QueuedJobDto> {
+    return this.jobQueueService.cancel(userId, jobId);
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { QueuedJob, QueuedJobSchema } from './schemas/queued-job.schema';
+import { QueueController } from './queue.controller';
+import { JobQueueService } from './job-queue.service';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: QueuedJob.name, schema: QueuedJobSchema },
+    ]),
+  ],
+  controllers: [QueueController],
+  providers: [JobQueueService],
+  exports: [JobQueueService],
+})
+export class QueueModule {}
@@ -0,0 +1,77 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import {
+  JobStatus,
+  JobType,
+} from '../../../common/constants/job-queue.constant';
+
+export type QueuedJobDocument = QueuedJob & Document;
+
+// Finished jobs are removed after this long
+const FINISHED_JOB_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Long-running work requested over HTTP. Kept in Mongo so queued jobs and
+ * jobs of a worker that died are picked up again after a restart.
+ */
+@Schema({ timestamps: true, collection: 'queued_jobs' })
+export class QueuedJob {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true, enum: JobType })
+  type: JobType;
+
+  @Prop({ type: Object, default: {} })
+  payload: Record<string, unknown>;
+
+  @Prop({ required: true, enum: JobStatus })
+  status: JobStatus;
+
+  // At most `concurrencyLimit` running jobs share a key, e.g. one exchange
+  @Prop({ required: true })
+  concurrencyKey: string;
+
+  @Prop({ type: Number, default: 1 })
+  concurrencyLimit: number;
+
+  // While a job with this key is queued or running, the same request
+  // returns that job instead of queueing another
+  @Prop()
+  uniqueKey?: string;
+
+  @Prop({ type: Number, default: 0 })
+  attempts: number;
+
+  @Prop({ default: false })
+  cancelRequested: boolean;
+
+  // Worker running the job and until when its lease holds
+  @Prop()
+  lockedBy?: string;
+
+  @Prop()
+  lockedUntil?: Date;
+
+  @Prop()
+  startedAt?: Date;
+
+  @Prop()
+  finishedAt?: Date;
+
+  @Prop({ type: Object })
+  result?: Record<string, unknown>;
+
+  @Prop()
+  error?: string;
+}
+
+export const QueuedJobSchema = SchemaFactory.createForClass(QueuedJob);
+
+QueuedJobSchema.index({ status: 1, createdAt: 1 });
+QueuedJobSchema.index({ userId: 1, createdAt: -1 });
+QueuedJobSchema.index({ uniqueKey: 1, status: 1 });
+QueuedJobSchema.index(
+  { finishedAt: 1 },
+  { expireAfterSeconds: FINISHED_JOB_TTL_SECONDS },
+);
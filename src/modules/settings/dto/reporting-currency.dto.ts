@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum } from 'class-validator';
+import { ReportingCurrency } from '../../../common/constants/currencies.constant';
+
+export class UpdateReportingCurrencyDto {
+  @ApiProperty({
+    enum: ReportingCurrency,
+    example: ReportingCurrency.EUR,
+    description: 'Currency that balances, snapshots and P&L are reported in',
+  })
+  @IsEnum(ReportingCurrency)
+  currency: ReportingCurrency;
+}
+
+export class ReportingCurrencyResponseDto {
+  @ApiProperty({ enum: ReportingCurrency, example: ReportingCurrency.USD })
+  currency: ReportingCurrency;
+
+  @ApiProperty({
+    enum: ReportingCurrency,
+    isArray: true,
+    example: Object.values(ReportingCurrency),
+  })
+  available: ReportingCurrency[];
+}
@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { ReportingCurrency } from '../../../common/constants/currencies.constant';
 
 export type PricingSettingsDocument = PricingSettings & Document;
 
@@ -15,6 +16,10 @@ export class PricingSettings {
   // NEW - symbols per exchange
   @Prop({ type: Object, default: {} })
   symbolsByExchange: Record<string, string[]>;
+
+  // Currency that balances, snapshots and P&L are reported in
+  @Prop({ enum: ReportingCurrency, default: ReportingCurrency.USD })
+  reportingCurrency: ReportingCurrency;
 }
 
 export const PricingSettingsSchema =
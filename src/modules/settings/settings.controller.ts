@@ -22,10 +22,15 @@ import {
   ExchangeSymbolsResponseDto,
   AllSymbolsResponseDto,
 } from './dto/update-symbols.dto';
+import {
+  UpdateReportingCurrencyDto,
+  ReportingCurrencyResponseDto,
+} from './dto/reporting-currency.dto';
 import { AvailableSymbolsResponseDto } from '../exchange-credentials/dto/available-symbols.dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { ExchangeType } from '../../common/constants/exchanges.constant';
+import { ReportingCurrency } from '../../common/constants/currencies.constant';
 
 @ApiTags('settings')
 @Controller('settings')
@@ -99,4 +104,34 @@ export class SettingsController {
     );
     return { exchange, symbols };
   }
+
+  // Get the reporting currency
+  @Get('reporting-currency')
+  @ApiOperation({ summary: 'Get the currency values are reported in' })
+  @ApiResponse({ status: 200, type: ReportingCurrencyResponseDto })
+  async getReportingCurrency(
+    @CurrentUser('userId') userId: string,
+  ): Promise<ReportingCurrencyResponseDto> {
+    const currency = await this.settingsService.getReportingCurrency(userId);
+    return { currency, available: Object.values(ReportingCurrency) };
+  }
+
+  // Update the reporting currency
+  @Put('reporting-currency')
+  @ApiOperation({
+    summary: 'Update the currency values are reported in',
+    description:
+      'Balances, snapshots, chart data and P&L are converted from USD at the exchange rate of the day each value refers to.',
+  })
+  @ApiResponse({ status: 200, type: ReportingCurrencyResponseDto })
+  async updateReportingCurrency(
+    @CurrentUser('userId') userId: string,
+    @Body() dto: UpdateReportingCurrencyDto,
+  ): Promise<ReportingCurrencyResponseDto> {
+    const currency = await this.settingsService.updateReportingCurrency(
+      userId,
+      dto.currency,
+    );
+    return { currency, available: Object.values(ReportingCurrency) };
+  }
 }
@@ -6,6 +6,7 @@ import {
   PricingSettings,
   PricingSettingsDocument,
 } from './schemas/pricing-settings.schema';
+import { ReportingCurrency } from '../../common/constants/currencies.constant';
 
 @Injectable()
 export class SettingsService {
@@ -165,4 +166,36 @@ export class SettingsService {
 
     return baseAssets;
   }
+
+  // ============ Reporting Currency ============
+
+  /**
+   * Get the currency the user's values are reported in
+   */
+  async getReportingCurrency(userId: string): Promise<ReportingCurrency> {
+    const settings = await this.settingsModel.findOne({
+      userId: new Types.ObjectId(userId),
+    });
+    return settings?.reportingCurrency || ReportingCurrency.USD;
+  }
+
+  /**
+   * Update the reporting currency
+   */
+  async updateReportingCurrency(
+    userId: string,
+    currency: ReportingCurrency,
+  ): Promise<ReportingCurrency> {
+    const result = await this.settingsModel.findOneAndUpdate(
+      { userId: new Types.ObjectId(userId) },
+      { $set: { reportingCurrency: currency } },
+      { upsert: true, new: true },
+    );
+
+    this.logger.log(
+      `Updated reporting currency for user ${userId}: ${currency}`,
+    );
+
+    return result.reportingCurrency;
+  }
 }
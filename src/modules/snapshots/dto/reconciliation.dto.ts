@@ -0,0 +1,109 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsMongoId, IsOptional } from 'class-validator';
+import { TransactionType } from '../../../common/constants/transaction-types.constant';
+
+export class ReconciliationQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only this exchange account. Defaults to all of them',
+  })
+  @IsOptional()
+  @IsMongoId()
+  credentialId?: string;
+}
+
+export class MissingTransactionDto {
+  @ApiProperty({
+    enum: [TransactionType.DEPOSIT, TransactionType.WITHDRAWAL],
+    description:
+      'deposit: something added coins (deposit, buy, interest); withdrawal: something took them (withdrawal, sell, fee)',
+  })
+  type: TransactionType;
+
+  @ApiProperty()
+  asset: string;
+
+  @ApiProperty()
+  amount: number;
+
+  @ApiPropertyOptional({
+    example: '2024-02-28',
+    description: 'Missing transaction is after this date',
+  })
+  after?: string;
+
+  @ApiPropertyOptional({
+    example: '2024-03-01',
+    description: 'Missing transaction is on or before this date',
+  })
+  before?: string;
+
+  @ApiProperty()
+  reason: string;
+}
+
+export class AssetReconciliationDto {
+  @ApiProperty()
+  asset: string;
+
+  @ApiProperty({ description: 'Balance reported by the exchange' })
+  liveBalance: number;
+
+  @ApiProperty({ description: 'Running balance of the transactions' })
+  computedBalance: number;
+
+  @ApiProperty({ description: 'Live minus computed balance' })
+  difference: number;
+
+  @ApiProperty()
+  reconciled: boolean;
+
+  @ApiPropertyOptional({
+    example: '2024-02-28',
+    description:
+      'Last daily snapshot where the exchange agreed with the history',
+  })
+  lastMatchedAt?: string;
+
+  @ApiPropertyOptional({
+    example: '2024-03-01',
+    description:
+      'First day the computed balance is known to be wrong: the first disagreeing snapshot after the last agreeing one, or the day it went negative',
+  })
+  divergedAt?: string;
+
+  @ApiProperty({ type: [MissingTransactionDto] })
+  suggestions: MissingTransactionDto[];
+}
+
+export class CredentialReconciliationDto {
+  @ApiProperty()
+  credentialId: string;
+
+  @ApiProperty()
+  exchange: string;
+
+  @ApiProperty()
+  label: string;
+
+  @ApiProperty({ description: 'Every asset matches' })
+  reconciled: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Why live balances could not be fetched',
+  })
+  error?: string;
+
+  @ApiProperty({ type: [AssetReconciliationDto] })
+  assets: AssetReconciliationDto[];
+}
+
+export class ReconciliationReportDto {
+  @ApiProperty()
+  generatedAt: Date;
+
+  @ApiProperty({ description: 'Assets that do not match, over all accounts' })
+  discrepancies: number;
+
+  @ApiProperty({ type: [CredentialReconciliationDto] })
+  credentials: CredentialReconciliationDto[];
+}
@@ -0,0 +1,100 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, Matches } from 'class-validator';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class ReturnsQueryDto {
+  @ApiPropertyOptional({
+    example: '2024-01-01',
+    description: 'Start date (YYYY-MM-DD). Defaults to the first snapshot.',
+  })
+  @IsOptional()
+  @Matches(DATE_PATTERN, { message: 'from must be a YYYY-MM-DD date' })
+  from?: string;
+
+  @ApiPropertyOptional({
+    example: '2024-12-31',
+    description: 'End date (YYYY-MM-DD). Defaults to the latest snapshot.',
+  })
+  @IsOptional()
+  @Matches(DATE_PATTERN, { message: 'to must be a YYYY-MM-DD date' })
+  to?: string;
+}
+
+export class ReturnSeriesDto {
+  @ApiProperty({ description: 'Value at the start snapshot' })
+  startValue: number;
+
+  @ApiProperty({ description: 'Value at the end snapshot' })
+  endValue: number;
+
+  @ApiProperty({ description: 'Contributions minus withdrawals in the range' })
+  netFlows: number;
+
+  @ApiProperty({ description: 'Value change not explained by cash flows' })
+  gain: number;
+
+  @ApiProperty({
+    example: 0.12,
+    description: 'Time-weighted return over the range (0.12 = 12%)',
+  })
+  twr: number;
+
+  @ApiProperty({
+    nullable: true,
+    description: 'Annualized TWR, null for ranges shorter than a year',
+  })
+  twrAnnualized: number | null;
+
+  @ApiProperty({
+    nullable: true,
+    description:
+      'Money-weighted return (IRR) over the range, null when it has no solution',
+  })
+  mwr: number | null;
+
+  @ApiProperty({
+    nullable: true,
+    description: 'Annualized IRR, null for ranges shorter than a year',
+  })
+  mwrAnnualized: number | null;
+}
+
+export class AssetReturnDto extends ReturnSeriesDto {
+  @ApiProperty({ example: 'BTC' })
+  asset: string;
+}
+
+export class ExchangeReturnDto extends ReturnSeriesDto {
+  @ApiProperty({ example: 'binance' })
+  exchange: string;
+
+  @ApiProperty({ example: 'Mi cuenta Binance' })
+  label: string;
+
+  @ApiProperty()
+  credentialId: string;
+}
+
+export class PortfolioReturnsDto {
+  @ApiProperty({ example: '2024-01-01', description: 'Start snapshot date' })
+  from: string;
+
+  @ApiProperty({ example: '2024-12-31', description: 'End snapshot date' })
+  to: string;
+
+  @ApiProperty()
+  days: number;
+
+  @ApiProperty({ example: 'USD', description: 'Currency of the values' })
+  currency: string;
+
+  @ApiProperty({ type: ReturnSeriesDto })
+  total: ReturnSeriesDto;
+
+  @ApiProperty({ type: [AssetReturnDto] })
+  byAsset: AssetReturnDto[];
+
+  @ApiProperty({ type: [ExchangeReturnDto] })
+  byExchange: ExchangeReturnDto[];
+}
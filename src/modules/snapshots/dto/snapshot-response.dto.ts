@@ -52,6 +52,12 @@ export class SnapshotResponseDto {
 
   @ApiProperty()
   pricesAtSnapshot: Record<string, number>;
+
+  @ApiProperty({
+    example: 'USD',
+    description: 'Reporting currency of the values',
+  })
+  currency: string;
 }
 
 export class SnapshotCompareDto {
@@ -80,6 +86,12 @@ export class SnapshotCompareDto {
     toAmount: number;
     change: number;
   }>;
+
+  @ApiProperty({
+    example: 'USD',
+    description: 'Reporting currency of the values',
+  })
+  currency: string;
 }
 
 export class ChartDataResponseDto {
@@ -97,6 +109,12 @@ export class ChartDataResponseDto {
 
   @ApiProperty({ description: 'Timeframe: 24h, 7d, 1m, 1y' })
   timeframe: string;
+
+  @ApiProperty({
+    example: 'USD',
+    description: 'Reporting currency of the values',
+  })
+  currency: string;
 }
 
 export class AssetChartDataDto {
@@ -128,6 +146,12 @@ export class ChartDataByAssetResponseDto {
 
   @ApiProperty({ type: [String], description: 'All available assets in the data' })
   availableAssets: string[];
+
+  @ApiProperty({
+    example: 'USD',
+    description: 'Reporting currency of the values',
+  })
+  currency: string;
 }
 
 export class Pnl24hResponseDto {
@@ -142,6 +166,12 @@ export class Pnl24hResponseDto {
 
   @ApiProperty({ description: 'Percentage change' })
   changePercent: number;
+
+  @ApiProperty({
+    example: 'USD',
+    description: 'Reporting currency of the values',
+  })
+  currency: string;
 }
 
 export class RebuildHistoryRequestDto {
@@ -0,0 +1,313 @@
+import { Injectable, Logger, Inject, forwardRef } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  DailySnapshot,
+  DailySnapshotDocument,
+} from './schemas/daily-snapshot.schema';
+import {
+  AssetReconciliationDto,
+  CredentialReconciliationDto,
+  MissingTransactionDto,
+  ReconciliationReportDto,
+} from './dto/reconciliation.dto';
+import { SnapshotsService } from './snapshots.service';
+import { BalancesService } from '../balances/balances.service';
+import { ExchangeCredentialsService } from '../exchange-credentials/exchange-credentials.service';
+import { ExchangeCredentialDocument } from '../exchange-credentials/schemas/exchange-credential.schema';
+import { TransactionsService } from '../transactions/transactions.service';
+import { TransactionDocument } from '../transactions/schemas/transaction.schema';
+import { OFFLINE_EXCHANGES } from '../../common/constants/exchanges.constant';
+import { TransactionType } from '../../common/constants/transaction-types.constant';
+
+// Balances this close to zero are dust
+const DUST = 0.00000001;
+
+// Relative slack for exchanges that round balances
+const RECONCILIATION_TOLERANCE = 0.001;
+
+/**
+ * Computed balance of an asset at the end of each day it changed
+ */
+interface BalancePoint {
+  date: string;
+  balance: number;
+}
+
+interface ReplayedHistory {
+  balances: Map<string, number>;
+  points: Map<string, BalancePoint[]>;
+  // Lowest running balance below zero and the day it first went negative
+  negative: Map<string, { firstDate: string; lowest: number }>;
+}
+
+/**
+ * Compares the balances exchanges report with the running balance of each
+ * account's transactions, the one `SnapshotsService.rebuildHistory` uses.
+ * Daily snapshots taken from live balances date the divergence.
+ */
+@Injectable()
+export class ReconciliationService {
+  private readonly logger = new Logger(ReconciliationService.name);
+
+  constructor(
+    @InjectModel(DailySnapshot.name)
+    private snapshotModel: Model<DailySnapshotDocument>,
+    private readonly snapshotsService: SnapshotsService,
+    private readonly balancesService: BalancesService,
+    private readonly credentialsService: ExchangeCredentialsService,
+    @Inject(forwardRef(() => TransactionsService))
+    private readonly transactionsService: TransactionsService,
+  ) {}
+
+  /**
+   * Accounts without an exchange API are left out: their balances are
+   * computed from the same transactions.
+   */
+  async getReport(
+    userId: string,
+    credentialId?: string,
+  ): Promise<ReconciliationReportDto> {
+    const credentials = credentialId
+      ? [await this.credentialsService.findById(credentialId, userId)]
+      : await this.credentialsService.findActiveByUser(userId);
+
+    const results: CredentialReconciliationDto[] = [];
+    for (const credential of credentials) {
+      if (OFFLINE_EXCHANGES.includes(credential.exchange)) continue;
+      results.push(await this.reconcileCredential(userId, credential));
+    }
+
+    const discrepancies = results.reduce(
+      (sum, c) => sum + c.assets.filter((a) => !a.reconciled).length,
+      0,
+    );
+    if (discrepancies > 0) {
+      this.logger.log(
+        `Found ${discrepancies} balance discrepancies for user ${userId}`,
+      );
+    }
+
+    return {
+      generatedAt: new Date(),
+      discrepancies,
+      credentials: results,
+    };
+  }
+
+  // ==================== PRIVATE METHODS ====================
+
+  private async reconcileCredential(
+    userId: string,
+    credential: ExchangeCredentialDocument,
+  ): Promise<CredentialReconciliationDto> {
+    const result: CredentialReconciliationDto = {
+      credentialId: credential._id.toString(),
+      exchange: credential.exchange,
+      label: credential.label,
+      reconciled: true,
+      assets: [],
+    };
+
+    const live = new Map<string, number>();
+    try {
+      const balances = await this.balancesService.getBalancesForCredential(
+        credential._id.toString(),
+        userId,
+      );
+      for (const balance of balances) {
+        const asset = this.balancesService.normalizeAsset(balance.asset);
+        live.set(asset, (live.get(asset) || 0) + balance.total);
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to fetch balances for credential ${credential._id}: ${error.message}`,
+      );
+      return { ...result, reconciled: false, error: error.message };
+    }
+
+    const [transactions, snapshots] = await Promise.all([
+      this.transactionsService.findByCredential(
+        credential._id.toString(),
+        userId,
+      ),
+      this.snapshotModel
+        .find({
+          userId: new Types.ObjectId(userId),
+          'exchangeBalances.credentialId': credential._id,
+        })
+        .sort({ date: 1 })
+        .select('date exchangeBalances')
+        .lean(),
+    ]);
+    const history = this.replay(transactions);
+
+    const assets = new Set([...live.keys(), ...history.balances.keys()]);
+    for (const asset of assets) {
+      const liveBalance = live.get(asset) || 0;
+      const computedBalance = history.balances.get(asset) || 0;
+      if (Math.abs(liveBalance) <= DUST && Math.abs(computedBalance) <= DUST) {
+        continue;
+      }
+
+      const liveHistory = snapshots.map((snapshot) => ({
+        date: snapshot.date,
+        balance: snapshot.exchangeBalances
+          .filter((eb) => credential._id.equals(eb.credentialId))
+          .flatMap((eb) => eb.balances)
+          .filter((b) => b.asset === asset)
+          .reduce((sum, b) => sum + b.amount, 0),
+      }));
+
+      result.assets.push(
+        this.reconcileAsset(
+          asset,
+          liveBalance,
+          computedBalance,
+          history.points.get(asset) || [],
+          history.negative.get(asset),
+          liveHistory,
+        ),
+      );
+    }
+
+    result.assets.sort(
+      (a, b) =>
+        Number(a.reconciled) - Number(b.reconciled) ||
+        a.asset.localeCompare(b.asset),
+    );
+    result.reconciled = result.assets.every((a) => a.reconciled);
+    return result;
+  }
+
+  private reconcileAsset(
+    asset: string,
+    liveBalance: number,
+    computedBalance: number,
+    points: BalancePoint[],
+    negative: { firstDate: string; lowest: number } | undefined,
+    liveHistory: BalancePoint[],
+  ): AssetReconciliationDto {
+    const difference = liveBalance - computedBalance;
+    const result: AssetReconciliationDto = {
+      asset,
+      liveBalance,
+      computedBalance,
+      difference,
+      reconciled: this.matches(liveBalance, computedBalance),
+      suggestions: [],
+    };
+
+    // The last snapshot that agreed, then the first one after it that didn't
+    let disagreedAt: string | undefined;
+    for (const snapshot of liveHistory) {
+      const computed = this.balanceAt(points, snapshot.date);
+      if (this.matches(snapshot.balance, computed)) {
+        result.lastMatchedAt = snapshot.date;
+        disagreedAt = undefined;
+      } else if (!disagreedAt) {
+        disagreedAt = snapshot.date;
+      }
+    }
+    if (result.reconciled && !negative) {
+      return result;
+    }
+
+    result.divergedAt = negative?.firstDate;
+    if (disagreedAt && (!negative || disagreedAt < negative.firstDate)) {
+      result.divergedAt = disagreedAt;
+    }
+
+    // Coins can't go below zero: something brought them in before that day
+    let explained = 0;
+    if (negative) {
+      explained = -negative.lowest;
+      result.suggestions.push({
+        type: TransactionType.DEPOSIT,
+        asset,
+        amount: explained,
+        before: negative.firstDate,
+        reason: `Computed balance goes negative on ${negative.firstDate}`,
+      });
+    }
+
+    const remaining = difference - explained;
+    if (!this.matches(liveBalance, computedBalance + explained)) {
+      const suggestion: MissingTransactionDto = {
+        type:
+          remaining > 0 ? TransactionType.DEPOSIT : TransactionType.WITHDRAWAL,
+        asset,
+        amount: Math.abs(remaining),
+        reason:
+          remaining > 0
+            ? 'Exchange reports more than the transactions add up to'
+            : 'Exchange reports less than the transactions add up to',
+      };
+      if (disagreedAt) {
+        suggestion.after = result.lastMatchedAt;
+        suggestion.before = disagreedAt;
+      }
+      result.suggestions.push(suggestion);
+    }
+
+    return result;
+  }
+
+  /**
+   * Running balances per asset with the same rules as the rebuilt history
+   */
+  private replay(transactions: TransactionDocument[]): ReplayedHistory {
+    const balances = new Map<string, number>();
+    const points = new Map<string, BalancePoint[]>();
+    const negative = new Map<string, { firstDate: string; lowest: number }>();
+
+    const closeDay = (date: string) => {
+      for (const [asset, balance] of balances) {
+        const assetPoints = points.get(asset) || [];
+        const last = assetPoints[assetPoints.length - 1];
+        if (last?.balance === balance) continue;
+        assetPoints.push({ date, balance });
+        points.set(asset, assetPoints);
+
+        if (balance < -DUST) {
+          const current = negative.get(asset);
+          negative.set(asset, {
+            firstDate: current?.firstDate ?? date,
+            lowest: Math.min(current?.lowest ?? 0, balance),
+          });
+        }
+      }
+    };
+
+    let day: string | undefined;
+    for (const tx of transactions) {
+      const date = tx.timestamp.toISOString().split('T')[0];
+      if (day && date !== day) {
+        closeDay(day);
+      }
+      day = date;
+      this.snapshotsService.applyTransaction(balances, tx);
+    }
+    if (day) {
+      closeDay(day);
+    }
+
+    return { balances, points, negative };
+  }
+
+  private balanceAt(points: BalancePoint[], date: string): number {
+    let balance = 0;
+    for (const point of points) {
+      if (point.date > date) break;
+      balance = point.balance;
+    }
+    return balance;
+  }
+
+  private matches(live: number, computed: number): boolean {
+    const tolerance =
+      Math.max(Math.abs(live), Math.abs(computed)) * RECONCILIATION_TOLERANCE +
+      DUST;
+    return Math.abs(live - computed) <= tolerance;
+  }
+}
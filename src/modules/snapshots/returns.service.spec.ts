@@ -0,0 +1,130 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ReturnsService } from './returns.service';
+import { DailySnapshot } from './schemas/daily-snapshot.schema';
+import { TransactionsService } from '../transactions/transactions.service';
+import { PnlService } from '../pnl/pnl.service';
+import { FxRatesService } from '../prices/fx-rates.service';
+import { ReturnSeriesDto } from './dto/returns.dto';
+
+interface CashFlow {
+  index: number;
+  date: string;
+  value: number;
+}
+
+describe('ReturnsService', () => {
+  let service: ReturnsService;
+  let internals: {
+    solveIrr: (cashFlows: { years: number; amount: number }[]) => number | null;
+    computeSeries: (
+      dates: string[],
+      values: number[],
+      flows: CashFlow[],
+    ) => ReturnSeriesDto;
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReturnsService,
+        { provide: getModelToken(DailySnapshot.name), useValue: {} },
+        { provide: TransactionsService, useValue: {} },
+        { provide: PnlService, useValue: {} },
+        { provide: FxRatesService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<ReturnsService>(ReturnsService);
+    internals = service as unknown as typeof internals;
+  });
+
+  describe('solveIrr', () => {
+    it('finds the rate of a single investment held for a year', () => {
+      const irr = internals.solveIrr([
+        { years: 0, amount: -100 },
+        { years: 1, amount: 110 },
+      ]);
+
+      expect(irr).toBeCloseTo(0.1, 6);
+    });
+
+    it('finds negative rates', () => {
+      const irr = internals.solveIrr([
+        { years: 0, amount: -100 },
+        { years: 2, amount: 81 },
+      ]);
+
+      expect(irr).toBeCloseTo(-0.1, 6);
+    });
+
+    it('solves very high annualized rates of short ranges', () => {
+      const irr = internals.solveIrr([
+        { years: 0, amount: -100 },
+        { years: 0.1, amount: 200 },
+      ]);
+
+      expect(irr).toBeCloseTo(Math.pow(2, 10) - 1, 2);
+    });
+
+    it('returns null without a sign change', () => {
+      expect(
+        internals.solveIrr([
+          { years: 0, amount: 100 },
+          { years: 1, amount: 110 },
+        ]),
+      ).toBeNull();
+      expect(
+        internals.solveIrr([
+          { years: 0, amount: 0 },
+          { years: 1, amount: 0 },
+        ]),
+      ).toBeNull();
+    });
+  });
+
+  describe('computeSeries', () => {
+    it('matches TWR and MWR without flows', () => {
+      const series = internals.computeSeries(
+        ['2023-01-01', '2023-07-02', '2024-01-01'],
+        [1000, 1500, 1200],
+        [],
+      );
+
+      expect(series.gain).toBeCloseTo(200);
+      expect(series.twr).toBeCloseTo(0.2);
+      expect(series.mwr).toBeCloseTo(0.2, 6);
+      expect(series.twrAnnualized).toBeCloseTo(0.2);
+      expect(series.mwrAnnualized).toBeCloseTo(0.2, 6);
+    });
+
+    it('takes deposits out of the gain and the time-weighted return', () => {
+      // Value doubles in the first half, then a deposit of 1000 keeps its value
+      const series = internals.computeSeries(
+        ['2023-01-01', '2023-07-02', '2024-01-01'],
+        [1000, 2000, 3000],
+        [{ index: 2, date: '2023-07-02', value: 1000 }],
+      );
+
+      expect(series.netFlows).toBe(1000);
+      expect(series.gain).toBeCloseTo(1000);
+      expect(series.twr).toBeCloseTo(1);
+      // Half of the money was only invested after the gain was made
+      expect(series.mwr).toBeLessThan(series.twr);
+      expect(series.mwr).toBeGreaterThan(0);
+    });
+
+    it('does not annualize ranges shorter than a year', () => {
+      const series = internals.computeSeries(
+        ['2024-01-01', '2024-02-01'],
+        [1000, 1100],
+        [],
+      );
+
+      expect(series.twr).toBeCloseTo(0.1);
+      expect(series.mwr).toBeCloseTo(0.1, 6);
+      expect(series.twrAnnualized).toBeNull();
+      expect(series.mwrAnnualized).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,407 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  forwardRef,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  DailySnapshot,
+  DailySnapshotDocument,
+} from './schemas/daily-snapshot.schema';
+import {
+  AssetReturnDto,
+  ExchangeReturnDto,
+  PortfolioReturnsDto,
+  ReturnSeriesDto,
+} from './dto/returns.dto';
+import { TransactionsService } from '../transactions/transactions.service';
+import { TransactionDocument } from '../transactions/schemas/transaction.schema';
+import { PnlService } from '../pnl/pnl.service';
+import { FxRatesService } from '../prices/fx-rates.service';
+import { TransactionType } from '../../common/constants/transaction-types.constant';
+import { TransferMatchStatus } from '../../common/constants/transfer-match-status.constant';
+import { ReportingCurrency } from '../../common/constants/currencies.constant';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365;
+
+// Assets whose USD price is 1 when a snapshot has no price for them
+const USD_ASSETS = new Set(['USD', 'USDT', 'USDC', 'BUSD']);
+
+const IRR_MAX_ITERATIONS = 200;
+const IRR_TOLERANCE = 1e-10;
+
+/**
+ * Money moving into (positive) or out of (negative) a portfolio slice,
+ * booked in the period that ends at snapshot `index`
+ */
+interface CashFlow {
+  index: number;
+  date: string;
+  value: number;
+}
+
+/**
+ * Portfolio performance from daily snapshots and external cash flows.
+ * Deposits and withdrawals are flows for the whole portfolio, except
+ * transfers between the user's own exchanges. Those are flows only for the
+ * exchanges involved. Trades are flows between the assets of a trade.
+ */
+@Injectable()
+export class ReturnsService {
+  private readonly logger = new Logger(ReturnsService.name);
+
+  constructor(
+    @InjectModel(DailySnapshot.name)
+    private snapshotModel: Model<DailySnapshotDocument>,
+    @Inject(forwardRef(() => TransactionsService))
+    private readonly transactionsService: TransactionsService,
+    private readonly pnlService: PnlService,
+    private readonly fxRatesService: FxRatesService,
+  ) {}
+
+  /**
+   * TWR and MWR between two dates, for the portfolio, each asset and each
+   * exchange account. The range starts at the last snapshot on or before
+   * `from` and ends at the last snapshot on or before `to`.
+   */
+  async getReturns(
+    userId: string,
+    from?: string,
+    to?: string,
+    currency: ReportingCurrency = ReportingCurrency.USD,
+  ): Promise<PortfolioReturnsDto> {
+    const snapshots = await this.findSnapshots(userId, from, to);
+    const first = snapshots[0];
+    const last = snapshots[snapshots.length - 1];
+    const dates = snapshots.map((s) => s.date);
+
+    // Flows on the start day are already in the start snapshot
+    const [transactions, transfers, rates] = await Promise.all([
+      this.transactionsService.findByTypes(
+        userId,
+        [
+          TransactionType.DEPOSIT,
+          TransactionType.WITHDRAWAL,
+          TransactionType.TRADE,
+        ],
+        undefined,
+        new Date(Date.parse(first.date) + DAY_MS),
+        new Date(Date.parse(last.date) + DAY_MS - 1),
+      ),
+      this.pnlService.getTransferMatches(userId),
+      this.fxRatesService.getRates(
+        currency,
+        dates.map((date) => new Date(date)),
+      ),
+    ]);
+    const rateOn = (date: string) => rates.get(date) ?? 1;
+
+    const transferTxIds = new Set<string>();
+    for (const match of transfers) {
+      if (match.status === TransferMatchStatus.REJECTED) continue;
+      transferTxIds.add(match.withdrawalId);
+      transferTxIds.add(match.depositId);
+    }
+
+    const totalFlows: CashFlow[] = [];
+    const assetFlows = new Map<string, CashFlow[]>();
+    const exchangeFlows = new Map<string, CashFlow[]>();
+    const addFlow = (
+      flows: Map<string, CashFlow[]>,
+      key: string,
+      flow: CashFlow,
+    ) => flows.set(key, [...(flows.get(key) || []), flow]);
+
+    for (const tx of transactions) {
+      const day = tx.timestamp.toISOString().split('T')[0];
+      const index = dates.findIndex((date) => date >= day);
+      if (index <= 0) continue;
+      const flowAt = (value: number): CashFlow => ({
+        index,
+        date: day,
+        value: value * rateOn(dates[index]),
+      });
+
+      if (tx.type === TransactionType.TRADE) {
+        for (const leg of this.getTradeLegs(tx, snapshots, index)) {
+          addFlow(assetFlows, leg.asset, flowAt(leg.value));
+        }
+        continue;
+      }
+
+      const sign = tx.type === TransactionType.DEPOSIT ? 1 : -1;
+      const flow = flowAt(
+        sign * Math.abs(tx.amount) * this.getPrice(tx.asset, snapshots, index),
+      );
+
+      // Transfers between own exchanges only move value between accounts
+      addFlow(exchangeFlows, tx.credentialId.toString(), flow);
+      if (!transferTxIds.has(tx._id.toString())) {
+        totalFlows.push(flow);
+        addFlow(assetFlows, tx.asset, flow);
+      }
+    }
+
+    const total = this.computeSeries(
+      dates,
+      snapshots.map((s) => (s.totalValueUsd || 0) * rateOn(s.date)),
+      totalFlows,
+    );
+
+    const assets = new Set<string>(assetFlows.keys());
+    const exchanges = new Map<string, { exchange: string; label: string }>();
+    for (const s of snapshots) {
+      s.consolidatedBalances.forEach((b) => assets.add(b.asset));
+      s.exchangeBalances.forEach((eb) =>
+        exchanges.set(eb.credentialId?.toString() || eb.exchange, {
+          exchange: eb.exchange,
+          label: eb.label,
+        }),
+      );
+    }
+
+    const byAsset: AssetReturnDto[] = Array.from(assets)
+      .sort()
+      .map((asset) => ({
+        asset,
+        ...this.computeSeries(
+          dates,
+          snapshots.map(
+            (s) =>
+              (s.consolidatedBalances.find((b) => b.asset === asset)
+                ?.valueUsd || 0) * rateOn(s.date),
+          ),
+          assetFlows.get(asset) || [],
+        ),
+      }));
+
+    const byExchange: ExchangeReturnDto[] = Array.from(exchanges.entries()).map(
+      ([credentialId, info]) => ({
+        ...info,
+        credentialId,
+        ...this.computeSeries(
+          dates,
+          snapshots.map(
+            (s) =>
+              (s.exchangeBalances.find(
+                (eb) =>
+                  (eb.credentialId?.toString() || eb.exchange) === credentialId,
+              )?.totalValueUsd || 0) * rateOn(s.date),
+          ),
+          exchangeFlows.get(credentialId) || [],
+        ),
+      }),
+    );
+
+    this.logger.log(
+      `Returns ${first.date}..${last.date} for user ${userId}: ${transactions.length} transactions, ${snapshots.length} snapshots`,
+    );
+
+    return {
+      from: first.date,
+      to: last.date,
+      days: Math.round(
+        (Date.parse(last.date) - Date.parse(first.date)) / DAY_MS,
+      ),
+      currency,
+      total,
+      byAsset,
+      byExchange,
+    };
+  }
+
+  // ==================== PRIVATE METHODS ====================
+
+  private async findSnapshots(
+    userId: string,
+    from?: string,
+    to?: string,
+  ): Promise<DailySnapshot[]> {
+    const userObjectId = new Types.ObjectId(userId);
+
+    // Start from the value held on `from`, i.e. the last snapshot before it
+    let start = from
+      ? await this.snapshotModel
+          .findOne({ userId: userObjectId, date: { $lte: from } })
+          .sort({ date: -1 })
+      : null;
+    if (!start) {
+      start = await this.snapshotModel
+        .findOne({
+          userId: userObjectId,
+          ...(from ? { date: { $gte: from } } : {}),
+        })
+        .sort({ date: 1 });
+    }
+    if (!start) {
+      throw new NotFoundException('No snapshots found for this range');
+    }
+
+    const dateQuery: Record<string, string> = { $gte: start.date };
+    if (to) {
+      dateQuery.$lte = to;
+    }
+    const snapshots = await this.snapshotModel
+      .find({ userId: userObjectId, date: dateQuery })
+      .sort({ date: 1 })
+      .lean<DailySnapshot[]>();
+
+    if (snapshots.length < 2) {
+      throw new BadRequestException(
+        'At least two snapshots are needed to compute returns',
+      );
+    }
+    return snapshots;
+  }
+
+  /**
+   * USD price of an asset at the snapshot closing the flow's period,
+   * falling back to the snapshot before it
+   */
+  private getPrice(
+    asset: string,
+    snapshots: DailySnapshot[],
+    index: number,
+  ): number {
+    for (const s of [snapshots[index], snapshots[index - 1]]) {
+      const price =
+        s.pricesAtSnapshot?.[asset] ||
+        s.consolidatedBalances.find((b) => b.asset === asset)?.priceUsd;
+      if (price) return price;
+    }
+    return USD_ASSETS.has(asset) ? 1 : 0;
+  }
+
+  /**
+   * A trade moves the same value out of one asset and into the other
+   */
+  private getTradeLegs(
+    tx: TransactionDocument,
+    snapshots: DailySnapshot[],
+    index: number,
+  ): { asset: string; value: number }[] {
+    if (!tx.priceAsset || (tx.side !== 'buy' && tx.side !== 'sell')) {
+      return [];
+    }
+
+    const amount = Math.abs(tx.amount);
+    const value = USD_ASSETS.has(tx.priceAsset)
+      ? Math.abs(tx.total || amount * (tx.price || 0))
+      : amount * this.getPrice(tx.asset, snapshots, index);
+    const sign = tx.side === 'buy' ? 1 : -1;
+
+    return [
+      { asset: tx.asset, value: sign * value },
+      { asset: tx.priceAsset, value: -sign * value },
+    ];
+  }
+
+  /**
+   * TWR chains the return of each snapshot period, with flows assumed at
+   * the start of the period. MWR is the IRR of the start value, the flows
+   * on their own days and the end value.
+   */
+  private computeSeries(
+    dates: string[],
+    values: number[],
+    flows: CashFlow[],
+  ): ReturnSeriesDto {
+    const startValue = values[0];
+    const endValue = values[values.length - 1];
+    const netFlows = flows.reduce((sum, f) => sum + f.value, 0);
+
+    const flowsByPeriod = new Map<number, number>();
+    for (const flow of flows) {
+      flowsByPeriod.set(
+        flow.index,
+        (flowsByPeriod.get(flow.index) || 0) + flow.value,
+      );
+    }
+
+    let growth = 1;
+    for (let i = 1; i < values.length; i++) {
+      const invested = values[i - 1] + (flowsByPeriod.get(i) || 0);
+      if (invested > 0) {
+        growth *= values[i] / invested;
+      }
+    }
+    const twr = growth - 1;
+
+    const startTime = Date.parse(dates[0]);
+    const years =
+      (Date.parse(dates[dates.length - 1]) - startTime) /
+      DAY_MS /
+      DAYS_PER_YEAR;
+    const irr = this.solveIrr([
+      { years: 0, amount: -startValue },
+      ...flows.map((f) => ({
+        years: (Date.parse(f.date) - startTime) / DAY_MS / DAYS_PER_YEAR,
+        amount: -f.value,
+      })),
+      { years, amount: endValue },
+    ]);
+
+    return {
+      startValue,
+      endValue,
+      netFlows,
+      gain: endValue - startValue - netFlows,
+      twr,
+      twrAnnualized: years >= 1 ? Math.pow(growth, 1 / years) - 1 : null,
+      mwr: irr !== null ? Math.pow(1 + irr, years) - 1 : null,
+      mwrAnnualized: irr !== null && years >= 1 ? irr : null,
+    };
+  }
+
+  /**
+   * Annual rate that makes the net present value of the cash flows zero,
+   * found by bisection. Null when there is no sign change to solve for.
+   */
+  private solveIrr(
+    cashFlows: { years: number; amount: number }[],
+  ): number | null {
+    const npv = (rate: number) =>
+      cashFlows.reduce(
+        (sum, cf) => sum + cf.amount / Math.pow(1 + rate, cf.years),
+        0,
+      );
+
+    if (cashFlows.every((cf) => cf.amount === 0)) {
+      return null;
+    }
+
+    let low = -0.9999;
+    let high = 10;
+    let npvLow = npv(low);
+    let npvHigh = npv(high);
+
+    // Short ranges with large gains annualize to very high rates
+    while (npvLow * npvHigh > 0 && high < 1e6) {
+      high *= 10;
+      npvHigh = npv(high);
+    }
+    if (!isFinite(npvLow) || !isFinite(npvHigh) || npvLow * npvHigh > 0) {
+      return null;
+    }
+
+    for (let i = 0; i < IRR_MAX_ITERATIONS; i++) {
+      const mid = (low + high) / 2;
+      const npvMid = npv(mid);
+      if (Math.abs(npvMid) < IRR_TOLERANCE || high - low < IRR_TOLERANCE) {
+        return mid;
+      }
+      if (npvLow * npvMid < 0) {
+        high = mid;
+      } else {
+        low = mid;
+        npvLow = npvMid;
+      }
+    }
+    return (low + high) / 2;
+  }
+}
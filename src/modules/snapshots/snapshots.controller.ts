@@ -8,6 +8,9 @@ import {
   ApiBody,
 } from '@nestjs/swagger';
 import { SnapshotsService } from './snapshots.service';
+import { ReturnsService } from './returns.service';
+import { ReconciliationService } from './reconciliation.service';
+import { SettingsService } from '../settings/settings.service';
 import {
   SnapshotResponseDto,
   SnapshotCompareDto,
@@ -15,8 +18,13 @@ import {
   ChartDataByAssetResponseDto,
   Pnl24hResponseDto,
   RebuildHistoryRequestDto,
-  RebuildHistoryResponseDto,
 } from './dto/snapshot-response.dto';
+import { ReturnsQueryDto, PortfolioReturnsDto } from './dto/returns.dto';
+import {
+  ReconciliationQueryDto,
+  ReconciliationReportDto,
+} from './dto/reconciliation.dto';
+import { QueuedJobDto } from '../queue/dto/queued-job.dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 
@@ -25,7 +33,12 @@ import { CurrentUser } from '../../common/decorators/current-user.decorator';
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class SnapshotsController {
-  constructor(private readonly snapshotsService: SnapshotsService) {}
+  constructor(
+    private readonly snapshotsService: SnapshotsService,
+    private readonly returnsService: ReturnsService,
+    private readonly reconciliationService: ReconciliationService,
+    private readonly settingsService: SettingsService,
+  ) {}
 
   @Get()
   @ApiOperation({ summary: 'Get all daily snapshots' })
@@ -33,7 +46,8 @@ export class SnapshotsController {
   async findAll(
     @CurrentUser('userId') userId: string,
   ): Promise<SnapshotResponseDto[]> {
-    return this.snapshotsService.findAllByUser(userId);
+    const currency = await this.settingsService.getReportingCurrency(userId);
+    return this.snapshotsService.findAllByUser(userId, currency);
   }
 
   @Get('latest')
@@ -42,7 +56,8 @@ export class SnapshotsController {
   async findLatest(
     @CurrentUser('userId') userId: string,
   ): Promise<SnapshotResponseDto | null> {
-    return this.snapshotsService.findLatest(userId);
+    const currency = await this.settingsService.getReportingCurrency(userId);
+    return this.snapshotsService.findLatest(userId, currency);
   }
 
   @Get('compare')
@@ -55,7 +70,8 @@ export class SnapshotsController {
     @Query('to') toDate: string,
     @CurrentUser('userId') userId: string,
   ): Promise<SnapshotCompareDto> {
-    return this.snapshotsService.compare(userId, fromDate, toDate);
+    const currency = await this.settingsService.getReportingCurrency(userId);
+    return this.snapshotsService.compare(userId, fromDate, toDate, currency);
   }
 
   @Get('chart-data')
@@ -70,7 +86,8 @@ export class SnapshotsController {
     @Query('timeframe') timeframe: '24h' | '7d' | '1m' | '1y' = '24h',
     @CurrentUser('userId') userId: string,
   ): Promise<ChartDataResponseDto> {
-    return this.snapshotsService.getChartData(userId, timeframe);
+    const currency = await this.settingsService.getReportingCurrency(userId);
+    return this.snapshotsService.getChartData(userId, timeframe, currency);
   }
 
   @Get('chart-data-by-asset')
@@ -101,7 +118,13 @@ export class SnapshotsController {
         assetList = assets;
       }
     }
-    return this.snapshotsService.getChartDataByAsset(userId!, timeframe, assetList);
+    const currency = await this.settingsService.getReportingCurrency(userId!);
+    return this.snapshotsService.getChartDataByAsset(
+      userId!,
+      timeframe,
+      assetList,
+      currency,
+    );
   }
 
   @Get('pnl-24h')
@@ -110,7 +133,45 @@ export class SnapshotsController {
   async get24hPnl(
     @CurrentUser('userId') userId: string,
   ): Promise<Pnl24hResponseDto> {
-    return this.snapshotsService.get24hPnl(userId);
+    const currency = await this.settingsService.getReportingCurrency(userId);
+    return this.snapshotsService.get24hPnl(userId, currency);
+  }
+
+  @Get('returns')
+  @ApiOperation({
+    summary: 'Get time-weighted and money-weighted returns',
+    description:
+      'Computes TWR and IRR from daily snapshots and deposits/withdrawals, for the portfolio, each asset and each exchange account. ' +
+      'Transfers between own exchanges are not treated as portfolio cash flows.',
+  })
+  @ApiResponse({ status: 200, type: PortfolioReturnsDto })
+  @ApiResponse({ status: 400, description: 'Not enough snapshots in range' })
+  async getReturns(
+    @CurrentUser('userId') userId: string,
+    @Query() query: ReturnsQueryDto,
+  ): Promise<PortfolioReturnsDto> {
+    const currency = await this.settingsService.getReportingCurrency(userId);
+    return this.returnsService.getReturns(
+      userId,
+      query.from,
+      query.to,
+      currency,
+    );
+  }
+
+  @Get('reconciliation')
+  @ApiOperation({
+    summary: 'Reconcile exchange balances with the transaction history',
+    description:
+      'Compares the live balance of each account and asset with the running balance of its transactions, ' +
+      'dates the divergence from daily snapshots and suggests the transactions that seem to be missing.',
+  })
+  @ApiResponse({ status: 200, type: ReconciliationReportDto })
+  async getReconciliation(
+    @CurrentUser('userId') userId: string,
+    @Query() query: ReconciliationQueryDto,
+  ): Promise<ReconciliationReportDto> {
+    return this.reconciliationService.getReport(userId, query.credentialId);
   }
 
   @Post('generate')
@@ -120,38 +181,26 @@ export class SnapshotsController {
     @CurrentUser('userId') userId: string,
   ): Promise<SnapshotResponseDto> {
     const snapshot = await this.snapshotsService.generateSnapshot(userId);
-    return {
-      id: snapshot._id.toString(),
-      date: snapshot.date,
-      snapshotAt: snapshot.snapshotAt,
-      exchangeBalances: snapshot.exchangeBalances.map((eb) => ({
-        exchange: eb.exchange,
-        label: eb.label,
-        credentialId: eb.credentialId?.toString() || '',
-        balances: eb.balances,
-        totalValueUsd: eb.totalValueUsd,
-      })),
-      consolidatedBalances: snapshot.consolidatedBalances,
-      totalValueUsd: snapshot.totalValueUsd,
-      pricesAtSnapshot: snapshot.pricesAtSnapshot,
-    };
+    const currency = await this.settingsService.getReportingCurrency(userId);
+    return this.snapshotsService.findByDate(userId, snapshot.date, currency);
   }
 
   @Post('rebuild-history')
   @ApiOperation({
-    summary: 'Rebuild historical balance snapshots from transactions',
+    summary: 'Queue a rebuild of daily balance snapshots from transactions',
     description:
       'Reconstructs daily balance snapshots by processing all transactions chronologically. ' +
       'Gets historical prices from Binance for accurate USD valuations. ' +
-      'This operation may take several minutes depending on the transaction history.',
+      'This operation may take several minutes, so it returns a job to poll under /jobs; ' +
+      'the completed job holds the rebuild summary as its result.',
   })
   @ApiBody({ type: RebuildHistoryRequestDto })
-  @ApiResponse({ status: 201, type: RebuildHistoryResponseDto })
+  @ApiResponse({ status: 201, type: QueuedJobDto })
   async rebuildHistory(
     @CurrentUser('userId') userId: string,
     @Body() body: RebuildHistoryRequestDto,
-  ): Promise<RebuildHistoryResponseDto> {
-    return this.snapshotsService.rebuildHistory(userId, {
+  ): Promise<QueuedJobDto> {
+    return this.snapshotsService.queueRebuildHistory(userId, {
       fromDate: body.fromDate,
       skipExisting: body.skipExisting,
     });
@@ -165,6 +214,7 @@ export class SnapshotsController {
     @Param('date') date: string,
     @CurrentUser('userId') userId: string,
   ): Promise<SnapshotResponseDto> {
-    return this.snapshotsService.findByDate(userId, date);
+    const currency = await this.settingsService.getReportingCurrency(userId);
+    return this.snapshotsService.findByDate(userId, date, currency);
   }
 }
@@ -4,9 +4,15 @@ import { DailySnapshot, DailySnapshotSchema } from './schemas/daily-snapshot.sch
 import { HourlySnapshot, HourlySnapshotSchema } from './schemas/hourly-snapshot.schema';
 import { SnapshotsController } from './snapshots.controller';
 import { SnapshotsService } from './snapshots.service';
+import { ReturnsService } from './returns.service';
+import { ReconciliationService } from './reconciliation.service';
 import { BalancesModule } from '../balances/balances.module';
+import { ExchangeCredentialsModule } from '../exchange-credentials/exchange-credentials.module';
 import { PricesModule } from '../prices/prices.module';
+import { SettingsModule } from '../settings/settings.module';
+import { PnlModule } from '../pnl/pnl.module';
 import { TransactionsModule } from '../transactions/transactions.module';
+import { QueueModule } from '../queue/queue.module';
 
 @Module({
   imports: [
@@ -15,11 +21,15 @@ import { TransactionsModule } from '../transactions/transactions.module';
       { name: HourlySnapshot.name, schema: HourlySnapshotSchema },
     ]),
     BalancesModule,
+    ExchangeCredentialsModule,
     PricesModule,
+    SettingsModule,
+    PnlModule,
     forwardRef(() => TransactionsModule),
+    QueueModule,
   ],
   controllers: [SnapshotsController],
-  providers: [SnapshotsService],
+  providers: [SnapshotsService, ReturnsService, ReconciliationService],
   exports: [SnapshotsService],
 })
 export class SnapshotsModule {}
@@ -1,4 +1,11 @@
-import { Injectable, Logger, NotFoundException, Inject, forwardRef } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+  Inject,
+  forwardRef,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import {
@@ -14,9 +21,14 @@ import {
 } from './schemas/hourly-snapshot.schema';
 import { BalancesService } from '../balances/balances.service';
 import { PricesService } from '../prices/prices.service';
+import { FxRatesService } from '../prices/fx-rates.service';
 import { TransactionsService } from '../transactions/transactions.service';
 import { TransactionDocument } from '../transactions/schemas/transaction.schema';
 import { TransactionType } from '../../common/constants/transaction-types.constant';
+import { ReportingCurrency } from '../../common/constants/currencies.constant';
+import { JobType } from '../../common/constants/job-queue.constant';
+import { JobQueueService } from '../queue/job-queue.service';
+import { QueuedJobDto } from '../queue/dto/queued-job.dto';
 import {
   SnapshotResponseDto,
   SnapshotCompareDto,
@@ -27,7 +39,7 @@ import {
 } from './dto/snapshot-response.dto';
 
 @Injectable()
-export class SnapshotsService {
+export class SnapshotsService implements OnModuleInit {
   private readonly logger = new Logger(SnapshotsService.name);
 
   constructor(
@@ -37,10 +49,24 @@ export class SnapshotsService {
     private hourlySnapshotModel: Model<HourlySnapshotDocument>,
     private readonly balancesService: BalancesService,
     private readonly pricesService: PricesService,
+    private readonly fxRatesService: FxRatesService,
     @Inject(forwardRef(() => TransactionsService))
     private readonly transactionsService: TransactionsService,
+    private readonly jobQueueService: JobQueueService,
   ) {}
 
+  onModuleInit(): void {
+    this.jobQueueService.registerHandler(
+      JobType.REBUILD_HISTORY,
+      (payload, { job, signal }) =>
+        this.rebuildHistory(job.userId.toString(), {
+          fromDate: payload.fromDate as string | undefined,
+          skipExisting: payload.skipExisting as boolean | undefined,
+          signal,
+        }),
+    );
+  }
+
   async generateSnapshot(userId: string | Types.ObjectId): Promise<DailySnapshotDocument> {
     const userIdStr = userId.toString();
     const today = new Date().toISOString().split('T')[0];
@@ -117,23 +143,49 @@ export class SnapshotsService {
     return snapshot.save();
   }
 
-  async findAllByUser(userId: string): Promise<SnapshotResponseDto[]> {
+  async findAllByUser(
+    userId: string,
+    currency: ReportingCurrency = ReportingCurrency.USD,
+  ): Promise<SnapshotResponseDto[]> {
     const snapshots = await this.snapshotModel
       .find({ userId: new Types.ObjectId(userId) })
       .sort({ date: -1 });
 
-    return snapshots.map((s) => this.toResponse(s));
+    // Each snapshot is converted at the rate of its own day
+    const rates = await this.fxRatesService.getRates(
+      currency,
+      snapshots.map((s) => new Date(s.date)),
+    );
+
+    return snapshots.map((s) =>
+      this.toResponse(s, currency, rates.get(s.date) ?? 1),
+    );
   }
 
-  async findLatest(userId: string): Promise<SnapshotResponseDto | null> {
+  async findLatest(
+    userId: string,
+    currency: ReportingCurrency = ReportingCurrency.USD,
+  ): Promise<SnapshotResponseDto | null> {
     const snapshot = await this.snapshotModel
       .findOne({ userId: new Types.ObjectId(userId) })
       .sort({ date: -1 });
 
-    return snapshot ? this.toResponse(snapshot) : null;
+    if (!snapshot) {
+      return null;
+    }
+
+    const rate = await this.fxRatesService.getRate(
+      currency,
+      new Date(snapshot.date),
+    );
+    return this.toResponse(snapshot, currency, rate);
   }
 
-  async findByDate(userId: string, date: string): Promise<SnapshotResponseDto> {
+  async findByDate(
+    userId: string,
+    date: string,
+    currency: ReportingCurrency = ReportingCurrency.USD,
+  ): Promise<SnapshotResponseDto> {
     const snapshot = await this.snapshotModel.findOne({
       userId: new Types.ObjectId(userId),
       date,
@@ -143,17 +195,22 @@ export class SnapshotsService {
       throw new NotFoundException(`Snapshot for ${date} not found`);
     }
 
-    return this.toResponse(snapshot);
+    const rate = await this.fxRatesService.getRate(
+      currency,
+      new Date(snapshot.date),
+    );
+    return this.toResponse(snapshot, currency, rate);
   }
 
   async compare(
     userId: string,
     fromDate: string,
     toDate: string,
+    currency: ReportingCurrency = ReportingCurrency.USD,
   ): Promise<SnapshotCompareDto> {
     const [fromSnapshot, toSnapshot] = await Promise.all([
-      this.findByDate(userId, fromDate),
-      this.findByDate(userId, toDate),
+      this.findByDate(userId, fromDate, currency),
+      this.findByDate(userId, toDate, currency),
     ]);
 
     const changeUsd = toSnapshot.totalValueUsd - fromSnapshot.totalValueUsd;
@@ -186,6 +243,7 @@ export class SnapshotsService {
       changeUsd,
       changePercent,
       assetChanges,
+      currency,
     };
   }
 
@@ -244,6 +302,21 @@ export class SnapshotsService {
   async getChartData(
     userId: string,
     timeframe: '24h' | '7d' | '1m' | '1y',
+    currency: ReportingCurrency = ReportingCurrency.USD,
+  ): Promise<ChartDataResponseDto> {
+    const chart = await this.loadChartData(userId, timeframe);
+    if (currency === ReportingCurrency.USD) {
+      return chart;
+    }
+
+    const rates = await this.getLabelRates(chart.labels, currency);
+    const data = this.convertSeries(chart.labels, chart.data, rates);
+    return { ...chart, ...this.getChange(data), data, currency };
+  }
+
+  private async loadChartData(
+    userId: string,
+    timeframe: '24h' | '7d' | '1m' | '1y',
   ): Promise<ChartDataResponseDto> {
     switch (timeframe) {
       case '24h':
@@ -259,11 +332,15 @@ export class SnapshotsService {
     }
   }
 
-  async get24hPnl(userId: string): Promise<{
+  async get24hPnl(
+    userId: string,
+    currency: ReportingCurrency = ReportingCurrency.USD,
+  ): Promise<{
     currentValue: number;
     value24hAgo: number;
     changeUsd: number;
     changePercent: number;
+    currency: string;
   }> {
     // Get snapshot closest to 24h ago
     const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
@@ -276,9 +353,15 @@ export class SnapshotsService {
       .sort({ timestamp: -1 });
 
     // Get current balance
-    const current = await this.balancesService.getConsolidatedBalances(userId);
+    const current = await this.balancesService.getConsolidatedBalances(
+      userId,
+      currency,
+    );
     const currentValue = current.totalValueUsd;
-    const value24hAgo = snapshot?.totalValueUsd || currentValue;
+    const value24hAgo = snapshot
+      ? snapshot.totalValueUsd *
+        (await this.fxRatesService.getRate(currency, snapshot.timestamp))
+      : currentValue;
 
     const changeUsd = currentValue - value24hAgo;
     const changePercent = value24hAgo > 0 ? (changeUsd / value24hAgo) * 100 : 0;
@@ -288,6 +371,7 @@ export class SnapshotsService {
       value24hAgo,
       changeUsd,
       changePercent,
+      currency,
     };
   }
 
@@ -295,6 +379,7 @@ export class SnapshotsService {
     userId: string,
     timeframe: '24h' | '7d',
     assets?: string[],
+    currency: ReportingCurrency = ReportingCurrency.USD,
   ): Promise<ChartDataByAssetResponseDto> {
     const since =
       timeframe === '24h'
@@ -325,32 +410,37 @@ export class SnapshotsService {
       assetBalances: s.assetBalances,
     }));
 
+    const labels = snapshots.map((s) => s.timestamp.toISOString());
+    const rates = await this.getLabelRates(labels, currency);
+
     // Build data per asset
     const assetData: AssetChartDataDto[] = filteredAssets.map((asset) => ({
       asset,
-      data: snapshots.map((s) => {
-        const ab = s.assetBalances?.find((a) => a.asset === asset);
-        return ab?.valueUsd || 0;
-      }),
+      data: this.convertSeries(
+        labels,
+        snapshots.map((s) => {
+          const ab = s.assetBalances?.find((a) => a.asset === asset);
+          return ab?.valueUsd || 0;
+        }),
+        rates,
+      ),
     }));
 
     // Build total data and calculate change
-    const totalData = snapshots.map((s) => s.totalValueUsd);
-    const labels = snapshots.map((s) => s.timestamp.toISOString());
-
-    const firstValue = totalData[0] || 0;
-    const lastValue = totalData[totalData.length - 1] || 0;
-    const changeUsd = lastValue - firstValue;
-    const changePercent = firstValue > 0 ? (changeUsd / firstValue) * 100 : 0;
+    const totalData = this.convertSeries(
+      labels,
+      snapshots.map((s) => s.totalValueUsd),
+      rates,
+    );
 
     return {
       labels,
       totalData,
       assetData,
-      changeUsd,
-      changePercent,
+      ...this.getChange(totalData),
       timeframe,
       availableAssets,
+      currency,
     };
   }
 
@@ -484,27 +574,71 @@ export class SnapshotsService {
         changeUsd: 0,
         changePercent: 0,
         timeframe,
+        currency: ReportingCurrency.USD,
       };
     }
 
     const labels = data.map((d) => d.timestamp.toISOString());
     const values = data.map((d) => d.totalValueUsd);
 
-    const firstValue = values[0] || 0;
-    const lastValue = values[values.length - 1] || 0;
-    const changeUsd = lastValue - firstValue;
-    const changePercent = firstValue > 0 ? (changeUsd / firstValue) * 100 : 0;
-
     return {
       labels,
       data: values,
-      changeUsd,
-      changePercent,
+      ...this.getChange(values),
       timeframe,
+      currency: ReportingCurrency.USD,
     };
   }
 
-  private toResponse(snapshot: DailySnapshotDocument): SnapshotResponseDto {
+  private getChange(values: number[]): {
+    changeUsd: number;
+    changePercent: number;
+  } {
+    const firstValue = values[0] || 0;
+    const lastValue = values[values.length - 1] || 0;
+    const changeUsd = lastValue - firstValue;
+    const changePercent = firstValue > 0 ? (changeUsd / firstValue) * 100 : 0;
+    return { changeUsd, changePercent };
+  }
+
+  // ==================== CURRENCY CONVERSION ====================
+
+  /**
+   * Rates for the days of ISO chart labels, so every point is converted
+   * at the rate of the day it was recorded
+   */
+  private async getLabelRates(
+    labels: string[],
+    currency: ReportingCurrency,
+  ): Promise<Map<string, number>> {
+    return this.fxRatesService.getRates(
+      currency,
+      labels.map((label) => new Date(label)),
+    );
+  }
+
+  private convertSeries(
+    labels: string[],
+    values: number[],
+    rates: Map<string, number>,
+  ): number[] {
+    return values.map(
+      (value, i) => value * (rates.get(labels[i].split('T')[0]) ?? 1),
+    );
+  }
+
+  private toResponse(
+    snapshot: DailySnapshotDocument,
+    currency: ReportingCurrency,
+    rate: number,
+  ): SnapshotResponseDto {
+    const convertAsset = (b: AssetBalance): AssetBalance => ({
+      asset: b.asset,
+      amount: b.amount,
+      priceUsd: b.priceUsd !== undefined ? b.priceUsd * rate : undefined,
+      valueUsd: b.valueUsd !== undefined ? b.valueUsd * rate : undefined,
+    });
+
     return {
       id: snapshot._id.toString(),
       date: snapshot.date,
@@ -513,17 +647,37 @@ export class SnapshotsService {
         exchange: eb.exchange,
         label: eb.label,
         credentialId: eb.credentialId?.toString() || '',
-        balances: eb.balances,
-        totalValueUsd: eb.totalValueUsd,
+        balances: eb.balances.map(convertAsset),
+        totalValueUsd: eb.totalValueUsd * rate,
       })),
-      consolidatedBalances: snapshot.consolidatedBalances,
-      totalValueUsd: snapshot.totalValueUsd,
-      pricesAtSnapshot: snapshot.pricesAtSnapshot,
+      consolidatedBalances: snapshot.consolidatedBalances.map(convertAsset),
+      totalValueUsd: snapshot.totalValueUsd * rate,
+      pricesAtSnapshot: Object.fromEntries(
+        Object.entries(snapshot.pricesAtSnapshot || {}).map(
+          ([asset, price]) => [asset, price * rate],
+        ),
+      ),
+      currency,
     };
   }
 
   // ==================== REBUILD HISTORY ====================
 
+  /**
+   * Queue a rebuild; rebuilds of the same user run one after another
+   */
+  async queueRebuildHistory(
+    userId: string,
+    options?: { fromDate?: string; skipExisting?: boolean },
+  ): Promise<QueuedJobDto> {
+    return this.jobQueueService.enqueue(
+      userId,
+      JobType.REBUILD_HISTORY,
+      { fromDate: options?.fromDate, skipExisting: options?.skipExisting },
+      { concurrencyKey: `snapshots:${userId}` },
+    );
+  }
+
   /**
    * Rebuild historical balance snapshots from transactions
    * This method recalculates the balance at each day based on transaction history
@@ -533,6 +687,8 @@ export class SnapshotsService {
     options?: {
       fromDate?: string;
       skipExisting?: boolean;
+      // Stops the rebuild between days when aborted
+      signal?: AbortSignal;
     },
   ): Promise<RebuildHistoryResponseDto> {
     const userIdObj = new Types.ObjectId(userId);
@@ -621,6 +777,9 @@ export class SnapshotsService {
     // Process day by day
     const currentDate = new Date(startDate);
     while (currentDate <= endDate) {
+      if (options?.signal?.aborted) {
+        throw new Error('Rebuild cancelled');
+      }
       const dateStr = currentDate.toISOString().split('T')[0];
       const dayEnd = new Date(currentDate);
       dayEnd.setUTCHours(23, 59, 59, 999);
@@ -738,9 +897,10 @@ export class SnapshotsService {
   }
 
   /**
-   * Apply a transaction to the balance state
+   * Apply a transaction to the balance state. Balance reconciliation replays
+   * transactions with it too, so both agree on the computed balance.
    */
-  private applyTransaction(
+  applyTransaction(
     balanceState: Map<string, number>,
     tx: TransactionDocument,
   ): void {
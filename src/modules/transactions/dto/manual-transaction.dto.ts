@@ -0,0 +1,148 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsMongoId,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { TransactionType } from '../../../common/constants/transaction-types.constant';
+
+export class CreateManualTransactionDto {
+  @ApiProperty({
+    required: false,
+    description:
+      'Manual wallet credential to book the transaction on. Defaults to the user\'s "Manual" wallet.',
+  })
+  @IsOptional()
+  @IsMongoId()
+  credentialId?: string;
+
+  @ApiProperty({ enum: TransactionType, example: TransactionType.TRADE })
+  @IsEnum(TransactionType)
+  type: TransactionType;
+
+  @ApiProperty({ example: 'BTC' })
+  @IsString()
+  @IsNotEmpty()
+  asset: string;
+
+  @ApiProperty({ example: 0.5 })
+  @IsNumber()
+  @IsPositive()
+  amount: number;
+
+  @ApiProperty({
+    required: false,
+    enum: ['buy', 'sell'],
+    description: 'Required for trades',
+  })
+  @ValidateIf((o) => o.type === TransactionType.TRADE || o.side !== undefined)
+  @IsIn(['buy', 'sell'])
+  side?: 'buy' | 'sell';
+
+  @ApiProperty({
+    required: false,
+    example: 42000,
+    description: 'Price per unit in `priceAsset`. Required for trades',
+  })
+  @ValidateIf((o) => o.type === TransactionType.TRADE || o.price !== undefined)
+  @IsNumber()
+  @Min(0)
+  price?: number;
+
+  @ApiProperty({
+    required: false,
+    example: 'USDT',
+    description: 'Quote asset. Required for trades',
+  })
+  @ValidateIf(
+    (o) => o.type === TransactionType.TRADE || o.priceAsset !== undefined,
+  )
+  @IsString()
+  @IsNotEmpty()
+  priceAsset?: string;
+
+  @ApiProperty({ required: false, example: 0.0001 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  fee?: number;
+
+  @ApiProperty({
+    required: false,
+    example: 'BTC',
+    description: 'Defaults to `asset`',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  feeAsset?: string;
+
+  @ApiProperty({ example: '2024-03-01T12:00:00Z' })
+  @IsDateString()
+  timestamp: string;
+}
+
+/**
+ * Fields to change. Omitted fields keep their value; the previous values
+ * are kept in the transaction's edit history.
+ */
+export class UpdateManualTransactionDto {
+  @ApiProperty({ required: false, enum: TransactionType })
+  @IsOptional()
+  @IsEnum(TransactionType)
+  type?: TransactionType;
+
+  @ApiProperty({ required: false, example: 'BTC' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  asset?: string;
+
+  @ApiProperty({ required: false, example: 0.5 })
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  amount?: number;
+
+  @ApiProperty({ required: false, enum: ['buy', 'sell'] })
+  @IsOptional()
+  @IsIn(['buy', 'sell'])
+  side?: 'buy' | 'sell';
+
+  @ApiProperty({ required: false, example: 42000 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  price?: number;
+
+  @ApiProperty({ required: false, example: 'USDT' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  priceAsset?: string;
+
+  @ApiProperty({ required: false, example: 0.0001 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  fee?: number;
+
+  @ApiProperty({ required: false, example: 'BTC' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  feeAsset?: string;
+
+  @ApiProperty({ required: false, example: '2024-03-01T12:00:00Z' })
+  @IsOptional()
+  @IsDateString()
+  timestamp?: string;
+}
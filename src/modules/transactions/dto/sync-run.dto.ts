@@ -0,0 +1,87 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsMongoId, IsNumber, IsOptional, Max, Min } from 'class-validator';
+import { Transform } from 'class-transformer';
+import {
+  SyncRunStage,
+  SyncRunStatus,
+  SyncTrigger,
+} from '../../../common/constants/sync-run.constant';
+
+export class SyncRunsQueryDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsMongoId()
+  credentialId?: string;
+
+  @ApiPropertyOptional({ default: 20, maximum: 100 })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+export class SyncRunCountsDto {
+  @ApiProperty()
+  deposits: number;
+
+  @ApiProperty()
+  withdrawals: number;
+
+  @ApiProperty()
+  trades: number;
+
+  @ApiProperty({ description: 'Buy/sell/convert rows from the ledger' })
+  ledger: number;
+}
+
+export class SyncRunDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  credentialId: string;
+
+  @ApiProperty()
+  exchange: string;
+
+  @ApiProperty({ enum: SyncTrigger })
+  trigger: SyncTrigger;
+
+  @ApiProperty()
+  fullSync: boolean;
+
+  @ApiProperty({ enum: SyncRunStatus })
+  status: SyncRunStatus;
+
+  @ApiProperty({ enum: SyncRunStage })
+  stage: SyncRunStage;
+
+  @ApiPropertyOptional({ description: 'Unset for a full history fetch' })
+  since?: Date;
+
+  @ApiProperty()
+  startedAt: Date;
+
+  @ApiPropertyOptional()
+  finishedAt?: Date;
+
+  @ApiPropertyOptional()
+  durationMs?: number;
+
+  @ApiProperty({ type: SyncRunCountsDto })
+  fetched: SyncRunCountsDto;
+
+  @ApiProperty({ type: SyncRunCountsDto })
+  inserted: SyncRunCountsDto;
+
+  @ApiProperty({ description: 'Fetched rows saved so far' })
+  processed: number;
+
+  @ApiProperty({ description: 'Fetched rows that could not be saved' })
+  failed: number;
+
+  @ApiProperty({ type: [String] })
+  errorMessages: string[];
+}
@@ -0,0 +1,73 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsMongoId, IsOptional } from 'class-validator';
+import { TransactionType } from '../../../common/constants/transaction-types.constant';
+import { DuplicateStatus } from '../../../common/constants/duplicate-status.constant';
+
+export class DetectDuplicatesDto {
+  @ApiPropertyOptional({
+    example: '2024-01-01',
+    description: 'Only look at transactions from this date. Defaults to all',
+  })
+  @IsOptional()
+  @IsDateString()
+  since?: string;
+}
+
+export class DetectDuplicatesResultDto {
+  @ApiProperty({ description: 'Transactions compared' })
+  checked: number;
+
+  @ApiProperty({ description: 'New pairs waiting for review' })
+  found: number;
+}
+
+export class ResolveDuplicateDto {
+  @ApiPropertyOptional({
+    description:
+      'Transaction of the pair to keep. Defaults to the original (the one recorded first)',
+  })
+  @IsOptional()
+  @IsMongoId()
+  keepId?: string;
+}
+
+export class TransactionDuplicateDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ enum: TransactionType })
+  type: TransactionType;
+
+  @ApiProperty()
+  asset: string;
+
+  @ApiProperty()
+  originalId: string;
+
+  @ApiProperty()
+  duplicateId: string;
+
+  @ApiProperty()
+  originalExchange: string;
+
+  @ApiProperty()
+  duplicateExchange: string;
+
+  @ApiProperty()
+  originalAmount: number;
+
+  @ApiProperty()
+  duplicateAmount: number;
+
+  @ApiProperty()
+  originalAt: Date;
+
+  @ApiProperty()
+  duplicateAt: Date;
+
+  @ApiPropertyOptional({ description: 'Shared on-chain transaction id' })
+  txid?: string;
+
+  @ApiProperty({ enum: DuplicateStatus })
+  status: DuplicateStatus;
+}
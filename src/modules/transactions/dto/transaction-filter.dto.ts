@@ -3,6 +3,7 @@ import { ApiProperty } from '@nestjs/swagger';
 import { Transform } from 'class-transformer';
 import { TransactionType } from '../../../common/constants/transaction-types.constant';
 import { ExchangeType } from '../../../common/constants/exchanges.constant';
+import { TransactionCategory } from '../../../common/constants/transaction-categories.constant';
 
 export class TransactionFilterDto {
   @ApiProperty({ required: false, default: 1 })
@@ -44,6 +45,20 @@ export class TransactionFilterDto {
   @IsString()
   assets?: string;
 
+  @ApiProperty({
+    required: false,
+    example: 'cold-wallet,otc',
+    description: 'Comma-separated list of tags; matches any of them',
+  })
+  @IsOptional()
+  @IsString()
+  tags?: string;
+
+  @ApiProperty({ required: false, enum: TransactionCategory })
+  @IsOptional()
+  @IsEnum(TransactionCategory)
+  category?: TransactionCategory;
+
   @ApiProperty({ required: false, example: '2024-01-01' })
   @IsOptional()
   @IsDateString()
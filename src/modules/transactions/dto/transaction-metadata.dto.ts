@@ -0,0 +1,46 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { TransactionCategory } from '../../../common/constants/transaction-categories.constant';
+
+/**
+ * Omitted fields are left unchanged. `category: null` removes the category
+ * and an empty `notes` string removes the notes.
+ */
+export class UpdateTransactionMetadataDto {
+  @ApiProperty({ required: false, example: 'Bought from a friend' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  notes?: string;
+
+  @ApiProperty({
+    required: false,
+    type: [String],
+    example: ['cold-wallet', 'otc'],
+    description: 'Replaces all tags. Stored trimmed and lowercase',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  tags?: string[];
+
+  @ApiProperty({
+    required: false,
+    nullable: true,
+    enum: TransactionCategory,
+    description:
+      'gift and payment apply to deposits and withdrawals, airdrop to deposits, lost to withdrawals',
+  })
+  @IsOptional()
+  @IsEnum(TransactionCategory)
+  category?: TransactionCategory | null;
+}
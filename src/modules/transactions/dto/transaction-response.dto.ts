@@ -1,5 +1,6 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { TransactionType } from '../../../common/constants/transaction-types.constant';
+import { TransactionCategory } from '../../../common/constants/transaction-categories.constant';
 
 export class TransactionResponseDto {
   @ApiProperty()
@@ -40,6 +41,27 @@ export class TransactionResponseDto {
 
   @ApiProperty()
   timestamp: Date;
+
+  @ApiProperty({ required: false })
+  notes?: string;
+
+  @ApiProperty({ type: [String] })
+  tags: string[];
+
+  @ApiProperty({ required: false, enum: TransactionCategory })
+  category?: TransactionCategory;
+
+  @ApiProperty({
+    required: false,
+    description: 'Kept transaction this one was merged into or suppressed for',
+  })
+  duplicateOf?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Import batch (file upload) the transaction came from',
+  })
+  importBatchId?: string;
 }
 
 export class PaginatedTransactionsDto {
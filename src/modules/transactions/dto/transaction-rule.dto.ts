@@ -0,0 +1,231 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { TransactionType } from '../../../common/constants/transaction-types.constant';
+import { TransactionCategory } from '../../../common/constants/transaction-categories.constant';
+
+export class RuleConditionsDto {
+  @ApiPropertyOptional({ example: 'binance-manual' })
+  @IsOptional()
+  @IsString()
+  exchange?: string;
+
+  @ApiPropertyOptional({ enum: TransactionType })
+  @IsOptional()
+  @IsEnum(TransactionType)
+  type?: TransactionType;
+
+  @ApiPropertyOptional({ example: 'USDT' })
+  @IsOptional()
+  @IsString()
+  asset?: string;
+
+  @ApiPropertyOptional({
+    example: 'Simple Earn Flexible Interest',
+    description: "The exchange's own operation label from the raw record",
+  })
+  @IsOptional()
+  @IsString()
+  operation?: string;
+
+  @ApiPropertyOptional({
+    example: 'bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh',
+    description: 'Deposit or withdrawal address',
+  })
+  @IsOptional()
+  @IsString()
+  address?: string;
+}
+
+export class RuleActionsDto {
+  @ApiPropertyOptional({ enum: TransactionType })
+  @IsOptional()
+  @IsEnum(TransactionType)
+  type?: TransactionType;
+
+  @ApiPropertyOptional({ enum: TransactionCategory })
+  @IsOptional()
+  @IsEnum(TransactionCategory)
+  category?: TransactionCategory;
+
+  @ApiPropertyOptional({ type: [String], example: ['ledger'] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  tags?: string[];
+}
+
+export class CreateTransactionRuleDto {
+  @ApiProperty({ example: 'Binance flexible earn interest' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiPropertyOptional({
+    default: 0,
+    description: 'Lower runs first; the first rule setting a field wins',
+  })
+  @IsOptional()
+  @IsInt()
+  priority?: number;
+
+  @ApiProperty({ type: RuleConditionsDto })
+  @IsObject()
+  @ValidateNested()
+  @Type(() => RuleConditionsDto)
+  conditions: RuleConditionsDto;
+
+  @ApiProperty({ type: RuleActionsDto })
+  @IsObject()
+  @ValidateNested()
+  @Type(() => RuleActionsDto)
+  actions: RuleActionsDto;
+}
+
+export class UpdateTransactionRuleDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  priority?: number;
+
+  @ApiPropertyOptional({
+    type: RuleConditionsDto,
+    description: 'Replaces all conditions',
+  })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => RuleConditionsDto)
+  conditions?: RuleConditionsDto;
+
+  @ApiPropertyOptional({
+    type: RuleActionsDto,
+    description: 'Replaces all actions',
+  })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => RuleActionsDto)
+  actions?: RuleActionsDto;
+}
+
+export class TransactionRuleDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty()
+  enabled: boolean;
+
+  @ApiProperty()
+  priority: number;
+
+  @ApiProperty({ type: RuleConditionsDto })
+  conditions: RuleConditionsDto;
+
+  @ApiProperty({ type: RuleActionsDto })
+  actions: RuleActionsDto;
+}
+
+export class ApplyRulesDto {
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Rules to apply. Defaults to every enabled rule',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsMongoId({ each: true })
+  ruleIds?: string[];
+}
+
+export class ApplyRulesResultDto {
+  @ApiProperty({ description: 'Transactions checked against the rules' })
+  checked: number;
+
+  @ApiProperty({ description: 'Transactions changed by a rule' })
+  updated: number;
+}
+
+export class RuleChangeDto {
+  @ApiProperty()
+  transactionId: string;
+
+  @ApiProperty()
+  timestamp: Date;
+
+  @ApiProperty()
+  exchange: string;
+
+  @ApiProperty()
+  asset: string;
+
+  @ApiProperty()
+  amount: number;
+
+  @ApiProperty({ enum: TransactionType })
+  type: TransactionType;
+
+  @ApiPropertyOptional({ enum: TransactionType })
+  newType?: TransactionType;
+
+  @ApiPropertyOptional({ enum: TransactionCategory })
+  category?: TransactionCategory;
+
+  @ApiPropertyOptional({ enum: TransactionCategory })
+  newCategory?: TransactionCategory;
+
+  @ApiProperty({ type: [String] })
+  addedTags: string[];
+}
+
+export class RulePreviewDto {
+  @ApiProperty()
+  ruleId: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ description: 'Transactions the rule would change' })
+  count: number;
+
+  @ApiProperty({
+    type: [RuleChangeDto],
+    description: 'The most recent changes, at most `limit` of them',
+  })
+  changes: RuleChangeDto[];
+}
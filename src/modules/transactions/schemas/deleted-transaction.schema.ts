@@ -0,0 +1,28 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type DeletedTransactionDocument = DeletedTransaction & Document;
+
+/**
+ * Tombstone of a transaction the user deleted by hand, so the next sync
+ * doesn't bring it back
+ */
+@Schema({ timestamps: true, collection: 'deleted_transactions' })
+export class DeletedTransaction {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true })
+  exchange: string;
+
+  @Prop({ required: true })
+  externalId: string;
+}
+
+export const DeletedTransactionSchema =
+  SchemaFactory.createForClass(DeletedTransaction);
+
+DeletedTransactionSchema.index(
+  { userId: 1, exchange: 1, externalId: 1 },
+  { unique: true },
+);
@@ -0,0 +1,90 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import {
+  SyncRunStage,
+  SyncRunStatus,
+  SyncTrigger,
+} from '../../../common/constants/sync-run.constant';
+
+export type SyncRunDocument = SyncRun & Document;
+
+/**
+ * Rows per kind of record fetched from an exchange
+ */
+@Schema({ _id: false })
+export class SyncRunCounts {
+  @Prop({ type: Number, default: 0 })
+  deposits: number;
+
+  @Prop({ type: Number, default: 0 })
+  withdrawals: number;
+
+  @Prop({ type: Number, default: 0 })
+  trades: number;
+
+  @Prop({ type: Number, default: 0 })
+  ledger: number;
+}
+
+export const SyncRunCountsSchema = SchemaFactory.createForClass(SyncRunCounts);
+
+/**
+ * One transaction sync of one exchange account
+ */
+@Schema({ timestamps: true, collection: 'sync_runs' })
+export class SyncRun {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'ExchangeCredential', required: true })
+  credentialId: Types.ObjectId;
+
+  @Prop({ required: true })
+  exchange: string;
+
+  @Prop({ required: true, enum: SyncTrigger })
+  trigger: SyncTrigger;
+
+  @Prop({ default: false })
+  fullSync: boolean;
+
+  @Prop({ required: true, enum: SyncRunStatus })
+  status: SyncRunStatus;
+
+  @Prop({ required: true, enum: SyncRunStage })
+  stage: SyncRunStage;
+
+  // Fetched from this date on; unset for a full history fetch
+  @Prop()
+  since?: Date;
+
+  @Prop({ required: true })
+  startedAt: Date;
+
+  @Prop()
+  finishedAt?: Date;
+
+  @Prop({ type: Number })
+  durationMs?: number;
+
+  @Prop({ type: SyncRunCountsSchema, default: () => ({}) })
+  fetched: SyncRunCounts;
+
+  @Prop({ type: SyncRunCountsSchema, default: () => ({}) })
+  inserted: SyncRunCounts;
+
+  // Fetched rows saved so far, out of the sum of `fetched`
+  @Prop({ type: Number, default: 0 })
+  processed: number;
+
+  @Prop({ type: Number, default: 0 })
+  failed: number;
+
+  @Prop({ type: [String], default: [] })
+  errorMessages: string[];
+}
+
+export const SyncRunSchema = SchemaFactory.createForClass(SyncRun);
+
+SyncRunSchema.index({ userId: 1, startedAt: -1 });
+SyncRunSchema.index({ credentialId: 1, startedAt: -1 });
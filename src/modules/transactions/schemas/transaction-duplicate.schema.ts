@@ -0,0 +1,65 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { TransactionType } from '../../../common/constants/transaction-types.constant';
+import { DuplicateStatus } from '../../../common/constants/duplicate-status.constant';
+
+export type TransactionDuplicateDocument = TransactionDuplicate & Document;
+
+/**
+ * Two transactions from different sources (e.g. an Excel import and the
+ * exchange API) that look like the same movement. Once merged or suppressed
+ * the duplicate is marked with `duplicateOf` and left out of every total.
+ */
+@Schema({ timestamps: true, collection: 'transaction_duplicates' })
+export class TransactionDuplicate {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Transaction', required: true })
+  originalId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Transaction', required: true })
+  duplicateId: Types.ObjectId;
+
+  @Prop({ required: true, enum: TransactionType })
+  type: TransactionType;
+
+  @Prop({ required: true })
+  asset: string;
+
+  @Prop({ required: true })
+  originalExchange: string;
+
+  @Prop({ required: true })
+  duplicateExchange: string;
+
+  @Prop({ required: true, type: Number })
+  originalAmount: number;
+
+  @Prop({ required: true, type: Number })
+  duplicateAmount: number;
+
+  @Prop({ required: true })
+  originalAt: Date;
+
+  @Prop({ required: true })
+  duplicateAt: Date;
+
+  // On-chain transaction id both records share, when that is what matched
+  @Prop()
+  txid?: string;
+
+  @Prop({ required: true, enum: DuplicateStatus })
+  status: DuplicateStatus;
+
+  // Values of the kept transaction replaced by a merge, restored on dismiss
+  @Prop({ type: Object })
+  mergedPrevious?: Record<string, unknown>;
+}
+
+export const TransactionDuplicateSchema =
+  SchemaFactory.createForClass(TransactionDuplicate);
+
+TransactionDuplicateSchema.index({ userId: 1, status: 1 });
+TransactionDuplicateSchema.index({ userId: 1, originalId: 1 });
+TransactionDuplicateSchema.index({ userId: 1, duplicateId: 1 });
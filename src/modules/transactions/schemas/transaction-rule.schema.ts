@@ -0,0 +1,75 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { TransactionType } from '../../../common/constants/transaction-types.constant';
+import { TransactionCategory } from '../../../common/constants/transaction-categories.constant';
+
+export type TransactionRuleDocument = TransactionRule & Document;
+
+/**
+ * What a transaction must look like for a rule to apply. Every condition
+ * set must hold; text is compared case-insensitively.
+ */
+@Schema({ _id: false })
+export class RuleConditions {
+  @Prop()
+  exchange?: string;
+
+  @Prop({ enum: TransactionType })
+  type?: TransactionType;
+
+  @Prop()
+  asset?: string;
+
+  @Prop()
+  operation?: string; // Exchange's own label, e.g. Binance 'Simple Earn Flexible Interest'
+
+  @Prop()
+  address?: string; // Deposit or withdrawal address
+}
+
+export const RuleConditionsSchema =
+  SchemaFactory.createForClass(RuleConditions);
+
+@Schema({ _id: false })
+export class RuleActions {
+  @Prop({ enum: TransactionType })
+  type?: TransactionType;
+
+  @Prop({ enum: TransactionCategory })
+  category?: TransactionCategory;
+
+  @Prop({ type: [String], default: [] })
+  tags: string[]; // Added to the transaction's tags
+}
+
+export const RuleActionsSchema = SchemaFactory.createForClass(RuleActions);
+
+/**
+ * Reusable categorization rule, applied on sync, on import and on demand
+ * to the existing history
+ */
+@Schema({ timestamps: true, collection: 'transaction_rules' })
+export class TransactionRule {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ default: true })
+  enabled: boolean;
+
+  @Prop({ type: Number, default: 0 })
+  priority: number; // Lower runs first; the first rule setting a field wins
+
+  @Prop({ type: RuleConditionsSchema, required: true })
+  conditions: RuleConditions;
+
+  @Prop({ type: RuleActionsSchema, required: true })
+  actions: RuleActions;
+}
+
+export const TransactionRuleSchema =
+  SchemaFactory.createForClass(TransactionRule);
+
+TransactionRuleSchema.index({ userId: 1, priority: 1 });
@@ -1,6 +1,7 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
 import { TransactionType } from '../../../common/constants/transaction-types.constant';
+import { TransactionCategory } from '../../../common/constants/transaction-categories.constant';
 
 export type TransactionDocument = Transaction & Document;
 
@@ -53,6 +54,32 @@ export class Transaction {
 
   @Prop({ type: Object })
   rawData?: Record<string, unknown>;
+
+  // User metadata, never touched by sync or imports
+
+  @Prop()
+  notes?: string;
+
+  @Prop({ type: [String], default: [] })
+  tags: string[];
+
+  @Prop({ enum: TransactionCategory })
+  category?: TransactionCategory;
+
+  // Corrected by hand; sync keeps the user's version. Rules and duplicate
+  // merges also record edits in rawData but don't set this.
+  @Prop({ default: false })
+  manuallyEdited: boolean;
+
+  // Set when merged into or suppressed in favour of another transaction.
+  // The record stays so sync and imports don't bring it back, but balances,
+  // P&L and reports skip it.
+  @Prop({ type: Types.ObjectId, ref: 'Transaction' })
+  duplicateOf?: Types.ObjectId;
+
+  // File upload that brought the transaction in, unset for API and manual ones
+  @Prop({ type: Types.ObjectId, ref: 'ImportBatch' })
+  importBatchId?: Types.ObjectId;
 }
 
 export const TransactionSchema = SchemaFactory.createForClass(Transaction);
@@ -61,4 +88,6 @@ TransactionSchema.index({ userId: 1, timestamp: -1 });
 TransactionSchema.index({ userId: 1, exchange: 1, timestamp: -1 });
 TransactionSchema.index({ userId: 1, type: 1, timestamp: -1 });
 TransactionSchema.index({ userId: 1, asset: 1 });
+TransactionSchema.index({ userId: 1, tags: 1 });
+TransactionSchema.index({ importBatchId: 1 }, { sparse: true });
 TransactionSchema.index({ externalId: 1, exchange: 1 }, { unique: true });
@@ -0,0 +1,143 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types, FilterQuery } from 'mongoose';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { SyncRun, SyncRunDocument } from './schemas/sync-run.schema';
+import { SyncRunDto, SyncRunsQueryDto } from './dto/sync-run.dto';
+import { ExchangeCredentialDocument } from '../exchange-credentials/schemas/exchange-credential.schema';
+import {
+  SyncRunStage,
+  SyncRunStatus,
+  SyncTrigger,
+} from '../../common/constants/sync-run.constant';
+
+// Only the first errors of a run are kept; the rest are counted in `failed`
+const MAX_RUN_ERRORS = 20;
+
+/**
+ * Log of transaction syncs. Every change to a run is also emitted as a
+ * `sync.progress` event, which the balances gateway pushes to the user.
+ */
+@Injectable()
+export class SyncRunsService {
+  private readonly logger = new Logger(SyncRunsService.name);
+
+  constructor(
+    @InjectModel(SyncRun.name)
+    private syncRunModel: Model<SyncRunDocument>,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  async findAll(
+    userId: string,
+    query: SyncRunsQueryDto,
+  ): Promise<SyncRunDto[]> {
+    const filter: FilterQuery<SyncRun> = {
+      userId: new Types.ObjectId(userId),
+    };
+    if (query.credentialId) {
+      filter.credentialId = new Types.ObjectId(query.credentialId);
+    }
+
+    const runs = await this.syncRunModel
+      .find(filter)
+      .sort({ startedAt: -1 })
+      .limit(query.limit ?? 20);
+    return runs.map((r) => this.toResponse(r));
+  }
+
+  async start(
+    credential: ExchangeCredentialDocument,
+    trigger: SyncTrigger,
+    fullSync: boolean,
+    since?: Date,
+  ): Promise<SyncRunDocument> {
+    const run = await this.syncRunModel.create({
+      userId: credential.userId,
+      credentialId: credential._id,
+      exchange: credential.exchange,
+      trigger,
+      fullSync,
+      since,
+      status: SyncRunStatus.RUNNING,
+      stage: SyncRunStage.FETCHING,
+      startedAt: new Date(),
+    });
+    this.emit(run);
+    return run;
+  }
+
+  /**
+   * Save the run as it is now and tell the user
+   */
+  async progress(run: SyncRunDocument): Promise<void> {
+    await run.save();
+    this.emit(run);
+  }
+
+  addError(run: SyncRunDocument, message: string): void {
+    if (run.errorMessages.length < MAX_RUN_ERRORS) {
+      run.errorMessages.push(message);
+    }
+  }
+
+  /**
+   * Close the run. Passing an error marks it as failed.
+   */
+  async finish(run: SyncRunDocument, error?: Error): Promise<void> {
+    run.finishedAt = new Date();
+    run.durationMs = run.finishedAt.getTime() - run.startedAt.getTime();
+    run.stage = SyncRunStage.DONE;
+    run.status = error ? SyncRunStatus.FAILED : SyncRunStatus.COMPLETED;
+    if (error) {
+      this.addError(run, error.message);
+    }
+
+    try {
+      await this.progress(run);
+    } catch (saveError) {
+      this.logger.warn(
+        `Failed to save sync run ${run._id}: ${saveError.message}`,
+      );
+    }
+  }
+
+  toResponse(run: SyncRunDocument): SyncRunDto {
+    return {
+      id: run._id.toString(),
+      credentialId: run.credentialId.toString(),
+      exchange: run.exchange,
+      trigger: run.trigger,
+      fullSync: run.fullSync,
+      status: run.status,
+      stage: run.stage,
+      since: run.since,
+      startedAt: run.startedAt,
+      finishedAt: run.finishedAt,
+      durationMs: run.durationMs,
+      fetched: this.countsOf(run.fetched),
+      inserted: this.countsOf(run.inserted),
+      processed: run.processed,
+      failed: run.failed,
+      errorMessages: run.errorMessages,
+    };
+  }
+
+  // ==================== PRIVATE METHODS ====================
+
+  private countsOf(counts: SyncRun['fetched']): SyncRunDto['fetched'] {
+    return {
+      deposits: counts?.deposits ?? 0,
+      withdrawals: counts?.withdrawals ?? 0,
+      trades: counts?.trades ?? 0,
+      ledger: counts?.ledger ?? 0,
+    };
+  }
+
+  private emit(run: SyncRunDocument): void {
+    this.eventEmitter.emit('sync.progress', {
+      userId: run.userId.toString(),
+      data: this.toResponse(run),
+    });
+  }
+}
@@ -0,0 +1,468 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types, FilterQuery } from 'mongoose';
+import { Transaction, TransactionDocument } from './schemas/transaction.schema';
+import {
+  TransactionDuplicate,
+  TransactionDuplicateDocument,
+} from './schemas/transaction-duplicate.schema';
+import {
+  DetectDuplicatesResultDto,
+  TransactionDuplicateDto,
+} from './dto/transaction-duplicate.dto';
+import { OFFLINE_EXCHANGES } from '../../common/constants/exchanges.constant';
+import { DuplicateStatus } from '../../common/constants/duplicate-status.constant';
+
+// Sources disagree on the time of the same movement: file exports round to
+// the second or minute, APIs report when the exchange credited it
+const DUPLICATE_WINDOW_MS = 10 * 60 * 1000;
+
+// Relative slack on amounts for sources that round to fewer decimals
+const DUPLICATE_AMOUNT_TOLERANCE = 0.001;
+
+// Raw record keys holding the on-chain transaction id
+const TXID_KEYS = ['txId', 'txid', 'TXID', 'txHash', 'hash'];
+
+// Fields a merge copies from the duplicate when the kept transaction lacks them
+const MERGE_FIELDS = [
+  'fee',
+  'feeAsset',
+  'price',
+  'priceAsset',
+  'total',
+  'pair',
+  'side',
+  'notes',
+  'category',
+] as const;
+
+type StoredTransaction = Transaction & { _id: Types.ObjectId };
+
+/**
+ * Finds transactions recorded twice through different sources, e.g. a
+ * Binance deposit imported from the Excel export and fetched again through
+ * the API under another id. Pairs are listed for review and then merged,
+ * suppressed or dismissed.
+ */
+@Injectable()
+export class TransactionDuplicatesService {
+  private readonly logger = new Logger(TransactionDuplicatesService.name);
+
+  constructor(
+    @InjectModel(TransactionDuplicate.name)
+    private duplicateModel: Model<TransactionDuplicateDocument>,
+    @InjectModel(Transaction.name)
+    private transactionModel: Model<TransactionDocument>,
+  ) {}
+
+  async findAll(
+    userId: string,
+    status?: DuplicateStatus,
+  ): Promise<TransactionDuplicateDto[]> {
+    const query: FilterQuery<TransactionDuplicate> = {
+      userId: new Types.ObjectId(userId),
+    };
+    if (status) {
+      query.status = status;
+    }
+
+    const duplicates = await this.duplicateModel
+      .find(query)
+      .sort({ originalAt: -1 });
+    return duplicates.map((d) => this.toResponse(d));
+  }
+
+  /**
+   * Look for new pairs: same type and asset on different accounts, with the
+   * same on-chain id, or with close amounts and times and no conflicting
+   * ids. Transactions already in a pair and dismissed pairs are left alone.
+   */
+  async detect(
+    userId: string,
+    since?: Date,
+  ): Promise<DetectDuplicatesResultDto> {
+    const query: FilterQuery<Transaction> = {
+      userId: new Types.ObjectId(userId),
+      duplicateOf: null,
+    };
+    if (since) {
+      query.timestamp = {
+        $gte: new Date(since.getTime() - DUPLICATE_WINDOW_MS),
+      };
+    }
+    const transactions = await this.transactionModel
+      .find(query)
+      .sort({ timestamp: 1 })
+      .lean<StoredTransaction[]>();
+    if (transactions.length === 0) {
+      return { checked: 0, found: 0 };
+    }
+
+    const ids = transactions.map((t) => t._id);
+    const existing = await this.duplicateModel
+      .find({
+        userId: new Types.ObjectId(userId),
+        $or: [{ originalId: { $in: ids } }, { duplicateId: { $in: ids } }],
+      })
+      .lean();
+
+    const paired = new Set<string>();
+    const dismissedPairs = new Set<string>();
+    for (const pair of existing) {
+      if (pair.status === DuplicateStatus.DISMISSED) {
+        dismissedPairs.add(this.pairKey(pair.originalId, pair.duplicateId));
+      } else {
+        paired.add(pair.originalId.toString());
+        paired.add(pair.duplicateId.toString());
+      }
+    }
+    const available = (a: StoredTransaction, b: StoredTransaction) =>
+      !paired.has(b._id.toString()) &&
+      !a.credentialId.equals(b.credentialId) &&
+      !dismissedPairs.has(this.pairKey(a._id, b._id));
+
+    const byTxid = new Map<string, StoredTransaction>();
+    const found: TransactionDuplicate[] = [];
+
+    transactions.forEach((tx, index) => {
+      const txid = this.txidOf(tx);
+      const txidKey = txid && `${tx.type}:${tx.asset}:${txid}`;
+      if (paired.has(tx._id.toString())) return;
+
+      let match = txidKey ? byTxid.get(txidKey) : undefined;
+      if (match && !available(tx, match)) {
+        match = undefined;
+      }
+
+      // Walk back from the closest earlier transaction
+      for (let i = index - 1; !match && i >= 0; i--) {
+        const other = transactions[i];
+        const delta = tx.timestamp.getTime() - other.timestamp.getTime();
+        if (delta > DUPLICATE_WINDOW_MS) break;
+        if (this.sameMovement(tx, other) && available(tx, other)) {
+          match = other;
+        }
+      }
+
+      if (match) {
+        paired.add(tx._id.toString());
+        paired.add(match._id.toString());
+        found.push(this.buildDuplicate(userId, match, tx, txid));
+      } else if (txidKey && !byTxid.has(txidKey)) {
+        byTxid.set(txidKey, tx);
+      }
+    });
+
+    if (found.length > 0) {
+      await this.duplicateModel.insertMany(found);
+      this.logger.log(
+        `Found ${found.length} possible duplicate transactions for user ${userId}`,
+      );
+    }
+    return { checked: transactions.length, found: found.length };
+  }
+
+  /**
+   * Merge, suppress or dismiss a pair. Returns the transactions before and
+   * after so the caller can update P&L.
+   *
+   * - merged: the kept transaction takes the fee, price, notes, tags and
+   *   category it lacks from the other, which is then suppressed
+   * - suppressed: the other transaction is left out of every total
+   * - dismissed: not a duplicate. Undoes a merge or suppression and keeps
+   *   detection from pairing the two again
+   */
+  async resolve(
+    userId: string,
+    duplicateId: string,
+    status: DuplicateStatus,
+    keepId?: string,
+  ): Promise<{
+    duplicate: TransactionDuplicateDto;
+    previous: TransactionDocument[];
+    current: TransactionDocument[];
+  }> {
+    const pair = await this.findPair(userId, duplicateId);
+
+    if (status === DuplicateStatus.PENDING) {
+      throw new BadRequestException('A pair cannot be set back to pending');
+    }
+    if (pair.status === status) {
+      throw new BadRequestException(`Pair is already ${status}`);
+    }
+    if (
+      status !== DuplicateStatus.DISMISSED &&
+      pair.status !== DuplicateStatus.PENDING
+    ) {
+      throw new BadRequestException(
+        `Pair is already ${pair.status}; dismiss it first`,
+      );
+    }
+    if (
+      keepId &&
+      ![pair.originalId, pair.duplicateId].some((id) => id.equals(keepId))
+    ) {
+      throw new BadRequestException('keepId must be one of the pair');
+    }
+    if (status === DuplicateStatus.DISMISSED && keepId) {
+      throw new BadRequestException('keepId does not apply to dismissing');
+    }
+
+    if (keepId && pair.duplicateId.equals(keepId)) {
+      this.swap(pair);
+    }
+    const [kept, other] = await Promise.all([
+      this.transactionModel.findOne({
+        _id: pair.originalId,
+        userId: pair.userId,
+      }),
+      this.transactionModel.findOne({
+        _id: pair.duplicateId,
+        userId: pair.userId,
+      }),
+    ]);
+    if (!kept || !other) {
+      throw new NotFoundException('Transaction of the pair no longer exists');
+    }
+
+    const previous = [kept, other].map((tx) =>
+      this.transactionModel.hydrate(tx.toObject()),
+    );
+    let current: TransactionDocument[] = [];
+
+    if (status === DuplicateStatus.DISMISSED) {
+      if (pair.status === DuplicateStatus.MERGED && pair.mergedPrevious) {
+        this.unmerge(kept, pair.mergedPrevious);
+        await kept.save();
+      }
+      if (pair.status !== DuplicateStatus.PENDING) {
+        other.duplicateOf = undefined;
+        await other.save();
+        current = [kept, other];
+      }
+      pair.mergedPrevious = undefined;
+    } else {
+      if (status === DuplicateStatus.MERGED) {
+        pair.mergedPrevious = this.merge(kept, other);
+        await kept.save();
+      }
+      other.duplicateOf = kept._id;
+      await other.save();
+      current = [kept];
+    }
+
+    pair.status = status;
+    await pair.save();
+
+    this.logger.log(
+      `Duplicate ${duplicateId} ${status} (kept ${kept._id}) for user ${userId}`,
+    );
+    return {
+      duplicate: this.toResponse(pair),
+      previous: current.length > 0 ? previous : [],
+      current,
+    };
+  }
+
+  /**
+   * Drop the pairs of transactions about to be deleted. Transactions that
+   * were merged into or suppressed for one of them count again; they are
+   * returned so the caller can update P&L.
+   */
+  async releaseTransactions(
+    userId: string,
+    transactionIds: Types.ObjectId[],
+  ): Promise<TransactionDocument[]> {
+    if (transactionIds.length === 0) {
+      return [];
+    }
+
+    const userIdObj = new Types.ObjectId(userId);
+    const query = {
+      userId: userIdObj,
+      $or: [
+        { originalId: { $in: transactionIds } },
+        { duplicateId: { $in: transactionIds } },
+      ],
+    };
+    const pairs = await this.duplicateModel.find(query).lean();
+    if (pairs.length === 0) {
+      return [];
+    }
+    await this.duplicateModel.deleteMany(query);
+
+    const restored = await this.transactionModel.find({
+      userId: userIdObj,
+      _id: { $nin: transactionIds },
+      duplicateOf: { $in: transactionIds },
+    });
+    for (const tx of restored) {
+      tx.duplicateOf = undefined;
+      await tx.save();
+    }
+    return restored;
+  }
+
+  toResponse(duplicate: TransactionDuplicateDocument): TransactionDuplicateDto {
+    return {
+      id: duplicate._id.toString(),
+      type: duplicate.type,
+      asset: duplicate.asset,
+      originalId: duplicate.originalId.toString(),
+      duplicateId: duplicate.duplicateId.toString(),
+      originalExchange: duplicate.originalExchange,
+      duplicateExchange: duplicate.duplicateExchange,
+      originalAmount: duplicate.originalAmount,
+      duplicateAmount: duplicate.duplicateAmount,
+      originalAt: duplicate.originalAt,
+      duplicateAt: duplicate.duplicateAt,
+      txid: duplicate.txid,
+      status: duplicate.status,
+    };
+  }
+
+  // ==================== PRIVATE METHODS ====================
+
+  private sameMovement(a: StoredTransaction, b: StoredTransaction): boolean {
+    if (a.type !== b.type || a.asset !== b.asset) return false;
+    if (a.side !== b.side || a.priceAsset !== b.priceAsset) return false;
+
+    const txidA = this.txidOf(a);
+    const txidB = this.txidOf(b);
+    if (txidA && txidB && txidA !== txidB) return false;
+
+    const tolerance =
+      Math.max(a.amount, b.amount) * DUPLICATE_AMOUNT_TOLERANCE + 1e-8;
+    return Math.abs(a.amount - b.amount) <= tolerance;
+  }
+
+  private txidOf(tx: StoredTransaction): string | undefined {
+    const key = TXID_KEYS.find(
+      (k) => typeof tx.rawData?.[k] === 'string' && tx.rawData[k] !== '',
+    );
+    return key ? (tx.rawData[key] as string).toLowerCase() : undefined;
+  }
+
+  private pairKey(a: Types.ObjectId, b: Types.ObjectId): string {
+    return [a.toString(), b.toString()].sort().join(':');
+  }
+
+  /**
+   * The record from the exchange API is kept by default: sync would bring it
+   * back anyway. Otherwise the earlier one.
+   */
+  private buildDuplicate(
+    userId: string,
+    earlier: StoredTransaction,
+    later: StoredTransaction,
+    txid?: string,
+  ): TransactionDuplicate {
+    const preferLater =
+      OFFLINE_EXCHANGES.includes(earlier.exchange) &&
+      !OFFLINE_EXCHANGES.includes(later.exchange);
+    const [original, duplicate] = preferLater
+      ? [later, earlier]
+      : [earlier, later];
+
+    return {
+      userId: new Types.ObjectId(userId),
+      originalId: original._id,
+      duplicateId: duplicate._id,
+      type: original.type,
+      asset: original.asset,
+      originalExchange: original.exchange,
+      duplicateExchange: duplicate.exchange,
+      originalAmount: original.amount,
+      duplicateAmount: duplicate.amount,
+      originalAt: original.timestamp,
+      duplicateAt: duplicate.timestamp,
+      txid: txid && txid === this.txidOf(earlier) ? txid : undefined,
+      status: DuplicateStatus.PENDING,
+    };
+  }
+
+  private swap(pair: TransactionDuplicateDocument): void {
+    [pair.originalId, pair.duplicateId] = [pair.duplicateId, pair.originalId];
+    [pair.originalExchange, pair.duplicateExchange] = [
+      pair.duplicateExchange,
+      pair.originalExchange,
+    ];
+    [pair.originalAmount, pair.duplicateAmount] = [
+      pair.duplicateAmount,
+      pair.originalAmount,
+    ];
+    [pair.originalAt, pair.duplicateAt] = [pair.duplicateAt, pair.originalAt];
+  }
+
+  /**
+   * Copy what the kept transaction lacks. Returns the replaced values, which
+   * also go to its edit history.
+   */
+  private merge(
+    kept: TransactionDocument,
+    other: TransactionDocument,
+  ): Record<string, unknown> {
+    const previous: Record<string, unknown> = {};
+    for (const field of MERGE_FIELDS) {
+      if (kept[field] == null && other[field] != null) {
+        previous[field] = null;
+        kept.set(field, other[field]);
+      }
+    }
+    const tags = (other.tags || []).filter((t) => !kept.tags?.includes(t));
+    if (tags.length > 0) {
+      previous.tags = kept.tags || [];
+      kept.tags = [...(kept.tags || []), ...tags];
+    }
+
+    this.recordEdit(kept, { mergedFrom: other._id.toString(), previous });
+    return previous;
+  }
+
+  private unmerge(
+    kept: TransactionDocument,
+    mergedPrevious: Record<string, unknown>,
+  ): void {
+    const previous: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(mergedPrevious)) {
+      previous[field] = kept.get(field) ?? null;
+      kept.set(field, value ?? undefined);
+    }
+    this.recordEdit(kept, { previous });
+  }
+
+  private recordEdit(
+    tx: TransactionDocument,
+    edit: { mergedFrom?: string; previous: Record<string, unknown> },
+  ): void {
+    if (Object.keys(edit.previous).length === 0) return;
+
+    const edits = (tx.rawData?.edits as unknown[]) || [];
+    tx.rawData = {
+      ...tx.rawData,
+      edits: [...edits, { editedAt: new Date(), ...edit }],
+    };
+    tx.markModified('rawData');
+  }
+
+  private async findPair(
+    userId: string,
+    duplicateId: string,
+  ): Promise<TransactionDuplicateDocument> {
+    const pair = Types.ObjectId.isValid(duplicateId)
+      ? await this.duplicateModel.findOne({
+          _id: new Types.ObjectId(duplicateId),
+          userId: new Types.ObjectId(userId),
+        })
+      : null;
+    if (!pair) {
+      throw new NotFoundException('Duplicate pair not found');
+    }
+    return pair;
+  }
+}
@@ -0,0 +1,410 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Transaction, TransactionDocument } from './schemas/transaction.schema';
+import {
+  TransactionRule,
+  TransactionRuleDocument,
+  RuleConditions,
+  RuleActions,
+} from './schemas/transaction-rule.schema';
+import {
+  CreateTransactionRuleDto,
+  UpdateTransactionRuleDto,
+  TransactionRuleDto,
+  RulePreviewDto,
+  RuleChangeDto,
+  RuleActionsDto,
+} from './dto/transaction-rule.dto';
+import { TransactionType } from '../../common/constants/transaction-types.constant';
+import {
+  CATEGORY_TRANSACTION_TYPES,
+  TransactionCategory,
+} from '../../common/constants/transaction-categories.constant';
+
+// Raw record keys holding the exchange's operation label and the address
+const OPERATION_KEYS = ['operation', 'Operation', 'Type', 'type'];
+const ADDRESS_KEYS = ['address', 'Address'];
+
+/**
+ * Changes the rules make to one transaction
+ */
+export interface RuleChanges {
+  type?: TransactionType;
+  category?: TransactionCategory;
+  tags: string[]; // Tags to add
+  rules: string[]; // Names of the rules that changed something
+}
+
+export type RuleTarget = Pick<Transaction, 'exchange' | 'type' | 'asset'> &
+  Partial<Pick<Transaction, 'category' | 'tags' | 'rawData'>>;
+
+/**
+ * User-defined rules that set the type, category and tags of transactions
+ * from the exchange, asset and raw record. Applied on sync, on import and
+ * on demand to the existing history.
+ */
+@Injectable()
+export class TransactionRulesService {
+  private readonly logger = new Logger(TransactionRulesService.name);
+
+  constructor(
+    @InjectModel(TransactionRule.name)
+    private ruleModel: Model<TransactionRuleDocument>,
+    @InjectModel(Transaction.name)
+    private transactionModel: Model<TransactionDocument>,
+  ) {}
+
+  async findAll(userId: string): Promise<TransactionRuleDto[]> {
+    const rules = await this.ruleModel
+      .find({ userId: new Types.ObjectId(userId) })
+      .sort({ priority: 1, createdAt: 1 });
+    return rules.map((r) => this.toResponse(r));
+  }
+
+  async create(
+    userId: string,
+    dto: CreateTransactionRuleDto,
+  ): Promise<TransactionRuleDto> {
+    const actions = this.normalizeActions(dto.actions);
+    this.validate(dto.conditions, actions);
+
+    const rule = await this.ruleModel.create({
+      userId: new Types.ObjectId(userId),
+      name: dto.name,
+      enabled: dto.enabled ?? true,
+      priority: dto.priority ?? 0,
+      conditions: dto.conditions,
+      actions,
+    });
+    return this.toResponse(rule);
+  }
+
+  async update(
+    userId: string,
+    ruleId: string,
+    dto: UpdateTransactionRuleDto,
+  ): Promise<TransactionRuleDto> {
+    const rule = await this.findRule(userId, ruleId);
+
+    if (dto.name !== undefined) {
+      rule.name = dto.name;
+    }
+    if (dto.enabled !== undefined) {
+      rule.enabled = dto.enabled;
+    }
+    if (dto.priority !== undefined) {
+      rule.priority = dto.priority;
+    }
+    if (dto.conditions !== undefined) {
+      rule.conditions = dto.conditions;
+    }
+    if (dto.actions !== undefined) {
+      rule.actions = this.normalizeActions(dto.actions);
+    }
+    this.validate(rule.conditions, rule.actions);
+
+    await rule.save();
+    return this.toResponse(rule);
+  }
+
+  async delete(userId: string, ruleId: string): Promise<void> {
+    const rule = await this.findRule(userId, ruleId);
+    await rule.deleteOne();
+  }
+
+  /**
+   * Enabled rules in the order they are evaluated
+   */
+  async getEnabledRules(userId: string): Promise<TransactionRule[]> {
+    return this.ruleModel
+      .find({ userId: new Types.ObjectId(userId), enabled: true })
+      .sort({ priority: 1, createdAt: 1 })
+      .lean();
+  }
+
+  /**
+   * What the rules would change on a transaction, or null when nothing.
+   * Every matching rule adds its tags; for type and category the first
+   * matching rule that sets one wins.
+   */
+  evaluate(rules: TransactionRule[], tx: RuleTarget): RuleChanges | null {
+    const changes: RuleChanges = { tags: [], rules: [] };
+    const existingTags = new Set(tx.tags || []);
+    let type = tx.type;
+    let typeSet = false;
+    let categorySet = false;
+
+    for (const rule of rules) {
+      if (!this.matches(rule.conditions, tx)) continue;
+      const { actions } = rule;
+      let changed = false;
+
+      if (actions.type && !typeSet) {
+        typeSet = true;
+        type = actions.type;
+        if (actions.type !== tx.type) {
+          changes.type = actions.type;
+          changed = true;
+        }
+      }
+      if (actions.category && !categorySet) {
+        categorySet = true;
+        if (
+          actions.category !== tx.category &&
+          CATEGORY_TRANSACTION_TYPES[actions.category].includes(type)
+        ) {
+          changes.category = actions.category;
+          changed = true;
+        }
+      }
+      for (const tag of actions.tags || []) {
+        if (!existingTags.has(tag)) {
+          existingTags.add(tag);
+          changes.tags.push(tag);
+          changed = true;
+        }
+      }
+
+      if (changed) {
+        changes.rules.push(rule.name);
+      }
+    }
+
+    return changes.rules.length > 0 ? changes : null;
+  }
+
+  /**
+   * Apply evaluated changes. Replaced values go to `rawData.edits` with the
+   * names of the rules, like edits made by hand.
+   */
+  applyChanges<T extends RuleTarget>(tx: T, changes: RuleChanges): T {
+    const previous: Record<string, unknown> = {};
+    if (changes.type) {
+      previous.type = tx.type;
+      tx.type = changes.type;
+    }
+    if (changes.category) {
+      previous.category = tx.category ?? null;
+      tx.category = changes.category;
+    }
+    if (changes.tags.length > 0) {
+      tx.tags = [...(tx.tags || []), ...changes.tags];
+    }
+
+    if (Object.keys(previous).length > 0) {
+      const edits = (tx.rawData?.edits as unknown[]) || [];
+      tx.rawData = {
+        ...tx.rawData,
+        edits: [
+          ...edits,
+          { editedAt: new Date(), rules: changes.rules, previous },
+        ],
+      };
+    }
+    return tx;
+  }
+
+  /**
+   * Transactions each rule would change if applied on its own
+   */
+  async preview(
+    userId: string,
+    ruleId?: string,
+    limit = 50,
+  ): Promise<RulePreviewDto[]> {
+    const rules = ruleId
+      ? [await this.findRule(userId, ruleId)]
+      : await this.ruleModel
+          .find({ userId: new Types.ObjectId(userId) })
+          .sort({ priority: 1, createdAt: 1 });
+    const transactions = await this.transactionModel
+      .find({ userId: new Types.ObjectId(userId) })
+      .sort({ timestamp: -1 })
+      .lean<(Transaction & { _id: Types.ObjectId })[]>();
+
+    return rules.map((rule) => {
+      const changes: RuleChangeDto[] = [];
+      let count = 0;
+
+      for (const tx of transactions) {
+        const change = this.evaluate([rule], tx);
+        if (!change) continue;
+        count++;
+        if (changes.length >= limit) continue;
+
+        changes.push({
+          transactionId: tx._id.toString(),
+          timestamp: tx.timestamp,
+          exchange: tx.exchange,
+          asset: tx.asset,
+          amount: tx.amount,
+          type: tx.type,
+          newType: change.type,
+          category: tx.category,
+          newCategory: change.category,
+          addedTags: change.tags,
+        });
+      }
+
+      return {
+        ruleId: rule._id.toString(),
+        name: rule.name,
+        count,
+        changes,
+      };
+    });
+  }
+
+  /**
+   * Apply rules to stored transactions. Defaults to every enabled rule over
+   * the whole history. Returns the changed transactions before and after.
+   */
+  async applyToHistory(
+    userId: string,
+    options: { ruleIds?: string[] } = {},
+  ): Promise<{
+    checked: number;
+    previous: TransactionDocument[];
+    current: TransactionDocument[];
+  }> {
+    const rules = options.ruleIds
+      ? await this.ruleModel
+          .find({
+            userId: new Types.ObjectId(userId),
+            _id: { $in: options.ruleIds.map((id) => new Types.ObjectId(id)) },
+          })
+          .sort({ priority: 1, createdAt: 1 })
+          .lean()
+      : await this.getEnabledRules(userId);
+    if (rules.length === 0) {
+      return { checked: 0, previous: [], current: [] };
+    }
+
+    const transactions = await this.transactionModel
+      .find({ userId: new Types.ObjectId(userId) })
+      .sort({ timestamp: 1 });
+
+    const previous: TransactionDocument[] = [];
+    const current: TransactionDocument[] = [];
+    for (const tx of transactions) {
+      const changes = this.evaluate(rules, tx);
+      if (!changes) continue;
+
+      previous.push(this.transactionModel.hydrate(tx.toObject()));
+      this.applyChanges(tx, changes);
+      await tx.save();
+      current.push(tx);
+    }
+
+    if (current.length > 0) {
+      this.logger.log(
+        `Rules changed ${current.length}/${transactions.length} transactions for user ${userId}`,
+      );
+    }
+    return { checked: transactions.length, previous, current };
+  }
+
+  // ==================== PRIVATE METHODS ====================
+
+  private matches(conditions: RuleConditions, tx: RuleTarget): boolean {
+    const { exchange, type, asset, operation, address } = conditions;
+    if (exchange && !this.sameText(tx.exchange, exchange)) return false;
+    if (type && tx.type !== type) return false;
+    if (asset && !this.sameText(tx.asset, asset)) return false;
+    if (
+      operation &&
+      !this.sameText(this.rawText(tx.rawData, OPERATION_KEYS), operation)
+    ) {
+      return false;
+    }
+    if (
+      address &&
+      !this.sameText(this.rawText(tx.rawData, ADDRESS_KEYS), address)
+    ) {
+      return false;
+    }
+    return true;
+  }
+
+  private rawText(
+    rawData: Record<string, unknown> | undefined,
+    keys: string[],
+  ): string | undefined {
+    const key = keys.find((k) => typeof rawData?.[k] === 'string');
+    return key ? (rawData[key] as string) : undefined;
+  }
+
+  private sameText(value: string | undefined, expected: string): boolean {
+    return (
+      value !== undefined &&
+      value.trim().toLowerCase() === expected.trim().toLowerCase()
+    );
+  }
+
+  private normalizeActions(actions: RuleActionsDto): RuleActions {
+    return {
+      ...actions,
+      tags: Array.from(
+        new Set(
+          (actions.tags || [])
+            .map((t) => t.trim().toLowerCase())
+            .filter(Boolean),
+        ),
+      ),
+    };
+  }
+
+  private validate(conditions: RuleConditions, actions: RuleActions): void {
+    const { exchange, type, asset, operation, address } = conditions || {};
+    if (![exchange, type, asset, operation, address].some(Boolean)) {
+      throw new BadRequestException('A rule needs at least one condition');
+    }
+    if (!actions.type && !actions.category && actions.tags.length === 0) {
+      throw new BadRequestException('A rule needs at least one action');
+    }
+
+    const resultType = actions.type || type;
+    if (
+      actions.category &&
+      resultType &&
+      !CATEGORY_TRANSACTION_TYPES[actions.category].includes(resultType)
+    ) {
+      throw new BadRequestException(
+        `Category ${actions.category} cannot be set on a ${resultType}`,
+      );
+    }
+  }
+
+  private async findRule(
+    userId: string,
+    ruleId: string,
+  ): Promise<TransactionRuleDocument> {
+    const rule = Types.ObjectId.isValid(ruleId)
+      ? await this.ruleModel.findOne({
+          _id: new Types.ObjectId(ruleId),
+          userId: new Types.ObjectId(userId),
+        })
+      : null;
+    if (!rule) {
+      throw new NotFoundException('Rule not found');
+    }
+    return rule;
+  }
+
+  private toResponse(rule: TransactionRuleDocument): TransactionRuleDto {
+    return {
+      id: rule._id.toString(),
+      name: rule.name,
+      enabled: rule.enabled,
+      priority: rule.priority,
+      conditions: rule.conditions,
+      actions: rule.actions,
+    };
+  }
+}
@@ -1,21 +1,64 @@
-import { Controller, Get, Post, Param, Query, UseGuards, Res, Header } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Res,
+  Header,
+  BadRequestException,
+  ParseEnumPipe,
+} from '@nestjs/common';
 import { Response } from 'express';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
+  ApiQuery,
 } from '@nestjs/swagger';
 import { TransactionsService } from './transactions.service';
+import { TransactionRulesService } from './transaction-rules.service';
+import { TransactionDuplicatesService } from './transaction-duplicates.service';
+import { SyncRunsService } from './sync-runs.service';
 import { ExchangeCredentialsService } from '../exchange-credentials/exchange-credentials.service';
 import { TransactionFilterDto } from './dto/transaction-filter.dto';
+import {
+  CreateManualTransactionDto,
+  UpdateManualTransactionDto,
+} from './dto/manual-transaction.dto';
+import { UpdateTransactionMetadataDto } from './dto/transaction-metadata.dto';
+import {
+  CreateTransactionRuleDto,
+  UpdateTransactionRuleDto,
+  TransactionRuleDto,
+  ApplyRulesDto,
+  ApplyRulesResultDto,
+  RulePreviewDto,
+} from './dto/transaction-rule.dto';
+import {
+  DetectDuplicatesDto,
+  DetectDuplicatesResultDto,
+  ResolveDuplicateDto,
+  TransactionDuplicateDto,
+} from './dto/transaction-duplicate.dto';
+import { SyncRunDto, SyncRunsQueryDto } from './dto/sync-run.dto';
 import {
   PaginatedTransactionsDto,
   TransactionStatsDto,
   TransactionResponseDto,
 } from './dto/transaction-response.dto';
+import { TransactionDocument } from './schemas/transaction.schema';
+import { QueuedJobDto } from '../queue/dto/queued-job.dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { DuplicateStatus } from '../../common/constants/duplicate-status.constant';
+import { OFFLINE_EXCHANGES } from '../../common/constants/exchanges.constant';
 
 @ApiTags('transactions')
 @Controller('transactions')
@@ -25,6 +68,9 @@ export class TransactionsController {
   constructor(
     private readonly transactionsService: TransactionsService,
     private readonly credentialsService: ExchangeCredentialsService,
+    private readonly rulesService: TransactionRulesService,
+    private readonly duplicatesService: TransactionDuplicatesService,
+    private readonly syncRunsService: SyncRunsService,
   ) {}
 
   @Get()
@@ -58,41 +104,57 @@ export class TransactionsController {
   }
 
   @Post('sync')
-  @ApiOperation({ summary: 'Sync transactions from all exchanges' })
-  @ApiResponse({ status: 200 })
+  @ApiOperation({
+    summary: 'Queue a sync of every exchange account',
+    description: 'Returns one job per account; poll them under /jobs.',
+  })
+  @ApiResponse({ status: 201, type: [QueuedJobDto] })
   async syncAll(
     @CurrentUser('userId') userId: string,
-  ): Promise<{ synced: number; message: string }> {
-    const synced = await this.transactionsService.syncAllForUser(userId);
-    return {
-      synced,
-      message: `Synced ${synced} transactions from exchanges`,
-    };
+  ): Promise<QueuedJobDto[]> {
+    return this.transactionsService.queueSyncForUser(userId);
+  }
+
+  @Get('sync/runs')
+  @ApiOperation({
+    summary: 'List recent sync runs',
+    description:
+      'Newest first. Runs in progress are also pushed as `sync:progress` events on the balances WebSocket namespace.',
+  })
+  @ApiResponse({ status: 200, type: [SyncRunDto] })
+  async getSyncRuns(
+    @CurrentUser('userId') userId: string,
+    @Query() query: SyncRunsQueryDto,
+  ): Promise<SyncRunDto[]> {
+    return this.syncRunsService.findAll(userId, query);
   }
 
   @Post('sync/:credentialId')
-  @ApiOperation({ summary: 'Sync transactions for a specific credential' })
-  @ApiResponse({ status: 200, description: 'Sync completed' })
+  @ApiOperation({
+    summary: 'Queue a sync for a specific credential',
+    description:
+      'Returns the job at once; poll it under /jobs. If a sync of the account is already pending, that job is returned.',
+  })
+  @ApiResponse({ status: 201, type: QueuedJobDto })
+  @ApiResponse({ status: 400, description: 'Account has no exchange API' })
   @ApiResponse({ status: 404, description: 'Credential not found' })
   async syncCredential(
     @Param('credentialId') credentialId: string,
     @CurrentUser('userId') userId: string,
     @Query('fullSync') fullSync?: string,
-  ): Promise<{ synced: number; message: string }> {
+  ): Promise<QueuedJobDto> {
     // Verify credential belongs to user (throws 404 if not found)
-    await this.credentialsService.findById(credentialId, userId);
-
-    const forceFullSync = fullSync === 'true';
-    const synced = await this.transactionsService.syncFromExchange(
+    const credential = await this.credentialsService.findById(
       credentialId,
-      forceFullSync,
+      userId,
     );
-    return {
-      synced,
-      message: forceFullSync
-        ? `Sincronización completa: ${synced} transacciones`
-        : `Sincronizadas ${synced} transacciones`,
-    };
+    if (OFFLINE_EXCHANGES.includes(credential.exchange)) {
+      throw new BadRequestException(
+        `${credential.exchange} accounts have no exchange API to sync from`,
+      );
+    }
+
+    return this.transactionsService.queueSync(credential, fullSync === 'true');
   }
 
   @Get('export')
@@ -110,6 +172,209 @@ export class TransactionsController {
     res.send(buffer);
   }
 
+  @Get('tags')
+  @ApiOperation({ summary: 'Get all tags used on transactions' })
+  @ApiResponse({ status: 200, type: [String] })
+  async getTags(@CurrentUser('userId') userId: string): Promise<string[]> {
+    return this.transactionsService.getTags(userId);
+  }
+
+  @Get('rules')
+  @ApiOperation({ summary: 'Get categorization rules in evaluation order' })
+  @ApiResponse({ status: 200, type: [TransactionRuleDto] })
+  async getRules(
+    @CurrentUser('userId') userId: string,
+  ): Promise<TransactionRuleDto[]> {
+    return this.rulesService.findAll(userId);
+  }
+
+  @Post('rules')
+  @ApiOperation({
+    summary: 'Create a categorization rule',
+    description:
+      'New rules apply to transactions synced or imported from now on; use rules/apply for the existing history.',
+  })
+  @ApiResponse({ status: 201, type: TransactionRuleDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Rule without conditions or actions',
+  })
+  async createRule(
+    @CurrentUser('userId') userId: string,
+    @Body() dto: CreateTransactionRuleDto,
+  ): Promise<TransactionRuleDto> {
+    return this.rulesService.create(userId, dto);
+  }
+
+  @Get('rules/preview')
+  @ApiOperation({
+    summary: 'Preview the transactions each rule would change',
+  })
+  @ApiQuery({ name: 'ruleId', required: false })
+  @ApiQuery({ name: 'limit', required: false, type: Number, example: 50 })
+  @ApiResponse({ status: 200, type: [RulePreviewDto] })
+  async previewRules(
+    @CurrentUser('userId') userId: string,
+    @Query('ruleId') ruleId?: string,
+    @Query('limit') limit?: string,
+  ): Promise<RulePreviewDto[]> {
+    const parsedLimit = limit ? parseInt(limit, 10) : 50;
+    if (isNaN(parsedLimit) || parsedLimit < 1) {
+      throw new BadRequestException('limit must be a positive integer');
+    }
+    return this.rulesService.preview(userId, ruleId, parsedLimit);
+  }
+
+  @Post('rules/apply')
+  @ApiOperation({
+    summary: 'Apply rules to the existing history',
+    description:
+      'Applies every enabled rule, or only the given ones, then updates P&L and snapshots.',
+  })
+  @ApiResponse({ status: 200, type: ApplyRulesResultDto })
+  async applyRules(
+    @CurrentUser('userId') userId: string,
+    @Body() dto: ApplyRulesDto,
+  ): Promise<ApplyRulesResultDto> {
+    return this.transactionsService.applyRules(userId, dto.ruleIds);
+  }
+
+  @Put('rules/:ruleId')
+  @ApiOperation({ summary: 'Update a categorization rule' })
+  @ApiResponse({ status: 200, type: TransactionRuleDto })
+  @ApiResponse({ status: 404, description: 'Rule not found' })
+  async updateRule(
+    @Param('ruleId') ruleId: string,
+    @CurrentUser('userId') userId: string,
+    @Body() dto: UpdateTransactionRuleDto,
+  ): Promise<TransactionRuleDto> {
+    return this.rulesService.update(userId, ruleId, dto);
+  }
+
+  @Delete('rules/:ruleId')
+  @ApiOperation({ summary: 'Delete a categorization rule' })
+  @ApiResponse({ status: 200, description: 'Rule deleted' })
+  @ApiResponse({ status: 404, description: 'Rule not found' })
+  async deleteRule(
+    @Param('ruleId') ruleId: string,
+    @CurrentUser('userId') userId: string,
+  ): Promise<void> {
+    await this.rulesService.delete(userId, ruleId);
+  }
+
+  @Get('duplicates')
+  @ApiOperation({
+    summary: 'List possible duplicate transactions',
+    description:
+      'Pairs of transactions recorded twice through different sources, e.g. an Excel import and the exchange API.',
+  })
+  @ApiQuery({ name: 'status', required: false, enum: DuplicateStatus })
+  @ApiResponse({ status: 200, type: [TransactionDuplicateDto] })
+  async getDuplicates(
+    @CurrentUser('userId') userId: string,
+    @Query('status', new ParseEnumPipe(DuplicateStatus, { optional: true }))
+    status?: DuplicateStatus,
+  ): Promise<TransactionDuplicateDto[]> {
+    return this.duplicatesService.findAll(userId, status);
+  }
+
+  @Post('duplicates/detect')
+  @ApiOperation({
+    summary: 'Look for duplicates across the history',
+    description:
+      'New pairs are added for review; nothing changes until they are resolved. Also runs after every sync.',
+  })
+  @ApiResponse({ status: 200, type: DetectDuplicatesResultDto })
+  async detectDuplicates(
+    @CurrentUser('userId') userId: string,
+    @Body() dto: DetectDuplicatesDto,
+  ): Promise<DetectDuplicatesResultDto> {
+    return this.duplicatesService.detect(
+      userId,
+      dto.since ? new Date(dto.since) : undefined,
+    );
+  }
+
+  @Post('duplicates/:duplicateId/merge')
+  @ApiOperation({
+    summary: 'Merge a duplicate pair',
+    description:
+      'The kept transaction takes the fee, price, notes, tags and category it lacks from the other, which is then suppressed. P&L is recalculated.',
+  })
+  @ApiResponse({ status: 200, type: TransactionDuplicateDto })
+  @ApiResponse({ status: 404, description: 'Duplicate pair not found' })
+  async mergeDuplicate(
+    @Param('duplicateId') duplicateId: string,
+    @CurrentUser('userId') userId: string,
+    @Body() dto: ResolveDuplicateDto,
+  ): Promise<TransactionDuplicateDto> {
+    return this.transactionsService.resolveDuplicate(
+      userId,
+      duplicateId,
+      DuplicateStatus.MERGED,
+      dto.keepId,
+    );
+  }
+
+  @Post('duplicates/:duplicateId/suppress')
+  @ApiOperation({
+    summary: 'Suppress one transaction of a duplicate pair',
+    description:
+      'The other transaction is left out of balances, P&L and reports. P&L is recalculated.',
+  })
+  @ApiResponse({ status: 200, type: TransactionDuplicateDto })
+  @ApiResponse({ status: 404, description: 'Duplicate pair not found' })
+  async suppressDuplicate(
+    @Param('duplicateId') duplicateId: string,
+    @CurrentUser('userId') userId: string,
+    @Body() dto: ResolveDuplicateDto,
+  ): Promise<TransactionDuplicateDto> {
+    return this.transactionsService.resolveDuplicate(
+      userId,
+      duplicateId,
+      DuplicateStatus.SUPPRESSED,
+      dto.keepId,
+    );
+  }
+
+  @Post('duplicates/:duplicateId/dismiss')
+  @ApiOperation({
+    summary: 'Mark a pair as not duplicates',
+    description:
+      'Undoes a merge or suppression and keeps detection from pairing them again.',
+  })
+  @ApiResponse({ status: 200, type: TransactionDuplicateDto })
+  @ApiResponse({ status: 404, description: 'Duplicate pair not found' })
+  async dismissDuplicate(
+    @Param('duplicateId') duplicateId: string,
+    @CurrentUser('userId') userId: string,
+  ): Promise<TransactionDuplicateDto> {
+    return this.transactionsService.resolveDuplicate(
+      userId,
+      duplicateId,
+      DuplicateStatus.DISMISSED,
+    );
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Record a transaction by hand',
+    description:
+      'Books the transaction on a manual wallet (the default "Manual" wallet when no credentialId is given) and updates P&L and snapshots.',
+  })
+  @ApiResponse({ status: 201, type: TransactionResponseDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Credential is not a manual wallet',
+  })
+  async createManual(
+    @CurrentUser('userId') userId: string,
+    @Body() dto: CreateManualTransactionDto,
+  ): Promise<TransactionResponseDto> {
+    const tx = await this.transactionsService.createManual(userId, dto);
+    return this.toResponse(tx);
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get transaction by ID' })
   @ApiResponse({ status: 200, type: TransactionResponseDto })
@@ -122,6 +387,60 @@ export class TransactionsController {
     if (!tx) {
       return null;
     }
+    return this.toResponse(tx);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Edit a transaction',
+    description:
+      'Previous values are kept in rawData.edits. Edited rows keep the new values when the exchange is synced again.',
+  })
+  @ApiResponse({ status: 200, type: TransactionResponseDto })
+  @ApiResponse({ status: 404, description: 'Transaction not found' })
+  async updateManual(
+    @Param('id') id: string,
+    @CurrentUser('userId') userId: string,
+    @Body() dto: UpdateManualTransactionDto,
+  ): Promise<TransactionResponseDto> {
+    const tx = await this.transactionsService.updateManual(id, userId, dto);
+    return this.toResponse(tx);
+  }
+
+  @Patch(':id/metadata')
+  @ApiOperation({
+    summary: 'Set notes, tags and category of a transaction',
+    description:
+      'Categories change the cost basis treatment: gifts received take the donor cost basis (set through the P&L valuation endpoint), gifts sent and lost coins are disposals without a sale, airdrops and payments received are income.',
+  })
+  @ApiResponse({ status: 200, type: TransactionResponseDto })
+  @ApiResponse({ status: 400, description: 'Category not valid for this type' })
+  @ApiResponse({ status: 404, description: 'Transaction not found' })
+  async updateMetadata(
+    @Param('id') id: string,
+    @CurrentUser('userId') userId: string,
+    @Body() dto: UpdateTransactionMetadataDto,
+  ): Promise<TransactionResponseDto> {
+    const tx = await this.transactionsService.updateMetadata(id, userId, dto);
+    return this.toResponse(tx);
+  }
+
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Delete a transaction',
+    description:
+      'Rows synced from an exchange API come back with the next full sync.',
+  })
+  @ApiResponse({ status: 200, description: 'Transaction deleted' })
+  @ApiResponse({ status: 404, description: 'Transaction not found' })
+  async deleteManual(
+    @Param('id') id: string,
+    @CurrentUser('userId') userId: string,
+  ): Promise<void> {
+    await this.transactionsService.deleteManual(id, userId);
+  }
+
+  private toResponse(tx: TransactionDocument): TransactionResponseDto {
     return {
       id: tx._id.toString(),
       exchange: tx.exchange,
@@ -136,6 +455,11 @@ export class TransactionsController {
       pair: tx.pair,
       side: tx.side,
       timestamp: tx.timestamp,
+      notes: tx.notes,
+      tags: tx.tags || [],
+      category: tx.category,
+      duplicateOf: tx.duplicateOf?.toString(),
+      importBatchId: tx.importBatchId?.toString(),
     };
   }
 }
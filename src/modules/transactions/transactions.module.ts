@@ -1,27 +1,60 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { Transaction, TransactionSchema } from './schemas/transaction.schema';
+import {
+  TransactionRule,
+  TransactionRuleSchema,
+} from './schemas/transaction-rule.schema';
+import {
+  TransactionDuplicate,
+  TransactionDuplicateSchema,
+} from './schemas/transaction-duplicate.schema';
+import { SyncRun, SyncRunSchema } from './schemas/sync-run.schema';
+import {
+  DeletedTransaction,
+  DeletedTransactionSchema,
+} from './schemas/deleted-transaction.schema';
 import { TransactionsController } from './transactions.controller';
 import { TransactionsService } from './transactions.service';
+import { TransactionRulesService } from './transaction-rules.service';
+import { TransactionDuplicatesService } from './transaction-duplicates.service';
+import { SyncRunsService } from './sync-runs.service';
 import { ExchangeCredentialsModule } from '../exchange-credentials/exchange-credentials.module';
 import { ExchangesModule } from '../../integrations/exchanges/exchanges.module';
 import { PricesModule } from '../prices/prices.module';
 import { PnlModule } from '../pnl/pnl.module';
 import { SettingsModule } from '../settings/settings.module';
+import { SnapshotsModule } from '../snapshots/snapshots.module';
+import { QueueModule } from '../queue/queue.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: Transaction.name, schema: TransactionSchema },
+      { name: TransactionRule.name, schema: TransactionRuleSchema },
+      { name: TransactionDuplicate.name, schema: TransactionDuplicateSchema },
+      { name: SyncRun.name, schema: SyncRunSchema },
+      { name: DeletedTransaction.name, schema: DeletedTransactionSchema },
     ]),
     ExchangeCredentialsModule,
     ExchangesModule,
     PricesModule,
     forwardRef(() => PnlModule),
     SettingsModule,
+    forwardRef(() => SnapshotsModule),
+    QueueModule,
   ],
   controllers: [TransactionsController],
-  providers: [TransactionsService],
-  exports: [TransactionsService],
+  providers: [
+    TransactionsService,
+    TransactionRulesService,
+    TransactionDuplicatesService,
+    SyncRunsService,
+  ],
+  exports: [
+    TransactionsService,
+    TransactionRulesService,
+    TransactionDuplicatesService,
+  ],
 })
 export class TransactionsModule {}
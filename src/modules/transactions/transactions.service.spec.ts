@@ -0,0 +1,210 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { model, Types } from 'mongoose';
+import { TransactionsService } from './transactions.service';
+import {
+  Transaction,
+  TransactionDocument,
+  TransactionSchema,
+} from './schemas/transaction.schema';
+import { DeletedTransaction } from './schemas/deleted-transaction.schema';
+import { TransactionRule } from './schemas/transaction-rule.schema';
+import { TransactionRulesService } from './transaction-rules.service';
+import { TransactionDuplicatesService } from './transaction-duplicates.service';
+import { SyncRunsService } from './sync-runs.service';
+import { ExchangeCredentialsService } from '../exchange-credentials/exchange-credentials.service';
+import { ExchangeFactoryService } from '../../integrations/exchanges/exchange-factory.service';
+import { PricesService } from '../prices/prices.service';
+import { PnlService } from '../pnl/pnl.service';
+import { SettingsService } from '../settings/settings.service';
+import { SnapshotsService } from '../snapshots/snapshots.service';
+import { JobQueueService } from '../queue/job-queue.service';
+import { TransactionType } from '../../common/constants/transaction-types.constant';
+import { ITransaction } from '../../common/interfaces/exchange-adapter.interface';
+
+// Documents are built offline; nothing here talks to a database
+const TransactionModel = model(Transaction.name, TransactionSchema);
+
+describe('TransactionsService', () => {
+  const userId = new Types.ObjectId();
+  const credentialId = new Types.ObjectId();
+
+  let service: TransactionsService;
+  let stored: TransactionDocument;
+  let findOneAndUpdate: jest.Mock;
+  let transactionModel: Record<string, jest.Mock>;
+  let pnlService: { recalculateForEdits: jest.Mock };
+  let duplicatesService: { releaseTransactions: jest.Mock };
+  let internals: {
+    upsertTransaction: (
+      userId: string,
+      credentialId: string,
+      exchange: string,
+      tx: ITransaction,
+      type: TransactionType,
+      rules: TransactionRule[],
+      inserted: TransactionDocument[],
+    ) => Promise<TransactionDocument | null>;
+  };
+
+  const synced: ITransaction = {
+    externalId: 'trade-1',
+    type: 'trade',
+    asset: 'BTC',
+    amount: 1,
+    price: 40000,
+    priceAsset: 'USDT',
+    side: 'buy',
+    timestamp: new Date('2024-01-15T12:00:00Z'),
+    rawData: { id: 'trade-1' },
+  };
+
+  const sync = () =>
+    internals.upsertTransaction(
+      userId.toString(),
+      credentialId.toString(),
+      'binance',
+      synced,
+      TransactionType.TRADE,
+      [],
+      [],
+    );
+
+  beforeEach(async () => {
+    stored = new TransactionModel({
+      ...synced,
+      userId,
+      credentialId,
+      exchange: 'binance',
+    }) as TransactionDocument;
+    stored.save = jest.fn().mockResolvedValue(stored);
+    findOneAndUpdate = jest.fn().mockResolvedValue(stored);
+
+    transactionModel = {
+      findOne: jest.fn().mockResolvedValue(stored),
+      findOneAndUpdate,
+      hydrate: jest.fn((doc: object) => TransactionModel.hydrate(doc)),
+      find: jest.fn().mockResolvedValue([]),
+      deleteMany: jest.fn(),
+    };
+    pnlService = { recalculateForEdits: jest.fn() };
+    duplicatesService = {
+      releaseTransactions: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TransactionsService,
+        TransactionRulesService,
+        {
+          provide: getModelToken(Transaction.name),
+          useValue: transactionModel,
+        },
+        {
+          provide: getModelToken(DeletedTransaction.name),
+          useValue: { exists: jest.fn().mockResolvedValue(null) },
+        },
+        { provide: getModelToken(TransactionRule.name), useValue: {} },
+        { provide: PnlService, useValue: pnlService },
+        {
+          provide: TransactionDuplicatesService,
+          useValue: duplicatesService,
+        },
+        {
+          provide: SnapshotsService,
+          useValue: { queueRebuildHistory: jest.fn() },
+        },
+        ...[
+          ExchangeCredentialsService,
+          ExchangeFactoryService,
+          PricesService,
+          SettingsService,
+          SyncRunsService,
+          JobQueueService,
+          ConfigService,
+        ].map((provide) => ({ provide, useValue: {} })),
+      ],
+    }).compile();
+
+    service = module.get<TransactionsService>(TransactionsService);
+    internals = service as unknown as typeof internals;
+  });
+
+  describe('upsertTransaction', () => {
+    it('keeps a row corrected by hand', async () => {
+      await service.updateManual(stored._id.toString(), userId.toString(), {
+        amount: 0.9,
+      });
+
+      const result = await sync();
+
+      expect(stored.manuallyEdited).toBe(true);
+      expect(result.amount).toBe(0.9);
+      expect(findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('updates a row that only rules or merges changed', async () => {
+      stored.rawData = {
+        ...stored.rawData,
+        edits: [{ editedAt: new Date(), rules: ['Staking'], previous: {} }],
+      };
+
+      await sync();
+
+      expect(findOneAndUpdate).toHaveBeenCalledWith(
+        { externalId: 'trade-1', exchange: 'binance' },
+        expect.objectContaining({
+          $set: expect.objectContaining({ amount: 1 }),
+        }),
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('deleteImportBatch', () => {
+    const batchId = new Types.ObjectId();
+
+    it('deletes the rows of the batch and updates P&L', async () => {
+      const imported = new TransactionModel({
+        ...synced,
+        userId,
+        exchange: 'ledger',
+        importBatchId: batchId,
+      }) as TransactionDocument;
+      transactionModel.find.mockResolvedValue([imported]);
+      duplicatesService.releaseTransactions.mockResolvedValue([stored]);
+
+      const removed = await service.deleteImportBatch(
+        userId.toString(),
+        batchId,
+      );
+
+      expect(removed).toBe(1);
+      expect(transactionModel.find).toHaveBeenCalledWith({
+        userId,
+        importBatchId: batchId,
+      });
+      expect(transactionModel.deleteMany).toHaveBeenCalledWith({
+        _id: { $in: [imported._id] },
+      });
+      // Rows the batch had suppressed as duplicates count again
+      expect(pnlService.recalculateForEdits).toHaveBeenCalledWith(
+        userId.toString(),
+        [imported],
+        [stored],
+      );
+    });
+
+    it('does nothing for a batch without rows', async () => {
+      const removed = await service.deleteImportBatch(
+        userId.toString(),
+        batchId,
+      );
+
+      expect(removed).toBe(0);
+      expect(transactionModel.deleteMany).not.toHaveBeenCalled();
+      expect(pnlService.recalculateForEdits).not.toHaveBeenCalled();
+    });
+  });
+});
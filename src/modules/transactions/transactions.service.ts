@@ -1,43 +1,112 @@
-import { Injectable, Logger, Inject, forwardRef } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  Inject,
+  forwardRef,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model, Types, FilterQuery } from 'mongoose';
+import { Model, Types, FilterQuery, UpdateQuery } from 'mongoose';
 import * as ExcelJS from 'exceljs';
 import { Transaction, TransactionDocument } from './schemas/transaction.schema';
+import { TransactionRule } from './schemas/transaction-rule.schema';
+import {
+  DeletedTransaction,
+  DeletedTransactionDocument,
+} from './schemas/deleted-transaction.schema';
+import {
+  TransactionRulesService,
+  RuleTarget,
+} from './transaction-rules.service';
+import { TransactionDuplicatesService } from './transaction-duplicates.service';
+import { SyncRunsService } from './sync-runs.service';
+import { SyncRunCounts } from './schemas/sync-run.schema';
 import { ExchangeCredentialsService } from '../exchange-credentials/exchange-credentials.service';
 import { ExchangeFactoryService } from '../../integrations/exchanges/exchange-factory.service';
 import { PricesService } from '../prices/prices.service';
 import { PnlService } from '../pnl/pnl.service';
 import { SettingsService } from '../settings/settings.service';
-import { ExchangeType } from '../../common/constants/exchanges.constant';
+import { SnapshotsService } from '../snapshots/snapshots.service';
+import { JobQueueService } from '../queue/job-queue.service';
+import { QueuedJobDto } from '../queue/dto/queued-job.dto';
+import { ExchangeCredentialDocument } from '../exchange-credentials/schemas/exchange-credential.schema';
+import {
+  ExchangeType,
+  OFFLINE_EXCHANGES,
+} from '../../common/constants/exchanges.constant';
 import { TransactionType } from '../../common/constants/transaction-types.constant';
+import { CATEGORY_TRANSACTION_TYPES } from '../../common/constants/transaction-categories.constant';
+import { DuplicateStatus } from '../../common/constants/duplicate-status.constant';
+import {
+  SyncRunStage,
+  SyncTrigger,
+} from '../../common/constants/sync-run.constant';
+import { JobType } from '../../common/constants/job-queue.constant';
 import { TransactionFilterDto } from './dto/transaction-filter.dto';
+import {
+  CreateManualTransactionDto,
+  UpdateManualTransactionDto,
+} from './dto/manual-transaction.dto';
+import { UpdateTransactionMetadataDto } from './dto/transaction-metadata.dto';
+import { ApplyRulesResultDto } from './dto/transaction-rule.dto';
+import { TransactionDuplicateDto } from './dto/transaction-duplicate.dto';
 import {
   PaginatedTransactionsDto,
   TransactionStatsDto,
 } from './dto/transaction-response.dto';
 import { ITransaction } from '../../common/interfaces/exchange-adapter.interface';
 
+// Sync progress is saved and pushed to the user every this many rows
+const SYNC_PROGRESS_INTERVAL = 25;
+
 @Injectable()
-export class TransactionsService {
+export class TransactionsService implements OnModuleInit {
   private readonly logger = new Logger(TransactionsService.name);
 
   constructor(
     @InjectModel(Transaction.name)
     private transactionModel: Model<TransactionDocument>,
+    @InjectModel(DeletedTransaction.name)
+    private deletedTransactionModel: Model<DeletedTransactionDocument>,
     private readonly credentialsService: ExchangeCredentialsService,
     private readonly exchangeFactory: ExchangeFactoryService,
     private readonly pricesService: PricesService,
     @Inject(forwardRef(() => PnlService))
     private readonly pnlService: PnlService,
     private readonly settingsService: SettingsService,
+    @Inject(forwardRef(() => SnapshotsService))
+    private readonly snapshotsService: SnapshotsService,
+    private readonly rulesService: TransactionRulesService,
+    private readonly duplicatesService: TransactionDuplicatesService,
+    private readonly syncRunsService: SyncRunsService,
+    private readonly jobQueueService: JobQueueService,
+    private readonly configService: ConfigService,
   ) {}
 
+  onModuleInit(): void {
+    this.jobQueueService.registerHandler(
+      JobType.SYNC,
+      async (payload, { signal }) => ({
+        synced: await this.syncFromExchange(
+          payload.credentialId as string,
+          payload.fullSync as boolean,
+          payload.trigger as SyncTrigger,
+          signal,
+        ),
+      }),
+    );
+  }
+
   async findAll(
     userId: string,
     filter: TransactionFilterDto,
   ): Promise<PaginatedTransactionsDto> {
     const query: FilterQuery<Transaction> = {
       userId: new Types.ObjectId(userId),
+      duplicateOf: null,
     };
 
     if (filter.exchange) {
@@ -67,6 +136,15 @@ export class TransactionsService {
         { priceAsset: filter.asset },
       ];
     }
+    if (filter.tags) {
+      const tagsArray = this.normalizeTags(filter.tags.split(','));
+      if (tagsArray.length > 0) {
+        query.tags = { $in: tagsArray };
+      }
+    }
+    if (filter.category) {
+      query.category = filter.category;
+    }
     if (filter.startDate || filter.endDate) {
       query.timestamp = {};
       if (filter.startDate) {
@@ -102,6 +180,9 @@ export class TransactionsService {
         pair: t.pair,
         side: t.side,
         timestamp: t.timestamp,
+        notes: t.notes,
+        tags: t.tags || [],
+        category: t.category,
       })),
       total,
       page: filter.page,
@@ -125,6 +206,7 @@ export class TransactionsService {
       .find({
         userId: new Types.ObjectId(userId),
         credentialId: new Types.ObjectId(credentialId),
+        duplicateOf: null,
       })
       .sort({ timestamp: 1 })
       .exec();
@@ -143,6 +225,7 @@ export class TransactionsService {
     // Build the main query with all filters
     const query: FilterQuery<Transaction> = {
       userId: new Types.ObjectId(userId),
+      duplicateOf: null,
     };
 
     // Apply filters
@@ -223,6 +306,8 @@ export class TransactionsService {
   async syncFromExchange(
     credentialId: string | Types.ObjectId,
     fullSync = false,
+    trigger = SyncTrigger.MANUAL,
+    signal?: AbortSignal,
   ): Promise<number> {
     const credential = await this.credentialsService.findById(
       credentialId.toString(),
@@ -234,6 +319,13 @@ export class TransactionsService {
       return 0;
     }
 
+    if (OFFLINE_EXCHANGES.includes(credential.exchange)) {
+      this.logger.debug(
+        `Skipping sync for ${credential.exchange} (${credentialId}): no exchange API`,
+      );
+      return 0;
+    }
+
     this.logger.log(
       `Starting ${fullSync ? 'FULL ' : ''}sync for ${credential.exchange} (${credentialId})`,
     );
@@ -268,6 +360,17 @@ export class TransactionsService {
     this.logger.log(`Configured symbols for ${credential.exchange}: ${symbols.length > 0 ? symbols.join(', ') : 'none'}`);
 
     let newTransactions = 0;
+    const inserted: TransactionDocument[] = [];
+    const rules = await this.rulesService.getEnabledRules(
+      credential.userId.toString(),
+    );
+    const run = await this.syncRunsService.start(
+      credential,
+      trigger,
+      fullSync,
+      since,
+    );
+    let fetchError: Error | undefined;
 
     try {
       // Fetch standard transactions
@@ -292,94 +395,438 @@ export class TransactionsService {
         `Fetched from ${credential.exchange}: ${deposits.length} deposits, ${withdrawals.length} withdrawals, ${trades.length} trades, ${ledgerTrades.length} ledger trades`,
       );
 
-      // Process deposits
-      for (const tx of deposits) {
-        try {
-          await this.upsertTransaction(
-            credential.userId.toString(),
-            credential._id.toString(),
-            credential.exchange,
-            tx,
-            TransactionType.DEPOSIT,
-          );
-          newTransactions++;
-        } catch (error) {
-          if (!error.message?.includes('duplicate')) {
-            this.logger.warn(`Failed to save transaction: ${error.message}`);
-          }
-        }
+      // Ledger trades are buy/sell/convert rows from instant purchases
+      const batches: [keyof SyncRunCounts, ITransaction[], TransactionType][] =
+        [
+          ['deposits', deposits, TransactionType.DEPOSIT],
+          ['withdrawals', withdrawals, TransactionType.WITHDRAWAL],
+          ['trades', trades, TransactionType.TRADE],
+          ['ledger', ledgerTrades, TransactionType.TRADE],
+        ];
+      for (const [kind, transactions] of batches) {
+        run.fetched[kind] = transactions.length;
       }
+      run.stage = SyncRunStage.SAVING;
+      await this.syncRunsService.progress(run);
 
-      // Process withdrawals
-      for (const tx of withdrawals) {
-        try {
-          await this.upsertTransaction(
-            credential.userId.toString(),
-            credential._id.toString(),
-            credential.exchange,
-            tx,
-            TransactionType.WITHDRAWAL,
-          );
-          newTransactions++;
-        } catch (error) {
-          if (!error.message?.includes('duplicate')) {
-            this.logger.warn(`Failed to save transaction: ${error.message}`);
+      for (const [kind, transactions, type] of batches) {
+        for (const tx of transactions) {
+          // Rows saved so far are kept and still go through P&L below
+          if (signal?.aborted) {
+            throw new Error('Sync cancelled');
           }
-        }
-      }
-
-      // Process trades
-      for (const tx of trades) {
-        try {
-          await this.upsertTransaction(
-            credential.userId.toString(),
-            credential._id.toString(),
-            credential.exchange,
-            tx,
-            TransactionType.TRADE,
-          );
-          newTransactions++;
-        } catch (error) {
-          if (!error.message?.includes('duplicate')) {
-            this.logger.warn(`Failed to save transaction: ${error.message}`);
+          try {
+            const insertedBefore = inserted.length;
+            await this.upsertTransaction(
+              credential.userId.toString(),
+              credential._id.toString(),
+              credential.exchange,
+              tx,
+              type,
+              rules,
+              inserted,
+            );
+            newTransactions++;
+            if (inserted.length > insertedBefore) {
+              run.inserted[kind]++;
+            }
+          } catch (error) {
+            if (!error.message?.includes('duplicate')) {
+              this.logger.warn(`Failed to save transaction: ${error.message}`);
+              run.failed++;
+              this.syncRunsService.addError(run, error.message);
+            }
           }
-        }
-      }
 
-      // Process ledger trades (buy/sell/convert from instant purchases)
-      for (const tx of ledgerTrades) {
-        try {
-          await this.upsertTransaction(
-            credential.userId.toString(),
-            credential._id.toString(),
-            credential.exchange,
-            tx,
-            TransactionType.TRADE,
-          );
-          newTransactions++;
-        } catch (error) {
-          if (!error.message?.includes('duplicate')) {
-            this.logger.warn(`Failed to save ledger transaction: ${error.message}`);
+          run.processed++;
+          if (run.processed % SYNC_PROGRESS_INTERVAL === 0) {
+            await this.syncRunsService.progress(run);
           }
         }
       }
     } catch (error) {
       this.logger.error(`Sync failed for ${credential.exchange}: ${error.message}`);
+      fetchError = error;
+    }
+
+    run.stage = SyncRunStage.PROCESSING;
+    await this.syncRunsService.progress(run);
+
+    // Back-dated transactions roll P&L back to the earliest of them
+    try {
+      await this.pnlService.processNewTransactions(
+        credential.userId.toString(),
+        inserted,
+      );
+    } catch (error) {
+      this.logger.warn(`Failed to process P&L for ${credential.exchange}: ${error.message}`);
+      this.syncRunsService.addError(run, `P&L: ${error.message}`);
     }
 
+    // Only flagged for review: P&L counts both until the user resolves them
+    if (inserted.length > 0) {
+      try {
+        await this.duplicatesService.detect(
+          credential.userId.toString(),
+          new Date(Math.min(...inserted.map((tx) => tx.timestamp.getTime()))),
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Failed to detect duplicates for ${credential.exchange}: ${error.message}`,
+        );
+      }
+    }
+
+    await this.syncRunsService.finish(run, fetchError);
+    // Rows saved before the cancel went through P&L above; the job still
+    // ends as cancelled
+    if (signal?.aborted) {
+      throw new Error('Sync cancelled');
+    }
     return newTransactions;
   }
 
-  async syncAllForUser(userId: string): Promise<number> {
+  /**
+   * Queue a sync of one account. Syncs against the same exchange share a
+   * concurrency limit; asking again while one is pending returns that job.
+   */
+  async queueSync(
+    credential: ExchangeCredentialDocument,
+    fullSync = false,
+  ): Promise<QueuedJobDto> {
+    return this.jobQueueService.enqueue(
+      credential.userId.toString(),
+      JobType.SYNC,
+      {
+        credentialId: credential._id.toString(),
+        fullSync,
+        trigger: SyncTrigger.MANUAL,
+      },
+      {
+        concurrencyKey: `exchange:${credential.exchange}`,
+        concurrencyLimit: this.configService.get<number>(
+          'queue.syncConcurrencyPerExchange',
+          2,
+        ),
+        uniqueKey: `sync:${credential._id}:${fullSync}`,
+      },
+    );
+  }
+
+  async queueSyncForUser(userId: string): Promise<QueuedJobDto[]> {
     const credentials = await this.credentialsService.findActiveByUser(userId);
-    let totalSynced = 0;
+    const jobs: QueuedJobDto[] = [];
 
     for (const credential of credentials) {
-      const synced = await this.syncFromExchange(credential._id);
-      totalSynced += synced;
+      if (OFFLINE_EXCHANGES.includes(credential.exchange)) continue;
+      jobs.push(await this.queueSync(credential));
     }
 
-    return totalSynced;
+    return jobs;
+  }
+
+  /**
+   * Record a transaction by hand, e.g. a cold-wallet purchase or an OTC trade.
+   * It is booked on the given manual wallet or the user's default one.
+   */
+  async createManual(
+    userId: string,
+    dto: CreateManualTransactionDto,
+  ): Promise<TransactionDocument> {
+    const credential = dto.credentialId
+      ? await this.credentialsService.findById(dto.credentialId, userId)
+      : await this.credentialsService.findOrCreateManualWallet(userId);
+    if (credential.exchange !== ExchangeType.MANUAL) {
+      throw new BadRequestException(
+        'Transactions can only be added by hand to a manual wallet',
+      );
+    }
+
+    const id = new Types.ObjectId();
+    const tx = await this.transactionModel.create({
+      _id: id,
+      userId: new Types.ObjectId(userId),
+      credentialId: credential._id,
+      exchange: credential.exchange,
+      externalId: `manual-${id}`,
+      type: dto.type,
+      asset: dto.asset,
+      amount: dto.amount,
+      side: dto.side,
+      price: dto.price,
+      priceAsset: dto.priceAsset,
+      fee: dto.fee,
+      feeAsset: dto.fee ? dto.feeAsset || dto.asset : undefined,
+      timestamp: new Date(dto.timestamp),
+      total: dto.price ? dto.amount * dto.price : undefined,
+      rawData: { source: 'manual', edits: [] },
+    });
+
+    this.logger.log(`Created manual transaction ${id} for user ${userId}`);
+    await this.afterManualChange(userId, [], [tx]);
+    return tx;
+  }
+
+  /**
+   * Correct a transaction by hand. The replaced values are appended to
+   * `rawData.edits` so the original record can always be traced. The row
+   * is flagged as manually edited, which later syncs leave alone.
+   */
+  async updateManual(
+    id: string,
+    userId: string,
+    dto: UpdateManualTransactionDto,
+  ): Promise<TransactionDocument> {
+    const tx = await this.findOwned(id, userId);
+    const previous = this.transactionModel.hydrate(tx.toObject());
+
+    const changes: Partial<Transaction> = {
+      ...dto,
+      timestamp: dto.timestamp ? new Date(dto.timestamp) : undefined,
+    };
+    const replaced: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(changes)) {
+      const current = tx.get(field);
+      if (
+        value === undefined ||
+        JSON.stringify(current) === JSON.stringify(value)
+      ) {
+        continue;
+      }
+      replaced[field] = current ?? null;
+      tx.set(field, value);
+    }
+    if (Object.keys(replaced).length === 0) {
+      return tx;
+    }
+
+    if (
+      tx.type === TransactionType.TRADE &&
+      (!tx.side || !tx.priceAsset || typeof tx.price !== 'number')
+    ) {
+      throw new BadRequestException('Trades need a side, price and priceAsset');
+    }
+    if (
+      tx.category &&
+      !CATEGORY_TRANSACTION_TYPES[tx.category].includes(tx.type)
+    ) {
+      throw new BadRequestException(
+        `Category ${tx.category} cannot be set on a ${tx.type}`,
+      );
+    }
+    if ('amount' in replaced || 'price' in replaced) {
+      tx.total = tx.price ? tx.amount * tx.price : undefined;
+    }
+
+    const edits = (tx.rawData?.edits as unknown[]) || [];
+    tx.rawData = {
+      ...tx.rawData,
+      edits: [...edits, { editedAt: new Date(), previous: replaced }],
+    };
+    tx.manuallyEdited = true;
+    tx.markModified('rawData');
+    await tx.save();
+
+    this.logger.log(
+      `Edited transaction ${id} (${Object.keys(replaced).join(', ')}) for user ${userId}`,
+    );
+    await this.afterManualChange(userId, [previous], [tx]);
+    return tx;
+  }
+
+  /**
+   * Delete a transaction, e.g. a bad import row or a duplicate. A tombstone
+   * keeps the next sync from bringing it back.
+   */
+  async deleteManual(id: string, userId: string): Promise<void> {
+    const tx = await this.findOwned(id, userId);
+    await tx.deleteOne();
+    await this.deletedTransactionModel.updateOne(
+      { userId: tx.userId, exchange: tx.exchange, externalId: tx.externalId },
+      { $setOnInsert: { userId: tx.userId } },
+      { upsert: true },
+    );
+
+    this.logger.log(
+      `Deleted transaction ${id} (${tx.exchange} ${tx.type} ${tx.amount} ${tx.asset}) for user ${userId}`,
+    );
+    await this.afterManualChange(userId, [tx], []);
+  }
+
+  /**
+   * Delete every transaction an import batch brought in. Transactions
+   * suppressed as duplicates of them count again.
+   */
+  async deleteImportBatch(
+    userId: string,
+    batchId: Types.ObjectId,
+  ): Promise<number> {
+    const transactions = await this.transactionModel.find({
+      userId: new Types.ObjectId(userId),
+      importBatchId: batchId,
+    });
+    if (transactions.length === 0) {
+      return 0;
+    }
+
+    const ids = transactions.map((tx) => tx._id);
+    await this.transactionModel.deleteMany({ _id: { $in: ids } });
+    const restored = await this.duplicatesService.releaseTransactions(
+      userId,
+      ids,
+    );
+
+    this.logger.log(
+      `Deleted ${ids.length} transactions of import batch ${batchId} for user ${userId}`,
+    );
+    await this.afterManualChange(userId, transactions, restored);
+    return ids.length;
+  }
+
+  /**
+   * Set notes, tags and category. A category change re-runs P&L since it
+   * changes how the transaction is taxed.
+   */
+  async updateMetadata(
+    id: string,
+    userId: string,
+    dto: UpdateTransactionMetadataDto,
+  ): Promise<TransactionDocument> {
+    const tx = await this.findOwned(id, userId);
+    const previous = this.transactionModel.hydrate(tx.toObject());
+
+    if (dto.notes !== undefined) {
+      tx.notes = dto.notes.trim() || undefined;
+    }
+    if (dto.tags !== undefined) {
+      tx.tags = this.normalizeTags(dto.tags);
+    }
+    if (dto.category !== undefined) {
+      if (
+        dto.category &&
+        !CATEGORY_TRANSACTION_TYPES[dto.category].includes(tx.type)
+      ) {
+        throw new BadRequestException(
+          `Category ${dto.category} cannot be set on a ${tx.type}`,
+        );
+      }
+      tx.category = dto.category || undefined;
+    }
+    await tx.save();
+
+    if (previous.category !== tx.category) {
+      await this.updatePnl(userId, [previous], [tx]);
+    }
+    return tx;
+  }
+
+  /**
+   * Every tag the user has used, for autocompletion
+   */
+  async getTags(userId: string): Promise<string[]> {
+    const tags = await this.transactionModel.distinct('tags', {
+      userId: new Types.ObjectId(userId),
+    });
+    return (tags as string[]).sort();
+  }
+
+  /**
+   * Apply rules to the stored history, then update P&L and snapshots
+   */
+  async applyRules(
+    userId: string,
+    ruleIds?: string[],
+  ): Promise<ApplyRulesResultDto> {
+    const { checked, previous, current } =
+      await this.rulesService.applyToHistory(userId, { ruleIds });
+    if (current.length > 0) {
+      await this.afterManualChange(userId, previous, current);
+    }
+    return { checked, updated: current.length };
+  }
+
+  /**
+   * Merge, suppress or dismiss a duplicate pair, then update P&L and snapshots
+   */
+  async resolveDuplicate(
+    userId: string,
+    duplicateId: string,
+    status: DuplicateStatus,
+    keepId?: string,
+  ): Promise<TransactionDuplicateDto> {
+    const { duplicate, previous, current } =
+      await this.duplicatesService.resolve(userId, duplicateId, status, keepId);
+    if (current.length > 0) {
+      await this.afterManualChange(userId, previous, current);
+    }
+    return duplicate;
+  }
+
+  private normalizeTags(tags: string[]): string[] {
+    return Array.from(
+      new Set(tags.map((t) => t.trim().toLowerCase()).filter(Boolean)),
+    );
+  }
+
+  private async findOwned(
+    id: string,
+    userId: string,
+  ): Promise<TransactionDocument> {
+    const tx = Types.ObjectId.isValid(id)
+      ? await this.findById(id, userId)
+      : null;
+    if (!tx) {
+      throw new NotFoundException('Transaction not found');
+    }
+    return tx;
+  }
+
+  private async updatePnl(
+    userId: string,
+    previous: TransactionDocument[],
+    current: TransactionDocument[],
+  ): Promise<void> {
+    try {
+      await this.pnlService.recalculateForEdits(userId, previous, current);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to update P&L after manual change: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Bring P&L and daily snapshots up to date after a change by hand. The
+   * change itself stands if either fails; both can be rebuilt on demand.
+   */
+  private async afterManualChange(
+    userId: string,
+    previous: TransactionDocument[],
+    current: TransactionDocument[],
+  ): Promise<void> {
+    await this.updatePnl(userId, previous, current);
+
+    // Snapshots are rebuilt at most a year back (the rebuild's own default);
+    // pricing every day takes a while, so it goes through the job queue
+    const earliest = new Date(
+      Math.min(
+        ...[...previous, ...current].map((tx) => tx.timestamp.getTime()),
+      ),
+    );
+    const oneYearAgo = new Date();
+    oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
+    try {
+      await this.snapshotsService.queueRebuildHistory(userId, {
+        fromDate:
+          earliest > oneYearAgo
+            ? earliest.toISOString().split('T')[0]
+            : undefined,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to queue snapshot rebuild after manual change: ${error.message}`,
+      );
+    }
   }
 
   private async upsertTransaction(
@@ -388,26 +835,53 @@ export class TransactionsService {
     exchange: string,
     tx: ITransaction,
     type: TransactionType,
-  ): Promise<TransactionDocument> {
+    rules: TransactionRule[],
+    inserted: TransactionDocument[],
+  ): Promise<TransactionDocument | null> {
     // Check if transaction already exists to avoid re-processing P&L
     const existingTx = await this.transactionModel.findOne({
       externalId: tx.externalId,
       exchange,
     });
 
+    // Rows the user corrected or deleted keep the user's version
+    if (existingTx?.manuallyEdited) {
+      return existingTx;
+    }
+    if (
+      !existingTx &&
+      (await this.deletedTransactionModel.exists({
+        userId: new Types.ObjectId(userId),
+        exchange,
+        externalId: tx.externalId,
+      }))
+    ) {
+      return null;
+    }
+
     const isNewTransaction = !existingTx;
 
-    const savedTx = await this.transactionModel.findOneAndUpdate(
-      {
-        externalId: tx.externalId,
-        exchange,
-      },
-      {
+    // Rules see the transaction as the exchange reports it. Their type and
+    // category only go on new rows, so a category set by hand survives a
+    // re-sync and P&L never sees a stored row change type behind its back;
+    // applyRules re-classifies history. Rule tags are added to the stored ones.
+    const classified: RuleTarget = {
+      exchange,
+      type,
+      asset: tx.asset,
+      rawData: tx.rawData,
+    };
+    const changes = this.rulesService.evaluate(rules, classified);
+    if (changes) {
+      this.rulesService.applyChanges(classified, changes);
+    }
+
+    const update: UpdateQuery<Transaction> = {
+      $set: {
         userId: new Types.ObjectId(userId),
         credentialId: new Types.ObjectId(credentialId),
         exchange,
         externalId: tx.externalId,
-        type,
         asset: tx.asset,
         amount: tx.amount,
         fee: tx.fee,
@@ -418,34 +892,85 @@ export class TransactionsService {
         pair: tx.pair,
         side: tx.side,
         timestamp: tx.timestamp,
-        rawData: tx.rawData,
+        rawData: classified.rawData,
+      },
+      $setOnInsert: {
+        type: classified.type,
+        ...(classified.category && { category: classified.category }),
       },
+    };
+    if (classified.tags?.length) {
+      update.$addToSet = { tags: { $each: classified.tags } };
+    }
+
+    const savedTx = await this.transactionModel.findOneAndUpdate(
+      {
+        externalId: tx.externalId,
+        exchange,
+      },
+      update,
       {
         upsert: true,
         new: true,
       },
     );
 
-    // Process P&L only for new transactions
+    // P&L is updated once for all new transactions at the end of the sync
     if (isNewTransaction && savedTx) {
-      try {
-        await this.pnlService.processTransaction(savedTx);
-      } catch (error) {
-        this.logger.warn(`Failed to process P&L for transaction ${savedTx._id}: ${error.message}`);
-      }
+      inserted.push(savedTx);
     }
 
     return savedTx;
   }
 
   /**
-   * Get all transactions for a user sorted by timestamp (for P&L recalculation)
+   * Get all transactions for a user sorted by timestamp (for P&L recalculation),
+   * optionally only those at or after `since`
    */
-  async findAllByUserSorted(userId: string): Promise<TransactionDocument[]> {
-    return this.transactionModel
-      .find({ userId: new Types.ObjectId(userId) })
-      .sort({ timestamp: 1 })
-      .exec();
+  async findAllByUserSorted(
+    userId: string,
+    since?: Date,
+  ): Promise<TransactionDocument[]> {
+    const query: FilterQuery<Transaction> = {
+      userId: new Types.ObjectId(userId),
+      duplicateOf: null,
+    };
+    if (since) {
+      query.timestamp = { $gte: since };
+    }
+    return this.transactionModel.find(query).sort({ timestamp: 1 }).exec();
+  }
+
+  /**
+   * Get transactions of the given types sorted by timestamp, optionally
+   * limited to one asset and a time range
+   */
+  async findByTypes(
+    userId: string,
+    types: TransactionType[],
+    asset?: string,
+    from?: Date,
+    to?: Date,
+  ): Promise<TransactionDocument[]> {
+    const query: FilterQuery<Transaction> = {
+      userId: new Types.ObjectId(userId),
+      duplicateOf: null,
+      type: { $in: types },
+    };
+    if (asset) {
+      query.asset = asset;
+    }
+    if (from || to) {
+      query.timestamp = {};
+      if (from) {
+        query.timestamp.$gte = from;
+      }
+      if (to) {
+        query.timestamp.$lte = to;
+      }
+    }
+
+    return this.transactionModel.find(query).sort({ timestamp: 1 }).exec();
   }
 
   /**
@@ -458,6 +983,7 @@ export class TransactionsService {
     // Build query (same as findAll but without pagination)
     const query: FilterQuery<Transaction> = {
       userId: new Types.ObjectId(userId),
+      duplicateOf: null,
     };
 
     if (filter.exchange) {
@@ -482,6 +1008,15 @@ export class TransactionsService {
     } else if (filter.asset) {
       query.$or = [{ asset: filter.asset }, { priceAsset: filter.asset }];
     }
+    if (filter.tags) {
+      const tagsArray = this.normalizeTags(filter.tags.split(','));
+      if (tagsArray.length > 0) {
+        query.tags = { $in: tagsArray };
+      }
+    }
+    if (filter.category) {
+      query.category = filter.category;
+    }
     if (filter.startDate || filter.endDate) {
       query.timestamp = {};
       if (filter.startDate) {
@@ -518,6 +1053,9 @@ export class TransactionsService {
       { header: 'Lado', key: 'side', width: 10 },
       { header: 'Fee', key: 'fee', width: 15 },
       { header: 'Fee Asset', key: 'feeAsset', width: 10 },
+      { header: 'Categoría', key: 'category', width: 14 },
+      { header: 'Etiquetas', key: 'tags', width: 20 },
+      { header: 'Notas', key: 'notes', width: 30 },
     ];
 
     // Style header row
@@ -549,6 +1087,9 @@ export class TransactionsService {
         side: tx.side ? (tx.side === 'buy' ? 'Compra' : 'Venta') : '-',
         fee: tx.fee || '-',
         feeAsset: tx.feeAsset || '-',
+        category: tx.category ? this.getCategoryLabel(tx.category) : '-',
+        tags: tx.tags?.length ? tx.tags.join(', ') : '-',
+        notes: tx.notes || '-',
       });
 
       // Color amount based on type
@@ -580,10 +1121,21 @@ export class TransactionsService {
       kraken: 'Kraken',
       'nexo-pro': 'Nexo Pro',
       'nexo-manual': 'Nexo',
+      manual: 'Manual',
     };
     return labels[exchange] || exchange;
   }
 
+  private getCategoryLabel(category: string): string {
+    const labels: Record<string, string> = {
+      gift: 'Regalo',
+      airdrop: 'Airdrop',
+      lost: 'Pérdida',
+      payment: 'Pago por servicios',
+    };
+    return labels[category] || category;
+  }
+
   private getTypeLabel(type: string): string {
     const labels: Record<string, string> = {
       deposit: 'Depósito',
@@ -0,0 +1,271 @@
+import { Types } from 'mongoose';
+
+type Doc = Record<string, any>;
+type Query = Record<string, any>;
+type Update = {
+  $set?: Doc;
+  $setOnInsert?: Doc;
+  $unset?: Record<string, unknown>;
+  $inc?: Record<string, number>;
+};
+
+/**
+ * In-memory stand-in for a Mongoose model, enough for services that use
+ * plain queries: equality (ObjectIds and dates by value), $in, $nin, $ne,
+ * $gt, $gte, $lt, $lte and $exists, and updates with $set, $unset and $inc.
+ * Documents come back as copies, like lean results, so a service changing
+ * them doesn't change the store.
+ */
+export class FakeModel<T extends Doc = Doc> {
+  docs: T[];
+
+  // `defaults` stand in for schema defaults on created documents
+  constructor(
+    docs: T[] = [],
+    private readonly defaults: Partial<T> = {},
+  ) {
+    this.docs = docs.map((doc) => this.withId(doc));
+  }
+
+  find(query: Query = {}): FakeQuery<T[]> {
+    return new FakeQuery(() => this.docs.filter((d) => matches(d, query)));
+  }
+
+  findOne(query: Query = {}): FakeQuery<T | null> {
+    return new FakeQuery(
+      () => this.docs.filter((d) => matches(d, query)),
+      true,
+    );
+  }
+
+  async exists(query: Query): Promise<{ _id: Types.ObjectId } | null> {
+    const doc = this.docs.find((d) => matches(d, query));
+    return doc ? { _id: doc._id } : null;
+  }
+
+  async countDocuments(query: Query = {}): Promise<number> {
+    return this.docs.filter((d) => matches(d, query)).length;
+  }
+
+  async create(doc: T): Promise<T> {
+    const stored = this.withId(doc);
+    this.docs.push(stored);
+    return { ...stored };
+  }
+
+  async insertMany(docs: T[]): Promise<T[]> {
+    return Promise.all(docs.map((doc) => this.create(doc)));
+  }
+
+  async deleteMany(query: Query = {}): Promise<{ deletedCount: number }> {
+    const before = this.docs.length;
+    this.docs = this.docs.filter((d) => !matches(d, query));
+    return { deletedCount: before - this.docs.length };
+  }
+
+  async updateOne(
+    filter: Query,
+    update: Update,
+    options: { upsert?: boolean } = {},
+  ): Promise<{ matchedCount: number; upsertedCount: number }> {
+    const doc = this.docs.find((d) => matches(d, filter));
+    if (doc) {
+      applyUpdate(doc, update);
+      return { matchedCount: 1, upsertedCount: 0 };
+    }
+    if (!options.upsert) {
+      return { matchedCount: 0, upsertedCount: 0 };
+    }
+    const equalities = Object.fromEntries(
+      Object.entries(filter).filter(([, value]) => !isOperator(value)),
+    );
+    await this.create({
+      ...equalities,
+      ...update.$setOnInsert,
+      ...update.$set,
+    } as T);
+    return { matchedCount: 0, upsertedCount: 1 };
+  }
+
+  async updateMany(
+    filter: Query,
+    update: Update,
+  ): Promise<{ matchedCount: number; modifiedCount: number }> {
+    const docs = this.docs.filter((d) => matches(d, filter));
+    docs.forEach((doc) => applyUpdate(doc, update));
+    return { matchedCount: docs.length, modifiedCount: docs.length };
+  }
+
+  /**
+   * First match in `sort` order, updated; the version after the update when
+   * `new` is set
+   */
+  async findOneAndUpdate(
+    filter: Query,
+    update: Update,
+    options: { new?: boolean; sort?: Record<string, 1 | -1> } = {},
+  ): Promise<T | null> {
+    const [first] = await this.find(filter).sort(options.sort ?? {});
+    const doc = first && this.docs.find((d) => same(d._id, first._id));
+    if (!doc) return null;
+    applyUpdate(doc, update);
+    return options.new ? { ...doc } : first;
+  }
+
+  async bulkWrite(
+    operations: {
+      updateOne: {
+        filter: Query;
+        update: { $set?: Doc };
+        upsert?: boolean;
+      };
+    }[],
+  ): Promise<void> {
+    for (const { updateOne } of operations) {
+      await this.updateOne(updateOne.filter, updateOne.update, {
+        upsert: updateOne.upsert,
+      });
+    }
+  }
+
+  private withId(doc: T): T {
+    return { _id: new Types.ObjectId(), ...this.defaults, ...doc };
+  }
+}
+
+/**
+ * Chainable, awaitable result of find/findOne
+ */
+export class FakeQuery<R> implements PromiseLike<R> {
+  private order?: Record<string, 1 | -1>;
+  private skipped = 0;
+  private limited?: number;
+
+  constructor(
+    private readonly load: () => Doc[],
+    private readonly single = false,
+  ) {}
+
+  sort(order: Record<string, 1 | -1>): this {
+    this.order = order;
+    return this;
+  }
+
+  skip(count: number): this {
+    this.skipped = count;
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limited = count;
+    return this;
+  }
+
+  lean<L = R>(): FakeQuery<L> {
+    return this as unknown as FakeQuery<L>;
+  }
+
+  exec(): Promise<R> {
+    return Promise.resolve(this.result());
+  }
+
+  then<A = R, B = never>(
+    resolve?: (value: R) => A | PromiseLike<A>,
+    reject?: (reason: unknown) => B | PromiseLike<B>,
+  ): Promise<A | B> {
+    return this.exec().then(resolve, reject);
+  }
+
+  private result(): R {
+    let docs = this.load().map((doc) => ({ ...doc }));
+    if (this.order) {
+      const fields = Object.entries(this.order);
+      docs.sort((a, b) => {
+        for (const [field, direction] of fields) {
+          const diff = compare(a[field], b[field]);
+          if (diff !== 0) return diff * direction;
+        }
+        return 0;
+      });
+    }
+    docs = docs.slice(
+      this.skipped,
+      this.limited !== undefined ? this.skipped + this.limited : undefined,
+    );
+    return (this.single ? (docs[0] ?? null) : docs) as R;
+  }
+}
+
+function applyUpdate(doc: Doc, update: Update): void {
+  Object.assign(doc, update.$set);
+  for (const field of Object.keys(update.$unset ?? {})) {
+    delete doc[field];
+  }
+  for (const [field, amount] of Object.entries(update.$inc ?? {})) {
+    doc[field] = (doc[field] ?? 0) + amount;
+  }
+}
+
+function isOperator(value: unknown): boolean {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    !(value instanceof Date) &&
+    !(value instanceof Types.ObjectId) &&
+    !Array.isArray(value) &&
+    Object.keys(value).some((key) => key.startsWith('$'))
+  );
+}
+
+function matches(doc: Doc, query: Query): boolean {
+  return Object.entries(query).every(([field, condition]) => {
+    const value = doc[field];
+    if (!isOperator(condition)) {
+      return Array.isArray(value) && !Array.isArray(condition)
+        ? value.some((item) => same(item, condition))
+        : same(value, condition);
+    }
+    return Object.entries(condition as Doc).every(([op, operand]) => {
+      switch (op) {
+        case '$in':
+          return (operand as unknown[]).some((o) => same(value, o));
+        case '$nin':
+          return !(operand as unknown[]).some((o) => same(value, o));
+        case '$ne':
+          return !same(value, operand);
+        case '$gt':
+          return value != null && compare(value, operand) > 0;
+        case '$gte':
+          return value != null && compare(value, operand) >= 0;
+        case '$lt':
+          return value != null && compare(value, operand) < 0;
+        case '$lte':
+          return value != null && compare(value, operand) <= 0;
+        case '$exists':
+          return (value !== undefined) === operand;
+        default:
+          throw new Error(`FakeModel does not support ${op}`);
+      }
+    });
+  });
+}
+
+function same(a: unknown, b: unknown): boolean {
+  if (a == null || b == null) {
+    return a == null && b == null;
+  }
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a as Date).getTime() === new Date(b as Date).getTime();
+  }
+  return String(a) === String(b);
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a as Date).getTime() - new Date(b as Date).getTime();
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a ?? '').localeCompare(String(b ?? ''));
+}